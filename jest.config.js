@@ -0,0 +1,14 @@
+/** @type {import('jest').Config} */
+export default {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  transform: {
+    // type-check is done by tsc (npm run build), tests are only transpiled
+    '^.+\\.tsx?$': ['ts-jest', { isolatedModules: true }],
+  },
+  moduleNameMapper: {
+    '^@src/(.*)$': '<rootDir>/src/$1',
+    '^@assets/(.*)$': '<rootDir>/src/assets/$1',
+    '^@pages/(.*)$': '<rootDir>/src/pages/$1',
+  },
+};
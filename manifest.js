@@ -14,7 +14,9 @@ const manifest = {
     service_worker: 'src/pages/background/index.js',
     type: 'module',
   },
-  permissions: ['identity', 'storage'],
+  permissions: ['identity', 'storage', 'alarms'],
+  // to send the background job status to the open gmail tabs
+  host_permissions: ['https://mail.google.com/*'],
   action: {
     default_popup: 'src/pages/popup/index.html',
     default_icon: 'icon-128.png',
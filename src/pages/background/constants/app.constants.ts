@@ -1,9 +1,32 @@
+import type { DeleteProtection } from '../types/background.types';
+
 // dummy email used to tag/identify  filters created by app (fresh inbox
 export const FRESH_INBOX_FILTER_EMAIL = 'filter@getfreshinbox.com';
 
+// name of the label applied by the move-to-label filter action
+export const NEWSLETTER_LABEL_NAME = 'Newsletters';
+
 // max number of results returned from the gmail api
 export const API_MAX_RESULT = 500;
 
+// default delete protection preferences (see DeleteProtection type)
+export const DEFAULT_DELETE_PROTECTION: DeleteProtection = {
+  excludeStarred: true,
+  excludeImportant: true,
+  excludeSentThreads: true,
+  protectedLabels: [],
+  maxDeleteCount: 5000,
+};
+
+// alarm to resume the unfinished background jobs of an account (alarm name: prefix + account email)
+export const JOB_ALARM_PREFIX = 'freshInbox-jobs:';
+
+// alarm to run a scheduled cleanup rule (alarm name: prefix + account email + : + rule id)
+export const RULE_ALARM_PREFIX = 'freshInbox-rule:';
+
+// alarm to silently refresh the token of an account before it expires (alarm name: prefix + account email)
+export const SESSION_ALARM_PREFIX = 'freshInbox-session:';
+
 // scopes for google auth
 // https://www.googleapis.com/auth/gmail.modify :- to get emails/message
 // https://www.googleapis.com/auth/gmail.settings.basic :- to create/delete filters
@@ -17,9 +40,24 @@ export const storageKeys = {
   WHITELIST_FILTER_ID: 'WHITELIST_FILTER_ID',
   IS_APP_ENABLED: 'IS_APP_ENABLED',
   DONT_SHOW_DELETE_CONFIRM_MSG: 'DONT_SHOW_DELETE_CONFIRM_MSG',
+  DRY_RUN_MODE: 'DRY_RUN_MODE',
+  DELETE_PROTECTION: 'DELETE_PROTECTION',
   NEWSLETTER_EMAILS: 'NEWSLETTER_EMAILS',
   UNSUBSCRIBED_EMAILS: 'UNSUBSCRIBED_EMAILS',
+  LIST_UNSUBSCRIBED_EMAILS: 'LIST_UNSUBSCRIBED_EMAILS',
   WHITELISTED_EMAILS: 'WHITELISTED_EMAILS',
+  SKIP_INBOX_FILTER_ID: 'SKIP_INBOX_FILTER_ID',
+  SKIP_INBOX_EMAILS: 'SKIP_INBOX_EMAILS',
+  MARK_READ_FILTER_ID: 'MARK_READ_FILTER_ID',
+  MARK_READ_EMAILS: 'MARK_READ_EMAILS',
+  MOVE_TO_LABEL_FILTER_ID: 'MOVE_TO_LABEL_FILTER_ID',
+  MOVE_TO_LABEL_EMAILS: 'MOVE_TO_LABEL_EMAILS',
+  NEWSLETTER_SENDER_INDEX: 'NEWSLETTER_SENDER_INDEX',
+  PENDING_FILTER_UPDATE: 'PENDING_FILTER_UPDATE',
+  TRASH_JOURNAL: 'TRASH_JOURNAL',
+  JOBS: 'JOBS',
+  RULES: 'RULES',
+  RULE_RUNS: 'RULE_RUNS',
 } as const;
 
 export type StorageKey = keyof typeof storageKeys;
@@ -4,10 +4,14 @@ import {
   IMessageBody,
   IMessageEvent,
   INewsletterEmails,
-  ISession,
+  CleanupRuleSummary,
+  DeleteCount,
+  MessagePreview,
+  SenderBreakdownResult,
+  TrashJournalSummary,
 } from './types/background.types';
 import { asyncMessageHandler } from './utils/asyncMessageHandler';
-import { logoutUser, getAuthToken, launchGoogleAuthFlow } from './services/auth';
+import { clearUserData, handleSessionAlarm, restoreUserSession, signInUser } from './services/auth/session';
 import {
   deleteAllMails,
   getNewsletterEmails,
@@ -19,15 +23,26 @@ import { getWhitelistedEmails } from './services/api/gmail/handler/getWhiteliste
 import { whitelistEmail } from './services/api/gmail/handler/whitelistEmail';
 import { resubscribeEmail } from './services/api/gmail/handler/resubscribeEmail';
 import { getNewsletterEmailsOnPage } from './services/api/gmail/handler/getNewsletterEmailsOnPage';
+import { applyFilterAction } from './services/api/gmail/handler/applyFilterAction';
+import { removeFilterAction } from './services/api/gmail/handler/removeFilterAction';
+import { getFilterActionEmails } from './services/api/gmail/handler/getFilterActionEmails';
+import { undoDelete } from './services/api/gmail/handler/undoDelete';
+import { getTrashJournal } from './services/api/gmail/handler/getTrashJournal';
+import { getLabels } from './services/api/gmail/handler/getLabels';
+import { deleteRule, getRules, runRule, saveRule } from './services/api/gmail/handler/cleanupRules';
 import { logger } from './utils/logger';
 import { StorageKey, UserStorageKey, storageKeys } from './constants/app.constants';
-import { getSessionStorageByKey } from './utils/getStorageByKey';
+import { getSyncStorageByKey } from './utils/getStorageByKey';
 import { advanceSearch } from './services/api/gmail/handler/advance-search/advanceSearch';
 import { bulkDelete } from './services/api/gmail/handler/advance-search/bulkDelete';
-import { sendMsgToTab } from './utils/sendMsgToTab';
+import { getMessagePreviews } from './services/api/gmail/handler/advance-search/getMessagePreviews';
+import { getSenderBreakdown } from './services/api/gmail/handler/advance-search/getSenderBreakdown';
+import { getDeleteCount } from './services/api/gmail/handler/getDeleteCount';
 import { setStorage } from './utils/setStorage';
-import { hasTokenExpired } from './utils/hasTokenExpired';
-import { getFilterId } from './services/api/gmail/helper/getFilterId';
+import { getFilterIds } from './services/api/gmail/helper/getFilterIds';
+import { recoverPendingFilterUpdate } from './services/api/gmail/helper/filterUpdate';
+import { cancelJob, handleJobAlarm, resumeJobs } from './services/jobs/jobQueue';
+import { handleRuleAlarm, syncRuleAlarms } from './services/rules/cleanupRules';
 
 reloadOnUpdate('pages/background');
 
@@ -36,44 +51,40 @@ reloadOnUpdate('pages/content/style.scss');
 
 logger.info('🏁 background script loaded');
 
-// current session: email, token,tokenExpireAt
-const currentSession: ISession = {
-  email: '',
-  token: '',
-  expiresAt: '',
-};
-
-// google client id from env variables for google auth
-const googleClientId = import.meta.env.VITE_GOOGLE_CLIENT_ID;
+// accounts for which the unfinished jobs are resumed (once per service worker startup)
+const resumedAccounts = new Set<string>();
 
 // generate storage key with user email, to differentiate data stored for multi email/users
-export const generateStorageKey = (key: StorageKey): UserStorageKey => `${currentSession.email}-${key}`;
+export const generateStorageKey = (accountEmail: string, key: StorageKey): UserStorageKey =>
+  `${accountEmail}-${key}`;
 
 // initialize chrome storage on app install
-const initializeStorage = async (userToken: string) => {
+const initializeStorage = async (accountEmail: string) => {
   try {
     const promises = [
       // sync storage
       // set app status
-      setStorage({ type: 'sync', key: storageKeys.IS_APP_ENABLED, value: true }),
+      setStorage({ accountEmail, type: 'sync', key: storageKeys.IS_APP_ENABLED, value: true }),
       // set preference: confirm delete action
-      setStorage({ type: 'sync', key: storageKeys.DONT_SHOW_DELETE_CONFIRM_MSG, value: false }),
+      setStorage({ accountEmail, type: 'sync', key: storageKeys.DONT_SHOW_DELETE_CONFIRM_MSG, value: false }),
+      // set preference: dry run mode (delete/unsubscribe actions only report the changes)
+      setStorage({ accountEmail, type: 'sync', key: storageKeys.DRY_RUN_MODE, value: false }),
 
       //-- checks if app custom filter exists, if not create it (after successful auth)
       // unsubscribe filter
-      getFilterId({ userToken, filterAction: FILTER_ACTION.TRASH }),
+      getFilterIds({ accountEmail, filterAction: FILTER_ACTION.TRASH }),
       // whitelist filter
-      getFilterId({ userToken, filterAction: FILTER_ACTION.INBOX }),
+      getFilterIds({ accountEmail, filterAction: FILTER_ACTION.INBOX }),
 
       // local storage - get emails from filters and set to local storage
       // get/set unsubscribed emails
-      getUnsubscribedEmails(userToken),
+      getUnsubscribedEmails(accountEmail),
 
       // get/set whitelisted emails
-      getWhitelistedEmails(userToken),
+      getWhitelistedEmails(accountEmail),
 
       // get/set newsletter emails
-      getNewsletterEmails(userToken),
+      getNewsletterEmails(accountEmail),
     ];
 
     // wait for all promises to resolve
@@ -92,42 +103,12 @@ const initializeStorage = async (userToken: string) => {
   }
 };
 
-// store user session (email, token, ) in chrome session storage
-const saveUserSession = async ({ token, email }: Pick<ISession, 'token' | 'email'>) => {
-  // store session details
-  currentSession.email = email;
-  currentSession.token = token;
-
-  const expireAt = new Date();
-
-  // set token expiry time (it's valid for 60m)
-  expireAt.setMinutes(expireAt.getMinutes() + 55);
-
-  currentSession.expiresAt = expireAt.toString();
-
-  // store session in chrome session storage
-  await setStorage({ type: 'session', key: storageKeys.SESSIONS, value: currentSession });
-};
-
-// logout & clear user data
-export const clearUserData = async (disableApp = false) => {
-  await logoutUser(currentSession.token, disableApp);
-  // remove session from chrome storage
-  const userStorageKey = generateStorageKey(storageKeys.SESSIONS);
-  await chrome.storage.session.remove(userStorageKey);
-
-  // reset session variable
-  currentSession.email = '';
-  currentSession.token = '';
-  currentSession.expiresAt = '';
-};
-
 chrome.runtime.onInstalled.addListener(async details => {
   if (details.reason === 'install') {
   }
 });
 
-// checks for user session and refreshes token if needed
+// checks for user session of the account and refreshes token if needed, returns true if the session is valid
 const checkUserSession = async (event: IMessageEvent, userEmail: string) => {
   //
   logger.info(`Current Session: ${userEmail}`);
@@ -136,101 +117,93 @@ const checkUserSession = async (event: IMessageEvent, userEmail: string) => {
   if (
     event === IMessageEvent.CHECK_AUTH_TOKEN ||
     event === IMessageEvent.LAUNCH_AUTH_FLOW ||
-    event === IMessageEvent.DISABLE_FRESH_INBOX
+    event === IMessageEvent.DISABLE_FRESH_INBOX ||
+    !userEmail
   )
-    return;
+    return false;
 
-  // check if the user whose session details are stored in currentSession variable is sending emails
-  // and also check if the token is valid
-  if (
-    currentSession.email === userEmail &&
-    currentSession.token &&
-    !hasTokenExpired(currentSession.expiresAt)
-  )
-    return;
-
-  const userStorageKey: UserStorageKey = `${userEmail}-${storageKeys.SESSIONS}`;
-
-  // if not, get user session from chrome session storage
-  const userSession = await getSessionStorageByKey(userStorageKey);
-
-  // check if userSession exists & has not expired
-  if (userSession && !hasTokenExpired(userSession.expiresAt)) {
-    // userToken found in storage and is valid
-    currentSession.token = userSession.token;
-    currentSession.email = userSession.email;
-    currentSession.expiresAt = userSession.expiresAt;
-  } else {
-    // userToken not found in storage or has expired
-
-    // get new userToken
-    const token = await getAuthToken(currentSession.email, googleClientId);
-
-    if (token) {
-      // save new token
-      await saveUserSession({ token, email: currentSession.email });
-    } else {
-      // clear session data, revoke userToken, clear storage.
-      await clearUserData(false);
-      // logout user in the content script
-      await sendMsgToTab({
-        event: IMessageEvent.LOGOUT_USER,
-      });
-    }
-  }
+  return await restoreUserSession(userEmail);
 };
 
+// delete/unsubscribe actions are run as dry run if requested or if the dry run mode (preference) is on
+const isDryRunRequest = async (request: IMessageBody) =>
+  !!request.isDryRun || !!(await getSyncStorageByKey<boolean>(request.userEmail, storageKeys.DRY_RUN_MODE));
+
+// refresh the tokens before they expire
+chrome.alarms.onAlarm.addListener(handleSessionAlarm);
+
+// resume the unfinished background jobs (service worker was suspended or restarted)
+chrome.alarms.onAlarm.addListener(handleJobAlarm);
+
+// run the scheduled cleanup rules
+chrome.alarms.onAlarm.addListener(handleRuleAlarm);
+
 //SECTION listen for messages from content script
 chrome.runtime.onMessage.addListener(
-  asyncMessageHandler<IMessageBody, string | boolean | INewsletterEmails[] | string[]>(async request => {
+  asyncMessageHandler<
+    IMessageBody,
+    | string
+    | boolean
+    | number
+    | INewsletterEmails[]
+    | string[]
+    | Partial<IMessageBody>
+    | TrashJournalSummary[]
+    | MessagePreview[]
+    | SenderBreakdownResult
+    | CleanupRuleSummary[]
+    | DeleteCount
+  >(async request => {
     logger.info(`received event: ${request.event}`);
 
+    // account (gmail tab) the event is sent from, every handler uses the session of this account
+    const accountEmail = request.userEmail;
+
     // check for user session (authorization), refreshes token if needed before handling events
-    await checkUserSession(request.event, request.userEmail);
+    const isSessionValid = await checkUserSession(request.event, accountEmail);
+
+    if (isSessionValid) {
+      // finish or revert the filter update interrupted in the last session (ex: service worker was killed),
+      // every event waits for the same recovery, filter writes are started only after it
+      // (failed recovery is logged & tried again before the next filter write)
+      await recoverPendingFilterUpdate(accountEmail).catch(() => undefined);
+
+      if (!resumedAccounts.has(accountEmail)) {
+        resumedAccounts.add(accountEmail);
+        // not awaited, jobs keep running in the background
+        resumeJobs(accountEmail);
+        await syncRuleAlarms(accountEmail);
+      }
+    }
 
     //  handle all the  events
     switch (request.event) {
       // check for user userToken
       case IMessageEvent.CHECK_AUTH_TOKEN: {
-        const token = await getAuthToken(request.userEmail, googleClientId);
-
-        if (token) {
-          await saveUserSession({
-            token,
-            email: request.userEmail,
-          });
-          return true;
-        } else {
-          return false;
-        }
+        const { authError } = await signInUser(accountEmail, false);
+        return !authError;
       }
 
       // launch google auth
       case IMessageEvent.LAUNCH_AUTH_FLOW: {
-        const token = await launchGoogleAuthFlow(request.userEmail, googleClientId);
-        if (token) {
+        const authResult = await signInUser(accountEmail, true);
+        if (!authResult.authError) {
           // enable app  (after successful auth)
-          await setStorage({ type: 'sync', key: storageKeys.IS_APP_ENABLED, value: true });
-          // save user session
-          await saveUserSession({
-            token,
-            email: request.userEmail,
-          });
-          return true;
-        } else {
-          return false;
+          await setStorage({ accountEmail, type: 'sync', key: storageKeys.IS_APP_ENABLED, value: true });
         }
+        // auth error is shown on the auth card (ex: access denied, permissions unchecked)
+        return authResult;
       }
 
       case IMessageEvent.CHECKS_AFTER_AUTH: {
         // check app (fresh inbox) custom filters
-        return await initializeStorage(currentSession.token);
+        return await initializeStorage(accountEmail);
       }
 
       // unsubscribe email
       case IMessageEvent.UNSUBSCRIBE: {
         return await unsubscribeEmail({
-          userToken: currentSession.token,
+          accountEmail,
           emails: request.emails,
           isWhitelisted: request.isWhitelisted,
         });
@@ -238,21 +211,36 @@ chrome.runtime.onMessage.addListener(
 
       // delete all mails
       case IMessageEvent.DELETE_ALL_MAILS: {
-        return await deleteAllMails({ userToken: currentSession.token, emails: request.emails });
+        return await deleteAllMails({
+          accountEmail,
+          emails: request.emails,
+          jobId: request.jobId,
+          isDryRun: await isDryRunRequest(request),
+          isOverLimitConfirmed: request.isOverLimitConfirmed,
+          retention: request.retention,
+        });
       }
 
       // unsubscribe and delete all mails
       case IMessageEvent.UNSUBSCRIBE_AND_DELETE_MAILS: {
         return await unsubscribeAndDeleteAllMails({
-          userToken: currentSession.token,
+          accountEmail,
           emails: request.emails,
           isWhitelisted: request.isWhitelisted,
+          jobId: request.jobId,
+          isDryRun: await isDryRunRequest(request),
+          isOverLimitConfirmed: request.isOverLimitConfirmed,
         });
       }
 
+      // number & size of the mails the delete all mails would delete (estimated or exact count)
+      case IMessageEvent.GET_DELETE_COUNT: {
+        return await getDeleteCount(accountEmail, request.emails, request.isExactCount, request.retention);
+      }
+
       // get all newsletter emails
       case IMessageEvent.GET_NEWSLETTER_EMAILS: {
-        const newsletterEmails = await getNewsletterEmails(currentSession.token);
+        const newsletterEmails = await getNewsletterEmails(accountEmail);
 
         if (newsletterEmails) {
           return newsletterEmails;
@@ -263,48 +251,130 @@ chrome.runtime.onMessage.addListener(
 
       //  whitelist email
       case IMessageEvent.WHITELIST_EMAIL: {
-        return await whitelistEmail({ userToken: currentSession.token, emails: request.emails });
+        return await whitelistEmail({ accountEmail, emails: request.emails });
       }
 
       //  re-subscribe
       case IMessageEvent.RE_SUBSCRIBE: {
-        return await resubscribeEmail({ userToken: currentSession.token, emails: request.emails });
+        return await resubscribeEmail({ accountEmail, emails: request.emails });
       }
 
       //  check for newsletter emails on page
       case IMessageEvent.GET_NEWSLETTER_EMAILS_ON_PAGE: {
         return await getNewsletterEmailsOnPage({
-          userToken: currentSession.token,
+          accountEmail,
           dataOnPage: request.dataOnPage,
         });
       }
 
       // get unsubscribed emails
       case IMessageEvent.GET_UNSUBSCRIBED_EMAILS: {
-        return await getUnsubscribedEmails(currentSession.token);
+        return await getUnsubscribedEmails(accountEmail);
       }
 
       //  get whitelisted emails
       case IMessageEvent.GET_WHITELISTED_EMAILS: {
-        return await getWhitelistedEmails(currentSession.token);
+        return await getWhitelistedEmails(accountEmail);
+      }
+
+      // add senders to the filter action (skip inbox, mark read, move to label)
+      case IMessageEvent.APPLY_FILTER_ACTION: {
+        return await applyFilterAction({
+          accountEmail,
+          emails: request.emails,
+          filterAction: request.filterAction,
+        });
+      }
+
+      // remove senders from the filter action
+      case IMessageEvent.REMOVE_FILTER_ACTION: {
+        return await removeFilterAction({
+          accountEmail,
+          emails: request.emails,
+          filterAction: request.filterAction,
+        });
+      }
+
+      // get senders of the filter action
+      case IMessageEvent.GET_FILTER_ACTION_EMAILS: {
+        return await getFilterActionEmails(accountEmail, request.filterAction);
+      }
+
+      // undo delete: restore deleted mails from trash
+      case IMessageEvent.UNDO_DELETE: {
+        return await undoDelete(accountEmail, request.trashJournalId);
+      }
+
+      // get delete history (trash journal)
+      case IMessageEvent.GET_TRASH_JOURNAL: {
+        return await getTrashJournal(accountEmail);
+      }
+
+      // advance search: get user labels for the label filter
+      case IMessageEvent.GET_LABELS: {
+        return await getLabels(accountEmail);
       }
 
       // advance search: search number of emails that match the filters
       case IMessageEvent.ADVANCE_SEARCH: {
-        return await advanceSearch(currentSession.token, request.advanceSearch);
+        return await advanceSearch(accountEmail, request.advanceSearch, request.jobId);
+      }
+
+      // advance search: preview of the result messages (single page)
+      case IMessageEvent.GET_MESSAGE_PREVIEWS: {
+        return await getMessagePreviews(accountEmail, request.messageIds);
+      }
+
+      // advance search: result grouped by sender
+      case IMessageEvent.GET_SENDER_BREAKDOWN: {
+        return await getSenderBreakdown(accountEmail, request.messageIds);
       }
 
       // advance search: bulk delete emails
       case IMessageEvent.BULK_DELETE: {
-        return await bulkDelete(currentSession.token, request.emails);
+        return await bulkDelete(
+          accountEmail,
+          request.emails,
+          request.jobId,
+          await isDryRunRequest(request),
+          request.isOverLimitConfirmed
+        );
+      }
+
+      // cancel background job (delete all mails, advance search, bulk delete)
+      case IMessageEvent.CANCEL_JOB: {
+        return await cancelJob(accountEmail, request.jobId);
+      }
+
+      // get cleanup rules with their run history
+      case IMessageEvent.GET_RULES: {
+        return await getRules(accountEmail);
+      }
+
+      // create/update (pause/resume) cleanup rule
+      case IMessageEvent.SAVE_RULE: {
+        return await saveRule(accountEmail, request.rule);
+      }
+
+      // delete cleanup rule
+      case IMessageEvent.DELETE_RULE: {
+        return await deleteRule(accountEmail, request.ruleId);
+      }
+
+      // run (or dry run) cleanup rule now
+      case IMessageEvent.RUN_RULE: {
+        return await runRule({
+          accountEmail,
+          ruleId: request.ruleId,
+          isDryRun: request.isDryRun,
+          jobId: request.jobId,
+        });
       }
 
       // disable app
       case IMessageEvent.DISABLE_FRESH_INBOX: {
-        // set user email if not set already
-        currentSession.email || (currentSession.email = request.userEmail);
-        // clear user data, revoke userToken, clear storage.
-        await clearUserData(true);
+        // clear user data of the account, revoke userToken, clear storage
+        await clearUserData(accountEmail, true);
         return true;
       }
 
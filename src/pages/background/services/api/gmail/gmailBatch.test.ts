@@ -0,0 +1,117 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildBatchRequestBody, parseBatchResponse } from './gmailBatch';
+
+const CRLF = '\r\n';
+
+describe('buildBatchRequestBody', () => {
+  it('builds a part for each request with its Content-ID', () => {
+    const body = buildBatchRequestBody(
+      [
+        { id: 'message-1', method: 'GET', path: '/gmail/v1/users/me/messages/1?format=minimal' },
+        { id: 'message-2', method: 'DELETE', path: '/gmail/v1/users/me/messages/2' },
+      ],
+      'batch_test'
+    );
+
+    expect(body).toBe(
+      [
+        '--batch_test',
+        'Content-Type: application/http',
+        'Content-ID: <message-1>',
+        '',
+        'GET /gmail/v1/users/me/messages/1?format=minimal HTTP/1.1',
+        '',
+        '--batch_test',
+        'Content-Type: application/http',
+        'Content-ID: <message-2>',
+        '',
+        'DELETE /gmail/v1/users/me/messages/2 HTTP/1.1',
+        '',
+        '--batch_test--',
+      ].join(CRLF)
+    );
+  });
+
+  it('adds the json body of the request', () => {
+    const body = buildBatchRequestBody(
+      [{ id: 'filter', method: 'POST', path: '/gmail/v1/users/me/settings/filters', body: { id: 'abc' } }],
+      'batch_test'
+    );
+
+    expect(body).toContain(
+      [
+        'POST /gmail/v1/users/me/settings/filters HTTP/1.1',
+        'Content-Type: application/json',
+        '',
+        '{"id":"abc"}',
+      ].join(CRLF)
+    );
+  });
+});
+
+// batch response part of the http response
+const responsePart = (boundary: string, id: string, statusLine: string, body: string) =>
+  [
+    `--${boundary}`,
+    'Content-Type: application/http',
+    `Content-ID: <response-${id}>`,
+    '',
+    statusLine,
+    'Content-Type: application/json; charset=UTF-8',
+    '',
+    body,
+    '',
+  ].join(CRLF);
+
+describe('parseBatchResponse', () => {
+  it('maps each part back to its request with the status & parsed body', () => {
+    const responseText = [
+      responsePart('batch_res', 'message-1', 'HTTP/1.1 200 OK', '{"id":"1","labelIds":["INBOX"]}'),
+      responsePart('batch_res', 'message-2', 'HTTP/1.1 404 Not Found', '{"error":{"code":404}}'),
+      '--batch_res--',
+    ].join('');
+
+    expect(parseBatchResponse(responseText, 'multipart/mixed; boundary=batch_res')).toEqual([
+      { id: 'message-1', status: 200, body: { id: '1', labelIds: ['INBOX'] } },
+      { id: 'message-2', status: 404, body: { error: { code: 404 } } },
+    ]);
+  });
+
+  it('reads the boundary from the body if the content type has none', () => {
+    const responseText = `${responsePart('batch_res', 'message-1', 'HTTP/1.1 200 OK', '{}')}--batch_res--`;
+
+    expect(parseBatchResponse(responseText, null)).toEqual([{ id: 'message-1', status: 200, body: {} }]);
+  });
+
+  it('parses the quoted boundary & lf line endings', () => {
+    const responseText = `${responsePart(
+      'batch_res',
+      'message-1',
+      'HTTP/1.1 429 Too Many Requests',
+      ''
+    )}--batch_res--`
+      .split(CRLF)
+      .join('\n');
+
+    expect(parseBatchResponse(responseText, 'multipart/mixed; boundary="batch_res"')).toEqual([
+      { id: 'message-1', status: 429, body: null },
+    ]);
+  });
+
+  it('sets the body to null if it is not json', () => {
+    const responseText = `${responsePart(
+      'batch_res',
+      'message-1',
+      'HTTP/1.1 500 Error',
+      'error'
+    )}--batch_res--`;
+
+    expect(parseBatchResponse(responseText, 'multipart/mixed; boundary=batch_res')).toEqual([
+      { id: 'message-1', status: 500, body: null },
+    ]);
+  });
+
+  it('throws if the boundary is not found', () => {
+    expect(() => parseBatchResponse('', null)).toThrow();
+  });
+});
@@ -0,0 +1,139 @@
+// gmail batch requests: multipart/mixed request builder & response parser
+//LINK - https://developers.google.com/gmail/api/guides/batch
+
+// a single request of the batch request
+export type BatchRequest = {
+  // Content-ID of the part, used to map the response back to the request
+  id: string;
+  method: 'GET' | 'POST' | 'DELETE';
+  // ex: /gmail/v1/users/me/messages/123?format=metadata
+  path: string;
+  // json body
+  body?: unknown;
+};
+
+// response of a single request of the batch request
+export type BatchResponsePart<T = unknown> = {
+  // Content-ID of the request this part belongs to
+  id: string;
+  // http status of the part (ex: 200, 404, 429)
+  status: number;
+  // parsed json body (success response or error response)
+  body: T | null;
+};
+
+// gmail api limit: max 100 requests per batch
+export const BATCH_MAX_REQUESTS = 100;
+
+const CRLF = '\r\n';
+
+// build multipart/mixed body for the batch request
+export const buildBatchRequestBody = (requests: BatchRequest[], boundary: string) => {
+  const parts = requests.map(req => {
+    const httpRequest = [`${req.method} ${req.path} HTTP/1.1`];
+
+    if (req.body !== undefined) {
+      httpRequest.push('Content-Type: application/json', '', JSON.stringify(req.body));
+    }
+
+    return [
+      `--${boundary}`,
+      'Content-Type: application/http',
+      `Content-ID: <${req.id}>`,
+      '',
+      ...httpRequest,
+      '',
+    ].join(CRLF);
+  });
+
+  return `${parts.join(CRLF)}${CRLF}--${boundary}--`;
+};
+
+// get boundary from the content-type header
+// ex: multipart/mixed; boundary=batch_abc123
+const getBoundary = (contentType: string | null, responseText: string) => {
+  const boundaryMatch = contentType?.match(/boundary="?([^";]+)"?/i);
+
+  if (boundaryMatch) return boundaryMatch[1];
+
+  // fallback to the first delimiter line of the body
+  const firstDelimiter = responseText.split(/\r?\n/).find(line => line.startsWith('--'));
+
+  return firstDelimiter ? firstDelimiter.slice(2).trim() : null;
+};
+
+// split header lines & body at the first empty line
+const splitHeadersAndBody = (text: string) => {
+  const match = text.match(/\r?\n\r?\n/);
+
+  if (!match || match.index === undefined) return { headerLines: text.split(/\r?\n/), body: '' };
+
+  return {
+    headerLines: text.slice(0, match.index).split(/\r?\n/),
+    body: text.slice(match.index + match[0].length),
+  };
+};
+
+// get header value (case-insensitive) from header lines
+const getHeader = (headerLines: string[], name: string) => {
+  const line = headerLines.find(headerLine => headerLine.toLowerCase().startsWith(`${name.toLowerCase()}:`));
+
+  return line ? line.slice(name.length + 1).trim() : null;
+};
+
+// response Content-ID is prefixed with "response-" and may be wrapped in <>
+// ex: <response-message-123> -> message-123
+const getRequestId = (contentId: string) => contentId.replace(/^<|>$/g, '').replace(/^response-/, '');
+
+// parse multipart/mixed batch response, each part is mapped back to the request via Content-ID
+export const parseBatchResponse = <T = unknown>(
+  responseText: string,
+  contentType: string | null
+): BatchResponsePart<T>[] => {
+  const boundary = getBoundary(contentType, responseText);
+
+  if (!boundary) throw new Error('❌ Batch response boundary not found');
+
+  const parts: BatchResponsePart<T>[] = [];
+
+  // text before the first delimiter & after the close delimiter is ignored
+  const rawParts = responseText.split(`--${boundary}`).slice(1);
+
+  for (const rawPart of rawParts) {
+    // close delimiter
+    if (rawPart.startsWith('--')) break;
+
+    // part headers (Content-Type, Content-ID) & the http response
+    const { headerLines: partHeaderLines, body: httpResponse } = splitHeadersAndBody(
+      rawPart.replace(/^\r?\n/, '')
+    );
+
+    const contentId = getHeader(partHeaderLines, 'Content-ID');
+
+    // http response: status line, headers & body
+    const { headerLines: responseHeaderLines, body } = splitHeadersAndBody(httpResponse);
+
+    // ex: HTTP/1.1 200 OK
+    const statusMatch = responseHeaderLines[0]?.match(/^HTTP\/[\d.]+\s+(\d{3})/);
+
+    const trimmedBody = body.trim();
+
+    let parsedBody: T | null = null;
+
+    if (trimmedBody) {
+      try {
+        parsedBody = JSON.parse(trimmedBody);
+      } catch {
+        parsedBody = null;
+      }
+    }
+
+    parts.push({
+      id: contentId ? getRequestId(contentId) : '',
+      status: statusMatch ? Number(statusMatch[1]) : 0,
+      body: parsedBody,
+    });
+  }
+
+  return parts;
+};
@@ -0,0 +1,258 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { errorMessage } from '@src/pages/background/utils/apiErrorHandler';
+import { logger } from '@src/pages/background/utils/logger';
+import { createGmailClient, type GmailClientOptions } from './gmailClient';
+
+// session uses the chrome & vite env apis, not used by the created clients
+jest.mock('../../auth/session', () => ({
+  getSessionToken: jest.fn(),
+  reauthorizeSession: jest.fn(),
+  signOutUser: jest.fn(),
+}));
+
+jest.mock('@src/pages/background/utils/logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn() },
+}));
+
+// requests are made with the url string
+type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+
+// json response of the fake fetch
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(body === null ? null : JSON.stringify(body), { status, headers });
+
+// google api error response with the error reason
+const errorResponse = (status: number, reason?: string, headers?: Record<string, string>) =>
+  jsonResponse(
+    status,
+    { error: { code: status, message: 'error', errors: reason ? [{ reason }] : [] } },
+    headers
+  );
+
+// fake fetch that returns the responses in order
+const mockFetch = (...responses: Response[]) => {
+  const fetchFn = jest.fn<FetchFn>();
+
+  responses.forEach(res => fetchFn.mockResolvedValueOnce(res));
+
+  return fetchFn;
+};
+
+// client with the fake fetch & sleep (no real delays)
+const createTestClient = ({
+  fetchFn,
+  ...options
+}: Partial<Omit<GmailClientOptions, 'fetchFn'>> & { fetchFn: FetchFn }) => {
+  const sleep = jest.fn((_ms: number) => Promise.resolve());
+
+  const client = createGmailClient({
+    getToken: () => 'token',
+    baseUrl: 'https://gmail.test',
+    baseDelayMs: 100,
+    maxDelayMs: 1000,
+    maxRetries: 2,
+    sleep,
+    fetchFn: (input, init) => fetchFn(String(input), init),
+    ...options,
+  });
+
+  return { client, sleep };
+};
+
+// wait for the not awaited callbacks (ex: onAuthError)
+const flushPromises = () => new Promise(res => setTimeout(res, 0));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('createGmailClient request', () => {
+  it('sends the request with the auth header & query params', async () => {
+    const fetchFn = mockFetch(jsonResponse(200, { messages: [] }));
+    const { client } = createTestClient({ fetchFn });
+
+    expect(await client.messages.list({ q: 'from:a@b.com', maxResults: 10 })).toEqual({ messages: [] });
+
+    const [url, init] = fetchFn.mock.calls[0];
+
+    expect(url).toBe('https://gmail.test/gmail/v1/users/me/messages?q=from%3Aa%40b.com&maxResults=10');
+    expect(init.headers).toEqual({ Authorization: 'Bearer token' });
+  });
+
+  it('retries rate limit & server errors with exponential backoff', async () => {
+    // no jitter
+    const randomSpy = jest.spyOn(Math, 'random').mockReturnValue(0);
+
+    const fetchFn = mockFetch(errorResponse(429), errorResponse(503), jsonResponse(200, { id: '1' }));
+    const { client, sleep } = createTestClient({ fetchFn });
+
+    expect(await client.messages.get('1')).toEqual({ id: '1' });
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+
+    randomSpy.mockRestore();
+  });
+
+  it('waits for the Retry-After delay (max delay)', async () => {
+    const fetchFn = mockFetch(
+      errorResponse(429, undefined, { 'Retry-After': '0.5' }),
+      errorResponse(429, undefined, { 'Retry-After': '30' }),
+      jsonResponse(200, { id: '1' })
+    );
+    const { client, sleep } = createTestClient({ fetchFn });
+
+    await client.messages.get('1');
+
+    expect(sleep.mock.calls).toEqual([[500], [1000]]);
+  });
+
+  it('throws after the max retries', async () => {
+    const fetchFn = mockFetch(errorResponse(500), errorResponse(500), errorResponse(500));
+    const { client } = createTestClient({ fetchFn });
+
+    await expect(client.messages.get('1')).rejects.toThrow(errorMessage.somethingWentWrong);
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries 403 rate limit errors', async () => {
+    const fetchFn = mockFetch(errorResponse(403, 'userRateLimitExceeded'), jsonResponse(200, { id: '1' }));
+    const { client } = createTestClient({ fetchFn });
+
+    expect(await client.messages.get('1')).toEqual({ id: '1' });
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't retry 403 insufficient permissions & calls onAuthError", async () => {
+    const onAuthError = jest.fn(() => Promise.resolve());
+    const fetchFn = mockFetch(errorResponse(403, 'insufficientPermissions'));
+    const { client } = createTestClient({ fetchFn, onAuthError });
+
+    await expect(client.messages.get('1')).rejects.toThrow(errorMessage.insufficientPermissions);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(onAuthError).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries 401 once with the new token after re-auth', async () => {
+    let token = 'expired-token';
+
+    const reauthorize = jest.fn(async () => {
+      token = 'new-token';
+      return true;
+    });
+    const onAuthError = jest.fn(() => Promise.resolve());
+    const fetchFn = mockFetch(errorResponse(401), jsonResponse(200, { id: '1' }));
+    const { client } = createTestClient({ fetchFn, getToken: () => token, reauthorize, onAuthError });
+
+    expect(await client.messages.get('1')).toEqual({ id: '1' });
+    expect(reauthorize).toHaveBeenCalledTimes(1);
+    expect(fetchFn.mock.calls[1][1].headers).toEqual({ Authorization: 'Bearer new-token' });
+    expect(onAuthError).not.toHaveBeenCalled();
+  });
+
+  it('calls onAuthError if the request still fails with 401 after re-auth', async () => {
+    const reauthorize = jest.fn(() => Promise.resolve(true));
+    const onAuthError = jest.fn(() => Promise.resolve());
+    const fetchFn = mockFetch(errorResponse(401), errorResponse(401));
+    const { client } = createTestClient({ fetchFn, reauthorize, onAuthError });
+
+    await expect(client.messages.get('1')).rejects.toThrow(errorMessage.unauthorized);
+    expect(reauthorize).toHaveBeenCalledTimes(1);
+    expect(onAuthError).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs the failed onAuthError', async () => {
+    const onAuthError = jest.fn(() => Promise.reject(new Error('sign out failed')));
+    const fetchFn = mockFetch(errorResponse(401));
+    const { client } = createTestClient({ fetchFn, onAuthError });
+
+    await expect(client.messages.get('1')).rejects.toThrow(errorMessage.unauthorized);
+
+    await flushPromises();
+
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ error: new Error('sign out failed') })
+    );
+  });
+});
+
+// multipart batch response with the parts (id, status & json body)
+const batchResponse = (parts: { id: string; status: number; body: unknown }[]) =>
+  new Response(
+    `${parts
+      .map(part =>
+        [
+          '--batch_res',
+          'Content-Type: application/http',
+          `Content-ID: <response-${part.id}>`,
+          '',
+          `HTTP/1.1 ${part.status} Status`,
+          'Content-Type: application/json',
+          '',
+          JSON.stringify(part.body),
+          '',
+        ].join('\r\n')
+      )
+      .join('')}--batch_res--`,
+    { status: 200, headers: { 'Content-Type': 'multipart/mixed; boundary=batch_res' } }
+  );
+
+describe('createGmailClient batch', () => {
+  const requests = ['1', '2', '3'].map(id => ({
+    id: `message-${id}`,
+    method: 'GET' as const,
+    path: `/gmail/v1/users/me/messages/${id}`,
+  }));
+
+  it('retries only the parts that failed with retryable errors', async () => {
+    const fetchFn = mockFetch(
+      batchResponse([
+        { id: 'message-1', status: 200, body: { id: '1' } },
+        { id: 'message-2', status: 429, body: { error: { code: 429 } } },
+        { id: 'message-3', status: 404, body: { error: { code: 404 } } },
+      ]),
+      batchResponse([{ id: 'message-2', status: 200, body: { id: '2' } }])
+    );
+    const { client, sleep } = createTestClient({ fetchFn });
+
+    expect(await client.batch(requests)).toEqual([
+      { id: 'message-1', status: 200, body: { id: '1' } },
+      { id: 'message-2', status: 200, body: { id: '2' } },
+      { id: 'message-3', status: 404, body: { error: { code: 404 } } },
+    ]);
+
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(sleep).toHaveBeenCalledTimes(1);
+
+    // second batch has only the failed part
+    const retryBody = fetchFn.mock.calls[1][1].body as string;
+
+    expect(retryBody).toContain('Content-ID: <message-2>');
+    expect(retryBody).not.toContain('Content-ID: <message-1>');
+    expect(retryBody).not.toContain('Content-ID: <message-3>');
+  });
+
+  it('returns the failed parts after the max retries', async () => {
+    const failedPart = { id: 'message-1', status: 503, body: { error: { code: 503 } } };
+    const fetchFn = mockFetch(
+      batchResponse([failedPart]),
+      batchResponse([failedPart]),
+      batchResponse([failedPart])
+    );
+    const { client } = createTestClient({ fetchFn });
+
+    expect(await client.batch(requests.slice(0, 1))).toEqual([failedPart]);
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws if the batch has more than the max requests', async () => {
+    const { client } = createTestClient({ fetchFn: mockFetch() });
+
+    const tooManyRequests = Array.from({ length: 101 }, (_, i) => ({
+      id: `message-${i}`,
+      method: 'GET' as const,
+      path: `/gmail/v1/users/me/messages/${i}`,
+    }));
+
+    await expect(client.batch(tooManyRequests)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,343 @@
+import type {
+  GetMsgAPIResponse,
+  GmailFilter,
+  GmailFilters,
+  GmailHistoryList,
+  GmailLabel,
+  GmailLabels,
+  GmailMessageMetadata,
+  GmailProfile,
+} from '@src/pages/background/types/background.types';
+import {
+  errorMessage,
+  getAPIError,
+  type APIErrorResponse,
+} from '@src/pages/background/utils/apiErrorHandler';
+import { logger } from '@src/pages/background/utils/logger';
+import wait from '@src/pages/background/utils/wait';
+import {
+  BATCH_MAX_REQUESTS,
+  buildBatchRequestBody,
+  parseBatchResponse,
+  type BatchRequest,
+  type BatchResponsePart,
+} from './gmailBatch';
+import { getSessionToken, reauthorizeSession, signOutUser } from '../../auth/session';
+
+const GMAIL_API_BASE_URL = 'https://gmail.googleapis.com';
+
+type QueryParams = Record<string, string | number | boolean | string[] | undefined | null>;
+
+type RequestParams = {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  // path after the base url, ex: /gmail/v1/users/me/messages
+  path: string;
+  query?: QueryParams;
+  // json body
+  body?: unknown;
+  // raw body with its content type (used for batch requests)
+  rawBody?: { contentType: string; data: string };
+  // response type (raw: the fetch response, used for batch requests to read the boundary)
+  responseType?: 'json' | 'raw';
+};
+
+export type GmailClientOptions = {
+  // returns the access token of the user, called before every request (so refreshed tokens are used)
+  getToken: () => string | Promise<string>;
+  // re-auth after a request failed with 401 (token expired or revoked), returns true if there's a new token,
+  // the request is retried once with the new token
+  reauthorize?: () => Promise<boolean>;
+  // called when a request failed with unauthorized or insufficient permissions (after the re-auth),
+  // ex: sign out the user
+  onAuthError?: () => Promise<void>;
+  // fetch implementation (can be replaced with a fake for testing)
+  fetchFn?: typeof fetch;
+  // base url of the gmail api (can point to a local fake server for testing)
+  baseUrl?: string;
+  // max number of retries for rate limit & server errors
+  maxRetries?: number;
+  // initial backoff delay, doubled for each retry
+  baseDelayMs?: number;
+  // max backoff delay
+  maxDelayMs?: number;
+  // sleep fn used for backoff (can be replaced for testing)
+  sleep?: (ms: number) => Promise<unknown>;
+};
+
+export type ListMessagesParams = {
+  q?: string;
+  maxResults?: number;
+  pageToken?: string;
+  labelIds?: string[];
+  includeSpamTrash?: boolean;
+};
+
+export type GetMessageParams = {
+  format?: 'minimal' | 'full' | 'raw' | 'metadata';
+  metadataHeaders?: string[];
+};
+
+export type BatchModifyParams = {
+  ids: string[];
+  addLabelIds?: string[];
+  removeLabelIds?: string[];
+};
+
+export type ListHistoryParams = {
+  startHistoryId: string;
+  historyTypes?: ('messageAdded' | 'messageDeleted' | 'labelAdded' | 'labelRemoved')[];
+  labelId?: string;
+  maxResults?: number;
+  pageToken?: string;
+};
+
+export type CreateFilterBody = Omit<GmailFilter, 'id'>;
+
+// build url with query params, arrays are added as repeated params (ex: metadataHeaders=From&metadataHeaders=To)
+const buildURL = (baseUrl: string, path: string, query: QueryParams = {}) => {
+  const url = new URL(path, baseUrl);
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === '') continue;
+
+    if (Array.isArray(value)) {
+      value.forEach(v => url.searchParams.append(key, v));
+    } else {
+      url.searchParams.set(key, String(value));
+    }
+  }
+
+  return url.href;
+};
+
+// exponential backoff with jitter, uses the Retry-After header if sent by the api
+const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number, retryAfter?: string) => {
+  const retryAfterSeconds = Number(retryAfter);
+
+  if (retryAfter && !Number.isNaN(retryAfterSeconds)) return Math.min(retryAfterSeconds * 1000, maxDelayMs);
+
+  const exponentialDelay = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+
+  // random jitter up to the base delay, so concurrent requests don't retry at the same time
+  return exponentialDelay + Math.floor(Math.random() * baseDelayMs);
+};
+
+// create gmail api client
+export const createGmailClient = ({
+  getToken,
+  reauthorize,
+  onAuthError,
+  fetchFn = (input, init) => fetch(input, init),
+  baseUrl = GMAIL_API_BASE_URL,
+  maxRetries = 5,
+  baseDelayMs = 500,
+  maxDelayMs = 32000,
+  sleep = wait,
+}: GmailClientOptions) => {
+  // make request with auth header, retries with backoff on rate limit & server errors
+  const request = async <T>({
+    method = 'GET',
+    path,
+    query,
+    body,
+    rawBody,
+    responseType = 'json',
+  }: RequestParams): Promise<T> => {
+    let isReauthorized = false;
+
+    for (let attempt = 0; ; attempt++) {
+      const token = await getToken();
+
+      const headers: Record<string, string> = {
+        Authorization: `Bearer ${token}`,
+      };
+
+      if (rawBody) headers['Content-Type'] = rawBody.contentType;
+      else if (body) headers['Content-Type'] = 'application/json';
+
+      const res = await fetchFn(buildURL(baseUrl, path, query), {
+        method,
+        headers,
+        body: rawBody ? rawBody.data : body ? JSON.stringify(body) : undefined,
+      });
+
+      if (res.ok) {
+        if (responseType === 'raw') return res as T;
+
+        // delete requests returns empty body
+        const text = await res.text();
+        return (text ? JSON.parse(text) : null) as T;
+      }
+
+      // token expired or revoked, retry once with the new token
+      if (res.status === 401 && reauthorize && !isReauthorized) {
+        isReauthorized = true;
+
+        if (await reauthorize()) continue;
+      }
+
+      const parsedRes: APIErrorResponse | null = await res.json().catch(() => null);
+
+      const apiError = getAPIError(res.status, parsedRes);
+
+      if (
+        onAuthError &&
+        (apiError.message === errorMessage.unauthorized ||
+          apiError.message === errorMessage.insufficientPermissions)
+      ) {
+        // not awaited, the request fails with the auth error
+        onAuthError().catch(error => {
+          logger.error({
+            error,
+            msg: 'Error handling gmail api auth error',
+            fileTrace: 'background/services/api/gmail/gmailClient.ts:189 ~ request() onAuthError catch block',
+          });
+        });
+      }
+
+      if (!apiError.isRetryable || attempt >= maxRetries) {
+        throw new Error(apiError.message);
+      }
+
+      const delay = getBackoffDelay(attempt, baseDelayMs, maxDelayMs, res.headers.get('Retry-After'));
+
+      logger.info(
+        `Gmail api request failed with ${res.status}, retrying in ${delay}ms (attempt ${attempt + 1})`,
+        'background/services/api/gmail/gmailClient.ts:165 ~ request()'
+      );
+
+      await sleep(delay);
+    }
+  };
+
+  return {
+    messages: {
+      list: (params: ListMessagesParams) =>
+        request<GetMsgAPIResponse>({ path: '/gmail/v1/users/me/messages', query: params }),
+
+      get: (id: string, params: GetMessageParams = {}) =>
+        request<GmailMessageMetadata>({ path: `/gmail/v1/users/me/messages/${id}`, query: params }),
+
+      batchModify: (params: BatchModifyParams) =>
+        request<null>({ method: 'POST', path: '/gmail/v1/users/me/messages/batchModify', body: params }),
+
+      // raw: base64url encoded RFC 2822 email
+      send: (raw: string) =>
+        request<{ id: string }>({ method: 'POST', path: '/gmail/v1/users/me/messages/send', body: { raw } }),
+    },
+
+    history: {
+      // throws not-found error if the start history id is too old (expired)
+      list: (params: ListHistoryParams) =>
+        request<GmailHistoryList>({ path: '/gmail/v1/users/me/history', query: params }),
+    },
+
+    profile: {
+      get: () => request<GmailProfile>({ path: '/gmail/v1/users/me/profile' }),
+    },
+
+    labels: {
+      list: () => request<GmailLabels>({ path: '/gmail/v1/users/me/labels' }),
+
+      create: (label: Pick<GmailLabel, 'name'>) =>
+        request<GmailLabel>({
+          method: 'POST',
+          path: '/gmail/v1/users/me/labels',
+          body: { ...label, labelListVisibility: 'labelShow', messageListVisibility: 'show' },
+        }),
+    },
+
+    filters: {
+      list: () => request<GmailFilters>({ path: '/gmail/v1/users/me/settings/filters' }),
+
+      get: (id: string) => request<GmailFilter>({ path: `/gmail/v1/users/me/settings/filters/${id}` }),
+
+      create: (filter: CreateFilterBody) =>
+        request<GmailFilter>({ method: 'POST', path: '/gmail/v1/users/me/settings/filters', body: filter }),
+
+      delete: (id: string) =>
+        request<null>({ method: 'DELETE', path: `/gmail/v1/users/me/settings/filters/${id}` }),
+    },
+
+    // batch multiple requests into one (max 100 requests per batch)
+    // failed parts (rate limit, server errors) are retried with backoff,
+    // returns the response part for each request, parts that still failed have the error status & body
+    batch: async <T = unknown>(requests: BatchRequest[]): Promise<BatchResponsePart<T>[]> => {
+      if (requests.length > BATCH_MAX_REQUESTS) {
+        throw new Error(`❌ Batch request can have max ${BATCH_MAX_REQUESTS} requests`);
+      }
+
+      // response parts mapped by request id
+      const responseParts = new Map<string, BatchResponsePart<T>>();
+
+      let pendingRequests = requests;
+
+      for (let attempt = 0; pendingRequests.length > 0; attempt++) {
+        const boundary = `fresh_inbox_batch_${Date.now()}`;
+
+        const res = await request<Response>({
+          method: 'POST',
+          path: '/batch/gmail/v1',
+          rawBody: {
+            contentType: `multipart/mixed; boundary=${boundary}`,
+            data: buildBatchRequestBody(pendingRequests, boundary),
+          },
+          responseType: 'raw',
+        });
+
+        const parts = parseBatchResponse<T>(await res.text(), res.headers.get('Content-Type'));
+
+        for (const part of parts) {
+          responseParts.set(part.id, part);
+        }
+
+        // retry the parts that failed with rate limit or server errors (& parts missing from the response)
+        pendingRequests = pendingRequests.filter(req => {
+          const part = responseParts.get(req.id);
+
+          if (!part) return true;
+
+          if (part.status >= 200 && part.status < 300) return false;
+
+          return getAPIError(part.status, part.body as APIErrorResponse).isRetryable;
+        });
+
+        if (pendingRequests.length < 1 || attempt >= maxRetries) break;
+
+        const delay = getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+
+        logger.info(
+          `${pendingRequests.length} batch request parts failed, retrying in ${delay}ms (attempt ${
+            attempt + 1
+          })`,
+          'background/services/api/gmail/gmailClient.ts:250 ~ batch()'
+        );
+
+        await sleep(delay);
+      }
+
+      return requests.map(req => responseParts.get(req.id) || { id: req.id, status: 0, body: null });
+    },
+  };
+};
+
+export type GmailClient = ReturnType<typeof createGmailClient>;
+
+// gmail api clients of the signed in accounts mapped by email
+const accountClients = new Map<string, GmailClient>();
+
+// gmail api client of the account, uses the session (token) of the account
+export const getGmailClient = (accountEmail: string) => {
+  if (!accountClients.has(accountEmail)) {
+    accountClients.set(
+      accountEmail,
+      createGmailClient({
+        getToken: () => getSessionToken(accountEmail),
+        reauthorize: () => reauthorizeSession(accountEmail),
+        onAuthError: () => signOutUser(accountEmail),
+      })
+    );
+  }
+
+  return accountClients.get(accountEmail);
+};
@@ -1,95 +1,80 @@
-import { API_MAX_RESULT } from '@src/pages/background/constants/app.constants';
-import type { GetMsgAPIResponse, SearchFormData } from '@src/pages/background/types/background.types';
-import { apiErrorHandler } from '@src/pages/background/utils/apiErrorHandler';
+import {
+  IMessageEvent,
+  type IMessageBody,
+  type SearchFormData,
+} from '@src/pages/background/types/background.types';
 import { logger } from '@src/pages/background/utils/logger';
+import * as gmailQuery from '@src/pages/background/utils/gmailQuery';
+import { createJobId, startJob } from '../../../../jobs/jobQueue';
+import { getDeleteProtection, getProtectionQueryParts } from '../../helper/deleteProtection';
 
-const buildSearchQuery = ({ keyword, afterDate, beforeDate, isRead, isUnRead }: SearchFormData) => {
-  // keyword query to search for emails that has this keyword in the subject or body
-  const keywordQuery = keyword
-    ? `(${keyword
-        .split(',')
-        .map((word, idx) => (idx === 0 ? `${word}` : ` ${word}`))
-        .join('')})`
-    : '';
-  return `${keywordQuery} 
-  ${afterDate ? `after:${afterDate}` : ''} 
-  ${beforeDate ? `before:${beforeDate}` : ''} 
-  ${isRead ? `is:read` : ''} 
-  ${isUnRead ? `is:unread` : ''}
-  in:anywhere -in:trash
-  `.replace(/\n/g, ' ');
-};
-
-export const advanceSearch = async (userToken: string, formData: SearchFormData) => {
-  const fetchOptions: Partial<RequestInit> = {
-    method: 'GET',
-    headers: {
-      Authorization: `Bearer ${userToken}`,
-      'Content-Type': 'application/json',
-    },
-  };
-
-  // build a search query based from the data provided by the user
-  // search operators for gmail (same as gmail web app):
-  //LINK - https://support.google.com/mail/answer/7190?hl=en
-  const searchQuery = buildSearchQuery(formData);
+// split comma separated input, ex: "a@x.com, b@y.com" -> ['a@x.com', 'b@y.com']
+const splitList = (value = '') =>
+  value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
 
-  let nextPageToken: string | null = null;
-
-  const messageIds: string[] = [];
+// build a search query based from the data provided by the user
+// ex: (invoice "order id") from:(a@x.com OR b@y.com) category:promotions has:attachment older_than:1y in:anywhere -in:trash
+export const buildSearchQuery = (formData: SearchFormData) =>
+  gmailQuery.buildQuery(
+    // keywords (comma separated) to search for emails that have all of them in the subject or body
+    gmailQuery.and(...splitList(formData.keyword).map(gmailQuery.term)),
+    gmailQuery.from(...splitList(formData.from)),
+    gmailQuery.to(...splitList(formData.to)),
+    formData.afterDate && gmailQuery.after(formData.afterDate),
+    formData.beforeDate && gmailQuery.before(formData.beforeDate),
+    formData.olderThan && gmailQuery.olderThan(formData.olderThan),
+    formData.isRead && gmailQuery.is('read'),
+    formData.isUnRead && gmailQuery.is('unread'),
+    formData.hasAttachment && gmailQuery.has('attachment'),
+    formData.largerThan > 0 && gmailQuery.larger(formData.largerThan),
+    formData.smallerThan > 0 && gmailQuery.smaller(formData.smallerThan),
+    formData.category && gmailQuery.category(formData.category),
+    ...(formData.labels || []).map(gmailQuery.label),
+    formData.excludeStarred && gmailQuery.not(gmailQuery.is('starred')),
+    formData.excludeImportant && gmailQuery.not(gmailQuery.is('important')),
+    gmailQuery.inFolder('anywhere'),
+    gmailQuery.not(gmailQuery.inFolder('trash'))
+  );
 
+// advance search, runs as a background job (page by page) so it can be resumed if the service worker is suspended,
+// returns the job id, the result (matched message ids) is sent with the job update event
+export const advanceSearch = async (
+  accountEmail: string,
+  formData: SearchFormData,
+  jobId?: string
+): Promise<Pick<IMessageBody, 'event' | 'jobId'> | false> => {
   try {
-    //  a do white loop to fetch all the messages ids that matches the search query
-    // the gmail sends max 500 messages at a time, so we need to loop till we get all the messages ids
-    do {
-      // call gmail api
-      const res = await fetch(
-        `https://gmail.googleapis.com/gmail/v1/users/me/messages?q=${searchQuery}&maxResults=${API_MAX_RESULT}&${
-          nextPageToken ? `&pageToken=${nextPageToken}` : ''
-        }`,
-        fetchOptions
-      );
-
-      // parse response
-      const parsedRes: GetMsgAPIResponse = await res.json();
+    // the search result is deleted in bulk, protected mails are not included
+    const protection = await getDeleteProtection(accountEmail);
 
-      // handle api errors
-      apiErrorHandler(parsedRes);
+    const createdAt = Date.now();
 
-      if (parsedRes.error) {
-        logger.error({
-          error: parsedRes.error,
-          msg: parsedRes.error.message || '🙌 No newsletter emails found.',
-          fileTrace:
-            'background/services/api/gmail/handler/getNewsletterEmailsOnPage.ts:44 ~ getNewsletterEmailsOnPage()',
-        });
-        return [];
-      }
-
-      // save next page userToken if present to fetch next batch of messages
-      if (parsedRes.nextPageToken) {
-        nextPageToken = parsedRes.nextPageToken;
-      } else {
-        nextPageToken = null;
-      }
-
-      if (!parsedRes.messages) return [];
-
-      // get email/message ids from the response
-      const extractedIds = parsedRes.messages.map(msg => msg.id);
-
-      // store new message ids
-      messageIds.push(...extractedIds);
-      // end of do white loop
-    } while (nextPageToken !== null);
+    const id = await startJob({
+      id: createJobId(jobId),
+      type: 'advanceSearch',
+      status: 'pending',
+      accountEmail,
+      createdAt,
+      updatedAt: createdAt,
+      processedCount: 0,
+      totalCount: null,
+      error: null,
+      query: gmailQuery.buildQuery(buildSearchQuery(formData), ...getProtectionQueryParts(protection)),
+      pageToken: null,
+      messageIds: [],
+      excludeSentThreads: protection.excludeSentThreads,
+    });
 
-    return messageIds;
+    return { event: IMessageEvent.ADVANCE_SEARCH, jobId: id };
   } catch (error) {
     logger.error({
       error,
-      msg: 'Error while getting newsletter emails',
-      fileTrace: 'background/services/api/gmail/handler/advanceSearch.ts:100 advanceSearch() catch block',
+      msg: 'Error while starting advance search job',
+      fileTrace: 'background/services/api/gmail/handler/advanceSearch.ts:52 advanceSearch() catch block',
     });
-    return [];
+    return false;
   }
 };
@@ -1,31 +1,78 @@
-import { logger } from '@src/pages/content/utils/logger';
-import { batchDeleteMails } from '../../helper/batchDelete';
-import wait from '@src/pages/content/utils/wait';
+import { logger } from '@src/pages/background/utils/logger';
+import { IMessageEvent, type IMessageBody } from '@src/pages/background/types/background.types';
+import { createTrashJournalEntry } from '../../helper/trashJournal';
+import { createJobId, startJob } from '../../../../jobs/jobQueue';
+import { createDryRunReport } from '../../helper/dryRunReport';
+import { getSenderBreakdown } from './getSenderBreakdown';
+import { getDeleteProtection } from '../../helper/deleteProtection';
 
-// gmail api limit: max 1000 ids can be sent per req
-const BATCH_SIZE = 1000;
+// bulk delete mails, runs as a background job (batches of 1000 mails),
+// returns the job id, the result (trash journal entry id to undo the delete) is sent with the job update event
+// (dry run: returns the report of the mails that would be deleted, no job is started)
+export const bulkDelete = async (
+  accountEmail: string,
+  ids: string[],
+  jobId?: string,
+  isDryRun?: boolean,
+  isOverLimitConfirmed?: boolean
+): Promise<Pick<IMessageBody, 'event' | 'jobId' | 'dryRunReport'> | false> => {
+  try {
+    if (isDryRun) {
+      const senderBreakdown = await getSenderBreakdown(accountEmail, ids);
 
-export const bulkDelete = async (userToken: string, ids: string[]) => {
-  const batches: string[][] = [];
+      if (!senderBreakdown) throw new Error('❌ Failed to get senders of the mails');
 
-  // create batches of emails
-  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
-    // if last batch is not more than half of batch size then add to previous batch
-    batches.push(ids.slice(i, i + BATCH_SIZE));
-  }
-  try {
-    // process batches
-    for (const batch of batches) {
-      const res = await batchDeleteMails(userToken, batch);
-      if (!res) throw new Error('❌ Failed to delete emails');
+      return {
+        event: IMessageEvent.BULK_DELETE,
+        dryRunReport: await createDryRunReport({
+          accountEmail,
+          action: 'bulkDelete',
+          messageIds: ids,
+          senders: senderBreakdown.senders.map(sender => ({
+            email: sender.email,
+            messageCount: sender.count,
+          })),
+          sendersSampleCount:
+            senderBreakdown.sampleCount < senderBreakdown.totalCount
+              ? senderBreakdown.sampleCount
+              : undefined,
+        }),
+      };
+    }
+
+    // delete protection: deleting more than the limit must be confirmed by the user
+    const { maxDeleteCount } = await getDeleteProtection(accountEmail);
+
+    if (maxDeleteCount && ids.length > maxDeleteCount && !isOverLimitConfirmed) {
+      throw new Error(`❌ ${ids.length} mails are more than the delete limit of ${maxDeleteCount} mails`);
     }
-    return true;
+
+    // record the deleted mails in the trash journal
+    const journalEntry = createTrashJournalEntry('bulkDelete');
+
+    const createdAt = Date.now();
+
+    const id = await startJob({
+      id: createJobId(jobId),
+      type: 'bulkDelete',
+      status: 'pending',
+      accountEmail,
+      createdAt,
+      updatedAt: createdAt,
+      processedCount: 0,
+      totalCount: ids.length,
+      error: null,
+      ids,
+      trashJournalId: journalEntry.id,
+    });
+
+    return { event: IMessageEvent.BULK_DELETE, jobId: id };
   } catch (error) {
     logger.error({
       error,
-      msg: '❌ Error while bulk deleting emails',
+      msg: '❌ Error while starting bulk delete job',
       fileTrace:
-        'background/services/api/gmail/handler/advance-search/bulkDelete.ts:28 bulkDelete() catch block',
+        'background/services/api/gmail/handler/advance-search/bulkDelete.ts:35 bulkDelete() catch block',
     });
     return false;
   }
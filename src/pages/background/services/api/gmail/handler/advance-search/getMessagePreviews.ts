@@ -0,0 +1,66 @@
+import type { GmailMessageMetadata, MessagePreview } from '@src/pages/background/types/background.types';
+import { parseFromHeader, decodeEncodedWords } from '@src/pages/background/utils/emailAddress';
+import { logger } from '@src/pages/background/utils/logger';
+import { BATCH_MAX_REQUESTS } from '../../gmailBatch';
+import { getGmailClient } from '../../gmailClient';
+
+// decode the html entities of the message snippet, ex: it&#39;s -> it's
+const decodeSnippet = (snippet = '') =>
+  snippet
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+// get header value of the message
+const getHeader = (message: GmailMessageMetadata, name: string) =>
+  message.payload?.headers?.find(header => header.name.toLowerCase() === name)?.value || '';
+
+// get preview (sender, subject, snippet, date, size) of the advance search result messages (single page, max 100 ids),
+// messages that were not found (ex: deleted after the search) are not included
+export const getMessagePreviews = async (
+  accountEmail: string,
+  messageIds: string[]
+): Promise<MessagePreview[]> => {
+  try {
+    const responseParts = await getGmailClient(accountEmail).batch<GmailMessageMetadata>(
+      messageIds.slice(0, BATCH_MAX_REQUESTS).map(id => ({
+        id: `message-${id}`,
+        method: 'GET',
+        path: `/gmail/v1/users/me/messages/${id}?format=metadata&metadataHeaders=From&metadataHeaders=Subject`,
+      }))
+    );
+
+    const previews: MessagePreview[] = [];
+
+    for (const part of responseParts) {
+      if (part.status !== 200 || !part.body?.id) continue;
+
+      const sender = parseFromHeader(getHeader(part.body, 'from'));
+
+      previews.push({
+        id: part.body.id,
+        email: sender?.email || '',
+        name: sender?.name || '',
+        subject: decodeEncodedWords(getHeader(part.body, 'subject')),
+        snippet: decodeSnippet(part.body.snippet),
+        receivedAt: Number(part.body.internalDate) || 0,
+        sizeEstimate: part.body.sizeEstimate || 0,
+      });
+    }
+
+    // same order as the search result
+    return previews.sort(
+      (preview1, preview2) => messageIds.indexOf(preview1.id) - messageIds.indexOf(preview2.id)
+    );
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error getting message previews',
+      fileTrace:
+        'background/services/api/gmail/handler/advance-search/getMessagePreviews.ts:55 getMessagePreviews() catch block',
+    });
+    return null;
+  }
+};
@@ -0,0 +1,61 @@
+import type { SenderBreakdown, SenderBreakdownResult } from '@src/pages/background/types/background.types';
+import { logger } from '@src/pages/background/utils/logger';
+import { BATCH_MAX_REQUESTS } from '../../gmailBatch';
+import { getSenderMessages } from '../../helper/getSenderMessages';
+
+// max number of messages grouped by sender (10 batch requests),
+// larger results are sampled (latest messages) & the breakdown is shown as approximate
+const SENDER_SAMPLE_COUNT = 1000;
+
+// group the latest messages of the advance search result by sender (largest senders first)
+export const getSenderBreakdown = async (
+  accountEmail: string,
+  messageIds: string[]
+): Promise<SenderBreakdownResult> => {
+  try {
+    const senders = new Map<string, SenderBreakdown>();
+
+    // search result has the latest messages first
+    const sampleIds = messageIds.slice(0, SENDER_SAMPLE_COUNT);
+
+    // get senders of the messages in batches (max 100 messages per batch request)
+    for (let i = 0; i < sampleIds.length; i += BATCH_MAX_REQUESTS) {
+      const senderMessages = await getSenderMessages({
+        accountEmail,
+        messageIds: sampleIds.slice(i, i + BATCH_MAX_REQUESTS),
+      });
+
+      for (const [messageId, message] of Object.entries(senderMessages)) {
+        const sender = senders.get(message.email) || {
+          email: message.email,
+          name: message.name,
+          count: 0,
+          totalSize: 0,
+          messageIds: [],
+        };
+
+        sender.count++;
+        sender.totalSize += message.sizeEstimate;
+        sender.messageIds.push(messageId);
+        // use the latest non-empty display name
+        if (!sender.name && message.name) sender.name = message.name;
+
+        senders.set(message.email, sender);
+      }
+    }
+
+    return {
+      senders: [...senders.values()].sort((sender1, sender2) => sender2.count - sender1.count),
+      sampleCount: sampleIds.length,
+      totalCount: messageIds.length,
+    };
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error getting sender breakdown',
+      fileTrace:
+        'background/services/api/gmail/handler/advance-search/getSenderBreakdown.ts:52 getSenderBreakdown() catch block',
+    });
+    return null;
+  }
+};
@@ -0,0 +1,23 @@
+import type { APIHandleParams, FILTER_ACTION } from '@src/pages/background/types/background.types';
+import { addEmailToFilter } from '../helper/filterWriteQueue';
+import { logger } from '@src/pages/background/utils/logger';
+
+type ApplyFilterActionParams = APIHandleParams & {
+  filterAction: FILTER_ACTION;
+};
+
+// add senders to the app filter of the action (skip inbox, mark read, move to label)
+export const applyFilterAction = async ({ accountEmail, emails, filterAction }: ApplyFilterActionParams) => {
+  try {
+    // add email to filter (queued with the other filter updates)
+    return await addEmailToFilter({ accountEmail, emails, filterAction });
+  } catch (error) {
+    logger.error({
+      error,
+      msg: `Error applying ${filterAction} filter action`,
+      fileTrace:
+        'background/services/api/gmail/handler/applyFilterAction.ts:16 ~ applyFilterAction() catch block',
+    });
+    return false;
+  }
+};
@@ -0,0 +1,87 @@
+import {
+  IMessageEvent,
+  type CleanupRuleInput,
+  type CleanupRuleSummary,
+  type IMessageBody,
+} from '@src/pages/background/types/background.types';
+import { logger } from '@src/pages/background/utils/logger';
+import * as cleanupRules from '../../../rules/cleanupRules';
+
+// get cleanup rules with their run history
+export const getRules = async (accountEmail: string): Promise<CleanupRuleSummary[]> => {
+  try {
+    return await cleanupRules.getRuleSummaries(accountEmail);
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error getting cleanup rules',
+      fileTrace: 'background/services/api/gmail/handler/cleanupRules.ts:13 ~ getRules() catch block',
+    });
+    return null;
+  }
+};
+
+// create/update cleanup rule (also used to pause/resume the rule)
+export const saveRule = async (accountEmail: string, ruleInput: CleanupRuleInput) => {
+  try {
+    if (!ruleInput?.name?.trim() || !ruleInput.search) return false;
+
+    await cleanupRules.saveRule(accountEmail, ruleInput);
+    return true;
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error saving cleanup rule',
+      fileTrace: 'background/services/api/gmail/handler/cleanupRules.ts:31 ~ saveRule() catch block',
+    });
+    return false;
+  }
+};
+
+// delete cleanup rule
+export const deleteRule = async (accountEmail: string, ruleId: string) => {
+  try {
+    await cleanupRules.deleteRule(accountEmail, ruleId);
+    return true;
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error deleting cleanup rule',
+      fileTrace: 'background/services/api/gmail/handler/cleanupRules.ts:46 ~ deleteRule() catch block',
+    });
+    return false;
+  }
+};
+
+type RunRuleParams = {
+  accountEmail: string;
+  ruleId: string;
+  isDryRun?: boolean;
+  jobId?: string;
+};
+
+// run cleanup rule now (or dry run it), runs as a background job,
+// returns the job id, the result is sent with the job update event & added to the rule's run history
+export const runRule = async ({
+  accountEmail,
+  ruleId,
+  isDryRun = false,
+  jobId,
+}: RunRuleParams): Promise<Pick<IMessageBody, 'event' | 'jobId'> | false> => {
+  try {
+    const rule = (await cleanupRules.getRules(accountEmail)).find(savedRule => savedRule.id === ruleId);
+
+    if (!rule) return false;
+
+    const id = await cleanupRules.runRule({ accountEmail, rule, trigger: 'manual', isDryRun, jobId });
+
+    return { event: IMessageEvent.RUN_RULE, jobId: id };
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error while starting cleanup rule job',
+      fileTrace: 'background/services/api/gmail/handler/cleanupRules.ts:78 ~ runRule() catch block',
+    });
+    return false;
+  }
+};
@@ -1,80 +1,91 @@
 import { logger } from './../../../../utils/logger';
-import { API_MAX_RESULT } from '@src/pages/background/constants/app.constants';
-import type { APIHandleParams, GetMsgAPIResponse } from '@src/pages/background/types/background.types';
-import { batchDeleteMails } from '../helper/batchDelete';
-import { apiErrorHandler } from '@src/pages/background/utils/apiErrorHandler';
+import {
+  IMessageEvent,
+  type APIHandleParams,
+  type DeleteRetention,
+  type IMessageBody,
+  type TrashJournalSource,
+} from '@src/pages/background/types/background.types';
+import { createTrashJournalEntry } from '../helper/trashJournal';
+import { createJobId, startJob } from '../../../jobs/jobQueue';
+import { createDryRunReport, getSendersMessages } from '../helper/dryRunReport';
+import { buildDeleteAllMailsQuery, getDeleteProtection } from '../helper/deleteProtection';
 
-// delete all mails
-export const deleteAllMails = async ({ userToken, emails }: APIHandleParams) => {
-  try {
-    const fetchOptions: Partial<RequestInit> = {
-      method: 'GET',
-      headers: {
-        Authorization: `Bearer ${userToken}`,
-        'Content-Type': 'application/json',
-      },
-    };
-
-    let nextPageToken: string | null = null;
-    // search query to get all emails/message ids of these emails
-    const queryParams = `from:(${emails
-      .map(email => `${email}`)
-      .join(' OR ')}) &maxResults=${API_MAX_RESULT}${nextPageToken ? `&pageToken=${nextPageToken}` : ''}`;
-
-    let parsedRes: GetMsgAPIResponse | null = null;
+type DeleteAllMailsParams = APIHandleParams & {
+  // delete operation recorded in the trash journal
+  source?: TrashJournalSource;
+  // job id sent by the content script
+  jobId?: string;
+  // only get the report of the mails that would be deleted
+  isDryRun?: boolean;
+  // delete more than the limit (delete protection), confirmed by the user
+  isOverLimitConfirmed?: boolean;
+  // mails kept from the senders (keep latest, older than, unread only)
+  retention?: DeleteRetention;
+};
 
-    //* do... while() loop to  handle pagination delete if messages/gmail exceeds API max limit (500)
-    //* keep fetching & deleting emails until nextPageToken is null
-    do {
-      // fetch message/emails
-      const res = await fetch(
-        `https://gmail.googleapis.com/gmail/v1/users/me/messages?q=${queryParams}${
-          nextPageToken ? `&pageToken=${nextPageToken}` : ''
-        }`,
-        fetchOptions
-      );
-      // parse res
-      parsedRes = await res.json();
+// delete all mails, runs as a background job (page by page) so it can be resumed if the service worker is suspended,
+// returns the job id, the result (trash journal entry id to undo the delete) is sent with the job update event
+// (dry run: returns the report, no job is started)
+export const deleteAllMails = async ({
+  accountEmail,
+  emails,
+  source = 'deleteAllMails',
+  jobId,
+  isDryRun,
+  isOverLimitConfirmed,
+  retention,
+}: DeleteAllMailsParams): Promise<Pick<IMessageBody, 'event' | 'jobId' | 'dryRunReport'> | false> => {
+  try {
+    const protection = await getDeleteProtection(accountEmail);
 
-      // handle api errors
-      apiErrorHandler(parsedRes);
+    if (isDryRun) {
+      const { messageIds, senders } = await getSendersMessages(accountEmail, emails, protection, retention);
 
-      // stop if no messages found
-      if (!parsedRes.messages) {
-        throw new Error('❌ Failed to get gmail message ids');
-      }
+      return {
+        event: IMessageEvent.DELETE_ALL_MAILS,
+        dryRunReport: await createDryRunReport({
+          accountEmail,
+          action: 'deleteAllMails',
+          messageIds,
+          senders,
+        }),
+      };
+    }
 
-      if (parsedRes.messages.length < 1) {
-        logger.info(
-          'No messages found',
-          'background/services/api/gmail/handler/deleteAllMails.ts:73 ~ deleteAllMails()'
-        );
-      }
+    // record the deleted mails in the trash journal
+    const journalEntry = createTrashJournalEntry(source, emails);
 
-      // save next page userToken if present to fetch next batch of messages
-      if (parsedRes.nextPageToken) {
-        nextPageToken = parsedRes.nextPageToken;
-      } else {
-        nextPageToken = null;
-      }
+    const createdAt = Date.now();
 
-      // get message ids from success response
-      const msgIds = parsedRes.messages.map(msg => msg.id);
+    const id = await startJob({
+      id: createJobId(jobId),
+      type: 'deleteAllMails',
+      status: 'pending',
+      accountEmail,
+      createdAt,
+      updatedAt: createdAt,
+      processedCount: 0,
+      totalCount: null,
+      error: null,
+      emails,
+      // search query to get all emails/message ids of these emails
+      query: buildDeleteAllMailsQuery(emails, protection, retention),
+      source,
+      pageToken: null,
+      trashJournalId: journalEntry.id,
+      excludeSentThreads: protection.excludeSentThreads,
+      maxCount: isOverLimitConfirmed ? null : protection.maxDeleteCount,
+      retention: retention || null,
+      keptCount: 0,
+    });
 
-      // batch delete messages/emails
-      await batchDeleteMails(userToken, msgIds);
-      logger.info(
-        `✅ Batch delete successful, deleted ${msgIds.length} mails`,
-        'background/services/api/gmail/handler/deleteAllMails.ts:93 ~ deleteAllMails()'
-      );
-      //* end of do...while loop
-    } while (nextPageToken !== null);
-    return true;
+    return { event: IMessageEvent.DELETE_ALL_MAILS, jobId: id };
   } catch (error) {
     logger.error({
       error,
-      msg: 'Error while batch deleting emails',
-      fileTrace: 'background/services/api/gmail/handler/deeAllMails.ts:30 batchDeleteMails() catch block',
+      msg: 'Error while starting delete all mails job',
+      fileTrace: 'background/services/api/gmail/handler/deleteAllMails.ts:52 deleteAllMails() catch block',
     });
     return false;
   }
@@ -0,0 +1,146 @@
+import type {
+  DeleteCount,
+  DeleteProtection,
+  DeleteRetention,
+} from '@src/pages/background/types/background.types';
+import { logger } from '@src/pages/background/utils/logger';
+import { getGmailClient } from '../gmailClient';
+import {
+  buildDeleteAllMailsQuery,
+  excludeSentThreadMessages,
+  getDeleteProtection,
+} from '../helper/deleteProtection';
+import { getKeepLatestCount } from '../helper/deleteRetention';
+import { getSendersMessages } from '../helper/dryRunReport';
+import { getSenderMessages } from '../helper/getSenderMessages';
+
+// latest mails checked for the size (max 100 ids per batch request)
+const SIZE_SAMPLE_COUNT = 100;
+
+// counts are cached for a minute (hover card fetches the count on every hover)
+const CACHE_DURATION_MS = 60 * 1000;
+
+// cached counts (or the pending request) by account, senders, protection rules, retention options & count type
+const deleteCountCache = new Map<string, { expiresAt: number; deleteCount: Promise<DeleteCount | null> }>();
+
+// total size of the mails, extrapolated from the average size of the sampled mails
+const getSizeEstimate = async (accountEmail: string, messageIds: string[], count: number) => {
+  const sampleIds = messageIds.slice(0, SIZE_SAMPLE_COUNT);
+
+  if (sampleIds.length < 1) return 0;
+
+  const senderMessages = Object.values(await getSenderMessages({ accountEmail, messageIds: sampleIds }));
+
+  if (senderMessages.length < 1) return 0;
+
+  const sampleSize = senderMessages.reduce((total, message) => total + message.sizeEstimate, 0);
+
+  return Math.round((sampleSize / senderMessages.length) * count);
+};
+
+// count the mails the delete all mails would trash (without the protected mails)
+// estimate: gmail's result size estimate (exact if all the mails fit in the first page)
+// exact: all the pages are searched, same as the delete all mails job
+const countMails = async (
+  accountEmail: string,
+  emails: string[],
+  protection: DeleteProtection,
+  retention: DeleteRetention | null,
+  isExactCount: boolean
+): Promise<DeleteCount> => {
+  if (isExactCount) {
+    const { messageIds } = await getSendersMessages(accountEmail, emails, protection, retention);
+
+    return {
+      count: messageIds.length,
+      sizeEstimate: await getSizeEstimate(accountEmail, messageIds, messageIds.length),
+      isExact: true,
+    };
+  }
+
+  const parsedRes = await getGmailClient(accountEmail).messages.list({
+    q: buildDeleteAllMailsQuery(emails, protection, retention),
+    maxResults: SIZE_SAMPLE_COUNT,
+  });
+
+  // retention: the latest mails are kept
+  const keepLatestCount = getKeepLatestCount(retention);
+
+  // all the mails are in the first page, count them
+  if (!parsedRes.nextPageToken) {
+    const messages =
+      parsedRes.messages && protection.excludeSentThreads
+        ? await excludeSentThreadMessages(accountEmail, parsedRes.messages)
+        : parsedRes.messages || [];
+
+    const messageIds = messages.map(message => message.id).slice(keepLatestCount);
+
+    return {
+      count: messageIds.length,
+      sizeEstimate: await getSizeEstimate(accountEmail, messageIds, messageIds.length),
+      isExact: true,
+    };
+  }
+
+  const count = Math.max(0, (parsedRes.resultSizeEstimate || 0) - keepLatestCount);
+
+  // the kept mails are not sampled for the size, unless all the sampled mails are kept
+  const sampleMessages =
+    parsedRes.messages.length > keepLatestCount
+      ? parsedRes.messages.slice(keepLatestCount)
+      : parsedRes.messages;
+
+  return {
+    count,
+    sizeEstimate: await getSizeEstimate(
+      accountEmail,
+      sampleMessages.map(message => message.id),
+      count
+    ),
+    isExact: false,
+  };
+};
+
+// number & size of the mails the delete all mails would delete (without the protected mails),
+// shown before the delete is confirmed
+export const getDeleteCount = async (
+  accountEmail: string,
+  emails: string[],
+  isExactCount = false,
+  retention: DeleteRetention | null = null
+): Promise<DeleteCount | null> => {
+  const protection = await getDeleteProtection(accountEmail);
+
+  const cacheKey = [
+    accountEmail,
+    isExactCount ? 'exact' : 'estimate',
+    JSON.stringify(protection),
+    JSON.stringify(retention),
+    ...emails,
+  ].join('|');
+
+  const cached = deleteCountCache.get(cacheKey);
+
+  if (cached && cached.expiresAt > Date.now()) return await cached.deleteCount;
+
+  const deleteCount = countMails(accountEmail, emails, protection, retention, isExactCount).catch(error => {
+    logger.error({
+      error,
+      msg: 'Error getting delete count',
+      fileTrace: 'background/services/api/gmail/handler/getDeleteCount.ts:104 ~ getDeleteCount() catch block',
+    });
+    // failed counts are not cached
+    deleteCountCache.delete(cacheKey);
+    return null;
+  });
+
+  // cache the pending request as well, the same count is not requested again while it's loading
+  deleteCountCache.set(cacheKey, { expiresAt: Date.now() + CACHE_DURATION_MS, deleteCount });
+
+  // remove the expired counts
+  for (const [key, { expiresAt }] of deleteCountCache) {
+    if (expiresAt <= Date.now()) deleteCountCache.delete(key);
+  }
+
+  return await deleteCount;
+};
@@ -0,0 +1,46 @@
+import type { FILTER_ACTION } from '@src/pages/background/types/background.types';
+import { getFiltersByIds } from '../helper/gmailFilters';
+import { getFilterIds } from '../helper/getFilterIds';
+import { getStorageKeyByAction } from '../helper/filterUpdate';
+import { getLocalStorageByKey } from '@src/pages/background/utils/getStorageByKey';
+import { logger } from '@src/pages/background/utils/logger';
+import { setStorage } from '@src/pages/background/utils/setStorage';
+
+// get senders of the app filter of the action (skip inbox, mark read, move to label)
+export const getFilterActionEmails = async (
+  accountEmail: string,
+  filterAction: FILTER_ACTION
+): Promise<string[]> => {
+  const storageKey = getStorageKeyByAction(filterAction);
+
+  try {
+    // get emails from local.storage
+    const filterEmails = await getLocalStorageByKey<string[]>(accountEmail, storageKey.local);
+
+    if (filterEmails && filterEmails.length > 0) return filterEmails;
+
+    // if emails not present in local.storage get it from user's filter (gmail-api)
+
+    // check for filter ids in sync.storage
+    const filterIds = await getFilterIds({ accountEmail, filterAction });
+    if (filterIds.length < 1) throw new Error(`❌ Failed to get ${filterAction} filter id`);
+
+    //  get emails from all the filter shards
+    const res = await getFiltersByIds(accountEmail, filterIds);
+
+    if (!res) throw new Error(`❌ Failed to get ${filterAction} filter emails`);
+
+    // save emails to chrome local storage
+    await setStorage({ accountEmail, type: 'local', key: storageKey.local, value: res.emails });
+
+    return res.emails;
+  } catch (error) {
+    logger.error({
+      error,
+      msg: `Error getting ${filterAction} filter emails`,
+      fileTrace:
+        'background/services/api/gmail/handler/getFilterActionEmails.ts:37 ~ getFilterActionEmails() catch block',
+    });
+    return [];
+  }
+};
@@ -0,0 +1,21 @@
+import { logger } from '@src/pages/background/utils/logger';
+import { getGmailClient } from '../gmailClient';
+
+// get names of the labels created by the user (for the advance search label filter)
+export const getLabels = async (accountEmail: string): Promise<string[]> => {
+  try {
+    const parsedRes = await getGmailClient(accountEmail).labels.list();
+
+    return (parsedRes?.labels || [])
+      .filter(label => label.type === 'user')
+      .map(label => label.name)
+      .sort((name1, name2) => name1.localeCompare(name2));
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error getting labels',
+      fileTrace: 'background/services/api/gmail/handler/getLabels.ts:16 ~ getLabels() catch block',
+    });
+    return [];
+  }
+};
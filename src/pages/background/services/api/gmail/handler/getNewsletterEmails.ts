@@ -1,225 +1,109 @@
-import { error } from 'console';
-import { API_MAX_RESULT } from '@src/pages/background/constants/app.constants';
-import type { INewsletterEmails } from '@src/pages/background/types/background.types';
-import { removeDuplicateEmails } from '@src/pages/background/utils/removeDuplicateEmails';
+import { storageKeys } from '@src/pages/background/constants/app.constants';
+import type { INewsletterEmails, NewsletterSenderIndex } from '@src/pages/background/types/background.types';
 import { getUnsubscribedEmails } from './getUnsubscribedEmails';
 import { getWhitelistedEmails } from './getWhitelistedEmails';
 import { logger } from '@src/pages/background/utils/logger';
-import { apiErrorHandler } from '@src/pages/background/utils/apiErrorHandler';
 import { setStorage } from '@src/pages/background/utils/setStorage';
-
-type GetSendEmailFromIdsParams = {
-  messageIds: string[];
-  userToken: string;
-};
+import { getLocalStorageByKey } from '@src/pages/background/utils/getStorageByKey';
+import { errorMessage } from '@src/pages/background/utils/apiErrorHandler';
+import { createFilterListMatcher } from '@src/pages/background/utils/emailAddress';
+import {
+  createSenderIndex,
+  getSendersFromIndex,
+  isScanComplete,
+  scanNextPage,
+  syncSenderIndex,
+} from '../helper/newsletterSenderIndex';
 
 // minimum emails threshold (find at least 50 newsletter emails)
 const MINIMUM_EMAILS_THRESHOLD = 60;
 
-// get sender emails & name from message/email ids
-const getSenderEmailsFromIds = async ({ messageIds, userToken }: GetSendEmailFromIdsParams) => {
-  // Construct the batch request body
-  const batchRequestBody = messageIds.map(id => {
-    return {
-      method: 'GET',
-      path: `/gmail/v1/users/me/messages/${id}?format=metadata&metadataHeaders=From`,
-      headers: {
-        'Content-Type': 'application/http',
-        'Content-ID': `message-${id}`,
-      },
-    };
-  });
-
-  // request boundary
-  const boundary = 'newsletter_boundary';
-
-  const batchRequest = batchRequestBody.map(request => {
-    return `--${boundary}
-Content-Type: application/http
-Content-ID: ${request.headers['Content-ID']}
-
-${request.method} ${request.path}
-`;
-  });
-
-  const requestBody = `${batchRequest.join('')}\n--${boundary}--`;
-
-  const fetchOptions: Partial<RequestInit> = {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${userToken}`,
-      'Content-Type': `multipart/mixed; boundary=${boundary}`,
-    },
-    body: requestBody,
-  };
+// remove the emails already unsubscribed or whitelisted
+const removeFilteredEmails = async (accountEmail: string, newsletterEmails: INewsletterEmails[]) => {
+  if (newsletterEmails.length < 1) return newsletterEmails;
 
-  try {
-    const res = await fetch(`https://gmail.googleapis.com/batch/gmail/v1`, fetchOptions);
-
-    if (res.ok) {
-      // Read the response text as multipart/mixed
-      const responseText = (await res.text()).toString();
-
-      // find the headers in the response
-      const headersRegex = /"headers":\s*\[([^[\]]*("(name|value)":\s*"[^"]*")[^[\]]*)*\]/g;
-      const headerMatches = responseText.match(headersRegex);
-
-      // sender emails (name, emails)
-      const senderEmails: INewsletterEmails[] = [];
-
-      // lop through each header match to get names and emails
-      for (const header of headerMatches!) {
-        // clean the string (remove "{}[]"")
-        const cleanStrPattern = /[{"\[\]}]/g;
-        // parse value string, contains name & emails
-        const valueStr = header.split(`"value":`)[1].replace(cleanStrPattern, '').trim();
-
-        // name
-        let name = valueStr.split(`\\u003c`)[0].trim();
-        // email
-        let email = valueStr.split(`\\u003c`)[1]
-          ? valueStr.split(`\\u003c`)[1].replace('\\u003e', '').trim()
-          : '';
-
-        if (!email) {
-          email = name;
-          name = '';
-        }
-
-        senderEmails.push({ name, email });
-      }
-
-      if (senderEmails.length > 0) {
-        // return sender email address
-        return senderEmails;
-      } else {
-        throw new Error('No email addresses found in the response.');
-      }
-    } else {
-      throw new Error(`Batch request failed: err: ${await res.text()}`);
-    }
-  } catch (error) {
-    logger.error({
-      error,
-      msg: 'Error making batch request',
-      fileTrace:
-        'background/services/api/gmail/handler/getNewsletterEmails.ts:102 getSenderEmailsFromIds() catch block',
-    });
-  }
-};
+  const unsubscribedEmails = await getUnsubscribedEmails(accountEmail);
 
-// get newsletters/mailing list emails form Gmail ap
-export const getNewsletterEmails = async (userToken: string) => {
-  const fetchOptions: Partial<RequestInit> = {
-    method: 'GET',
-    headers: {
-      Authorization: `Bearer ${userToken}`,
-    },
-  };
+  const whitelistedEmails = await getWhitelistedEmails(accountEmail);
 
-  let nextPageToken: string | null = null;
+  // senders unsubscribed with their List-Unsubscribe header (not in the unsubscribe filter)
+  const listUnsubscribedEmails = await getLocalStorageByKey<string[]>(
+    accountEmail,
+    storageKeys.LIST_UNSUBSCRIBED_EMAILS
+  );
 
-  // message ids batches to be processed
-  let batches: string[][] = [];
+  // emails & domain rules to filter out, combining unsubscribed and whitelisted emails
+  const filterEmails = [
+    ...(unsubscribedEmails || []),
+    ...(listUnsubscribedEmails || []),
+    ...(whitelistedEmails || []),
+  ];
 
-  // newsletter emails (processed & filtered)
-  let newsletterEmails: INewsletterEmails[] = [];
+  if (filterEmails.length < 1) return newsletterEmails;
 
-  try {
-    // do while loop to handle pagination (gmail api has a response limit of 500)
-    do {
-      const queryParams = `maxResults=${API_MAX_RESULT}&q={"unsubscribe" "newsletter"} in:anywhere${
-        nextPageToken ? `&pageToken=${nextPageToken}` : ''
-      }`;
-
-      const res = await fetch(
-        `https://gmail.googleapis.com/gmail/v1/users/me/messages?${queryParams}`,
-        fetchOptions
-      );
+  const isFilteredEmail = createFilterListMatcher(filterEmails);
+
+  return newsletterEmails.filter(email => !isFilteredEmail(email.email));
+};
 
-      const parsedRes = await res.json();
+// get the stored sender index synced with the mailbox changes since the last sync,
+// creates a new index (full rescan) if not stored or the history id has expired
+const getSyncedSenderIndex = async (accountEmail: string) => {
+  const storedSenderIndex = await getLocalStorageByKey<NewsletterSenderIndex>(
+    accountEmail,
+    storageKeys.NEWSLETTER_SENDER_INDEX
+  );
 
-      // handle api errors
-      apiErrorHandler(parsedRes);
+  if (!storedSenderIndex?.historyId) return await createSenderIndex(accountEmail);
 
-      if (parsedRes.messages && parsedRes.messages.length < 1) throw new Error('No emails found');
+  try {
+    await syncSenderIndex(accountEmail, storedSenderIndex);
+    return storedSenderIndex;
+  } catch (error) {
+    // history id expired (404), do a full rescan
+    if (error.message === errorMessage.notFound) {
+      logger.info(
+        'History id expired, rescanning newsletter emails',
+        'background/services/api/gmail/handler/getNewsletterEmails.ts:55 ~ getSyncedSenderIndex()'
+      );
+      return await createSenderIndex(accountEmail);
+    }
+    throw error;
+  }
+};
 
-      // save next page userToken if present to fetch next batch of messages
-      if (parsedRes.nextPageToken) {
-        nextPageToken = parsedRes.nextPageToken;
-      } else {
-        nextPageToken = null;
-      }
+// get newsletters/mailing list emails form Gmail api
+// changes since the last scan are synced incrementally (history api),
+// the newsletter search is continued only if there aren't enough emails
+export const getNewsletterEmails = async (accountEmail: string) => {
+  // newsletter emails (processed & filtered)
+  let newsletterEmails: INewsletterEmails[] = [];
 
-      // dividing the messageIds into batches ~
-      // so we can use the gmail batch api to group multiple requests into on
-      const BATCH_SIZE = 45;
+  try {
+    const senderIndex = await getSyncedSenderIndex(accountEmail);
 
-      // create batches of emails
-      for (let i = 0; i < parsedRes.messages.length; i += BATCH_SIZE) {
-        // if last batch is not more than half of batch size then add to previous batch
-        batches.push(parsedRes.messages.slice(i, i + BATCH_SIZE).map(msg => msg.id));
-      }
+    newsletterEmails = await removeFilteredEmails(accountEmail, getSendersFromIndex(senderIndex));
 
-      logger.info(
-        `Number of batches to process: ${batches.length}`,
-        'background/services/api/gmail/handler/getNewsletterEmails.ts:170 ~ getNewsletterEmails()'
-      );
+    // scan more pages (gmail api has a response limit of 500) until found required num of emails
+    while (newsletterEmails.length < MINIMUM_EMAILS_THRESHOLD && !isScanComplete(senderIndex)) {
+      await scanNextPage(accountEmail, senderIndex);
 
-      // process batches to get newsletter emails
-      for (const batch of batches) {
-        // get sender emails from the message ids queried
-        const senderEmails = await getSenderEmailsFromIds({
-          messageIds: batch,
-          userToken,
-        });
-
-        // store the emails
-        newsletterEmails = removeDuplicateEmails([...newsletterEmails, ...senderEmails]);
-      }
-
-      //* check if these emails are already unsubscribed or whitelisted
-      if (newsletterEmails.length > 0) {
-        const unsubscribedEmails = await getUnsubscribedEmails(userToken);
-
-        const whitelistedEmails = await getWhitelistedEmails(userToken);
-
-        // emails to filter out, combining unsubscribed and whitelisted emails
-        const filterEmails = [];
-
-        if (unsubscribedEmails && unsubscribedEmails.length > 0) {
-          filterEmails.push(...unsubscribedEmails);
-        }
-
-        if (whitelistedEmails && whitelistedEmails.length > 0) {
-          filterEmails.push(...whitelistedEmails);
-        }
-
-        if (filterEmails.length > 0) {
-          // filter emails already unsubscribed or whitelisted
-          const filteredNewsletterEmails = newsletterEmails.filter(
-            email => !filterEmails.includes(email.email)
-          );
-
-          // store the filtered emails
-          newsletterEmails = removeDuplicateEmails(filteredNewsletterEmails);
-        } else {
-          // store the emails
-          newsletterEmails = removeDuplicateEmails(newsletterEmails);
-        }
-        if (!newsletterEmails[0]) {
-          newsletterEmails.splice(0, 1);
-        }
-      }
-
-      // stop while loop if found required num of emails
-      if (newsletterEmails.length >= MINIMUM_EMAILS_THRESHOLD) break;
-
-      //end of do-while loop
-    } while (nextPageToken !== null);
+      newsletterEmails = await removeFilteredEmails(accountEmail, getSendersFromIndex(senderIndex));
+    }
 
     // save to chrome local storage
-    await setStorage({ type: 'local', key: 'NEWSLETTER_EMAILS', value: newsletterEmails });
+    await setStorage({
+      accountEmail,
+      type: 'local',
+      key: storageKeys.NEWSLETTER_SENDER_INDEX,
+      value: senderIndex,
+    });
+    await setStorage({
+      accountEmail,
+      type: 'local',
+      key: storageKeys.NEWSLETTER_EMAILS,
+      value: newsletterEmails,
+    });
 
     return newsletterEmails;
 
@@ -229,7 +113,7 @@ export const getNewsletterEmails = async (userToken: string) => {
       error,
       msg: 'Error while getting newsletter emails',
       fileTrace:
-        'background/services/api/gmail/handler/getNewsletterEmails.ts:230 getNewsletterEmails() catch block',
+        'background/services/api/gmail/handler/getNewsletterEmails.ts:90 getNewsletterEmails() catch block',
     });
     return [];
   }
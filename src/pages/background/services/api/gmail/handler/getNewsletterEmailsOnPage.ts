@@ -1,46 +1,38 @@
 import { API_MAX_RESULT } from '@src/pages/background/constants/app.constants';
-import type { DataOnPage, GetMsgAPIResponse } from '@src/pages/background/types/background.types';
+import type { DataOnPage } from '@src/pages/background/types/background.types';
 import { getWhitelistedEmails } from './getWhitelistedEmails';
 import { logger } from '@src/pages/background/utils/logger';
-import { apiErrorHandler } from '@src/pages/background/utils/apiErrorHandler';
+import { getGmailClient } from '../gmailClient';
+import { createFilterListMatcher } from '@src/pages/background/utils/emailAddress';
+import * as gmailQuery from '@src/pages/background/utils/gmailQuery';
 
 type GetNewsletterEmailsOnPageParams = {
-  userToken: string;
+  accountEmail: string;
   dataOnPage: DataOnPage;
 };
 
 // check for newsletter emails on page
 export const getNewsletterEmailsOnPage = async ({
-  userToken,
+  accountEmail,
   dataOnPage: { emails, dateRange, category, folder },
 }: GetNewsletterEmailsOnPageParams) => {
   try {
-    const fetchOptions: Partial<RequestInit> = {
-      method: 'GET',
-      headers: {
-        Authorization: `Bearer ${userToken}`,
-        'Content-Type': 'application/json',
-      },
-    };
     // search query to check if the provided emails are newsletter emails or not
     // filter based on date range, category and folder (so that we get only the emails on the current page not all)
-    const searchQuery = `from:(${emails.map(data => data.email).join(' OR ')}) "unsubscribe"
-     after:${dateRange.startDate || ''} before:${dateRange.endDate || ''} 
-    ${category ? `category:${category}` : ''} 
-    ${folder === 'all' || folder === 'search' ? '' : `in:${folder}`}
-    `;
-
-    // call gmail api
-    const res = await fetch(
-      `https://gmail.googleapis.com/gmail/v1/users/me/messages?q=${searchQuery}&maxResults=${API_MAX_RESULT}`,
-      fetchOptions
+    const searchQuery = gmailQuery.buildQuery(
+      gmailQuery.from(...emails.map(data => data.email)),
+      gmailQuery.phrase('unsubscribe'),
+      gmailQuery.after(dateRange.startDate),
+      gmailQuery.before(dateRange.endDate),
+      category && gmailQuery.category(category as gmailQuery.GmailCategory),
+      folder && folder !== 'all' && folder !== 'search' && gmailQuery.inFolder(folder)
     );
 
-    // parse response
-    const parsedRes: GetMsgAPIResponse = await res.json();
-
-    // handle api errors
-    apiErrorHandler(parsedRes);
+    // call gmail api
+    const parsedRes = await getGmailClient(accountEmail).messages.list({
+      q: searchQuery,
+      maxResults: API_MAX_RESULT,
+    });
 
     if (!parsedRes.messages) {
       logger.info(
@@ -64,10 +56,13 @@ export const getNewsletterEmailsOnPage = async ({
       .map(email => email.email);
 
     // remove whitelisted emails from newsletter emails
-    const whitelistedEmails = await getWhitelistedEmails(userToken);
+    const whitelistedEmails = await getWhitelistedEmails(accountEmail);
 
     if (whitelistedEmails.length > 0) {
-      newsletterEmails = newsletterEmails.filter(email => !whitelistedEmails.includes(email));
+      // whitelisted emails & domains
+      const isWhitelistedEmail = createFilterListMatcher(whitelistedEmails);
+
+      newsletterEmails = newsletterEmails.filter(email => !isWhitelistedEmail(email));
     }
     logger.info(`Found 👉 ${newsletterEmails.length} newsletter emails on page`);
 
@@ -0,0 +1,18 @@
+import type { TrashJournalSummary } from '@src/pages/background/types/background.types';
+import { getTrashJournalSummary } from '../helper/trashJournal';
+import { logger } from '@src/pages/background/utils/logger';
+
+// get delete history (trash journal entries of the last 30 days)
+export const getTrashJournal = async (accountEmail: string): Promise<TrashJournalSummary[]> => {
+  try {
+    return await getTrashJournalSummary(accountEmail);
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error getting trash journal',
+      fileTrace:
+        'background/services/api/gmail/handler/getTrashJournal.ts:11 ~ getTrashJournal() catch block',
+    });
+    return [];
+  }
+};
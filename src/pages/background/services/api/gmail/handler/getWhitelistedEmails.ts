@@ -1,29 +1,32 @@
 import { FILTER_ACTION } from '@src/pages/background/types/background.types';
 import { storageKeys } from '@src/pages/background/constants/app.constants';
 import { getLocalStorageByKey } from '@src/pages/background/utils/getStorageByKey';
-import { getFilterById } from '../helper/gmailFilters';
-import { getFilterId } from '../helper/getFilterId';
+import { getFiltersByIds } from '../helper/gmailFilters';
+import { getFilterIds } from '../helper/getFilterIds';
 import { logger } from '@src/pages/background/utils/logger';
 import { setStorage } from '@src/pages/background/utils/setStorage';
 
-export const getWhitelistedEmails = async (userToken: string): Promise<string[]> => {
+export const getWhitelistedEmails = async (accountEmail: string): Promise<string[]> => {
   try {
     // get whitelisted emails from local.storage
-    const whitelistedEmails = await getLocalStorageByKey<string[]>(storageKeys.WHITELISTED_EMAILS);
+    const whitelistedEmails = await getLocalStorageByKey<string[]>(
+      accountEmail,
+      storageKeys.WHITELISTED_EMAILS
+    );
     if (whitelistedEmails && whitelistedEmails.length > 0) return whitelistedEmails;
     // if emails not present in local.storage get it from user's filter (gmail-api)
 
-    // check for whitelisted filter id in sync.storage
-    const whitelistFilterId = await getFilterId({ userToken, filterAction: FILTER_ACTION.INBOX });
-    if (!whitelistFilterId) throw new Error('❌ Failed to get whitelist filter id');
+    // check for whitelisted filter ids in sync.storage
+    const whitelistFilterIds = await getFilterIds({ accountEmail, filterAction: FILTER_ACTION.INBOX });
+    if (whitelistFilterIds.length < 1) throw new Error('❌ Failed to get whitelist filter id');
 
-    //  get emails from filter by id
-    const res = await getFilterById(userToken, whitelistFilterId);
+    //  get emails from all the filter shards
+    const res = await getFiltersByIds(accountEmail, whitelistFilterIds);
 
     if (!res) throw new Error('❌ Failed to get whitelist filter emails');
 
     // save emails to chrome local storage
-    await setStorage({ type: 'local', key: storageKeys.WHITELISTED_EMAILS, value: res.emails });
+    await setStorage({ accountEmail, type: 'local', key: storageKeys.WHITELISTED_EMAILS, value: res.emails });
 
     return res.emails;
   } catch (error) {
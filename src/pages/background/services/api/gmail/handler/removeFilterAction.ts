@@ -0,0 +1,28 @@
+import type { APIHandleParams, FILTER_ACTION } from '@src/pages/background/types/background.types';
+import { removeEmailFromFilter } from '../helper/filterWriteQueue';
+import { logger } from '@src/pages/background/utils/logger';
+
+type RemoveFilterActionParams = APIHandleParams & {
+  filterAction: FILTER_ACTION;
+};
+
+// remove senders from the app filter of the action
+export const removeFilterAction = async ({
+  accountEmail,
+  emails,
+  filterAction,
+}: RemoveFilterActionParams) => {
+  try {
+    // remove email from filter (queued with the other filter updates)
+    await removeEmailFromFilter({ accountEmail, emails, filterAction });
+    return true;
+  } catch (error) {
+    logger.error({
+      error,
+      msg: `Error removing ${filterAction} filter action`,
+      fileTrace:
+        'background/services/api/gmail/handler/removeFilterAction.ts:17 ~ removeFilterAction() catch block',
+    });
+    return false;
+  }
+};
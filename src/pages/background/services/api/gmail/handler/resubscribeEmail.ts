@@ -1,26 +1,21 @@
 import { APIHandleParams, FILTER_ACTION } from '@src/pages/background/types/background.types';
-import { addEmailToFilter, removeEmailFromFilter } from '../helper/updateFilter';
-import { getFilterId } from '../helper/getFilterId';
+import { addEmailToFilter, removeEmailFromFilter } from '../helper/filterWriteQueue';
 import { logger } from '@src/pages/background/utils/logger';
 
 // handle resubscribe
-export const resubscribeEmail = async ({ userToken, emails }: APIHandleParams) => {
+export const resubscribeEmail = async ({ accountEmail, emails }: APIHandleParams) => {
   try {
     // remove email from unsubscribe filter
-    const unsubscribeFilterId = await getFilterId({ userToken, filterAction: FILTER_ACTION.TRASH });
     await removeEmailFromFilter({
-      userToken,
+      accountEmail,
       emails,
-      filterId: unsubscribeFilterId,
       filterAction: FILTER_ACTION.TRASH,
     });
 
     // add email to whitelist filter
-    const whitelistFilterId = await getFilterId({ userToken, filterAction: FILTER_ACTION.INBOX });
     await addEmailToFilter({
-      userToken,
+      accountEmail,
       emails,
-      filterId: whitelistFilterId,
       filterAction: FILTER_ACTION.INBOX,
     });
     return true;
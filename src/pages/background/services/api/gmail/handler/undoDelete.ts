@@ -0,0 +1,16 @@
+import { restoreTrashJournalEntry } from '../helper/trashJournal';
+import { logger } from '@src/pages/background/utils/logger';
+
+// undo delete: restore the mails of the trash journal entry from trash
+export const undoDelete = async (accountEmail: string, trashJournalId: string) => {
+  try {
+    return await restoreTrashJournalEntry(accountEmail, trashJournalId);
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error restoring deleted mails',
+      fileTrace: 'background/services/api/gmail/handler/undoDelete.ts:10 ~ undoDelete() catch block',
+    });
+    return false;
+  }
+};
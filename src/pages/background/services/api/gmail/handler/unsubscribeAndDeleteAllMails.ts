@@ -1,24 +1,120 @@
-import type { APIHandleParams } from '@src/pages/background/types/background.types';
+import {
+  FILTER_ACTION,
+  IMessageEvent,
+  type APIHandleParams,
+  type DryRunFilterChange,
+  type IMessageBody,
+} from '@src/pages/background/types/background.types';
+import { logger } from '@src/pages/background/utils/logger';
+import { isDomainRule } from '@src/pages/background/utils/emailAddress';
 import { unsubscribeEmail } from './unsubscribeEmail';
 import { deleteAllMails } from './deleteAllMails';
+import { createDryRunReport, getSendersMessages } from '../helper/dryRunReport';
+import { getUnsubscribeMethod } from '../helper/listUnsubscribe';
+import { previewFilterEmailsUpdate } from '../helper/updateFilter';
+import { getDeleteProtection } from '../helper/deleteProtection';
 
 type UnsubscribeAndDeleteAllMailsParams = {
   isWhitelisted: boolean;
+  // job id of the delete all mails job, sent by the content script
+  jobId?: string;
+  // only get the report of the changes (unsubscribe methods, filter changes & mails that would be deleted)
+  isDryRun?: boolean;
+  // delete more than the limit (delete protection), confirmed by the user
+  isOverLimitConfirmed?: boolean;
 } & APIHandleParams;
 
+// report of the unsubscribe & delete, same steps as the unsubscribe without sending/updating anything
+const getDryRunReport = async ({
+  accountEmail,
+  emails,
+  isWhitelisted,
+}: UnsubscribeAndDeleteAllMailsParams): Promise<Pick<IMessageBody, 'event' | 'dryRunReport'> | false> => {
+  try {
+    const { messageIds, senders } = await getSendersMessages(
+      accountEmail,
+      emails,
+      await getDeleteProtection(accountEmail)
+    );
+
+    for (const sender of senders) {
+      const method = isDomainRule(sender.email)
+        ? null
+        : await getUnsubscribeMethod(accountEmail, sender.email);
+
+      sender.unsubscribeMethod = method || 'filter';
+    }
+
+    // only the senders without a List-Unsubscribe header would be added to the filter (unsubscribed list)
+    const filterChanges: DryRunFilterChange[] = [
+      await previewFilterEmailsUpdate({
+        accountEmail,
+        filterAction: FILTER_ACTION.TRASH,
+        addEmails: senders
+          .filter(sender => sender.unsubscribeMethod === 'filter')
+          .map(sender => sender.email),
+        removeEmails: [],
+      }),
+    ];
+
+    // whitelisted emails would be removed from the whitelist filter (no change if not in the filter)
+    if (isWhitelisted) {
+      filterChanges.push(
+        await previewFilterEmailsUpdate({
+          accountEmail,
+          filterAction: FILTER_ACTION.INBOX,
+          addEmails: [],
+          removeEmails: emails,
+        })
+      );
+    }
+
+    return {
+      event: IMessageEvent.UNSUBSCRIBE_AND_DELETE_MAILS,
+      dryRunReport: await createDryRunReport({
+        accountEmail,
+        action: 'unsubscribeAndDeleteAllMails',
+        messageIds,
+        senders,
+        filterChanges,
+      }),
+    };
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error getting unsubscribe and delete dry run report',
+      fileTrace:
+        'background/services/api/gmail/handler/unsubscribeAndDeleteAllMails.ts:70 ~ getDryRunReport() catch block',
+    });
+    return false;
+  }
+};
+
 export const unsubscribeAndDeleteAllMails = async ({
+  accountEmail,
   emails,
-  userToken,
   isWhitelisted,
+  jobId,
+  isDryRun,
+  isOverLimitConfirmed,
 }: UnsubscribeAndDeleteAllMailsParams) => {
+  if (isDryRun) return await getDryRunReport({ accountEmail, emails, isWhitelisted });
+
   // unsubscribe
-  const res1 = await unsubscribeEmail({ userToken, emails, isWhitelisted });
+  const res1 = await unsubscribeEmail({ accountEmail, emails, isWhitelisted });
 
-  //delete all mails
-  const res2 = await deleteAllMails({ userToken, emails });
+  //delete all mails (background job)
+  const res2 = await deleteAllMails({
+    accountEmail,
+    emails,
+    source: 'unsubscribeAndDeleteAllMails',
+    jobId,
+    isOverLimitConfirmed,
+  });
 
   if (res1 && res2) {
-    return true;
+    // unsubscribe results (method used for each email) & the delete job id
+    return { ...res1, jobId: res2.jobId };
   } else {
     return false;
   }
@@ -2,36 +2,103 @@ import { storageKeys } from '@src/pages/background/constants/app.constants';
 import {
   APIHandleParams,
   FILTER_ACTION,
+  IMessageBody,
+  IMessageEvent,
   INewsletterEmails,
+  UnsubscribeResult,
 } from '@src/pages/background/types/background.types';
 import { getLocalStorageByKey } from '@src/pages/background/utils/getStorageByKey';
-import { getFilterId } from '../helper/getFilterId';
 import { getWhitelistedEmails } from './getWhitelistedEmails';
-import { addEmailToFilter, removeEmailFromFilter } from '../helper/updateFilter';
+import { addEmailToFilter, removeEmailFromFilter } from '../helper/filterWriteQueue';
 import { logger } from '@src/pages/background/utils/logger';
 import { setStorage } from '@src/pages/background/utils/setStorage';
+import { createFilterListMatcher, isDomainRule, isSameEmail } from '@src/pages/background/utils/emailAddress';
+import { unsubscribeWithListUnsubscribe } from '../helper/listUnsubscribe';
 
 type UnsubscribeEmailParams = {
   isWhitelisted: boolean;
 } & APIHandleParams;
 
+// save the senders unsubscribed with their List-Unsubscribe header (not added to the filter),
+// so they are hidden from the newsletters
+const saveListUnsubscribedEmails = async (accountEmail: string, emails: string[]) => {
+  const listUnsubscribedEmails =
+    (await getLocalStorageByKey<string[]>(accountEmail, storageKeys.LIST_UNSUBSCRIBED_EMAILS)) || [];
+
+  const isSaved = createFilterListMatcher(listUnsubscribedEmails);
+
+  await setStorage({
+    accountEmail,
+    type: 'local',
+    key: storageKeys.LIST_UNSUBSCRIBED_EMAILS,
+    value: [...listUnsubscribedEmails, ...emails.filter(email => !isSaved(email))],
+  });
+};
+
 // handle unsubscribe/block email
-export const unsubscribeEmail = async ({ userToken, emails, isWhitelisted }: UnsubscribeEmailParams) => {
+// unsubscribes using the sender's List-Unsubscribe header, the app's TRASH filter is the fallback for the senders
+// without a (working) List-Unsubscribe header & the domain rules, ex: *@brand.com
+// returns the result of each sender even if the filter couldn't be updated (unsubscribe requests are already sent)
+export const unsubscribeEmail = async ({
+  accountEmail,
+  emails,
+  isWhitelisted,
+}: UnsubscribeEmailParams): Promise<Pick<IMessageBody, 'event' | 'unsubscribeResults'> | false> => {
+  const unsubscribeResults: UnsubscribeResult[] = [];
+
   try {
-    // check if fresh-Inbox filter id exists in storage
-    const filterId = await getFilterId({ userToken, filterAction: FILTER_ACTION.TRASH });
+    // emails without a (working) List-Unsubscribe header, these will be added to the filter
+    const filterEmails: string[] = [];
+
+    for (const email of emails) {
+      const listUnsubscribeResult = isDomainRule(email)
+        ? null
+        : await unsubscribeWithListUnsubscribe(accountEmail, email);
 
-    if (!filterId) throw new Error('❌ Failed to get unsubscribe filter id');
+      if (listUnsubscribeResult?.isSuccess) {
+        unsubscribeResults.push({ email, ...listUnsubscribeResult });
+      } else {
+        filterEmails.push(email);
+      }
+    }
 
-    // block/unsubscribe email
-    // update filter: add email to filter
-    await addEmailToFilter({ userToken, filterId, emails, filterAction: FILTER_ACTION.TRASH });
+    const listUnsubscribedEmails = unsubscribeResults.map(result => result.email);
+
+    if (listUnsubscribedEmails.length > 0)
+      await saveListUnsubscribedEmails(accountEmail, listUnsubscribedEmails);
+
+    if (filterEmails.length > 0) {
+      let isFilterUpdated = true;
+
+      try {
+        // block/unsubscribe email
+        // update filter: add email to filter (queued with the other filter updates)
+        await addEmailToFilter({ accountEmail, emails: filterEmails, filterAction: FILTER_ACTION.TRASH });
+      } catch (error) {
+        isFilterUpdated = false;
+        logger.error({
+          error,
+          msg: `Error adding 👉 emails: ${filterEmails} to the unsubscribe filter`,
+          fileTrace:
+            'background/services/api/gmail/handler/unsubscribeEmail.ts:82 ~ unsubscribeEmail() catch block',
+        });
+      }
+
+      unsubscribeResults.push(
+        ...filterEmails.map(email => ({ email, method: 'filter' as const, isSuccess: isFilterUpdated }))
+      );
+    }
 
     // get all the newsletter emails
-    const newsletterEmails = await getLocalStorageByKey<INewsletterEmails[]>(storageKeys.NEWSLETTER_EMAILS);
+    const newsletterEmails = await getLocalStorageByKey<INewsletterEmails[]>(
+      accountEmail,
+      storageKeys.NEWSLETTER_EMAILS
+    );
     if (newsletterEmails && newsletterEmails.length > 0) {
       // remove the unsubscribed emails if present in newsletter emails
-      const filteredNewsletterEmails = newsletterEmails?.filter(e => !emails.includes(e.email));
+      // emails & domain rules
+      const isHandledEmail = createFilterListMatcher(emails);
+      const filteredNewsletterEmails = newsletterEmails?.filter(e => !isHandledEmail(e.email));
 
       // check if the original newsletter emails and filtered newsletter emails
       if (filteredNewsletterEmails.length !== newsletterEmails.length) {
@@ -39,6 +106,7 @@ export const unsubscribeEmail = async ({ userToken, emails, isWhitelisted }: Uns
 
         // save updated newsletter emails
         await setStorage({
+          accountEmail,
           type: 'local',
           key: storageKeys.NEWSLETTER_EMAILS,
           value: filteredNewsletterEmails,
@@ -49,31 +117,29 @@ export const unsubscribeEmail = async ({ userToken, emails, isWhitelisted }: Uns
     // check isWhitelisted flag:
     // if present, remove the emails from the whitelist filter as well
     if (isWhitelisted) {
-      const whitelistedEmails = await getWhitelistedEmails(userToken);
+      const whitelistedEmails = await getWhitelistedEmails(accountEmail);
 
-      if (!whitelistedEmails) return true;
+      if (!whitelistedEmails) return { event: IMessageEvent.UNSUBSCRIBE, unsubscribeResults };
 
-      if (whitelistedEmails.filter(e => emails.includes(e)).length > 0) {
-        // get whitelist filter id
-        const whitelistFilterId = await getFilterId({ userToken, filterAction: FILTER_ACTION.INBOX });
+      if (whitelistedEmails.filter(e => emails.some(email => isSameEmail(email, e))).length > 0) {
         // remove email from whitelist filter
         await removeEmailFromFilter({
-          userToken,
+          accountEmail,
           emails,
-          filterId: whitelistFilterId,
           filterAction: FILTER_ACTION.INBOX,
         });
       }
     }
 
-    return true;
+    return { event: IMessageEvent.UNSUBSCRIBE, unsubscribeResults };
   } catch (error) {
     logger.error({
       error,
       msg: `Error unsubscribing from 👉 emails: ${emails}`,
       fileTrace:
-        'background/services/api/gmail/handler/unsubscribeEmail.ts:69 ~ unsubscribeEmail() catch block',
+        'background/services/api/gmail/handler/unsubscribeEmail.ts:140 ~ unsubscribeEmail() catch block',
     });
-    return false;
+    // results of the senders already unsubscribed (requests sent)
+    return unsubscribeResults.length > 0 ? { event: IMessageEvent.UNSUBSCRIBE, unsubscribeResults } : false;
   }
 };
@@ -4,26 +4,27 @@ import {
   FILTER_ACTION,
   INewsletterEmails,
 } from '@src/pages/background/types/background.types';
-import { getFilterId } from '../helper/getFilterId';
 import { getLocalStorageByKey } from '@src/pages/background/utils/getStorageByKey';
-import { addEmailToFilter } from '../helper/updateFilter';
+import { addEmailToFilter } from '../helper/filterWriteQueue';
 import { logger } from '@src/pages/background/utils/logger';
 import { setStorage } from '@src/pages/background/utils/setStorage';
+import { createFilterListMatcher } from '@src/pages/background/utils/emailAddress';
 
-export const whitelistEmail = async ({ userToken, emails }: APIHandleParams) => {
+export const whitelistEmail = async ({ accountEmail, emails }: APIHandleParams) => {
   try {
-    // get whitelist filter id
-    const filterId = await getFilterId({ userToken, filterAction: FILTER_ACTION.INBOX });
-
-    if (!filterId) throw new Error('❌ Failed to get whitelist filter');
-    // add email to filter
-    addEmailToFilter({ userToken, emails, filterId, filterAction: FILTER_ACTION.INBOX });
+    // add email to filter (queued with the other filter updates)
+    await addEmailToFilter({ accountEmail, emails, filterAction: FILTER_ACTION.INBOX });
 
     // get all the newsletter emails
-    const newsletterEmails = await getLocalStorageByKey<INewsletterEmails[]>(storageKeys.NEWSLETTER_EMAILS);
+    const newsletterEmails = await getLocalStorageByKey<INewsletterEmails[]>(
+      accountEmail,
+      storageKeys.NEWSLETTER_EMAILS
+    );
     if (newsletterEmails && newsletterEmails.length > 0) {
       // remove the unsubscribed emails if present in newsletter emails
-      const filteredNewsletterEmails = newsletterEmails?.filter(e => !emails.includes(e.email));
+      // emails & domain rules
+      const isHandledEmail = createFilterListMatcher(emails);
+      const filteredNewsletterEmails = newsletterEmails?.filter(e => !isHandledEmail(e.email));
 
       // check if the original newsletter emails and filtered newsletter emails
       if (filteredNewsletterEmails.length !== newsletterEmails.length) {
@@ -31,6 +32,7 @@ export const whitelistEmail = async ({ userToken, emails }: APIHandleParams) =>
 
         // save updated newsletter emails
         await setStorage({
+          accountEmail,
           type: 'local',
           key: storageKeys.NEWSLETTER_EMAILS,
           value: filteredNewsletterEmails,
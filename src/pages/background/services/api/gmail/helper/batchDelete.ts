@@ -1,42 +1,53 @@
-import { apiErrorHandler } from '@src/pages/background/utils/apiErrorHandler';
+import type { TrashJournalEntry } from '@src/pages/background/types/background.types';
 import { logger } from '@src/pages/background/utils/logger';
+import { getGmailClient } from '../gmailClient';
+import { getMessageLabelIds, recordTrashedMails } from './trashJournal';
 
-// delete all mails in batches for faster processing
-export const batchDeleteMails = async (userToken: string, ids: string[]) => {
-  // added TRASH label, remove INBOX label for all the emails/messages
-  const reqBody = {
-    ids,
-    addLabelIds: ['TRASH'],
-    removeLabelIds: ['INBOX'],
-  };
+// labels removed from the mails while moving them to trash
+const TRASH_REMOVED_LABEL_IDS = ['INBOX'];
 
-  const fetchOptions: Partial<RequestInit> = {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${userToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(reqBody),
-  };
+type BatchDeleteResult = {
+  isDeleted: boolean;
+  // deleted mails were recorded in the trash journal (no journal entry passed: nothing to record)
+  isRecorded: boolean;
+};
 
+// delete all mails in batches for faster processing
+// if journal entry is passed, the deleted mails are recorded in the trash journal (to undo the delete)
+export const batchDeleteMails = async (
+  accountEmail: string,
+  ids: string[],
+  journalEntry?: TrashJournalEntry
+): Promise<BatchDeleteResult> => {
   try {
+    // labels of the mails before the delete (to restore the removed labels on undo)
+    const labelIdsByMessage = journalEntry ? await getMessageLabelIds(accountEmail, ids) : {};
+
     // batch delete emails
-    const res = await fetch(
-      'https://gmail.googleapis.com/gmail/v1/users/me/messages/batchModify',
-      fetchOptions
-    );
-    const parsedRes = await res.json();
+    // added TRASH label, remove INBOX label for all the emails/messages
+    await getGmailClient(accountEmail).messages.batchModify({
+      ids,
+      addLabelIds: ['TRASH'],
+      removeLabelIds: TRASH_REMOVED_LABEL_IDS,
+    });
+
+    if (!journalEntry) return { isDeleted: true, isRecorded: true };
 
-    // handle api errors
-    apiErrorHandler(parsedRes);
+    const isRecorded = await recordTrashedMails({
+      accountEmail,
+      entry: journalEntry,
+      ids,
+      labelIdsByMessage,
+      removedLabelIds: TRASH_REMOVED_LABEL_IDS,
+    });
 
-    return true;
+    return { isDeleted: true, isRecorded };
   } catch (error) {
     logger.error({
       error,
       msg: 'Error while batch deleting emails',
       fileTrace: 'background/services/api/gmail/handler/deeAllMails.ts:30 batchDeleteMails() catch block',
     });
-    return false;
+    return { isDeleted: false, isRecorded: false };
   }
 };
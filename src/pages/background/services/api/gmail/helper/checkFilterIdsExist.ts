@@ -0,0 +1,23 @@
+import { logger } from '@src/pages/background/utils/logger';
+import { getGmailClient } from '../gmailClient';
+
+// check if all the filter ids (shards) exist or not
+export const checkFilterIdsExist = async (accountEmail: string, filterIds: string[]): Promise<boolean> => {
+  try {
+    if (filterIds.length < 1) return false;
+
+    const parsedRes = await getGmailClient(accountEmail).filters.list();
+
+    const existingFilterIds = new Set((parsedRes?.filter || []).map(filter => filter.id));
+
+    return filterIds.every(filterId => existingFilterIds.has(filterId));
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error while checking filter ids',
+      fileTrace:
+        'background/services/api/gmail/helper/checkFilterIdsExist.ts:19 ~ checkFilterIdsExist() catch block',
+    });
+    return false;
+  }
+};
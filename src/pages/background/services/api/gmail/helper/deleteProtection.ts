@@ -0,0 +1,76 @@
+import { DEFAULT_DELETE_PROTECTION, storageKeys } from '@src/pages/background/constants/app.constants';
+import type {
+  DeleteProtection,
+  DeleteRetention,
+  GmailMessage,
+  GmailThread,
+} from '@src/pages/background/types/background.types';
+import { getSyncStorageByKey } from '@src/pages/background/utils/getStorageByKey';
+import * as gmailQuery from '@src/pages/background/utils/gmailQuery';
+import { BATCH_MAX_REQUESTS } from '../gmailBatch';
+import { getGmailClient } from '../gmailClient';
+import { getRetentionQueryParts } from './deleteRetention';
+
+//* delete protection
+// protection rules (user preferences) applied to every delete: starred, important & protected label mails
+// are excluded in the search query, the threads with the user's sent mails are excluded after the search,
+// deleting more than the limit (max mails per delete) needs a typed confirmation
+
+// get the delete protection preferences of the account
+export const getDeleteProtection = async (accountEmail: string): Promise<DeleteProtection> => ({
+  ...DEFAULT_DELETE_PROTECTION,
+  ...(await getSyncStorageByKey<Partial<DeleteProtection>>(accountEmail, storageKeys.DELETE_PROTECTION)),
+});
+
+// query parts to exclude the protected mails
+export const getProtectionQueryParts = (protection: DeleteProtection) => [
+  protection.excludeStarred && gmailQuery.not(gmailQuery.is('starred')),
+  protection.excludeImportant && gmailQuery.not(gmailQuery.is('important')),
+  ...protection.protectedLabels.map(name => gmailQuery.not(gmailQuery.label(name))),
+];
+
+// search query of the delete all mails (all the mails from the senders, without the protected mails),
+// only the mails allowed by the retention options (older than, unread only) if set
+export const buildDeleteAllMailsQuery = (
+  emails: string[],
+  protection: DeleteProtection,
+  retention?: DeleteRetention | null
+) =>
+  gmailQuery.buildQuery(
+    gmailQuery.from(...emails),
+    ...getProtectionQueryParts(protection),
+    ...getRetentionQueryParts(retention)
+  );
+
+// remove the mails of the threads with the user's sent mails (threads the user replied to or started),
+// mails of the threads that couldn't be checked are removed as well
+export const excludeSentThreadMessages = async <T extends GmailMessage>(
+  accountEmail: string,
+  messages: T[]
+) => {
+  const threadIds = [...new Set(messages.map(message => message.threadId))];
+
+  // threads without any sent mail
+  const unprotectedThreadIds = new Set<string>();
+
+  // get labels of the thread messages in batches (max 100 threads per batch request)
+  for (let i = 0; i < threadIds.length; i += BATCH_MAX_REQUESTS) {
+    const responseParts = await getGmailClient(accountEmail).batch<GmailThread>(
+      threadIds.slice(i, i + BATCH_MAX_REQUESTS).map(threadId => ({
+        id: `thread-${threadId}`,
+        method: 'GET',
+        path: `/gmail/v1/users/me/threads/${threadId}?format=minimal`,
+      }))
+    );
+
+    for (const part of responseParts) {
+      if (part.status !== 200 || !part.body?.id) continue;
+
+      if (!part.body.messages?.some(message => message.labelIds?.includes('SENT'))) {
+        unprotectedThreadIds.add(part.body.id);
+      }
+    }
+  }
+
+  return messages.filter(message => unprotectedThreadIds.has(message.threadId));
+};
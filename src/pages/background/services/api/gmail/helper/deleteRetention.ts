@@ -0,0 +1,16 @@
+import type { DeleteRetention } from '@src/pages/background/types/background.types';
+import * as gmailQuery from '@src/pages/background/utils/gmailQuery';
+
+//* delete retention
+// retention options of the delete all mails: only the mails older than the days or the unread mails are deleted
+// (added to the search query), the latest mails are kept (skipped from the search result, gmail lists the latest first)
+
+// query parts to only match the mails that can be deleted
+export const getRetentionQueryParts = (retention?: DeleteRetention | null) => [
+  retention?.olderThanDays > 0 && gmailQuery.olderThan(`${retention.olderThanDays}d`),
+  retention?.isUnreadOnly && gmailQuery.is('unread'),
+];
+
+// number of the latest mails to keep
+export const getKeepLatestCount = (retention?: DeleteRetention | null) =>
+  retention?.keepLatestCount > 0 ? retention.keepLatestCount : 0;
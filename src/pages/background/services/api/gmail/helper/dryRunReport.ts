@@ -0,0 +1,120 @@
+import { API_MAX_RESULT } from '@src/pages/background/constants/app.constants';
+import type {
+  DeleteProtection,
+  DeleteRetention,
+  DryRunAction,
+  DryRunFilterChange,
+  DryRunReport,
+  DryRunSender,
+} from '@src/pages/background/types/background.types';
+import { getGmailClient } from '../gmailClient';
+import { getMessagePreviews } from '../handler/advance-search/getMessagePreviews';
+import { buildDeleteAllMailsQuery, excludeSentThreadMessages } from './deleteProtection';
+import { getKeepLatestCount } from './deleteRetention';
+
+// latest mails previewed in the dry run report
+const DRY_RUN_PREVIEW_COUNT = 25;
+
+// get ids of all the mails matching the query (all the pages, latest first)
+export const getAllMessageIds = async (accountEmail: string, query: string, excludeSentThreads: boolean) => {
+  const messageIds: string[] = [];
+
+  let pageToken: string | null = null;
+
+  do {
+    const parsedRes = await getGmailClient(accountEmail).messages.list({
+      q: query,
+      maxResults: API_MAX_RESULT,
+      pageToken,
+    });
+
+    const messages =
+      parsedRes.messages && excludeSentThreads
+        ? await excludeSentThreadMessages(accountEmail, parsedRes.messages)
+        : parsedRes.messages || [];
+
+    messageIds.push(...messages.map(message => message.id));
+
+    pageToken = parsedRes.nextPageToken || null;
+  } while (pageToken);
+
+  return messageIds;
+};
+
+// get the mails that would be trashed by the delete all mails job (same query & protection, run for each sender),
+// returns the message ids (no duplicates) & the message count of each sender
+export const getSendersMessages = async (
+  accountEmail: string,
+  emails: string[],
+  protection: DeleteProtection,
+  retention?: DeleteRetention | null
+) => {
+  const messageIds = new Set<string>();
+
+  const senders: DryRunSender[] = [];
+
+  // retention: the latest mails of all the senders are kept (same as the job)
+  const keepLatestCount = getKeepLatestCount(retention);
+
+  const keptMessageIds = new Set(
+    keepLatestCount > 0
+      ? (
+          await getAllMessageIds(
+            accountEmail,
+            buildDeleteAllMailsQuery(emails, protection, retention),
+            protection.excludeSentThreads
+          )
+        ).slice(0, keepLatestCount)
+      : []
+  );
+
+  for (const email of emails) {
+    const senderMessageIds = (
+      await getAllMessageIds(
+        accountEmail,
+        buildDeleteAllMailsQuery([email], protection, retention),
+        protection.excludeSentThreads
+      )
+    ).filter(id => !keptMessageIds.has(id));
+
+    senderMessageIds.forEach(id => messageIds.add(id));
+
+    senders.push({ email, messageCount: senderMessageIds.length });
+  }
+
+  return { messageIds: [...messageIds], senders };
+};
+
+type CreateDryRunReportParams = {
+  accountEmail: string;
+  action: DryRunAction;
+  messageIds: string[];
+  senders: DryRunSender[];
+  // number of the latest mails the senders are from (sampled senders)
+  sendersSampleCount?: number;
+  filterChanges?: DryRunFilterChange[];
+};
+
+// create the dry run report with the previews of the latest mails that would be trashed
+export const createDryRunReport = async ({
+  accountEmail,
+  action,
+  messageIds,
+  senders,
+  sendersSampleCount,
+  filterChanges = [],
+}: CreateDryRunReportParams): Promise<DryRunReport> => {
+  const messages =
+    messageIds.length > 0
+      ? await getMessagePreviews(accountEmail, messageIds.slice(0, DRY_RUN_PREVIEW_COUNT))
+      : [];
+
+  return {
+    action,
+    messageCount: messageIds.length,
+    messages: messages || [],
+    senders: [...senders].sort((sender1, sender2) => sender2.messageCount - sender1.messageCount),
+    sendersSampleCount,
+    filterChanges,
+  };
+};
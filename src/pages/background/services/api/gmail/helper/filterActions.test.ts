@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FILTER_ACTION, type GmailFilterAction } from '@src/pages/background/types/background.types';
+import { errorMessage } from '@src/pages/background/utils/apiErrorHandler';
+import { getGmailClient } from '../gmailClient';
+import { writeWithFilterLabelAction } from './filterActions';
+
+// fake gmail labels api, set for each test
+jest.mock('../gmailClient', () => ({ getGmailClient: jest.fn() }));
+
+// label id of the "Newsletters" label returned by the labels api
+let newsletterLabelId: string;
+
+const labelsApi = {
+  list: jest.fn(async () => ({ labels: [{ id: newsletterLabelId, name: 'Newsletters' }] })),
+  create: jest.fn(),
+};
+
+beforeEach(() => {
+  newsletterLabelId = 'Label_1';
+
+  jest.clearAllMocks();
+
+  jest
+    .mocked(getGmailClient)
+    .mockReturnValue({ labels: labelsApi } as unknown as ReturnType<typeof getGmailClient>);
+});
+
+describe('writeWithFilterLabelAction', () => {
+  it('writes with the labels of the system actions', async () => {
+    const write = jest.fn(async (labelAction: GmailFilterAction) => labelAction);
+
+    await expect(writeWithFilterLabelAction('system@gmail.com', FILTER_ACTION.TRASH, write)).resolves.toEqual(
+      { addLabelIds: ['TRASH'] }
+    );
+
+    expect(labelsApi.list).not.toHaveBeenCalled();
+  });
+
+  it('caches the newsletter label id of the account', async () => {
+    const write = jest.fn(async (labelAction: GmailFilterAction) => labelAction);
+
+    await writeWithFilterLabelAction('cached@gmail.com', FILTER_ACTION.MOVE_TO_LABEL, write);
+    await writeWithFilterLabelAction('cached@gmail.com', FILTER_ACTION.MOVE_TO_LABEL, write);
+
+    expect(labelsApi.list).toHaveBeenCalledTimes(1);
+    expect(write).toHaveBeenLastCalledWith({ addLabelIds: ['Label_1'], removeLabelIds: ['INBOX'] });
+  });
+
+  it.each([errorMessage.invalidLabel, errorMessage.notFound])(
+    'looks up the newsletter label again on %s error',
+    async message => {
+      const write = jest.fn(async (labelAction: GmailFilterAction) => labelAction);
+
+      await writeWithFilterLabelAction(`${message}@gmail.com`, FILTER_ACTION.MOVE_TO_LABEL, write);
+
+      // label deleted & created again by the user
+      newsletterLabelId = 'Label_2';
+      write.mockRejectedValueOnce(new Error(message));
+
+      await expect(
+        writeWithFilterLabelAction(`${message}@gmail.com`, FILTER_ACTION.MOVE_TO_LABEL, write)
+      ).resolves.toEqual({ addLabelIds: ['Label_2'], removeLabelIds: ['INBOX'] });
+
+      expect(labelsApi.list).toHaveBeenCalledTimes(2);
+    }
+  );
+
+  it("doesn't retry other errors", async () => {
+    const write = jest.fn(async () => {
+      throw new Error(errorMessage.somethingWentWrong);
+    });
+
+    await expect(
+      writeWithFilterLabelAction('other-error@gmail.com', FILTER_ACTION.MOVE_TO_LABEL, write)
+    ).rejects.toThrow(errorMessage.somethingWentWrong);
+
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,87 @@
+import { NEWSLETTER_LABEL_NAME } from '@src/pages/background/constants/app.constants';
+import {
+  FILTER_ACTION,
+  type GmailFilter,
+  type GmailFilterAction,
+} from '@src/pages/background/types/background.types';
+import { errorMessage } from '@src/pages/background/utils/apiErrorHandler';
+import { getGmailClient } from '../gmailClient';
+
+//* labels added/removed by the app filters
+// TRASH: unsubscribe, move the emails to trash
+// INBOX: whitelist, remove the SPAM label so emails are never sent to spam
+// SKIP_INBOX: archive the emails (remove INBOX label)
+// MARK_READ: remove the UNREAD label
+// MOVE_TO_LABEL: apply the "Newsletters" label & skip inbox
+const systemLabelActions: Record<Exclude<FILTER_ACTION, FILTER_ACTION.MOVE_TO_LABEL>, GmailFilterAction> = {
+  [FILTER_ACTION.TRASH]: { addLabelIds: ['TRASH'] },
+  [FILTER_ACTION.INBOX]: { removeLabelIds: ['SPAM'] },
+  [FILTER_ACTION.SKIP_INBOX]: { removeLabelIds: ['INBOX'] },
+  [FILTER_ACTION.MARK_READ]: { removeLabelIds: ['UNREAD'] },
+};
+
+// newsletter label id by account email
+const newsletterLabelIds = new Map<string, string>();
+
+// get id of the "Newsletters" label, creates the label if it doesn't exist
+const getNewsletterLabelId = async (accountEmail: string) => {
+  if (newsletterLabelIds.has(accountEmail)) return newsletterLabelIds.get(accountEmail);
+
+  const parsedRes = await getGmailClient(accountEmail).labels.list();
+
+  let label = parsedRes?.labels?.find(
+    label => label.name.toLowerCase() === NEWSLETTER_LABEL_NAME.toLowerCase()
+  );
+
+  if (!label) {
+    label = await getGmailClient(accountEmail).labels.create({ name: NEWSLETTER_LABEL_NAME });
+  }
+
+  newsletterLabelIds.set(accountEmail, label.id);
+
+  return label.id;
+};
+
+// get labels added/removed by the filter of the given action
+export const getFilterLabelAction = async (
+  accountEmail: string,
+  filterAction: FILTER_ACTION
+): Promise<GmailFilterAction> => {
+  if (filterAction === FILTER_ACTION.MOVE_TO_LABEL) {
+    return { addLabelIds: [await getNewsletterLabelId(accountEmail)], removeLabelIds: ['INBOX'] };
+  }
+
+  return systemLabelActions[filterAction];
+};
+
+// check if the filter write failed because of the label of the action (ex: "Newsletters" label was deleted)
+const isLabelError = (error: Error) =>
+  error?.message === errorMessage.notFound || error?.message === errorMessage.invalidLabel;
+
+// write the filter with the labels of the given action,
+// if the cached newsletter label id is stale (label deleted), the id is dropped
+// & the write is retried once with the label looked up (or created) again
+export const writeWithFilterLabelAction = async <T>(
+  accountEmail: string,
+  filterAction: FILTER_ACTION,
+  write: (labelAction: GmailFilterAction) => Promise<T>
+): Promise<T> => {
+  try {
+    return await write(await getFilterLabelAction(accountEmail, filterAction));
+  } catch (error) {
+    if (filterAction !== FILTER_ACTION.MOVE_TO_LABEL || !isLabelError(error)) throw error;
+
+    newsletterLabelIds.delete(accountEmail);
+
+    return await write(await getFilterLabelAction(accountEmail, filterAction));
+  }
+};
+
+// check if both the label lists have the same labels
+const isSameLabelIds = (labelIds1: string[] = [], labelIds2: string[] = []) =>
+  labelIds1.length === labelIds2.length && labelIds1.every(labelId => labelIds2.includes(labelId));
+
+// check if the filter adds/removes exactly the labels of the filter action
+export const isFilterLabelAction = (filter: GmailFilter, labelAction: GmailFilterAction) =>
+  isSameLabelIds(filter.action?.addLabelIds, labelAction.addLabelIds) &&
+  isSameLabelIds(filter.action?.removeLabelIds, labelAction.removeLabelIds);
@@ -0,0 +1,300 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { storageKeys } from '@src/pages/background/constants/app.constants';
+import {
+  FILTER_ACTION,
+  type GmailFilter,
+  type PendingFilterUpdate,
+} from '@src/pages/background/types/background.types';
+import { errorMessage } from '@src/pages/background/utils/apiErrorHandler';
+import { getLocalStorageByKey } from '@src/pages/background/utils/getStorageByKey';
+import { removeStorage } from '@src/pages/background/utils/removeStorage';
+import { setStorage } from '@src/pages/background/utils/setStorage';
+import { getGmailClient } from '../gmailClient';
+import { recoverPendingFilterUpdate, replaceFilterShards } from './filterUpdate';
+import { getFilterCriteriaQuery } from './gmailFilters';
+
+// fake gmail filters api & chrome storage, set for each test
+jest.mock('../gmailClient', () => ({ getGmailClient: jest.fn() }));
+
+jest.mock('@src/pages/background/utils/setStorage', () => ({ setStorage: jest.fn() }));
+
+jest.mock('@src/pages/background/utils/removeStorage', () => ({ removeStorage: jest.fn() }));
+
+jest.mock('@src/pages/background/utils/getStorageByKey', () => ({ getLocalStorageByKey: jest.fn() }));
+
+jest.mock('@src/pages/background/utils/logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn() },
+}));
+
+const trashAction = { addLabelIds: ['TRASH'] };
+
+// gmail filters by id
+let filters: Map<string, GmailFilter>;
+
+// storage values by `${type}:${key}`
+let storage: Map<string, unknown>;
+
+// pending update record when the filter was created/deleted
+let recordsOnCreate: PendingFilterUpdate[];
+let recordsOnDelete: PendingFilterUpdate[];
+
+const getPendingUpdate = () =>
+  storage.get(`local:${storageKeys.PENDING_FILTER_UPDATE}`) as PendingFilterUpdate;
+
+const addFilter = (id: string, emails: string[], action: GmailFilter['action'] = trashAction) =>
+  filters.set(id, { id, criteria: { query: getFilterCriteriaQuery(emails) }, action });
+
+const filtersApi = {
+  list: jest.fn(async () => ({ filter: [...filters.values()] })),
+  get: jest.fn(async (id: string) => {
+    if (!filters.has(id)) throw new Error(errorMessage.notFound);
+    return filters.get(id);
+  }),
+  create: jest.fn(async (filter: Omit<GmailFilter, 'id'>) => {
+    recordsOnCreate.push(structuredClone(getPendingUpdate()));
+
+    const created = { id: `new-${filters.size}`, ...filter };
+    filters.set(created.id, created);
+    return created;
+  }),
+  delete: jest.fn(async (id: string) => {
+    recordsOnDelete.push(structuredClone(getPendingUpdate()));
+
+    if (!filters.delete(id)) throw new Error(errorMessage.notFound);
+    return null;
+  }),
+};
+
+beforeEach(() => {
+  filters = new Map();
+  storage = new Map();
+  recordsOnCreate = [];
+  recordsOnDelete = [];
+
+  jest.clearAllMocks();
+
+  jest
+    .mocked(getGmailClient)
+    .mockReturnValue({ filters: filtersApi } as unknown as ReturnType<typeof getGmailClient>);
+
+  jest.mocked(setStorage).mockImplementation(async ({ type, key, value }) => {
+    storage.set(`${type}:${key}`, structuredClone(value));
+    return true;
+  });
+
+  jest.mocked(removeStorage).mockImplementation(async ({ type, key }) => {
+    return storage.delete(`${type}:${key}`);
+  });
+
+  jest
+    .mocked(getLocalStorageByKey)
+    .mockImplementation(async (_accountEmail, key) => storage.get(`local:${key}`) as never);
+});
+
+describe('replaceFilterShards', () => {
+  it('creates the new shards, saves the filter & deletes the replaced shards', async () => {
+    addFilter('old-1', ['a@x.com']);
+    addFilter('old-2', ['b@x.com']);
+
+    const filterIds = await replaceFilterShards({
+      accountEmail: 'user@gmail.com',
+      filterAction: FILTER_ACTION.TRASH,
+      filterIds: ['old-1', 'old-2'],
+      replacedFilterIds: ['old-2'],
+      newShards: [['b@x.com', 'c@x.com']],
+      emails: ['a@x.com', 'b@x.com', 'c@x.com'],
+    });
+
+    expect(filterIds).toEqual(['old-1', 'new-2']);
+    expect([...filters.keys()]).toEqual(['old-1', 'new-2']);
+    expect(storage.get(`sync:${storageKeys.UNSUBSCRIBE_FILTER_ID}`)).toEqual(['old-1', 'new-2']);
+    expect(storage.get(`local:${storageKeys.UNSUBSCRIBED_EMAILS}`)).toEqual([
+      'a@x.com',
+      'b@x.com',
+      'c@x.com',
+    ]);
+    expect(getPendingUpdate()).toBeUndefined();
+  });
+
+  it('records each shard before the create call (create phase)', async () => {
+    addFilter('old-1', ['a@x.com']);
+
+    await replaceFilterShards({
+      accountEmail: 'user@gmail.com',
+      filterAction: FILTER_ACTION.TRASH,
+      filterIds: ['old-1'],
+      replacedFilterIds: ['old-1'],
+      newShards: [['a@x.com'], ['b@x.com']],
+      emails: ['a@x.com', 'b@x.com'],
+    });
+
+    expect(recordsOnCreate).toMatchObject([
+      { phase: 'create', createdFilterIds: [], creatingShardEmails: ['a@x.com'] },
+      { phase: 'create', createdFilterIds: ['new-1'], creatingShardEmails: ['b@x.com'] },
+    ]);
+  });
+
+  it('deletes the replaced shards after all the new shards are recorded (delete phase)', async () => {
+    addFilter('old-1', ['a@x.com']);
+
+    await replaceFilterShards({
+      accountEmail: 'user@gmail.com',
+      filterAction: FILTER_ACTION.TRASH,
+      filterIds: ['old-1'],
+      replacedFilterIds: ['old-1'],
+      newShards: [['a@x.com', 'b@x.com']],
+      emails: ['a@x.com', 'b@x.com'],
+    });
+
+    expect(recordsOnDelete).toMatchObject([
+      {
+        phase: 'delete',
+        replacedFilterIds: ['old-1'],
+        createdFilterIds: ['new-1'],
+        creatingShardEmails: null,
+      },
+    ]);
+  });
+
+  it('reverts to the old shards if a created shard fails the verification', async () => {
+    addFilter('old-1', ['a@x.com']);
+
+    // gmail dropped an email of the criteria
+    filtersApi.create.mockImplementationOnce(async filter => {
+      const created = { ...filter, id: 'new-1', criteria: { query: getFilterCriteriaQuery(['a@x.com']) } };
+      filters.set(created.id, created);
+      return created;
+    });
+
+    await expect(
+      replaceFilterShards({
+        accountEmail: 'user@gmail.com',
+        filterAction: FILTER_ACTION.TRASH,
+        filterIds: ['old-1'],
+        replacedFilterIds: ['old-1'],
+        newShards: [['a@x.com', 'b@x.com']],
+        emails: ['a@x.com', 'b@x.com'],
+      })
+    ).rejects.toThrow('Failed to verify the created filter');
+
+    expect([...filters.keys()]).toEqual(['old-1']);
+    expect(storage.has(`sync:${storageKeys.UNSUBSCRIBE_FILTER_ID}`)).toBe(false);
+    expect(getPendingUpdate()).toBeUndefined();
+  });
+
+  it('deletes the shard created by a failed create request on revert', async () => {
+    addFilter('old-1', ['a@x.com']);
+
+    // filter is created, but the response failed
+    filtersApi.create.mockImplementationOnce(async filter => {
+      filters.set('new-1', { ...filter, id: 'new-1' });
+      throw new Error(errorMessage.somethingWentWrong);
+    });
+
+    await expect(
+      replaceFilterShards({
+        accountEmail: 'user@gmail.com',
+        filterAction: FILTER_ACTION.TRASH,
+        filterIds: ['old-1'],
+        replacedFilterIds: ['old-1'],
+        newShards: [['a@x.com', 'b@x.com']],
+        emails: ['a@x.com', 'b@x.com'],
+      })
+    ).rejects.toThrow('Failed to create filter');
+
+    expect([...filters.keys()]).toEqual(['old-1']);
+    expect(getPendingUpdate()).toBeUndefined();
+  });
+});
+
+describe('recoverPendingFilterUpdate', () => {
+  const pendingUpdate: PendingFilterUpdate = {
+    filterAction: FILTER_ACTION.TRASH,
+    phase: 'create',
+    filterIds: ['old-1', 'old-2'],
+    replacedFilterIds: ['old-2'],
+    createdFilterIds: [],
+    creatingShardEmails: null,
+    emails: ['a@x.com', 'b@x.com', 'c@x.com'],
+  };
+
+  it('deletes the created shards of an interrupted create phase', async () => {
+    addFilter('old-1', ['a@x.com']);
+    addFilter('old-2', ['b@x.com']);
+    addFilter('new-1', ['b@x.com']);
+
+    storage.set(`local:${storageKeys.PENDING_FILTER_UPDATE}`, {
+      ...pendingUpdate,
+      createdFilterIds: ['new-1'],
+    });
+
+    await recoverPendingFilterUpdate('create-phase@gmail.com');
+
+    expect([...filters.keys()]).toEqual(['old-1', 'old-2']);
+    expect(getPendingUpdate()).toBeUndefined();
+  });
+
+  it('deletes the shard created before the crash without its id recorded', async () => {
+    addFilter('old-1', ['a@x.com']);
+    addFilter('old-2', ['b@x.com']);
+    // created shard (crash before its id was recorded)
+    addFilter('new-1', ['b@x.com', 'c@x.com']);
+    // user's filter & the app filter of another action with the same emails
+    filters.set('user-1', {
+      id: 'user-1',
+      criteria: { query: 'from:(b@x.com OR c@x.com)' },
+      action: trashAction,
+    });
+    addFilter('whitelist-1', ['b@x.com', 'c@x.com'], { removeLabelIds: ['SPAM'] });
+
+    storage.set(`local:${storageKeys.PENDING_FILTER_UPDATE}`, {
+      ...pendingUpdate,
+      creatingShardEmails: ['b@x.com', 'c@x.com'],
+    });
+
+    await recoverPendingFilterUpdate('unrecorded-shard@gmail.com');
+
+    expect([...filters.keys()]).toEqual(['old-1', 'old-2', 'user-1', 'whitelist-1']);
+    expect(getPendingUpdate()).toBeUndefined();
+  });
+
+  it('finishes the update of an interrupted delete phase', async () => {
+    addFilter('old-1', ['a@x.com']);
+    addFilter('old-2', ['b@x.com']);
+    addFilter('new-1', ['b@x.com', 'c@x.com']);
+
+    storage.set(`local:${storageKeys.PENDING_FILTER_UPDATE}`, {
+      ...pendingUpdate,
+      phase: 'delete',
+      createdFilterIds: ['new-1'],
+    });
+
+    await recoverPendingFilterUpdate('delete-phase@gmail.com');
+
+    expect([...filters.keys()]).toEqual(['old-1', 'new-1']);
+    expect(storage.get(`sync:${storageKeys.UNSUBSCRIBE_FILTER_ID}`)).toEqual(['old-1', 'new-1']);
+    expect(storage.get(`local:${storageKeys.UNSUBSCRIBED_EMAILS}`)).toEqual(pendingUpdate.emails);
+    expect(getPendingUpdate()).toBeUndefined();
+  });
+
+  it('keeps the record if the old shards failed to delete', async () => {
+    addFilter('old-1', ['a@x.com']);
+    addFilter('old-2', ['b@x.com']);
+    addFilter('new-1', ['b@x.com', 'c@x.com']);
+
+    filtersApi.delete.mockRejectedValueOnce(new Error(errorMessage.somethingWentWrong));
+
+    storage.set(`local:${storageKeys.PENDING_FILTER_UPDATE}`, {
+      ...pendingUpdate,
+      phase: 'delete',
+      createdFilterIds: ['new-1'],
+    });
+
+    await expect(recoverPendingFilterUpdate('failed-delete@gmail.com')).rejects.toThrow(
+      'Failed to delete the old filter'
+    );
+
+    expect(filters.has('old-2')).toBe(true);
+    expect(getPendingUpdate()).toMatchObject({ phase: 'delete', createdFilterIds: ['new-1'] });
+  });
+});
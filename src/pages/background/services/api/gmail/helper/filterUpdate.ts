@@ -0,0 +1,270 @@
+import { FRESH_INBOX_FILTER_EMAIL, storageKeys } from '@src/pages/background/constants/app.constants';
+import {
+  FILTER_ACTION,
+  FilterEmails,
+  PendingFilterUpdate,
+} from '@src/pages/background/types/background.types';
+import { getLocalStorageByKey } from '@src/pages/background/utils/getStorageByKey';
+import { logger } from '@src/pages/background/utils/logger';
+import { removeStorage } from '@src/pages/background/utils/removeStorage';
+import { setStorage } from '@src/pages/background/utils/setStorage';
+import { normalizeEmail } from '@src/pages/background/utils/emailAddress';
+import { getGmailClient } from '../gmailClient';
+import { createFilter, deleteFilter, getFilterById } from './gmailFilters';
+import { getFilterLabelAction, isFilterLabelAction } from './filterActions';
+import { getEmailsFromFilterQuery } from './getEmailsFromFilterQuery';
+
+//* crash-safe app filter updates
+// new shards are created & verified before the old shards are deleted,
+// each step is recorded in storage (write-ahead) so an interrupted update can be finished or reverted
+
+// storage keys of each filter action
+// sync: filter ids (all the shards), local: emails of the filter
+const storageKeysByAction = {
+  [FILTER_ACTION.TRASH]: { sync: storageKeys.UNSUBSCRIBE_FILTER_ID, local: storageKeys.UNSUBSCRIBED_EMAILS },
+  [FILTER_ACTION.INBOX]: { sync: storageKeys.WHITELIST_FILTER_ID, local: storageKeys.WHITELISTED_EMAILS },
+  [FILTER_ACTION.SKIP_INBOX]: {
+    sync: storageKeys.SKIP_INBOX_FILTER_ID,
+    local: storageKeys.SKIP_INBOX_EMAILS,
+  },
+  [FILTER_ACTION.MARK_READ]: { sync: storageKeys.MARK_READ_FILTER_ID, local: storageKeys.MARK_READ_EMAILS },
+  [FILTER_ACTION.MOVE_TO_LABEL]: {
+    sync: storageKeys.MOVE_TO_LABEL_FILTER_ID,
+    local: storageKeys.MOVE_TO_LABEL_EMAILS,
+  },
+} as const;
+
+// set storage key based on filter action
+export const getStorageKeyByAction = (filterAction: FILTER_ACTION) => storageKeysByAction[filterAction];
+
+// save the filter ids & emails of all the shards to storage
+const saveFilterToStorage = async (
+  accountEmail: string,
+  filterAction: FILTER_ACTION,
+  { filterIds, emails }: FilterEmails
+) => {
+  const storageKey = getStorageKeyByAction(filterAction);
+
+  // save filter ids to sync storage
+  await setStorage({ accountEmail, type: 'sync', key: storageKey.sync, value: filterIds });
+
+  // save all the emails to local storage
+  await setStorage({ accountEmail, type: 'local', key: storageKey.local, value: emails });
+};
+
+const savePendingUpdate = async (accountEmail: string, pendingUpdate: PendingFilterUpdate) => {
+  const isSaved = await setStorage({
+    accountEmail,
+    type: 'local',
+    key: storageKeys.PENDING_FILTER_UPDATE,
+    value: pendingUpdate,
+  });
+
+  if (!isSaved) throw new Error('❌ Failed to save pending filter update');
+};
+
+// check if both the email lists have the same emails
+const isSameEmails = (emails: string[], expectedEmails: string[]) => {
+  const emailSet = new Set(emails.map(normalizeEmail));
+
+  return (
+    emailSet.size === new Set(expectedEmails.map(normalizeEmail)).size &&
+    expectedEmails.every(email => emailSet.has(normalizeEmail(email)))
+  );
+};
+
+// check if the created shard has the expected emails
+const verifyFilterShard = async (accountEmail: string, filterId: string, expectedEmails: string[]) => {
+  const shard = await getFilterById(accountEmail, filterId);
+
+  return !!shard && isSameEmails(shard.emails, expectedEmails);
+};
+
+// find the shard being created when the update was interrupted (created, but its id wasn't recorded),
+// app filters of the action with the emails of the shard, that are not recorded in the update
+const findUnrecordedShardIds = async (accountEmail: string, pendingUpdate: PendingFilterUpdate) => {
+  const { filterAction, filterIds, createdFilterIds, creatingShardEmails } = pendingUpdate;
+
+  const parsedRes = await getGmailClient(accountEmail).filters.list();
+
+  const labelAction = await getFilterLabelAction(accountEmail, filterAction);
+
+  return (parsedRes?.filter || [])
+    .filter(filter => {
+      if (filterIds.includes(filter.id) || createdFilterIds.includes(filter.id)) return false;
+
+      if (!isFilterLabelAction(filter, labelAction)) return false;
+
+      const queryEmails = getEmailsFromFilterQuery(filter.criteria?.query || '');
+
+      return (
+        queryEmails.includes(FRESH_INBOX_FILTER_EMAIL) &&
+        isSameEmails(
+          queryEmails.filter(email => email !== FRESH_INBOX_FILTER_EMAIL),
+          creatingShardEmails
+        )
+      );
+    })
+    .map(filter => filter.id);
+};
+
+// revert the update: delete the created shards (old shards are not touched before the new shards are verified)
+const revertFilterUpdate = async (accountEmail: string, pendingUpdate: PendingFilterUpdate) => {
+  const createdFilterIds = [...pendingUpdate.createdFilterIds];
+
+  // the shard being created may exist without its id recorded
+  if (pendingUpdate.creatingShardEmails) {
+    createdFilterIds.push(...(await findUnrecordedShardIds(accountEmail, pendingUpdate)));
+  }
+
+  for (const filterId of createdFilterIds) {
+    if (!(await deleteFilter(accountEmail, filterId)))
+      throw new Error('❌ Failed to delete the created filter');
+  }
+
+  await removeStorage({ accountEmail, type: 'local', key: storageKeys.PENDING_FILTER_UPDATE });
+
+  logger.info(
+    `Reverted ${pendingUpdate.filterAction} filter update`,
+    'background/services/api/gmail/helper/filterUpdate.ts:68 ~ revertFilterUpdate()'
+  );
+};
+
+// finish the update: save the new filter ids & delete the old shards
+const finishFilterUpdate = async (accountEmail: string, pendingUpdate: PendingFilterUpdate) => {
+  const { filterAction, filterIds, replacedFilterIds, createdFilterIds, emails } = pendingUpdate;
+
+  // kept old shards & the new shards
+  const updatedFilterIds = [...filterIds.filter(id => !replacedFilterIds.includes(id)), ...createdFilterIds];
+
+  await saveFilterToStorage(accountEmail, filterAction, { filterIds: updatedFilterIds, emails });
+
+  for (const filterId of replacedFilterIds) {
+    // the record is kept, so the deletion is retried on the next startup
+    if (!(await deleteFilter(accountEmail, filterId))) throw new Error('❌ Failed to delete the old filter');
+  }
+
+  await removeStorage({ accountEmail, type: 'local', key: storageKeys.PENDING_FILTER_UPDATE });
+
+  return updatedFilterIds;
+};
+
+type ReplaceFilterShardsParams = {
+  accountEmail: string;
+  filterAction: FILTER_ACTION;
+  // filter ids (all the shards) before the update
+  filterIds: string[];
+  // old shards to be replaced
+  replacedFilterIds: string[];
+  // emails of each new shard (see shardFilterEmails)
+  newShards: string[][];
+  // emails of all the shards after the update
+  emails: string[];
+};
+
+// replace old shards with new shards, returns the updated filter ids
+// throws if the update failed (the filter is reverted to the old shards)
+export const replaceFilterShards = async ({
+  accountEmail,
+  filterAction,
+  filterIds,
+  replacedFilterIds,
+  newShards,
+  emails,
+}: ReplaceFilterShardsParams) => {
+  const pendingUpdate: PendingFilterUpdate = {
+    filterAction,
+    phase: 'create',
+    filterIds,
+    replacedFilterIds,
+    createdFilterIds: [],
+    creatingShardEmails: null,
+    emails,
+  };
+
+  await savePendingUpdate(accountEmail, pendingUpdate);
+
+  try {
+    for (const newShardEmails of newShards) {
+      // record the shard before creating it, so it's found & deleted on revert if the id isn't recorded
+      // (crash after the create call, or the create request failed after the filter was created)
+      pendingUpdate.creatingShardEmails = newShardEmails;
+      await savePendingUpdate(accountEmail, pendingUpdate);
+
+      const filterId = await createFilter({ accountEmail, filterAction, emails: newShardEmails });
+
+      if (!filterId) throw new Error('❌ Failed to create filter');
+
+      pendingUpdate.createdFilterIds.push(filterId);
+      pendingUpdate.creatingShardEmails = null;
+      await savePendingUpdate(accountEmail, pendingUpdate);
+
+      if (!(await verifyFilterShard(accountEmail, filterId, newShardEmails))) {
+        throw new Error('❌ Failed to verify the created filter');
+      }
+    }
+  } catch (error) {
+    // delete the created shards, old shards are still intact
+    await revertFilterUpdate(accountEmail, pendingUpdate).catch(revertError =>
+      logger.error({
+        error: revertError,
+        msg: 'Error reverting filter update',
+        fileTrace: 'background/services/api/gmail/helper/filterUpdate.ts:145 ~ replaceFilterShards()',
+      })
+    );
+    throw error;
+  }
+
+  pendingUpdate.phase = 'delete';
+  await savePendingUpdate(accountEmail, pendingUpdate);
+
+  return await finishFilterUpdate(accountEmail, pendingUpdate);
+};
+
+// recovery of the interrupted filter update by account (run once per service worker startup),
+// filter writes wait for it, so a new update doesn't overwrite the pending update record or race the revert
+const filterRecoveries = new Map<string, Promise<void>>();
+
+// finish or revert the filter update of the account interrupted in the last session
+const recoverFilterUpdate = async (accountEmail: string) => {
+  const pendingUpdate = await getLocalStorageByKey<PendingFilterUpdate>(
+    accountEmail,
+    storageKeys.PENDING_FILTER_UPDATE
+  );
+
+  if (!pendingUpdate) return;
+
+  logger.info(
+    `Recovering ${pendingUpdate.filterAction} filter update (${pendingUpdate.phase})`,
+    'background/services/api/gmail/helper/filterUpdate.ts:190 ~ recoverFilterUpdate()'
+  );
+
+  if (pendingUpdate.phase === 'create') {
+    await revertFilterUpdate(accountEmail, pendingUpdate);
+  } else {
+    await finishFilterUpdate(accountEmail, pendingUpdate);
+  }
+};
+
+// recover the interrupted filter update of the account (started on the first call, the same recovery is returned
+// after that), rejects if the recovery failed (it's tried again on the next call)
+export const recoverPendingFilterUpdate = (accountEmail: string) => {
+  if (!filterRecoveries.has(accountEmail)) {
+    filterRecoveries.set(
+      accountEmail,
+      recoverFilterUpdate(accountEmail).catch(error => {
+        filterRecoveries.delete(accountEmail);
+
+        logger.error({
+          error,
+          msg: 'Error recovering pending filter update',
+          fileTrace:
+            'background/services/api/gmail/helper/filterUpdate.ts:209 ~ recoverPendingFilterUpdate() catch block',
+        });
+        throw error;
+      })
+    );
+  }
+
+  return filterRecoveries.get(accountEmail);
+};
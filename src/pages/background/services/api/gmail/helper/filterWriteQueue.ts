@@ -0,0 +1,135 @@
+import type { FILTER_ACTION } from '@src/pages/background/types/background.types';
+import { logger } from '@src/pages/background/utils/logger';
+import { normalizeEmail } from '@src/pages/background/utils/emailAddress';
+import { getFilterIds } from './getFilterIds';
+import { updateFilterEmails } from './updateFilter';
+import { recoverPendingFilterUpdate } from './filterUpdate';
+
+//* serialized write queue for the app filter mutations
+// filters are rewritten (create new, delete old), so concurrent updates of the same filter would lose emails,
+// all the updates of an account run one after another & the pending updates of a filter are merged into a single rewrite
+
+// pending update of a filter (merged from multiple requests)
+type PendingUpdate = {
+  addEmails: Set<string>;
+  removeEmails: Set<string>;
+  // requests waiting for this update
+  callbacks: { resolve: () => void; reject: (error: Error) => void }[];
+};
+
+type AccountQueue = {
+  // pending updates by filter action (in the order they were requested)
+  pendingUpdates: Map<FILTER_ACTION, PendingUpdate>;
+  isRunning: boolean;
+};
+
+// write queues by account email
+const accountQueues = new Map<string, AccountQueue>();
+
+// run the pending updates of the account one after another
+const runQueue = async (accountEmail: string, queue: AccountQueue) => {
+  queue.isRunning = true;
+
+  while (queue.pendingUpdates.size > 0) {
+    const [filterAction, pendingUpdate] = queue.pendingUpdates.entries().next().value as [
+      FILTER_ACTION,
+      PendingUpdate
+    ];
+
+    // requests received from now on are merged into a new pending update
+    queue.pendingUpdates.delete(filterAction);
+
+    try {
+      // the update interrupted in the last session is finished or reverted first
+      await recoverPendingFilterUpdate(accountEmail);
+
+      // filter ids are read for each update, as the previous update replaces the shards
+      const filterIds = await getFilterIds({ accountEmail, filterAction });
+
+      if (filterIds.length < 1) throw new Error(`❌ Failed to get ${filterAction} filter id`);
+
+      await updateFilterEmails({
+        accountEmail,
+        filterAction,
+        filterIds,
+        addEmails: [...pendingUpdate.addEmails],
+        removeEmails: [...pendingUpdate.removeEmails],
+      });
+
+      pendingUpdate.callbacks.forEach(({ resolve }) => resolve());
+    } catch (error) {
+      logger.error({
+        error,
+        msg: `Error updating ${filterAction} filter`,
+        fileTrace: 'background/services/api/gmail/helper/filterWriteQueue.ts:62 ~ runQueue() catch block',
+      });
+      pendingUpdate.callbacks.forEach(({ reject }) => reject(error));
+    }
+  }
+
+  queue.isRunning = false;
+};
+
+type QueueFilterUpdateParams = {
+  accountEmail: string;
+  filterAction: FILTER_ACTION;
+  addEmails?: string[];
+  removeEmails?: string[];
+};
+
+// queue add/remove emails of the app filter, resolves after the filter is updated
+const queueFilterUpdate = ({
+  accountEmail,
+  filterAction,
+  addEmails = [],
+  removeEmails = [],
+}: QueueFilterUpdateParams) =>
+  new Promise<void>((resolve, reject) => {
+    if (!accountQueues.has(accountEmail)) {
+      accountQueues.set(accountEmail, { pendingUpdates: new Map(), isRunning: false });
+    }
+
+    const queue = accountQueues.get(accountEmail);
+
+    if (!queue.pendingUpdates.has(filterAction)) {
+      queue.pendingUpdates.set(filterAction, {
+        addEmails: new Set(),
+        removeEmails: new Set(),
+        callbacks: [],
+      });
+    }
+
+    const pendingUpdate = queue.pendingUpdates.get(filterAction);
+
+    // the latest request wins if an email is both added & removed
+    addEmails.map(normalizeEmail).forEach(email => {
+      pendingUpdate.removeEmails.delete(email);
+      pendingUpdate.addEmails.add(email);
+    });
+
+    removeEmails.map(normalizeEmail).forEach(email => {
+      pendingUpdate.addEmails.delete(email);
+      pendingUpdate.removeEmails.add(email);
+    });
+
+    pendingUpdate.callbacks.push({ resolve, reject });
+
+    if (!queue.isRunning) runQueue(accountEmail, queue);
+  });
+
+type UpdateFilterParams = {
+  accountEmail: string;
+  emails: string[];
+  filterAction: FILTER_ACTION;
+};
+
+// add emails to the app filter
+export const addEmailToFilter = async ({ accountEmail, emails, filterAction }: UpdateFilterParams) => {
+  await queueFilterUpdate({ accountEmail, filterAction, addEmails: emails });
+  return true;
+};
+
+// remove emails from the app filter
+export const removeEmailFromFilter = async ({ accountEmail, emails, filterAction }: UpdateFilterParams) => {
+  await queueFilterUpdate({ accountEmail, filterAction, removeEmails: emails });
+};
@@ -1,16 +1,22 @@
+import { normalizeEmail } from '@src/pages/background/utils/emailAddress';
+
+// get emails from the filter criteria query
+// ex: from:(filter@getfreshinbox.com OR News@X.com) -> ['filter@getfreshinbox.com', 'news@x.com']
 const getEmailsFromFilterQuery = (filterQuery: string) => {
-  // characters to remove
-  let substringsToRemove = ['from:', '(', ')'];
+  // get the value of from: operator (with or without the brackets)
+  const fromMatch = filterQuery.match(/from:\s*\(([^)]*)\)/i) || filterQuery.match(/from:\s*(\S+)/i);
 
-  let filteredString = filterQuery;
-  for (const substr of substringsToRemove) {
-    filteredString = filteredString.split(substr).join('');
-  }
+  if (!fromMatch) return [];
 
-  const emails = filteredString.replace(/\s/g, '').split('OR');
+  // emails are separated by OR, | or whitespace
+  const emails = fromMatch[1]
+    .split(/\s+OR\s+|\||\s+|,/)
+    .map(email => email.replace(/["{}]/g, ''))
+    .filter(email => email.includes('@'))
+    .map(normalizeEmail);
 
-  // to remove empty elements
-  return emails.filter(email => email);
+  // to remove duplicate emails
+  return [...new Set(emails)];
 };
 
-export { getEmailsFromFilterQuery }; 
+export { getEmailsFromFilterQuery };
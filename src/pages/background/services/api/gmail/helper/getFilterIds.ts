@@ -0,0 +1,61 @@
+import type { FILTER_ACTION } from '@src/pages/background/types/background.types';
+import { createFilter } from './gmailFilters';
+import { getFreshInboxFilter } from './getFreshInboxFilter';
+import { getSyncStorageByKey } from '@src/pages/background/utils/getStorageByKey';
+import { checkFilterIdsExist } from './checkFilterIdsExist';
+import { logger } from '@src/pages/background/utils/logger';
+import { setStorage } from '@src/pages/background/utils/setStorage';
+import { getStorageKeyByAction } from './filterUpdate';
+
+type GetFilterIdsParams = {
+  accountEmail: string;
+  filterAction: FILTER_ACTION;
+};
+// get filter ids (all the shards of the app filter) from storage or gmail filters api
+export const getFilterIds = async ({ accountEmail, filterAction }: GetFilterIdsParams): Promise<string[]> => {
+  // set storage key based on action
+  const storageKey = getStorageKeyByAction(filterAction).sync;
+
+  try {
+    //get ids from storage (single id was stored before the filter was sharded)
+    const storedFilterIds = await getSyncStorageByKey<string | string[]>(accountEmail, storageKey);
+
+    const filterIds = typeof storedFilterIds === 'string' ? [storedFilterIds] : storedFilterIds || [];
+
+    // check if filters exists in gmail filters
+    if (filterIds.length > 0 && (await checkFilterIdsExist(accountEmail, filterIds))) {
+      return filterIds;
+    } else {
+      // search for the app filter of this action in users filter (gmail-api)
+      const res = await getFreshInboxFilter({ accountEmail, filterAction });
+
+      if (res?.filterIds.length > 0) {
+        // save the filterIds to sync storage
+        await setStorage({ accountEmail, type: 'sync', key: storageKey, value: res.filterIds });
+
+        return res.filterIds;
+      }
+
+      // if not found in storage or in the user's filters, then create new filter with the give action
+      const newFilterId = await createFilter({ accountEmail, filterAction, emails: [] });
+
+      if (newFilterId) {
+        // save the new filter id to sync storage
+        await setStorage({ accountEmail, type: 'sync', key: storageKey, value: [newFilterId] });
+
+        // return the new filter id
+        return [newFilterId];
+      } else {
+        // failed to
+        throw new Error('❌ Failed to create new filter');
+      }
+    }
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error getting filter ids',
+      fileTrace: 'background/services/api/gmail/helper/getFilterIds.ts:60 ~ getFilterIds() catch block',
+    });
+    return [];
+  }
+};
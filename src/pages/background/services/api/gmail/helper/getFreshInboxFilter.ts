@@ -2,81 +2,57 @@ import {
   FILTER_ACTION,
   FilterEmails,
   GmailFilter,
-  GmailFilters,
+  GmailFilterAction,
 } from '@src/pages/background/types/background.types';
 import { getEmailsFromFilterQuery } from './getEmailsFromFilterQuery';
 import { FRESH_INBOX_FILTER_EMAIL } from '@src/pages/background/constants/app.constants';
 import { logger } from '@src/pages/background/utils/logger';
-import { apiErrorHandler } from '@src/pages/background/utils/apiErrorHandler';
+import { getGmailClient } from '../gmailClient';
+import { getFilterLabelAction, isFilterLabelAction } from './filterActions';
 
-// check if filter is app filter (TRASH or INBOX filter created by fresh inbox)
-const isFreshInboxFilter = (filter: GmailFilter, filterAction: FILTER_ACTION): boolean => {
-  const labelId = filterAction === FILTER_ACTION.TRASH ? 'TRASH' : 'SPAM';
-
-  const checkCondition = () => {
-    // check for filter based on labels/action
-    if (labelId === 'TRASH') {
-      // check for TRASH filter
-      return filter.action?.addLabelIds?.length === 1 && filter.action.addLabelIds[0] === labelId;
-    } else {
-      // check for INBOX filter
-      return filter.action?.removeLabelIds?.length === 1 && filter.action.removeLabelIds[0] === labelId;
-    }
-  };
-
-  return !!checkCondition();
-};
+// check if filter is app filter of the given action (filter with the action's labels created by fresh inbox)
+const isFreshInboxFilter = (filter: GmailFilter, labelAction: GmailFilterAction): boolean =>
+  isFilterLabelAction(filter, labelAction);
 
 type GetFreshInboxFilterParams = {
-  userToken: string;
+  accountEmail: string;
   filterAction?: FILTER_ACTION;
 };
 
-// get fresh-Inbox filter id also return all emails optionally
+// get all the fresh-Inbox filter (shards) ids & emails
 export const getFreshInboxFilter = async ({
-  userToken,
+  accountEmail,
   filterAction = FILTER_ACTION.TRASH,
 }: GetFreshInboxFilterParams): Promise<FilterEmails | null> => {
-  const fetchOptions: Partial<RequestInit> = {
-    method: 'GET',
-    headers: {
-      Authorization: `Bearer ${userToken}`,
-    },
-  };
-
   try {
-    const res = await fetch('https://gmail.googleapis.com/gmail/v1/users/me/settings/filters', fetchOptions);
-
-    const parsedRes: GmailFilters | null = await res.json();
+    const parsedRes = await getGmailClient(accountEmail).filters.list();
 
-    // handle api errors
-    apiErrorHandler(parsedRes);
+    if (!parsedRes?.filter) throw new Error('Failed to get filters');
 
-    if (!parsedRes.filter) throw new Error('Failed to get filters');
+    // labels added/removed by the filter of this action
+    const labelAction = await getFilterLabelAction(accountEmail, filterAction);
 
-    let filterId = '';
-    let emails: string[] = [];
+    const filterIds: string[] = [];
+    const emails = new Set<string>();
 
     for (const filter of parsedRes.filter) {
       // check if this filter is a fresh-inbox filter (we only check for matching labels/actions here)
-      if (!isFreshInboxFilter(filter, filterAction)) continue;
+      if (!isFreshInboxFilter(filter, labelAction)) continue;
 
       // if yes,  get emails from the filter criteria
       const queryEmails = getEmailsFromFilterQuery(filter.criteria.query);
 
-      // check if this filter has the fresh-inbox filter identity email
+      // check if this filter has the fresh-inbox filter identity email (each shard is tagged with it)
       if (queryEmails.includes(FRESH_INBOX_FILTER_EMAIL)) {
-        filterId = filter.id;
-        emails = queryEmails;
-        // stop the loop
-        break;
+        filterIds.push(filter.id);
+        queryEmails.forEach(email => email !== FRESH_INBOX_FILTER_EMAIL && emails.add(email));
       }
     }
 
-    if (filterId) {
+    if (filterIds.length > 0) {
       return {
-        filterId,
-        emails,
+        filterIds,
+        emails: [...emails],
       };
     } else {
       throw new Error('App filter not found');
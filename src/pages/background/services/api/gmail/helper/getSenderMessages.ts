@@ -0,0 +1,73 @@
+import type { GmailMessageMetadata, SenderMessage } from '@src/pages/background/types/background.types';
+import { logger } from '@src/pages/background/utils/logger';
+import { parseFromHeader } from '@src/pages/background/utils/emailAddress';
+import { getGmailClient } from '../gmailClient';
+
+type GetSenderMessagesParams = {
+  accountEmail: string;
+  messageIds: string[];
+};
+
+// get sender emails, name & message stats data from message/email ids (max 100 ids)
+// returns the messages mapped by message id
+export const getSenderMessages = async ({ accountEmail, messageIds }: GetSenderMessagesParams) => {
+  // sender messages (name, emails, stats data)
+  const senderMessages: Record<string, SenderMessage> = {};
+
+  try {
+    // batch request to get the From header of all the messages,
+    // metadata format also has the labels, received date & size of the message
+    const responseParts = await getGmailClient(accountEmail).batch<GmailMessageMetadata>(
+      messageIds.map(id => ({
+        id: `message-${id}`,
+        method: 'GET',
+        path: `/gmail/v1/users/me/messages/${id}?format=metadata&metadataHeaders=From`,
+      }))
+    );
+
+    // parts that failed even after retries
+    const failedParts = responseParts.filter(part => part.status < 200 || part.status >= 300);
+
+    if (failedParts.length > 0) {
+      logger.info(
+        `Failed to get ${failedParts.length} messages: ${failedParts
+          .map(part => `${part.id} (${part.status})`)
+          .join(', ')}`,
+        'background/services/api/gmail/helper/getSenderMessages.ts:35 ~ getSenderMessages()'
+      );
+    }
+
+    // loop through each message to get names and emails
+    for (const part of responseParts) {
+      if (part.status !== 200 || !part.body?.id) continue;
+
+      const fromHeader = part.body.payload?.headers?.find(header => header.name.toLowerCase() === 'from');
+
+      if (!fromHeader?.value) continue;
+
+      // ex: "Doe, John" <John@Example.com>, =?UTF-8?B?...?= <news@x.com>
+      const sender = parseFromHeader(fromHeader.value);
+
+      if (!sender) continue;
+
+      senderMessages[part.body.id] = {
+        email: sender.email,
+        name: sender.name,
+        isUnread: !!part.body.labelIds?.includes('UNREAD'),
+        receivedAt: Number(part.body.internalDate) || 0,
+        sizeEstimate: part.body.sizeEstimate || 0,
+        isTrashed: !!part.body.labelIds?.includes('TRASH'),
+      };
+    }
+
+    return senderMessages;
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error making batch request',
+      fileTrace:
+        'background/services/api/gmail/helper/getSenderMessages.ts:68 getSenderMessages() catch block',
+    });
+    return senderMessages;
+  }
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { FRESH_INBOX_FILTER_EMAIL } from '@src/pages/background/constants/app.constants';
+import { MAX_FILTER_QUERY_LENGTH, getFilterCriteriaQuery, shardFilterEmails } from './gmailFilters';
+
+// session uses the chrome & vite env apis, not used by the tested functions
+jest.mock('../../../auth/session', () => ({
+  getSessionToken: jest.fn(),
+  reauthorizeSession: jest.fn(),
+  signOutUser: jest.fn(),
+}));
+
+// emails with the same length, ex: sender0001@example.com
+const getEmails = (count: number) =>
+  Array.from({ length: count }, (_, i) => `sender${String(i).padStart(4, '0')}@example.com`);
+
+// emails of the first shard with the criteria query of exactly the max length (last email padded to fill it)
+const getFullShardEmails = () => {
+  const emails = getEmails(10);
+
+  // add emails until the query is close to the max length
+  while (getFilterCriteriaQuery(emails).length < MAX_FILTER_QUERY_LENGTH - 40) {
+    emails.push(`sender${String(emails.length).padStart(4, '0')}@example.com`);
+  }
+
+  const padding = MAX_FILTER_QUERY_LENGTH - getFilterCriteriaQuery(emails).length;
+
+  emails[emails.length - 1] = `${'a'.repeat(padding)}${emails[emails.length - 1]}`;
+
+  return emails;
+};
+
+describe('getFilterCriteriaQuery', () => {
+  it('tags the query with the fresh-Inbox email', () => {
+    expect(getFilterCriteriaQuery(['a@x.com', 'b@y.com'])).toBe(
+      `from:(${FRESH_INBOX_FILTER_EMAIL} OR a@x.com OR b@y.com)`
+    );
+  });
+
+  it("doesn't add the fresh-Inbox email twice", () => {
+    expect(getFilterCriteriaQuery([FRESH_INBOX_FILTER_EMAIL, 'a@x.com'])).toBe(
+      `from:(${FRESH_INBOX_FILTER_EMAIL} OR a@x.com)`
+    );
+  });
+});
+
+describe('shardFilterEmails', () => {
+  it('keeps the emails in a single shard within the max length', () => {
+    expect(shardFilterEmails(['a@x.com', 'b@y.com'])).toEqual([['a@x.com', 'b@y.com']]);
+  });
+
+  it('returns a single empty shard for no emails', () => {
+    expect(shardFilterEmails([])).toEqual([[]]);
+  });
+
+  it('skips the fresh-Inbox email (each shard is tagged with it)', () => {
+    expect(shardFilterEmails([FRESH_INBOX_FILTER_EMAIL, 'a@x.com'])).toEqual([['a@x.com']]);
+  });
+
+  it('splits the emails into shards within the max length, in order', () => {
+    const emails = getEmails(200);
+
+    const shards = shardFilterEmails(emails);
+
+    expect(shards.length).toBeGreaterThan(1);
+    expect(shards.flat()).toEqual(emails);
+
+    shards.forEach(shard => {
+      expect(shard.length).toBeGreaterThan(0);
+      expect(getFilterCriteriaQuery(shard).length).toBeLessThanOrEqual(MAX_FILTER_QUERY_LENGTH);
+    });
+
+    // each shard is filled before the next shard is started
+    shards.slice(0, -1).forEach((shard, i) => {
+      expect(getFilterCriteriaQuery([...shard, shards[i + 1][0]]).length).toBeGreaterThan(
+        MAX_FILTER_QUERY_LENGTH
+      );
+    });
+  });
+
+  it('keeps the shard with the criteria query of exactly the max length', () => {
+    const emails = getFullShardEmails();
+
+    expect(getFilterCriteriaQuery(emails).length).toBe(MAX_FILTER_QUERY_LENGTH);
+    expect(shardFilterEmails(emails)).toEqual([emails]);
+  });
+
+  it('starts a new shard when the criteria query exceeds the max length by a single char', () => {
+    const emails = getFullShardEmails();
+
+    emails[emails.length - 1] = `a${emails[emails.length - 1]}`;
+
+    expect(shardFilterEmails(emails)).toEqual([emails.slice(0, -1), emails.slice(-1)]);
+  });
+
+  it('keeps an email longer than the max length in its own shard', () => {
+    const longEmail = `${'a'.repeat(MAX_FILTER_QUERY_LENGTH)}@x.com`;
+
+    expect(shardFilterEmails(['a@x.com', longEmail, 'b@y.com'])).toEqual([
+      ['a@x.com'],
+      [longEmail],
+      ['b@y.com'],
+    ]);
+  });
+});
@@ -1,29 +1,50 @@
-import { FILTER_ACTION, FilterEmails, GmailFilter } from '@src/pages/background/types/background.types';
+import type { FILTER_ACTION, FilterEmails, GmailFilter } from '@src/pages/background/types/background.types';
 import { getEmailsFromFilterQuery } from './getEmailsFromFilterQuery';
 import { FRESH_INBOX_FILTER_EMAIL } from '@src/pages/background/constants/app.constants';
 import { logger } from '@src/pages/background/utils/logger';
-import { apiErrorHandler } from '@src/pages/background/utils/apiErrorHandler';
+import { errorMessage } from '@src/pages/background/utils/apiErrorHandler';
+import { getGmailClient } from '../gmailClient';
+import { writeWithFilterLabelAction } from './filterActions';
+
+// gmail rejects filter criteria longer than ~1500 chars, keeping some margin
+export const MAX_FILTER_QUERY_LENGTH = 1400;
+
+// format the emails into a single query string for filter criteria (with fresh-Inbox identity email)
+// ex: from:(filter@getfreshinbox.com OR a@x.com OR b@y.com)
+export const getFilterCriteriaQuery = (emails: string[]) =>
+  `from:(${[FRESH_INBOX_FILTER_EMAIL, ...emails.filter(email => email !== FRESH_INBOX_FILTER_EMAIL)].join(
+    ' OR '
+  )})`;
+
+// split the emails into shards, so the criteria query of each shard is within the size limit
+export const shardFilterEmails = (emails: string[]) => {
+  const shards: string[][] = [[]];
+
+  for (const email of emails) {
+    if (email === FRESH_INBOX_FILTER_EMAIL) continue;
+
+    const currentShard = shards[shards.length - 1];
+
+    if (
+      currentShard.length > 0 &&
+      getFilterCriteriaQuery([...currentShard, email]).length > MAX_FILTER_QUERY_LENGTH
+    ) {
+      // start a new shard
+      shards.push([email]);
+    } else {
+      currentShard.push(email);
+    }
+  }
+
+  return shards;
+};
 
 // get  filter by Id
-export const getFilterById = async (userToken: string, id: string): Promise<FilterEmails | null> => {
-  const fetchOptions: Partial<RequestInit> = {
-    method: 'GET',
-    headers: {
-      Authorization: `Bearer ${userToken}`,
-    },
-  };
+export const getFilterById = async (accountEmail: string, id: string): Promise<FilterEmails | null> => {
   try {
-    const res = await fetch(
-      `https://gmail.googleapis.com/gmail/v1/users/me/settings/filters/${id}`,
-      fetchOptions
-    );
-
-    const parsedRes: GmailFilter | null = await res.json();
+    const parsedRes: GmailFilter | null = await getGmailClient(accountEmail).filters.get(id);
 
-    // handle api errors
-    apiErrorHandler(parsedRes);
-
-    if (!parsedRes.id) {
+    if (!parsedRes?.id) {
       throw new Error('❌ Filter not found');
     }
 
@@ -36,73 +57,63 @@ export const getFilterById = async (userToken: string, id: string): Promise<Filt
 
     emails = emails.filter(email => email !== FRESH_INBOX_FILTER_EMAIL);
 
-    return { emails, filterId: parsedRes.id };
+    return { emails, filterIds: [parsedRes.id] };
   } catch (error) {
     logger.error({
       error,
       msg: 'Error getting filter by id',
-      fileTrace: 'background/services/api/gmail/helper/gmailFilters.ts:40 ~ getFilterById() catch block',
+      fileTrace: 'background/services/api/gmail/helper/gmailFilters.ts:62 ~ getFilterById() catch block',
     });
     return null;
   }
 };
 
+// get emails of all the filter shards, returns null if any of the shard is not found
+export const getFiltersByIds = async (accountEmail: string, ids: string[]): Promise<FilterEmails | null> => {
+  const filters = await Promise.all(ids.map(id => getFilterById(accountEmail, id)));
+
+  if (filters.some(filter => !filter)) return null;
+
+  return {
+    filterIds: ids,
+    emails: [...new Set(filters.flatMap(filter => filter.emails))],
+  };
+};
+
 type CreateFilterParams = {
-  userToken: string;
+  accountEmail: string;
   emails: string[];
   filterAction: FILTER_ACTION;
 };
 
 // create filter with fresh-Inbox email get emails array
 export const createFilter = async ({
-  userToken,
+  accountEmail,
   emails,
   filterAction,
 }: CreateFilterParams): Promise<string | null> => {
-  //
-  const emailsList = emails;
-
-  // if the emails doesn't include fresh-Inbox identity email, add it
-  if (emailsList.indexOf(FRESH_INBOX_FILTER_EMAIL) === -1) {
-    emailsList.unshift(FRESH_INBOX_FILTER_EMAIL);
-  }
-
   // format the emails into a single query string for filter criteria
-  const criteriaQuery = `from:(${emailsList.map(email => email).join(' OR ')})`;
+  const criteriaQuery = getFilterCriteriaQuery(emails);
 
   //* explanation of labels/action
   // addLabelIds adds label to the email present in the filter (here TRASH label will be added to the unsubscribed email)
 
   // removeLabelIds removes label to the email present in the filter (here SPAM label will be removed from the whitelisted email)
 
-  const dynamicFilterAction =
-    filterAction === FILTER_ACTION.TRASH ? { addLabelIds: ['TRASH'] } : { removeLabelIds: ['SPAM'] };
-
-  const fetchOptions: Partial<RequestInit> = {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${userToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      action: dynamicFilterAction,
-      criteria: {
-        query: criteriaQuery,
-      },
-    }),
-  };
-
+  // see filterActions.ts for the labels of each action
   try {
-    const res = await fetch(`https://gmail.googleapis.com/gmail/v1/users/me/settings/filters`, fetchOptions);
-
-    const parsedRes: GmailFilter = await res.json();
-
-    // handle api errors
-    apiErrorHandler(parsedRes);
+    const parsedRes = await writeWithFilterLabelAction(accountEmail, filterAction, dynamicFilterAction =>
+      getGmailClient(accountEmail).filters.create({
+        action: dynamicFilterAction,
+        criteria: {
+          query: criteriaQuery,
+        },
+      })
+    );
 
     logger.info(
       '✅ Successfully created filter',
-      'background/services/api/gmail/helper/gmailFilters.ts:98 ~ createFilter()'
+      'background/services/api/gmail/helper/gmailFilters.ts:112 ~ createFilter()'
     );
 
     return parsedRes.id;
@@ -110,41 +121,51 @@ export const createFilter = async ({
     logger.error({
       error,
       msg: 'Error creating filter',
-      fileTrace: 'background/services/api/gmail/helper/gmailFilters.ts:106 ~ createFilter() catch block',
+      fileTrace: 'background/services/api/gmail/helper/gmailFilters.ts:120 ~ createFilter() catch block',
     });
     return null;
   }
 };
 
-// delete previous fresh-Inbox filter with id
-export const deleteFilter = async (userToken: string, id: string) => {
-  //
-  const fetchOptions: Partial<RequestInit> = {
-    method: 'DELETE',
-    headers: {
-      Authorization: `Bearer ${userToken}`,
-    },
-  };
-  try {
-    const res = await fetch(
-      `https://gmail.googleapis.com/gmail/v1/users/me/settings/filters/${id}`,
-      fetchOptions
-    );
+// create filter shards for the emails, returns null if any of the shard failed to create
+export const createFilters = async ({
+  accountEmail,
+  emails,
+  filterAction,
+}: CreateFilterParams): Promise<string[] | null> => {
+  const filterIds: string[] = [];
 
-    const parsedRes = await res.json();
+  for (const shardEmails of shardFilterEmails(emails)) {
+    const filterId = await createFilter({ accountEmail, emails: shardEmails, filterAction });
 
-    // handle api errors
-    apiErrorHandler(parsedRes);
+    if (!filterId) return null;
+
+    filterIds.push(filterId);
+  }
+
+  return filterIds;
+};
+
+// delete previous fresh-Inbox filter with id
+// returns true if deleted (or already deleted)
+export const deleteFilter = async (accountEmail: string, id: string) => {
+  try {
+    await getGmailClient(accountEmail).filters.delete(id);
 
     logger.info(
       '✅ Successfully deleted filter',
-      'background/services/api/gmail/helper/gmailFilters.ts:127 ~ deleteFilter()'
+      'background/services/api/gmail/helper/gmailFilters.ts:148 ~ deleteFilter()'
     );
+    return true;
   } catch (error) {
+    // filter already deleted
+    if (error.message === errorMessage.notFound) return true;
+
     logger.error({
       error,
       msg: 'Error deleting filter',
-      fileTrace: 'background/services/api/gmail/helper/gmailFilters.ts:133 ~ deleteFilter() catch block',
+      fileTrace: 'background/services/api/gmail/helper/gmailFilters.ts:160 ~ deleteFilter() catch block',
     });
+    return false;
   }
 };
@@ -0,0 +1,75 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { buildMailtoUnsubscribeEmail, parseListUnsubscribeHeader } from './listUnsubscribe';
+
+// session uses the chrome & vite env apis, not used by the tested functions
+jest.mock('../../../auth/session', () => ({
+  getSessionToken: jest.fn(),
+  reauthorizeSession: jest.fn(),
+  signOutUser: jest.fn(),
+}));
+
+describe('parseListUnsubscribeHeader', () => {
+  it('splits the mailto & http urls', () => {
+    expect(
+      parseListUnsubscribeHeader(
+        '<mailto:unsubscribe@example.com?subject=unsubscribe>, <https://example.com/unsubscribe?id=123>'
+      )
+    ).toEqual({
+      mailtoUrls: ['mailto:unsubscribe@example.com?subject=unsubscribe'],
+      httpUrls: ['https://example.com/unsubscribe?id=123'],
+    });
+  });
+});
+
+describe('buildMailtoUnsubscribeEmail', () => {
+  it('builds the email with the subject & body of the url', () => {
+    expect(
+      buildMailtoUnsubscribeEmail('mailto:unsubscribe@example.com?subject=stop&body=please%20stop')
+    ).toBe(
+      [
+        'To: unsubscribe@example.com',
+        'Subject: stop',
+        'Content-Type: text/plain; charset="UTF-8"',
+        '',
+        'please stop',
+      ].join('\r\n')
+    );
+  });
+
+  it('uses unsubscribe as the default subject & body', () => {
+    expect(buildMailtoUnsubscribeEmail('mailto:unsubscribe@example.com')).toContain('Subject: unsubscribe');
+  });
+
+  it('encodes the non-ascii subject (RFC 2047)', () => {
+    expect(buildMailtoUnsubscribeEmail('mailto:unsubscribe@example.com?subject=d%C3%A9sinscrire')).toContain(
+      'Subject: =?UTF-8?B?ZMOpc2luc2NyaXJl?='
+    );
+  });
+
+  it('ignores the cc, bcc & other headers of the url', () => {
+    const rawEmail = buildMailtoUnsubscribeEmail(
+      'mailto:unsubscribe@example.com?cc=a@x.com&bcc=b@x.com&to=c@x.com&in-reply-to=x&subject=stop'
+    );
+
+    expect(rawEmail).not.toMatch(/a@x\.com|b@x\.com|c@x\.com|In-Reply-To/i);
+  });
+
+  it.each([
+    ['line break in the subject', 'mailto:unsubscribe@example.com?subject=stop%0D%0ABcc:%20b@x.com'],
+    ['line feed in the subject', 'mailto:unsubscribe@example.com?subject=stop%0ABcc:%20b@x.com'],
+    ['line break in the address', 'mailto:unsubscribe@example.com%0D%0ABcc:%20b@x.com'],
+    ['multiple addresses', 'mailto:unsubscribe@example.com%2Cb@x.com'],
+    ['multiple plain addresses', 'mailto:unsubscribe@example.com,b@x.com'],
+    ['no address', 'mailto:?subject=stop'],
+    ['invalid address', 'mailto:unsubscribe?subject=stop'],
+    ['malformed encoding', 'mailto:unsubscribe@example.com%E0%A4%A'],
+  ])('rejects the url with %s', (_case, mailtoUrl) => {
+    expect(buildMailtoUnsubscribeEmail(mailtoUrl)).toBeNull();
+  });
+
+  it('keeps the line breaks of the body after the headers', () => {
+    const rawEmail = buildMailtoUnsubscribeEmail('mailto:unsubscribe@example.com?body=line1%0Aline2');
+
+    expect(rawEmail.endsWith('\r\n\r\nline1\r\nline2')).toBe(true);
+  });
+});
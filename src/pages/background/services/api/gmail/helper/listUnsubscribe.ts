@@ -0,0 +1,286 @@
+import type { UnsubscribeMethod } from '@src/pages/background/types/background.types';
+import { logger } from '@src/pages/background/utils/logger';
+import * as gmailQuery from '@src/pages/background/utils/gmailQuery';
+import { parseAddressList } from '@src/pages/background/utils/emailAddress';
+import { getGmailClient } from '../gmailClient';
+
+// List-Unsubscribe header values of the latest email from a sender
+type ListUnsubscribe = {
+  // https links
+  httpUrls: string[];
+  // mailto links
+  mailtoUrls: string[];
+  // true if the List-Unsubscribe-Post header has "List-Unsubscribe=One-Click" (RFC 8058)
+  isOneClick: boolean;
+};
+
+// parse List-Unsubscribe header
+// ex: <mailto:unsubscribe@example.com?subject=unsubscribe>, <https://example.com/unsubscribe?id=123>
+export const parseListUnsubscribeHeader = (headerValue: string) => {
+  const httpUrls: string[] = [];
+  const mailtoUrls: string[] = [];
+
+  // urls are enclosed in angle brackets, separated by commas
+  const urlMatches = headerValue.matchAll(/<([^>]+)>/g);
+
+  for (const match of urlMatches) {
+    const url = match[1].trim();
+
+    if (url.toLowerCase().startsWith('mailto:')) {
+      mailtoUrls.push(url);
+    } else if (url.toLowerCase().startsWith('https://') || url.toLowerCase().startsWith('http://')) {
+      httpUrls.push(url);
+    }
+  }
+
+  return { httpUrls, mailtoUrls };
+};
+
+// get List-Unsubscribe & List-Unsubscribe-Post headers from the latest email of the sender
+export const getListUnsubscribe = async (
+  accountEmail: string,
+  email: string
+): Promise<ListUnsubscribe | null> => {
+  try {
+    // get the latest message from sender (gmail returns the newest messages first)
+    const parsedListRes = await getGmailClient(accountEmail).messages.list({
+      q: gmailQuery.buildQuery(gmailQuery.from(email), gmailQuery.inFolder('anywhere')),
+      maxResults: 1,
+    });
+
+    if (!parsedListRes.messages || parsedListRes.messages.length < 1) return null;
+
+    // get the unsubscribe headers of the message
+    const parsedRes = await getGmailClient(accountEmail).messages.get(parsedListRes.messages[0].id, {
+      format: 'metadata',
+      metadataHeaders: ['List-Unsubscribe', 'List-Unsubscribe-Post'],
+    });
+
+    const headers = parsedRes.payload?.headers || [];
+
+    const listUnsubscribeHeader = headers.find(header => header.name.toLowerCase() === 'list-unsubscribe');
+
+    if (!listUnsubscribeHeader?.value) return null;
+
+    const listUnsubscribePostHeader = headers.find(
+      header => header.name.toLowerCase() === 'list-unsubscribe-post'
+    );
+
+    const { httpUrls, mailtoUrls } = parseListUnsubscribeHeader(listUnsubscribeHeader.value);
+
+    return {
+      httpUrls,
+      mailtoUrls,
+      isOneClick: !!listUnsubscribePostHeader?.value
+        .replace(/\s/g, '')
+        .includes('List-Unsubscribe=One-Click'),
+    };
+  } catch (error) {
+    logger.error({
+      error,
+      msg: `Error getting List-Unsubscribe header for ${email}`,
+      fileTrace:
+        'background/services/api/gmail/helper/listUnsubscribe.ts:88 ~ getListUnsubscribe() catch block',
+    });
+    return null;
+  }
+};
+
+// result of an unsubscribe attempt
+type UnsubscribeAttemptResult = {
+  isSuccess: boolean;
+  // request was sent but the sender's response can't be read (one-click), the unsubscribe is not confirmed
+  isUnverified?: boolean;
+};
+
+// one-click unsubscribe (RFC 8058): POST "List-Unsubscribe=One-Click" to the https url
+const oneClickUnsubscribe = async (url: string): Promise<UnsubscribeAttemptResult> => {
+  try {
+    // no-cors: the response is opaque (no host permission for the sender's server, status can't be read),
+    // a resolved fetch only means the request reached the server, so it's reported as unverified
+    const res = await fetch(url, {
+      method: 'POST',
+      mode: 'no-cors',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: 'List-Unsubscribe=One-Click',
+    });
+
+    if (res.type === 'opaque') return { isSuccess: true, isUnverified: true };
+
+    return { isSuccess: res.ok };
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error sending one-click unsubscribe request',
+      fileTrace:
+        'background/services/api/gmail/helper/listUnsubscribe.ts:120 ~ oneClickUnsubscribe() catch block',
+    });
+    return { isSuccess: false };
+  }
+};
+
+// base64 encode (utf-8) the text
+const encodeBase64 = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+};
+
+// base64url encode (utf-8) the raw email for gmail send api
+const encodeRawEmail = (rawEmail: string) =>
+  encodeBase64(rawEmail).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// RFC 2047 encoded-word for the non-ascii header values, ex: =?UTF-8?B?w7xuc3Vic2NyaWJl?=
+const encodeHeaderValue = (value: string) =>
+  /^[\x20-\x7E]*$/.test(value) ? value : `=?UTF-8?B?${encodeBase64(value)}?=`;
+
+// addr-spec without display name, comments or quoted local part, ex: unsubscribe@example.com
+const addrSpecRegex = /^[^\s@"<>()[\]\\,;:]+@[^\s@"<>()[\]\\,;:]+\.[^\s@"<>()[\]\\,;:]+$/;
+
+// header values with line breaks could add headers (ex: Bcc) to the email
+const hasLineBreak = (value: string) => /[\r\n]/.test(value);
+
+// build the raw unsubscribe email from the mailto url (RFC 6068), returns null if the url is not safe to send:
+// the mailto address must be a single address & the headers can't have line breaks,
+// only the subject & body of the url are used (cc, bcc & other headers are ignored)
+export const buildMailtoUnsubscribeEmail = (mailtoUrl: string) => {
+  // ex: mailto:unsubscribe@example.com?subject=unsubscribe&body=...
+  const [address, queryString] = mailtoUrl.replace(/^mailto:/i, '').split('?');
+  const params = new URLSearchParams(queryString || '');
+
+  let decodedAddress = '';
+
+  try {
+    decodedAddress = decodeURIComponent(address);
+  } catch {
+    return null;
+  }
+
+  const subject = params.get('subject') || 'unsubscribe';
+  const body = params.get('body') || 'unsubscribe';
+
+  if (hasLineBreak(decodedAddress) || hasLineBreak(subject)) return null;
+
+  // exactly one address (ex: %2C in the address adds more recipients)
+  const addresses = parseAddressList(decodedAddress);
+
+  if (addresses.length !== 1 || !addrSpecRegex.test(addresses[0].email)) return null;
+
+  return [
+    `To: ${addresses[0].email}`,
+    `Subject: ${encodeHeaderValue(subject)}`,
+    'Content-Type: text/plain; charset="UTF-8"',
+    '',
+    // body is after the headers (line breaks can't add headers)
+    body.replace(/\r?\n/g, '\r\n'),
+  ].join('\r\n');
+};
+
+// send the unsubscribe email to the mailto address from user's gmail
+const mailtoUnsubscribe = async (
+  accountEmail: string,
+  mailtoUrl: string
+): Promise<UnsubscribeAttemptResult> => {
+  try {
+    const rawEmail = buildMailtoUnsubscribeEmail(mailtoUrl);
+
+    if (!rawEmail) throw new Error(`❌ Invalid unsubscribe mailto url: ${mailtoUrl}`);
+
+    await getGmailClient(accountEmail).messages.send(encodeRawEmail(rawEmail));
+
+    return { isSuccess: true };
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error sending unsubscribe email',
+      fileTrace:
+        'background/services/api/gmail/helper/listUnsubscribe.ts:205 ~ mailtoUnsubscribe() catch block',
+    });
+    return { isSuccess: false };
+  }
+};
+
+// open the unsubscribe page in a new tab (user may have to confirm on the page)
+const openUnsubscribeLink = async (url: string): Promise<UnsubscribeAttemptResult> => {
+  try {
+    await chrome.tabs.create({ url, active: false });
+    return { isSuccess: true };
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error opening unsubscribe link',
+      fileTrace:
+        'background/services/api/gmail/helper/listUnsubscribe.ts:220 ~ openUnsubscribeLink() catch block',
+    });
+    return { isSuccess: false };
+  }
+};
+
+// unsubscribe from sender using the List-Unsubscribe header
+// tries one-click POST, mailto and then opens the http link, returns the first method that worked
+// or the first method tried if all of them failed (isSuccess: false),
+// returns null if the sender has no usable List-Unsubscribe header
+export const unsubscribeWithListUnsubscribe = async (
+  accountEmail: string,
+  email: string
+): Promise<({ method: UnsubscribeMethod } & UnsubscribeAttemptResult) | null> => {
+  const listUnsubscribe = await getListUnsubscribe(accountEmail, email);
+
+  if (!listUnsubscribe) return null;
+
+  const { httpUrls, mailtoUrls, isOneClick } = listUnsubscribe;
+
+  // one-click is only supported for https urls
+  const oneClickUrl = httpUrls.find(url => url.toLowerCase().startsWith('https://'));
+
+  // methods in the order they are tried
+  const attempts: { method: UnsubscribeMethod; unsubscribe: () => Promise<UnsubscribeAttemptResult> }[] = [];
+
+  if (isOneClick && oneClickUrl) {
+    attempts.push({ method: 'one-click', unsubscribe: () => oneClickUnsubscribe(oneClickUrl) });
+  }
+
+  if (mailtoUrls[0]) {
+    attempts.push({ method: 'mailto', unsubscribe: () => mailtoUnsubscribe(accountEmail, mailtoUrls[0]) });
+  }
+
+  if (httpUrls[0]) {
+    attempts.push({ method: 'link', unsubscribe: () => openUnsubscribeLink(httpUrls[0]) });
+  }
+
+  if (attempts.length < 1) return null;
+
+  for (const { method, unsubscribe } of attempts) {
+    const result = await unsubscribe();
+
+    if (result.isSuccess) return { method, ...result };
+  }
+
+  return { method: attempts[0].method, isSuccess: false };
+};
+
+// unsubscribe method that would be tried first for the sender, without unsubscribing (dry run),
+// returns null if the sender has no usable List-Unsubscribe header (fallback to filter)
+export const getUnsubscribeMethod = async (
+  accountEmail: string,
+  email: string
+): Promise<UnsubscribeMethod | null> => {
+  const listUnsubscribe = await getListUnsubscribe(accountEmail, email);
+
+  if (!listUnsubscribe) return null;
+
+  const { httpUrls, mailtoUrls, isOneClick } = listUnsubscribe;
+
+  if (isOneClick && httpUrls.some(url => url.toLowerCase().startsWith('https://'))) return 'one-click';
+
+  if (mailtoUrls[0]) return 'mailto';
+
+  if (httpUrls[0]) return 'link';
+
+  return null;
+};
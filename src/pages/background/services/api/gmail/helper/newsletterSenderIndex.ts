@@ -0,0 +1,261 @@
+import { API_MAX_RESULT } from '@src/pages/background/constants/app.constants';
+import type {
+  INewsletterEmails,
+  NewsletterSenderIndex,
+  SenderMessage,
+} from '@src/pages/background/types/background.types';
+import { logger } from '@src/pages/background/utils/logger';
+import { normalizeEmail } from '@src/pages/background/utils/emailAddress';
+import * as gmailQuery from '@src/pages/background/utils/gmailQuery';
+import { getSenderMessages } from './getSenderMessages';
+import { getGmailClient } from '../gmailClient';
+
+// search query to find newsletter/mailing list emails
+const NEWSLETTER_QUERY = gmailQuery.buildQuery(
+  gmailQuery.or(gmailQuery.phrase('unsubscribe'), gmailQuery.phrase('newsletter')),
+  gmailQuery.inFolder('anywhere')
+);
+
+// number of messages requested in a single batch request
+const BATCH_SIZE = 45;
+
+// margin for the after: query of the incremental sync (received date & sync time may differ slightly)
+const SYNC_TIME_MARGIN_MS = 60 * 60 * 1000;
+
+// max messages kept in the index (~150 bytes per message), the index is saved in chrome local storage
+const MAX_INDEX_MESSAGES = 10000;
+
+// remove the oldest messages if the index has more than the max messages,
+// the scan is stopped as well (older messages would be removed again)
+const pruneSenderIndex = (senderIndex: NewsletterSenderIndex) => {
+  const messageIds = Object.keys(senderIndex.messages);
+
+  if (messageIds.length <= MAX_INDEX_MESSAGES) return;
+
+  const oldestMessageIds = messageIds
+    .sort((id1, id2) => senderIndex.messages[id2].receivedAt - senderIndex.messages[id1].receivedAt)
+    .slice(MAX_INDEX_MESSAGES);
+
+  oldestMessageIds.forEach(id => delete senderIndex.messages[id]);
+
+  senderIndex.isPruned = true;
+  senderIndex.nextPageToken = null;
+};
+
+// get sender messages for the message ids in batches & add them to the index
+const addMessagesToIndex = async (
+  accountEmail: string,
+  senderIndex: NewsletterSenderIndex,
+  messageIds: string[]
+) => {
+  for (let i = 0; i < messageIds.length; i += BATCH_SIZE) {
+    const senderMessages = await getSenderMessages({
+      accountEmail,
+      messageIds: messageIds.slice(i, i + BATCH_SIZE),
+    });
+
+    Object.assign(senderIndex.messages, senderMessages);
+  }
+
+  pruneSenderIndex(senderIndex);
+};
+
+// create new (empty) index, starting from the current history id of the mailbox
+export const createSenderIndex = async (accountEmail: string): Promise<NewsletterSenderIndex> => {
+  const profile = await getGmailClient(accountEmail).profile.get();
+
+  return {
+    historyId: profile.historyId,
+    syncedAt: Date.now(),
+    nextPageToken: '',
+    messages: {},
+  };
+};
+
+// check if all the pages of the newsletter search are scanned
+export const isScanComplete = (senderIndex: NewsletterSenderIndex) => senderIndex.nextPageToken === null;
+
+// scan the next page of the newsletter search & add the messages to the index
+export const scanNextPage = async (accountEmail: string, senderIndex: NewsletterSenderIndex) => {
+  if (isScanComplete(senderIndex)) return;
+
+  const parsedRes = await getGmailClient(accountEmail).messages.list({
+    q: NEWSLETTER_QUERY,
+    maxResults: API_MAX_RESULT,
+    pageToken: senderIndex.nextPageToken,
+  });
+
+  const messageIds = (parsedRes.messages || [])
+    .map(message => message.id)
+    .filter(id => !senderIndex.messages[id]);
+
+  logger.info(
+    `Number of messages to process: ${messageIds.length}`,
+    'background/services/api/gmail/helper/newsletterSenderIndex.ts:62 ~ scanNextPage()'
+  );
+
+  await addMessagesToIndex(accountEmail, senderIndex, messageIds);
+
+  // save next page token if present to fetch next batch of messages (scan is stopped if the index was pruned)
+  senderIndex.nextPageToken = senderIndex.isPruned ? null : parsedRes.nextPageToken || null;
+};
+
+// get newsletter message ids received after the time
+const getNewsletterMessageIdsAfter = async (accountEmail: string, timestamp: number) => {
+  const messageIds: string[] = [];
+
+  let pageToken = '';
+
+  do {
+    const parsedRes = await getGmailClient(accountEmail).messages.list({
+      // after: accepts timestamp in seconds
+      q: gmailQuery.buildQuery(NEWSLETTER_QUERY, gmailQuery.after(timestamp / 1000)),
+      maxResults: API_MAX_RESULT,
+      pageToken,
+    });
+
+    messageIds.push(...(parsedRes.messages || []).map(message => message.id));
+
+    pageToken = parsedRes.nextPageToken || '';
+  } while (pageToken);
+
+  return messageIds;
+};
+
+// apply the mailbox changes since the last sync (history api) to the index,
+// throws not-found error if the history id has expired (full rescan needed)
+export const syncSenderIndex = async (accountEmail: string, senderIndex: NewsletterSenderIndex) => {
+  // new messages, deleted messages, read/unread & trash changes since the last sync
+  const addedIds = new Set<string>();
+  const deletedIds = new Set<string>();
+  const unreadChanges = new Map<string, boolean>();
+  const trashChanges = new Map<string, boolean>();
+
+  let pageToken = '';
+  let historyId = senderIndex.historyId;
+
+  do {
+    const parsedRes = await getGmailClient(accountEmail).history.list({
+      startHistoryId: senderIndex.historyId,
+      historyTypes: ['messageAdded', 'messageDeleted', 'labelAdded', 'labelRemoved'],
+      maxResults: API_MAX_RESULT,
+      pageToken,
+    });
+
+    // history records are in chronological order
+    for (const record of parsedRes.history || []) {
+      record.messagesAdded?.forEach(({ message }) => addedIds.add(message.id));
+
+      record.messagesDeleted?.forEach(({ message }) => {
+        addedIds.delete(message.id);
+        deletedIds.add(message.id);
+      });
+
+      record.labelsAdded?.forEach(({ message, labelIds }) => {
+        if (labelIds.includes('UNREAD')) unreadChanges.set(message.id, true);
+        // moved to trash (ex: deleted by the delete operations)
+        if (labelIds.includes('TRASH')) trashChanges.set(message.id, true);
+      });
+
+      record.labelsRemoved?.forEach(({ message, labelIds }) => {
+        if (labelIds.includes('UNREAD')) unreadChanges.set(message.id, false);
+        // restored from trash (ex: undo delete)
+        if (labelIds.includes('TRASH')) trashChanges.set(message.id, false);
+      });
+    }
+
+    historyId = parsedRes.historyId;
+    pageToken = parsedRes.nextPageToken || '';
+  } while (pageToken);
+
+  // remove deleted messages
+  deletedIds.forEach(id => delete senderIndex.messages[id]);
+
+  // update read/unread status
+  unreadChanges.forEach((isUnread, id) => {
+    if (senderIndex.messages[id]) senderIndex.messages[id].isUnread = isUnread;
+  });
+
+  // update trash status
+  trashChanges.forEach((isTrashed, id) => {
+    if (senderIndex.messages[id]) senderIndex.messages[id].isTrashed = isTrashed;
+  });
+
+  // add new messages that are newsletters (history api doesn't support search query)
+  if (addedIds.size > 0) {
+    const newsletterMessageIds = await getNewsletterMessageIdsAfter(
+      accountEmail,
+      senderIndex.syncedAt - SYNC_TIME_MARGIN_MS
+    );
+
+    await addMessagesToIndex(
+      accountEmail,
+      senderIndex,
+      newsletterMessageIds.filter(id => addedIds.has(id) && !senderIndex.messages[id])
+    );
+  }
+
+  logger.info(
+    `Synced newsletter emails: ${addedIds.size} added, ${deletedIds.size} deleted, ${unreadChanges.size} read/unread changes, ${trashChanges.size} trash changes`,
+    'background/services/api/gmail/helper/newsletterSenderIndex.ts:169 ~ syncSenderIndex()'
+  );
+
+  senderIndex.historyId = historyId;
+  senderIndex.syncedAt = Date.now();
+};
+
+// add the message to the sender's stats (creates the sender if not present)
+const addSenderMessage = (
+  senders: Map<string, INewsletterEmails>,
+  message: SenderMessage,
+  isSampled: boolean
+) => {
+  const email = normalizeEmail(message.email);
+
+  const newsletterEmail = senders.get(email);
+
+  if (!newsletterEmail) {
+    senders.set(email, {
+      email,
+      name: message.name,
+      stats: {
+        count: 1,
+        unreadCount: message.isUnread ? 1 : 0,
+        firstReceived: message.receivedAt,
+        lastReceived: message.receivedAt,
+        totalSize: message.sizeEstimate,
+        isSampled,
+      },
+    });
+    return;
+  }
+
+  // use the name from other messages if the first message didn't have one
+  if (!newsletterEmail.name) newsletterEmail.name = message.name;
+
+  const { stats } = newsletterEmail;
+
+  stats.count += 1;
+  stats.unreadCount += message.isUnread ? 1 : 0;
+  stats.firstReceived = Math.min(stats.firstReceived, message.receivedAt);
+  stats.lastReceived = Math.max(stats.lastReceived, message.receivedAt);
+  stats.totalSize += message.sizeEstimate;
+};
+
+// get senders with their stats from the index (latest senders first), messages in trash are not counted,
+// the stats are sampled until all the pages of the newsletter search are scanned (or older messages were pruned)
+export const getSendersFromIndex = (senderIndex: NewsletterSenderIndex) => {
+  const senders = new Map<string, INewsletterEmails>();
+
+  const isSampled = !isScanComplete(senderIndex) || !!senderIndex.isPruned;
+
+  const messages = Object.values(senderIndex.messages)
+    .filter(message => !message.isTrashed)
+    .sort((a, b) => b.receivedAt - a.receivedAt);
+
+  for (const message of messages) {
+    addSenderMessage(senders, message, isSampled);
+  }
+
+  return [...senders.values()];
+};
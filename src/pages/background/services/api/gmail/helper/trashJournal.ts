@@ -0,0 +1,266 @@
+import { storageKeys } from '@src/pages/background/constants/app.constants';
+import type {
+  GmailMessageMetadata,
+  TrashJournalEntry,
+  TrashJournalRecord,
+  TrashJournalSource,
+  TrashJournalSummary,
+} from '@src/pages/background/types/background.types';
+import { generateStorageKey } from '@src/pages/background';
+import { getLocalStorageByKey } from '@src/pages/background/utils/getStorageByKey';
+import { logger } from '@src/pages/background/utils/logger';
+import { BATCH_MAX_REQUESTS } from '../gmailBatch';
+import { getGmailClient } from '../gmailClient';
+
+//* trash journal
+// mails moved to trash by the delete operations are recorded with the labels removed from them,
+// so the delete can be undone (restored from trash) while gmail still keeps them in trash (30 days)
+
+// gmail permanently deletes the mails in trash after 30 days
+const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// max number of journal entries kept (chrome local storage limit)
+const MAX_JOURNAL_ENTRIES = 50;
+
+// gmail api limit: max 1000 ids per batchModify request
+const MODIFY_BATCH_SIZE = 1000;
+
+// check if the mails of the entry can still be restored
+const isUndoable = (entry: Pick<TrashJournalEntry, 'trashedAt' | 'restoredAt'>) =>
+  !entry.restoredAt && Date.now() - entry.trashedAt < TRASH_RETENTION_MS;
+
+// storage key of the message ids (& removed labels) of the entry, prefixed with the account's journal key
+const getJournalMessagesKey = (accountEmail: string, id: string) =>
+  `${generateStorageKey(accountEmail, storageKeys.TRASH_JOURNAL)}-${id}`;
+
+// get journal entries of the account without their message ids (oldest first)
+const getJournalRecords = async (accountEmail: string) =>
+  (await getLocalStorageByKey<TrashJournalRecord[]>(accountEmail, storageKeys.TRASH_JOURNAL)) || [];
+
+// journal writes are chained, so the concurrent delete operations don't overwrite each other's entries
+let journalWrite: Promise<boolean> = Promise.resolve(true);
+
+// add/update the entry in the journal, removes the entries older than the trash retention period
+// & keeps the latest entries, returns false if the entry couldn't be saved (the entry is removed, so a partly
+// recorded delete is not offered to undo)
+const saveJournalEntry = (accountEmail: string, entry: TrashJournalEntry) => {
+  const { messageIds, removedLabelIds, ...record } = entry;
+
+  const messagesKey = getJournalMessagesKey(accountEmail, entry.id);
+
+  journalWrite = journalWrite.then(async () => {
+    try {
+      // message ids are saved first, the entry is listed only after its mails are saved
+      await chrome.storage.local.set({ [messagesKey]: { messageIds, removedLabelIds } });
+
+      const records = [
+        ...(await getJournalRecords(accountEmail)).filter(journalRecord => journalRecord.id !== entry.id),
+        { ...record, count: messageIds.length },
+      ];
+
+      const keptRecords = records
+        .filter(journalRecord => Date.now() - journalRecord.trashedAt < TRASH_RETENTION_MS)
+        .slice(-MAX_JOURNAL_ENTRIES);
+
+      const removedRecords = records.filter(journalRecord => !keptRecords.includes(journalRecord));
+
+      await chrome.storage.local.set({
+        [generateStorageKey(accountEmail, storageKeys.TRASH_JOURNAL)]: keptRecords,
+      });
+
+      if (removedRecords.length > 0) {
+        await chrome.storage.local.remove(
+          removedRecords.map(journalRecord => getJournalMessagesKey(accountEmail, journalRecord.id))
+        );
+      }
+
+      return true;
+    } catch (error) {
+      logger.error({
+        error,
+        msg: 'Error saving trash journal entry',
+        fileTrace: 'background/services/api/gmail/helper/trashJournal.ts:84 ~ saveJournalEntry() catch block',
+      });
+
+      // remove the entry (ex: storage quota exceeded), removing frees up storage so it's not expected to fail
+      await removeJournalEntry(accountEmail, entry.id).catch(() => undefined);
+
+      return false;
+    }
+  });
+
+  return journalWrite;
+};
+
+// remove the entry & its message ids from the journal
+const removeJournalEntry = async (accountEmail: string, id: string) => {
+  await chrome.storage.local.remove(getJournalMessagesKey(accountEmail, id));
+
+  await chrome.storage.local.set({
+    [generateStorageKey(accountEmail, storageKeys.TRASH_JOURNAL)]: (
+      await getJournalRecords(accountEmail)
+    ).filter(journalRecord => journalRecord.id !== id),
+  });
+};
+
+// create a new (empty) journal entry for a delete operation, saved when the first mails are recorded
+export const createTrashJournalEntry = (
+  source: TrashJournalSource,
+  emails: string[] = [],
+  id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+): TrashJournalEntry => ({
+  id,
+  source,
+  emails,
+  trashedAt: Date.now(),
+  messageIds: [],
+  removedLabelIds: {},
+  restoredAt: null,
+});
+
+// get the saved journal entry with its message ids (used to continue recording a resumed delete job & undo)
+export const getTrashJournalEntry = async (accountEmail: string, id: string): Promise<TrashJournalEntry> => {
+  const record = (await getJournalRecords(accountEmail)).find(journalRecord => journalRecord.id === id);
+
+  if (!record) return null;
+
+  const messagesKey = getJournalMessagesKey(accountEmail, id);
+
+  const messages: Pick<TrashJournalEntry, 'messageIds' | 'removedLabelIds'> = (
+    await chrome.storage.local.get(messagesKey)
+  )[messagesKey];
+
+  if (!messages) return null;
+
+  const { count, ...entry } = record;
+
+  return { ...entry, ...messages };
+};
+
+// get labels of the mails (batch requests of max 100 mails), mails that were not found are not included
+export const getMessageLabelIds = async (accountEmail: string, ids: string[]) => {
+  const labelIdsByMessage: Record<string, string[]> = {};
+
+  for (let i = 0; i < ids.length; i += BATCH_MAX_REQUESTS) {
+    const responseParts = await getGmailClient(accountEmail).batch<GmailMessageMetadata>(
+      ids.slice(i, i + BATCH_MAX_REQUESTS).map(id => ({
+        id: `message-${id}`,
+        method: 'GET',
+        path: `/gmail/v1/users/me/messages/${id}?format=minimal&fields=id,labelIds`,
+      }))
+    );
+
+    for (const part of responseParts) {
+      if (part.status !== 200 || !part.body?.id) continue;
+
+      labelIdsByMessage[part.body.id] = part.body.labelIds || [];
+    }
+  }
+
+  return labelIdsByMessage;
+};
+
+type RecordTrashedMailsParams = {
+  accountEmail: string;
+  entry: TrashJournalEntry;
+  // mails moved to trash
+  ids: string[];
+  // labels of the mails before they were moved to trash
+  labelIdsByMessage: Record<string, string[]>;
+  // labels removed while moving to trash
+  removedLabelIds: string[];
+};
+
+// record the mails moved to trash & the labels removed from them, returns false if the journal couldn't be saved
+export const recordTrashedMails = async ({
+  accountEmail,
+  entry,
+  ids,
+  labelIdsByMessage,
+  removedLabelIds,
+}: RecordTrashedMailsParams) => {
+  for (const id of ids) {
+    // labels are unknown if the mail was not found before deleting, the mail is only taken out of trash on undo
+    const labelIds = labelIdsByMessage[id] || [];
+
+    // mail was already in trash, undo should not restore it
+    if (labelIds.includes('TRASH')) continue;
+
+    entry.messageIds.push(id);
+
+    for (const labelId of removedLabelIds) {
+      if (!labelIds.includes(labelId)) continue;
+
+      if (!entry.removedLabelIds[labelId]) entry.removedLabelIds[labelId] = [];
+
+      entry.removedLabelIds[labelId].push(id);
+    }
+  }
+
+  return await saveJournalEntry(accountEmail, entry);
+};
+
+// add/remove labels of the mails in batches,
+// if a batch fails (ex: some mails were permanently deleted) it's retried with the mails that still exist
+const modifyMailsInBatches = async (
+  accountEmail: string,
+  ids: string[],
+  labels: { addLabelIds?: string[]; removeLabelIds?: string[] }
+) => {
+  for (let i = 0; i < ids.length; i += MODIFY_BATCH_SIZE) {
+    const batch = ids.slice(i, i + MODIFY_BATCH_SIZE);
+
+    try {
+      await getGmailClient(accountEmail).messages.batchModify({ ids: batch, ...labels });
+    } catch (error) {
+      const existingIds = Object.keys(await getMessageLabelIds(accountEmail, batch));
+
+      // none of the mails exist anymore
+      if (existingIds.length < 1) continue;
+
+      await getGmailClient(accountEmail).messages.batchModify({ ids: existingIds, ...labels });
+    }
+  }
+};
+
+// restore the mails of the journal entry from trash (undo delete)
+export const restoreTrashJournalEntry = async (accountEmail: string, id: string) => {
+  const entry = await getTrashJournalEntry(accountEmail, id);
+
+  if (!entry) throw new Error('❌ Trash journal entry not found or expired');
+
+  // already restored
+  if (entry.restoredAt) return true;
+
+  if (!isUndoable(entry)) throw new Error('❌ Mails are no longer in trash');
+
+  // take the mails out of trash
+  await modifyMailsInBatches(accountEmail, entry.messageIds, { removeLabelIds: ['TRASH'] });
+
+  // add back the labels removed while moving to trash (ex: INBOX)
+  for (const [labelId, messageIds] of Object.entries(entry.removedLabelIds)) {
+    await modifyMailsInBatches(accountEmail, messageIds, { addLabelIds: [labelId] });
+  }
+
+  entry.restoredAt = Date.now();
+
+  // mails are restored even if the entry couldn't be updated (the entry is removed, so undo is not offered again)
+  await saveJournalEntry(accountEmail, entry);
+
+  return true;
+};
+
+// get journal entries for the history list (latest first)
+export const getTrashJournalSummary = async (accountEmail: string): Promise<TrashJournalSummary[]> =>
+  (await getJournalRecords(accountEmail))
+    .filter(entry => entry.count > 0 && Date.now() - entry.trashedAt < TRASH_RETENTION_MS)
+    .reverse()
+    .map(entry => ({
+      id: entry.id,
+      source: entry.source,
+      emails: entry.emails,
+      trashedAt: entry.trashedAt,
+      restoredAt: entry.restoredAt,
+      count: entry.count,
+      isUndoable: isUndoable(entry),
+    }));
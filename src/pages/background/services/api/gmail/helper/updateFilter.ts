@@ -1,81 +1,134 @@
-import { FILTER_ACTION } from '@src/pages/background/types/background.types';
-import { createFilter, deleteFilter, getFilterById } from './gmailFilters';
-import { storageKeys } from '@src/pages/background/constants/app.constants';
-import { setStorage } from '@src/pages/background/utils/setStorage';
-
-type UpdateFilterParams = {
-  userToken: string;
-  emails: string[];
-  filterId: string;
+import type {
+  DryRunFilterChange,
+  FILTER_ACTION,
+  FilterEmails,
+} from '@src/pages/background/types/background.types';
+import { getFilterById, getFilterCriteriaQuery, shardFilterEmails } from './gmailFilters';
+import { getStorageKeyByAction, replaceFilterShards } from './filterUpdate';
+import { normalizeEmail } from '@src/pages/background/utils/emailAddress';
+import { getSyncStorageByKey } from '@src/pages/background/utils/getStorageByKey';
+
+type UpdateFilterEmailsParams = {
+  accountEmail: string;
   filterAction: FILTER_ACTION;
+  // ids of all the shards of the app filter
+  filterIds: string[];
+  addEmails: string[];
+  removeEmails: string[];
 };
 
-// set storage key based on filter action
-const getStorageKeyByAction = (filterAction: FILTER_ACTION) => {
-  if (filterAction === FILTER_ACTION.INBOX) {
-    return { sync: storageKeys.WHITELIST_FILTER_ID, local: storageKeys.WHITELISTED_EMAILS };
-  }
-  return { sync: storageKeys.UNSUBSCRIBE_FILTER_ID, local: storageKeys.UNSUBSCRIBED_EMAILS };
+// get emails of each shard, throws if any of the shard is not found
+const getFilterShards = async (accountEmail: string, filterIds: string[]) => {
+  const shards = await Promise.all(filterIds.map(filterId => getFilterById(accountEmail, filterId)));
+
+  if (shards.length < 1 || shards.some(shard => !shard)) throw new Error('❌ Failed to get filter');
+
+  return shards;
 };
 
-// update filter helper
-export const addEmailToFilter = async ({ userToken, emails, filterId, filterAction }: UpdateFilterParams) => {
-  // sync storage (storage id)
-  const storageKey = getStorageKeyByAction(filterAction);
+type PlanFilterUpdateParams = {
+  shards: FilterEmails[];
+  addEmails: string[];
+  removeEmails: string[];
+};
 
-  const filter = await getFilterById(userToken, filterId);
+// get the shards to replace & the new shards for the add/remove emails, null if the filter doesn't change
+const planFilterUpdate = ({ shards, addEmails, removeEmails }: PlanFilterUpdateParams) => {
+  // filter emails are stored normalized (lowercase), so the same sender is not added twice
+  const emailsToAdd = addEmails.map(normalizeEmail);
+  const emailsToRemove = removeEmails.map(normalizeEmail);
 
-  // if email already present in the filter, do nothing (return back)
-  const isEmailAlreadyPresent = filter.emails.filter(email => emails.includes(email));
+  const isRemovedEmail = (email: string) => emailsToRemove.includes(normalizeEmail(email));
 
-  if (isEmailAlreadyPresent.length === emails.length) return true;
+  const filterEmails = shards.flatMap(shard => shard.emails);
 
-  // add email to existing filter emails
-  const updatedFilterEmails = new Set([...filter.emails, ...emails]);
+  // if email already present in the filter, do nothing
+  const newEmails = [...new Set(emailsToAdd.filter(email => !filterEmails.includes(email)))];
 
-  // delete existing filter
-  await deleteFilter(userToken, filterId);
+  const lastShard = shards[shards.length - 1];
 
-  // create new filter with updated emails
-  const newFilterId = await createFilter({ userToken, filterAction, emails: [...updatedFilterEmails] });
+  // shards with the emails to remove, new emails are added to the last shard
+  const replacedShards = shards.filter(
+    shard => shard.emails.some(isRemovedEmail) || (newEmails.length > 0 && shard === lastShard)
+  );
 
-  // save new filter id to sync storage
-  await setStorage({ type: 'sync', key: storageKey.sync, value: newFilterId });
+  if (replacedShards.length < 1) return null;
 
-  // save updated emails to local storage
-  await setStorage({ type: 'local', key: storageKey.local, value: [...updatedFilterEmails] });
+  // remaining emails of the replaced shards with the new emails
+  const shardEmails = [
+    ...replacedShards.flatMap(shard => shard.emails).filter(email => !isRemovedEmail(email)),
+    ...newEmails,
+  ];
 
-  return true;
+  // no new shards needed if all the emails of the replaced shards are removed,
+  // but at least one shard (filter tagged with the fresh-Inbox email) is kept
+  const isAllShardsReplaced = replacedShards.length === shards.length;
+
+  return {
+    replacedShards,
+    newShards: shardEmails.length > 0 || isAllShardsReplaced ? shardFilterEmails(shardEmails) : [],
+    emails: [...filterEmails.filter(email => !isRemovedEmail(email)), ...newEmails],
+  };
 };
 
-// remove email from filter
-export const removeEmailFromFilter = async ({
-  userToken,
-  emails,
-  filterId,
+// add & remove emails of the app filter in a single rewrite
+// (only the shards with the removed emails & the last shard for the new emails are replaced)
+export const updateFilterEmails = async ({
+  accountEmail,
   filterAction,
-}: UpdateFilterParams) => {
-  // sync storage (storage id)
-  const storageKey = getStorageKeyByAction(filterAction);
-
-  // get filter by id
-  const filter = await getFilterById(userToken, filterId);
-
-  // update the email list, remove the email
-  const updatedFilterEmails = filter.emails.filter(e => !emails.includes(e));
+  filterIds,
+  addEmails,
+  removeEmails,
+}: UpdateFilterEmailsParams) => {
+  const update = planFilterUpdate({
+    shards: await getFilterShards(accountEmail, filterIds),
+    addEmails,
+    removeEmails,
+  });
 
-  // delete current  filter
-  await deleteFilter(userToken, filterId);
+  if (!update) return;
 
-  // create new one with new emails list
-  const newFilterId = await createFilter({
-    userToken,
+  await replaceFilterShards({
+    accountEmail,
     filterAction,
-    emails: [...updatedFilterEmails],
+    filterIds,
+    replacedFilterIds: update.replacedShards.flatMap(shard => shard.filterIds),
+    newShards: update.newShards,
+    emails: update.emails,
   });
-  // save the filter id to chrome sync storage
-  await setStorage({ type: 'sync', key: storageKey.sync, value: newFilterId });
+};
 
-  // save the updated  emails to chrome local storage
-  await setStorage({ type: 'local', key: storageKey.local, value: updatedFilterEmails });
+// criteria of the app filter before & after adding/removing the emails, without updating the filter (dry run)
+export const previewFilterEmailsUpdate = async ({
+  accountEmail,
+  filterAction,
+  addEmails,
+  removeEmails,
+}: Omit<UpdateFilterEmailsParams, 'filterIds'>): Promise<DryRunFilterChange> => {
+  // stored filter ids only, the filter is created on the first real update if it doesn't exist yet
+  const storedFilterIds = await getSyncStorageByKey<string | string[]>(
+    accountEmail,
+    getStorageKeyByAction(filterAction).sync
+  );
+
+  const filterIds = typeof storedFilterIds === 'string' ? [storedFilterIds] : storedFilterIds || [];
+
+  // a new filter has a single empty shard
+  const shards =
+    filterIds.length > 0 ? await getFilterShards(accountEmail, filterIds) : [{ filterIds: [], emails: [] }];
+
+  const criteriaBefore =
+    filterIds.length > 0 ? shards.map(shard => getFilterCriteriaQuery(shard.emails)) : [];
+
+  const update = planFilterUpdate({ shards, addEmails, removeEmails });
+
+  // replaced shards are deleted & the new shards are created after the remaining shards
+  const criteriaAfter = update
+    ? [
+        ...shards.filter(shard => !update.replacedShards.includes(shard)),
+        ...update.newShards.map(emails => ({ emails })),
+      ].map(shard => getFilterCriteriaQuery(shard.emails))
+    : criteriaBefore;
+
+  return { filterAction, criteriaBefore, criteriaAfter };
 };
@@ -1,17 +1,83 @@
 import { AUTH_SCOPE, storageKeys } from '../../constants/app.constants';
+import type { AuthError, AuthResult } from '../../types/background.types';
 import { logger } from '../../utils/logger';
 import { setStorage } from '../../utils/setStorage';
 
+// google tokens are valid for 1h, used if expires_in is not in the response
+const DEFAULT_TOKEN_EXPIRES_IN = 3600;
+
+const authFailure = (error: AuthError, missingScopes?: string[]): AuthResult => ({
+  authResponse: null,
+  error,
+  missingScopes,
+});
+
+// random state sent with the auth request, the response must return the same state (CSRF protection)
+const generateAuthState = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// scopes the user unchecked on the consent screen (google lets the user grant only some of the scopes)
+const getMissingScopes = (grantedScope: string) => {
+  const grantedScopes = grantedScope.split(' ');
+  return AUTH_SCOPE.split(' ').filter(scope => !grantedScopes.includes(scope));
+};
+
+// parse the redirect url fragment & validate it against the auth request
+// ex: https://<id>.chromiumapp.org/#state=...&access_token=ya29...&token_type=Bearer&expires_in=3599&scope=https://...
+// ex: https://<id>.chromiumapp.org/#error=access_denied&state=...
+const parseAuthResponse = (responseURL: string, state: string): AuthResult => {
+  const url = new URL(responseURL);
+  // errors might be sent in the query string instead of the fragment
+  const params = new URLSearchParams(url.hash.slice(1) || url.search.slice(1));
+
+  // response of another auth request (or a forged redirect), the token is not used
+  if (params.get('state') !== state) {
+    logger.info('Auth response state mismatch', 'background/services/auth/index.ts:35 ~ parseAuthResponse()');
+    return authFailure('invalid_state');
+  }
+
+  const error = params.get('error');
+
+  // user clicked cancel on the consent screen
+  if (error === 'access_denied') return authFailure('access_denied');
+
+  if (error) throw new Error(`Auth failed: ${error}`);
+
+  const accessToken = params.get('access_token');
+
+  if (!accessToken) throw new Error('Token not found.');
+
+  const scope = params.get('scope') || '';
+  const missingScopes = getMissingScopes(scope);
+
+  // app can't work without all the permissions (gmail.modify: mails, gmail.settings.basic: filters)
+  if (missingScopes.length) return authFailure('missing_scopes', missingScopes);
+
+  const expiresIn = Number(params.get('expires_in'));
+
+  return {
+    authResponse: {
+      accessToken,
+      expiresIn: expiresIn > 0 ? expiresIn : DEFAULT_TOKEN_EXPIRES_IN,
+      scope,
+      state,
+    },
+    error: null,
+  };
+};
+
 // custom google OAuth2 flow
-const googleAuth = async (email: string, clientId: string, interactive: boolean): Promise<string | null> => {
+const googleAuth = async (email: string, clientId: string, interactive: boolean): Promise<AuthResult> => {
   const redirectUri = `https://${chrome.runtime.id}.chromiumapp.org/`;
   const authUrl = new URL('https://accounts.google.com/o/oauth2/v2/auth');
+  const state = generateAuthState();
 
   authUrl.searchParams.set('client_id', clientId);
   authUrl.searchParams.set('redirect_uri', redirectUri);
   authUrl.searchParams.set('response_type', 'token');
   authUrl.searchParams.set('scope', AUTH_SCOPE);
   authUrl.searchParams.set('login_hint', email);
+  authUrl.searchParams.set('state', state);
 
   try {
     if (!clientId) throw new Error('No client id found.');
@@ -23,34 +89,37 @@ const googleAuth = async (email: string, clientId: string, interactive: boolean)
       timeoutMsForNonInteractive: 3000,
     })) as unknown;
 
-    if (!responseURL && typeof responseURL !== 'string') throw new Error('Failed to complete auth.');
+    if (!responseURL || typeof responseURL !== 'string') throw new Error('Failed to complete auth.');
 
-    const userToken = (responseURL as string).split('#')[1]?.split('=')[1].split('&')[0];
-
-    if (!userToken) throw new Error('Token not found.');
-
-    return userToken;
+    return parseAuthResponse(responseURL, state);
   } catch (error) {
     logger.error({
       error,
       msg: 'Error authenticating user',
-      fileTrace: 'background/services/auth/index.ts:21 ~ googleAuth() catch block',
+      fileTrace: 'background/services/auth/index.ts:95 ~ googleAuth() catch block',
     });
 
-    return null;
+    return authFailure('failed');
   }
 };
 
 // launches google auth flow for user to grant permission to their gmail
-export const launchGoogleAuthFlow = async (email: string, clientId: string): Promise<string | null> =>
+export const launchGoogleAuthFlow = async (email: string, clientId: string) =>
   await googleAuth(email, clientId, true);
 
 // get userToken for already auth'ed user
-export const getAuthToken = async (email: string, clientId: string): Promise<string | null> =>
+export const getAuthToken = async (email: string, clientId: string) =>
   await googleAuth(email, clientId, false);
 
+// clear the local storage of the account (data of the other accounts is kept)
+const clearAccountLocalStorage = async (email: string) => {
+  const localStorage = await chrome.storage.local.get();
+
+  await chrome.storage.local.remove(Object.keys(localStorage).filter(key => key.startsWith(`${email}-`)));
+};
+
 // logout user
-export const logoutUser = async (userToken: string, disableApp = true) => {
+export const logoutUser = async (email: string, userToken: string, disableApp = true) => {
   try {
     if (userToken) {
       // revoke userToken from google OAuth service (userToken becomes invalid)
@@ -62,10 +131,10 @@ export const logoutUser = async (userToken: string, disableApp = true) => {
 
     const promises = [
       // disable app
-      setStorage({ type: 'sync', key: storageKeys.IS_APP_ENABLED, value: !disableApp }),
+      setStorage({ accountEmail: email, type: 'sync', key: storageKeys.IS_APP_ENABLED, value: !disableApp }),
 
       // clear local storage
-      chrome.storage.local.clear(),
+      clearAccountLocalStorage(email),
     ];
 
     // wait for all promises to resolve
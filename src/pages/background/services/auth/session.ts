@@ -0,0 +1,203 @@
+import { SESSION_ALARM_PREFIX, storageKeys, type UserStorageKey } from '../../constants/app.constants';
+import {
+  IMessageEvent,
+  type AuthResponse,
+  type IMessageBody,
+  type ISession,
+} from '../../types/background.types';
+import { getSessionStorageByKey } from '../../utils/getStorageByKey';
+import { hasTokenExpired } from '../../utils/hasTokenExpired';
+import { logger } from '../../utils/logger';
+import { sendMsgToGmailTabs } from '../../utils/sendMsgToGmailTabs';
+import { getAuthToken, launchGoogleAuthFlow, logoutUser } from './index';
+
+//* session manager
+// sessions (email, token & its expiry) are kept per account (email) in memory & in chrome session storage,
+// every event/job gets the session of its own account, so multiple accounts (gmail tabs) can be used at the same time,
+// the token is refreshed silently (non-interactive auth) by an alarm before it expires,
+// requests that fail with 401 are retried once after a re-auth (see gmail client)
+
+// token is treated as expired a minute before google's expiry
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// token is refreshed 5 minutes before it expires (long jobs don't fail midway)
+const TOKEN_REFRESH_LEAD_MS = 5 * 60 * 1000;
+
+// failed silent refresh is retried after a minute (till the token expires)
+const REFRESH_RETRY_DELAY_MINUTES = 1;
+
+// google client id from env variables for google auth
+const googleClientId = import.meta.env.VITE_GOOGLE_CLIENT_ID;
+
+// sessions of the signed in accounts mapped by email
+const sessions = new Map<string, ISession>();
+
+// re-auth in progress per account, requests that fail with 401 at the same time wait for the same re-auth
+const pendingReauths = new Map<string, Promise<boolean>>();
+
+const getSessionStorageKey = (email: string): UserStorageKey => `${email}-${storageKeys.SESSIONS}`;
+
+const getSessionAlarmName = (email: string) => `${SESSION_ALARM_PREFIX}${email}`;
+
+// access token of the account (used by the gmail api client of the account)
+export const getSessionToken = (email: string) => sessions.get(email)?.token || '';
+
+// store user session (email, token, expiry) in chrome session storage & schedule the silent token refresh
+const saveUserSession = async (email: string, authResponse: AuthResponse) => {
+  const expiresAt = Date.now() + authResponse.expiresIn * 1000;
+
+  const session: ISession = {
+    email,
+    token: authResponse.accessToken,
+    expiresAt: new Date(expiresAt - TOKEN_EXPIRY_MARGIN_MS).toISOString(),
+    scope: authResponse.scope,
+  };
+
+  sessions.set(email, session);
+
+  // store session in chrome session storage
+  await chrome.storage.session.set({ [getSessionStorageKey(email)]: session });
+
+  // refresh the token before it expires
+  await chrome.alarms.create(getSessionAlarmName(email), {
+    when: Math.max(Date.now(), expiresAt - TOKEN_REFRESH_LEAD_MS),
+  });
+};
+
+// get a new token without user interaction (user has already granted the permissions) & save the session
+const refreshSession = async (email: string) => {
+  const { authResponse } = await getAuthToken(email, googleClientId);
+
+  if (!authResponse) return false;
+
+  await saveUserSession(email, authResponse);
+
+  return true;
+};
+
+// sign in the user, interactive: launches google auth flow for user to grant permission to their gmail
+// returns the auth error if the user didn't sign in (or hasn't granted the permissions yet for non-interactive)
+export const signInUser = async (email: string, isInteractive: boolean): Promise<Partial<IMessageBody>> => {
+  const authResult = isInteractive
+    ? await launchGoogleAuthFlow(email, googleClientId)
+    : await getAuthToken(email, googleClientId);
+
+  if (authResult.error) {
+    return { authError: authResult.error, missingScopes: authResult.missingScopes };
+  }
+
+  await saveUserSession(email, authResult.authResponse);
+
+  return { authError: null };
+};
+
+// remove the session (token) of the account from memory & chrome storage & stop the token refresh
+const removeUserSession = async (email: string) => {
+  sessions.delete(email);
+
+  await chrome.storage.session.remove(getSessionStorageKey(email));
+  await chrome.alarms.clear(getSessionAlarmName(email));
+};
+
+// logout (user disabled the app) & clear user data of the account (sessions of the other accounts are not affected)
+export const clearUserData = async (email: string, disableApp = false) => {
+  await logoutUser(email, getSessionToken(email), disableApp);
+
+  await removeUserSession(email);
+};
+
+// token expired or revoked: remove the session of the account & logout the user in the content script
+// (user has to sign in again), the stored data (rules, jobs, trash journal, etc.) is kept,
+// sent to all the gmail tabs, only the tabs of the account logout
+export const signOutUser = async (email: string) => {
+  await removeUserSession(email);
+
+  await sendMsgToGmailTabs({
+    event: IMessageEvent.LOGOUT_USER,
+    accountEmail: email,
+  });
+};
+
+// loads the session of the account from session storage or gets a new token (silent refresh) if expired,
+// returns false if the user has to sign in again (the user is not signed out, used by the alarms)
+export const loadUserSession = async (email: string) => {
+  const session = sessions.get(email);
+
+  // session is in memory & the token is valid
+  if (session?.token && !hasTokenExpired(session.expiresAt)) return true;
+
+  // if not, get user session from chrome session storage (service worker was restarted)
+  const userSession = await getSessionStorageByKey(getSessionStorageKey(email));
+
+  // check if userSession exists & has not expired
+  if (userSession && !hasTokenExpired(userSession.expiresAt)) {
+    // userToken found in storage and is valid
+    sessions.set(email, { scope: '', ...userSession });
+    return true;
+  }
+
+  // userToken not found in storage or has expired, get new userToken
+  return await refreshSession(email);
+};
+
+// restores the session of the account (see loadUserSession), signs out the user if it can't be restored
+// returns false if the user has to sign in again
+export const restoreUserSession = async (email: string) => {
+  if (await loadUserSession(email)) return true;
+
+  // remove the session & logout user in the content script
+  await signOutUser(email);
+  return false;
+};
+
+// re-auth the session of the account after a request failed with 401 (token expired or revoked),
+// returns true if the request can be retried with the new token
+export const reauthorizeSession = async (email: string) => {
+  if (!sessions.has(email)) return false;
+
+  if (!pendingReauths.has(email)) {
+    logger.info(
+      `Token was rejected, re-authorizing the session of ${email}`,
+      'background/services/auth/session.ts:147 ~ reauthorizeSession()'
+    );
+
+    pendingReauths.set(
+      email,
+      refreshSession(email).finally(() => {
+        pendingReauths.delete(email);
+      })
+    );
+  }
+
+  return await pendingReauths.get(email);
+};
+
+// silently refresh the token of the account before it expires
+export const handleSessionAlarm = async (alarm: chrome.alarms.Alarm) => {
+  if (!alarm.name.startsWith(SESSION_ALARM_PREFIX)) return;
+
+  const email = alarm.name.slice(SESSION_ALARM_PREFIX.length);
+
+  try {
+    const userSession = await getSessionStorageByKey(getSessionStorageKey(email));
+
+    // user logged out or the browser was restarted (session storage is cleared), no need to refresh
+    if (!userSession) return;
+
+    if (await refreshSession(email)) {
+      logger.info(`🔄 Refreshed the session of ${email}`);
+      return;
+    }
+
+    // try again till the token expires, the user is asked to sign in again on the next event after that
+    if (!hasTokenExpired(userSession.expiresAt)) {
+      await chrome.alarms.create(alarm.name, { delayInMinutes: REFRESH_RETRY_DELAY_MINUTES });
+    }
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error refreshing the session',
+      fileTrace: 'background/services/auth/session.ts:184 ~ handleSessionAlarm() catch block',
+    });
+  }
+};
@@ -0,0 +1,241 @@
+import { JOB_ALARM_PREFIX, storageKeys } from '@src/pages/background/constants/app.constants';
+import { IMessageEvent, type Job, type JobSummary } from '@src/pages/background/types/background.types';
+import { getLocalStorageByKey } from '@src/pages/background/utils/getStorageByKey';
+import { logger } from '@src/pages/background/utils/logger';
+import { sendMsgToGmailTabs } from '@src/pages/background/utils/sendMsgToGmailTabs';
+import { setStorage } from '@src/pages/background/utils/setStorage';
+import { loadUserSession } from '../auth/session';
+import { runJobStep } from './jobSteps';
+import { recordRuleRun } from '../rules/cleanupRules';
+
+//* background job queue
+// long running mailbox operations are saved as jobs in chrome local storage (per account)
+// & run one step (page/batch) at a time, the job state is saved after every step.
+// while an account has unfinished jobs, an alarm wakes up the service worker to resume them
+// (service worker was suspended/restarted), the job status is sent to all the open gmail tabs
+
+// finished jobs are kept for a while, so the gmail tabs reloaded during the job can get the result
+const FINISHED_JOB_RETENTION_MS = 60 * 60 * 1000;
+
+// chrome's minimum alarm period is 30s
+const JOB_ALARM_PERIOD_MINUTES = 0.5;
+
+// error of the jobs that couldn't be run because the session couldn't be restored
+const SIGN_IN_REQUIRED_ERROR = 'Sign in required';
+
+// accounts whose jobs are being run by this service worker
+const runningAccounts = new Set<string>();
+
+// jobs cancelled while they were being run, the job is stopped after its current step
+const cancelledJobIds = new Set<string>();
+
+const isJobFinished = (job: Job) =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+const getJobAlarmName = (accountEmail: string) => `${JOB_ALARM_PREFIX}${accountEmail}`;
+
+// get jobs of the account (oldest first), removes the old finished jobs
+const getJobs = async (accountEmail: string) =>
+  ((await getLocalStorageByKey<Job[]>(accountEmail, storageKeys.JOBS)) || []).filter(
+    job => !isJobFinished(job) || Date.now() - job.updatedAt < FINISHED_JOB_RETENTION_MS
+  );
+
+// job writes are chained, so the concurrent job updates don't overwrite each other
+let jobsWrite: Promise<void> = Promise.resolve();
+
+// add/update the job in storage
+const saveJob = (job: Job) => {
+  job.updatedAt = Date.now();
+
+  jobsWrite = jobsWrite
+    .then(async () => {
+      const jobs = (await getJobs(job.accountEmail)).filter(savedJob => savedJob.id !== job.id);
+
+      await setStorage({
+        accountEmail: job.accountEmail,
+        type: 'local',
+        key: storageKeys.JOBS,
+        value: [...jobs, { ...job }],
+      });
+    })
+    .catch(error => {
+      logger.error({
+        error,
+        msg: 'Error saving background job',
+        fileTrace: 'background/services/jobs/jobQueue.ts:62 ~ saveJob() catch block',
+      });
+    });
+
+  return jobsWrite;
+};
+
+// job status sent to the content script
+const getJobSummary = (job: Job): JobSummary => {
+  const summary: JobSummary = {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    accountEmail: job.accountEmail,
+    processedCount: job.processedCount,
+    totalCount: job.totalCount,
+    error: job.error,
+  };
+
+  if (job.type === 'advanceSearch') {
+    // search result is sent only after all the pages are fetched
+    if (job.status === 'completed') summary.messageIds = job.messageIds;
+  } else if (!job.isJournalFailed) {
+    // undo is offered only if the deleted mails were recorded in the trash journal
+    summary.trashJournalId = job.trashJournalId;
+  }
+
+  if (job.type === 'deleteAllMails') summary.emails = job.emails;
+
+  if (job.type === 'cleanupRule') {
+    summary.ruleId = job.ruleId;
+    summary.phase = job.phase;
+  }
+
+  return summary;
+};
+
+// send job status (progress) to the open gmail tabs
+const sendJobUpdate = async (job: Job) =>
+  await sendMsgToGmailTabs({ event: IMessageEvent.JOB_UPDATE, job: getJobSummary(job) });
+
+// save the job & send its status to the gmail tabs, finished rule jobs are added to the rule's run history
+const updateJob = async (job: Job) => {
+  await saveJob(job);
+  await sendJobUpdate(job);
+
+  if (job.type === 'cleanupRule' && isJobFinished(job)) await recordRuleRun(job);
+};
+
+// fail the unfinished jobs of the account (ex: user has to sign in again),
+// the gmail tabs waiting for the jobs get the failed status
+const failAccountJobs = async (accountEmail: string, error: string) => {
+  for (const job of await getJobs(accountEmail)) {
+    if (isJobFinished(job)) continue;
+
+    job.status = 'failed';
+    job.error = error;
+
+    await updateJob(job);
+  }
+};
+
+// run the unfinished jobs of the account one by one, till all of them are finished
+const runAccountJobs = async (accountEmail: string) => {
+  // jobs of the account are already being run
+  if (runningAccounts.has(accountEmail)) return;
+
+  runningAccounts.add(accountEmail);
+
+  try {
+    for (;;) {
+      // get the account session (service worker restarted or token expired), the user is not signed out
+      // (run from the alarm), the jobs can't be run without a session & are failed
+      if (!(await loadUserSession(accountEmail))) {
+        chrome.alarms.clear(getJobAlarmName(accountEmail));
+        await failAccountJobs(accountEmail, SIGN_IN_REQUIRED_ERROR);
+        break;
+      }
+
+      const job = (await getJobs(accountEmail)).find(savedJob => !isJobFinished(savedJob));
+
+      // all the jobs are finished
+      if (!job) {
+        chrome.alarms.clear(getJobAlarmName(accountEmail));
+        break;
+      }
+
+      job.status = 'running';
+
+      try {
+        // skip the step if the job was cancelled while waiting in the queue
+        if (!cancelledJobIds.has(job.id)) await runJobStep(job);
+      } catch (error) {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : `${error}`;
+
+        logger.error({
+          error,
+          msg: `Background job failed: ${job.type}`,
+          fileTrace: 'background/services/jobs/jobQueue.ts:159 ~ runAccountJobs() catch block',
+        });
+      }
+
+      // job was cancelled while it was waiting or its step was running
+      if (cancelledJobIds.has(job.id)) {
+        cancelledJobIds.delete(job.id);
+        if (!isJobFinished(job)) job.status = 'cancelled';
+      }
+
+      await updateJob(job);
+    }
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error while running background jobs',
+      fileTrace: 'background/services/jobs/jobQueue.ts:176 ~ runAccountJobs() catch block',
+    });
+  } finally {
+    runningAccounts.delete(accountEmail);
+  }
+};
+
+// add job to the queue of its account & start running it,
+// the result is sent to the gmail tabs when the job is finished (job update event)
+export const startJob = async (job: Job) => {
+  await saveJob(job);
+
+  // resume the job if the service worker is suspended before it's finished
+  chrome.alarms.create(getJobAlarmName(job.accountEmail), { periodInMinutes: JOB_ALARM_PERIOD_MINUTES });
+
+  // not awaited, the job keeps running after the event is handled
+  runAccountJobs(job.accountEmail);
+
+  return job.id;
+};
+
+// cancel the job of the account, the running job stops after its current step (page/batch)
+export const cancelJob = async (accountEmail: string, jobId: string) => {
+  // wait for the pending job writes
+  await jobsWrite;
+
+  const job = (await getJobs(accountEmail)).find(savedJob => savedJob.id === jobId);
+
+  if (!job) return false;
+
+  // already finished
+  if (isJobFinished(job)) return true;
+
+  // jobs of the account are being run, the runner stops the job after the current step
+  // & saves the step result with the cancelled status
+  if (runningAccounts.has(job.accountEmail)) {
+    cancelledJobIds.add(job.id);
+    return true;
+  }
+
+  job.status = 'cancelled';
+
+  await updateJob(job);
+
+  return true;
+};
+
+// create job id (the content script sends its own id to match the job updates)
+export const createJobId = (jobId?: string) =>
+  jobId || `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// resume the unfinished jobs of the account (not awaited)
+export const resumeJobs = (accountEmail: string) => {
+  runAccountJobs(accountEmail);
+};
+
+// resume the unfinished jobs of the account on the job alarm
+export const handleJobAlarm = async (alarm: chrome.alarms.Alarm) => {
+  if (!alarm.name.startsWith(JOB_ALARM_PREFIX)) return;
+
+  await runAccountJobs(alarm.name.slice(JOB_ALARM_PREFIX.length));
+};
@@ -0,0 +1,231 @@
+import { API_MAX_RESULT } from '@src/pages/background/constants/app.constants';
+import type {
+  AdvanceSearchJob,
+  BulkDeleteJob,
+  CleanupRuleJob,
+  DeleteAllMailsJob,
+  Job,
+  RuleAction,
+} from '@src/pages/background/types/background.types';
+import { getGmailClient, type BatchModifyParams } from '../api/gmail/gmailClient';
+import { batchDeleteMails } from '../api/gmail/helper/batchDelete';
+import { createTrashJournalEntry, getTrashJournalEntry } from '../api/gmail/helper/trashJournal';
+import { excludeSentThreadMessages } from '../api/gmail/helper/deleteProtection';
+import { getKeepLatestCount } from '../api/gmail/helper/deleteRetention';
+import { getAllMessageIds } from '../api/gmail/helper/dryRunReport';
+
+//* job steps
+// each step processes a single page/batch of the job & updates the job state (not saved here),
+// a step can be run again after the service worker restarts, so it must be safe to repeat
+
+// gmail api limit: max 1000 ids can be sent per req
+const BULK_DELETE_BATCH_SIZE = 1000;
+
+// labels added/removed by the cleanup rule actions (trash is done by the batch delete)
+const ruleActionLabels: Record<Exclude<RuleAction, 'trash'>, Omit<BatchModifyParams, 'ids'>> = {
+  archive: { removeLabelIds: ['INBOX'] },
+  markRead: { removeLabelIds: ['UNREAD'] },
+};
+
+// get the journal entry of the delete job, the entry is saved only after the first mails are recorded
+const getJobJournalEntry = async (job: DeleteAllMailsJob | BulkDeleteJob | CleanupRuleJob) => {
+  const savedEntry = await getTrashJournalEntry(job.accountEmail, job.trashJournalId);
+
+  if (savedEntry) return savedEntry;
+
+  switch (job.type) {
+    case 'deleteAllMails':
+      return createTrashJournalEntry(job.source, job.emails, job.trashJournalId);
+    case 'bulkDelete':
+      return createTrashJournalEntry('bulkDelete', [], job.trashJournalId);
+    case 'cleanupRule':
+      return createTrashJournalEntry('cleanupRule', [], job.trashJournalId);
+  }
+};
+
+// move the mails to trash & record them in the journal entry of the job, returns false if the mails were not deleted
+// if the journal couldn't be saved, the job continues without recording (undo is not offered for the job)
+const trashJobMails = async (job: DeleteAllMailsJob | BulkDeleteJob | CleanupRuleJob, ids: string[]) => {
+  const { isDeleted, isRecorded } = await batchDeleteMails(
+    job.accountEmail,
+    ids,
+    job.isJournalFailed ? undefined : await getJobJournalEntry(job)
+  );
+
+  if (isDeleted && !isRecorded) job.isJournalFailed = true;
+
+  return isDeleted;
+};
+
+// delete protection: the job fails before deleting more than the limit (checked before any mail is deleted)
+const checkDeleteLimit = (maxCount: number | null, count: number) => {
+  if (maxCount && count > maxCount) {
+    throw new Error(`❌ ${count} mails match, more than the delete limit of ${maxCount} mails`);
+  }
+};
+
+// delete the mails of the next page
+const runDeleteAllMailsStep = async (job: DeleteAllMailsJob) => {
+  // delete limit: count all the mails (exact count) in the first step, nothing is deleted if they are over the limit
+  if (job.maxCount && !job.isLimitChecked && job.processedCount < 1) {
+    const messageIds = await getAllMessageIds(job.accountEmail, job.query, job.excludeSentThreads);
+    const count = Math.max(0, messageIds.length - getKeepLatestCount(job.retention));
+
+    checkDeleteLimit(job.maxCount, count);
+
+    job.isLimitChecked = true;
+    job.totalCount = count;
+    return;
+  }
+
+  // listed from the first page: the latest mails are counted again for the retention
+  if (!job.pageToken) job.keptCount = 0;
+
+  const parsedRes = await getGmailClient(job.accountEmail).messages.list({
+    q: job.query,
+    maxResults: API_MAX_RESULT,
+    pageToken: job.pageToken,
+  });
+
+  // retention: number of the latest mails that are still to be kept
+  const keepCount = Math.max(0, getKeepLatestCount(job.retention) - (job.keptCount || 0));
+
+  // gmail's estimate of the total number of mails (first page, before any mail is deleted)
+  if (job.totalCount === null) {
+    job.totalCount = Math.max(0, (parsedRes.resultSizeEstimate || 0) - keepCount);
+  }
+
+  // no mails left to delete (or the senders have no mails, ex: all of them are protected)
+  if (!parsedRes.messages) {
+    job.status = 'completed';
+    return;
+  }
+
+  // get message ids from success response (without the protected threads)
+  const pageMsgIds = (
+    job.excludeSentThreads
+      ? await excludeSentThreadMessages(job.accountEmail, parsedRes.messages)
+      : parsedRes.messages
+  ).map(msg => msg.id);
+
+  // skip the latest mails (gmail lists the latest mails first)
+  const msgIds = pageMsgIds.slice(keepCount);
+
+  job.keptCount = (job.keptCount || 0) + pageMsgIds.length - msgIds.length;
+
+  if (msgIds.length > 0) {
+    // batch delete messages/emails (trashing a mail again is a no-op, so a repeated page is safe)
+    const isDeleted = await trashJobMails(job, msgIds);
+
+    if (!isDeleted) throw new Error('❌ Failed to delete mails');
+
+    job.processedCount += msgIds.length;
+
+    // trashed mails are not listed anymore (the next page token would skip the mails after them),
+    // so the search is listed from the first page again
+    job.pageToken = null;
+    return;
+  }
+
+  // all the mails of the page are kept or protected, continue with the next page, job is completed on the last page
+  job.pageToken = parsedRes.nextPageToken || null;
+
+  if (!parsedRes.nextPageToken) job.status = 'completed';
+};
+
+// delete the next batch of the advance search result
+const runBulkDeleteStep = async (job: BulkDeleteJob) => {
+  const batch = job.ids.slice(job.processedCount, job.processedCount + BULK_DELETE_BATCH_SIZE);
+
+  if (batch.length > 0) {
+    const isDeleted = await trashJobMails(job, batch);
+
+    if (!isDeleted) throw new Error('❌ Failed to delete emails');
+
+    job.processedCount += batch.length;
+  }
+
+  if (job.processedCount >= job.ids.length) job.status = 'completed';
+};
+
+// get the message ids of the next page of the search result (advance search & cleanup rule search phase)
+const runSearchStep = async (job: AdvanceSearchJob | CleanupRuleJob) => {
+  const parsedRes = await getGmailClient(job.accountEmail).messages.list({
+    q: job.query,
+    maxResults: API_MAX_RESULT,
+    pageToken: job.pageToken,
+  });
+
+  if (job.totalCount === null) job.totalCount = parsedRes.resultSizeEstimate || 0;
+
+  // a repeated page (service worker restarted before the job was saved) doesn't add duplicate ids
+  const messageIds = new Set(job.messageIds);
+
+  // mails of the protected threads are not added
+  const messages =
+    parsedRes.messages && job.excludeSentThreads
+      ? await excludeSentThreadMessages(job.accountEmail, parsedRes.messages)
+      : parsedRes.messages || [];
+
+  for (const msg of messages) messageIds.add(msg.id);
+
+  job.messageIds = [...messageIds];
+  job.processedCount = job.messageIds.length;
+
+  job.pageToken = parsedRes.nextPageToken || null;
+
+  if (!parsedRes.messages || !parsedRes.nextPageToken) job.status = 'completed';
+};
+
+// get the next page of the mails matched by the rule, then apply the rule action to the next batch
+const runCleanupRuleStep = async (job: CleanupRuleJob) => {
+  if (job.phase === 'search') {
+    await runSearchStep(job);
+
+    // dry run only counts the matched mails
+    if (job.status !== 'completed' || job.isDryRun || job.messageIds.length < 1) return;
+
+    if (job.action === 'trash') checkDeleteLimit(job.maxCount, job.messageIds.length);
+
+    // all the pages are fetched, apply the action from the next step
+    job.status = 'running';
+    job.phase = 'apply';
+    job.processedCount = 0;
+    job.totalCount = job.messageIds.length;
+    return;
+  }
+
+  const batch = job.messageIds.slice(job.processedCount, job.processedCount + BULK_DELETE_BATCH_SIZE);
+
+  if (batch.length > 0) {
+    if (job.action === 'trash') {
+      const isDeleted = await trashJobMails(job, batch);
+
+      if (!isDeleted) throw new Error('❌ Failed to delete emails');
+    } else {
+      // modifying the mails again is a no-op, so a repeated batch is safe
+      await getGmailClient(job.accountEmail).messages.batchModify({
+        ids: batch,
+        ...ruleActionLabels[job.action],
+      });
+    }
+
+    job.processedCount += batch.length;
+  }
+
+  if (job.processedCount >= job.messageIds.length) job.status = 'completed';
+};
+
+// run the next step of the job
+export const runJobStep = async (job: Job) => {
+  switch (job.type) {
+    case 'deleteAllMails':
+      return await runDeleteAllMailsStep(job);
+    case 'bulkDelete':
+      return await runBulkDeleteStep(job);
+    case 'advanceSearch':
+      return await runSearchStep(job);
+    case 'cleanupRule':
+      return await runCleanupRuleStep(job);
+  }
+};
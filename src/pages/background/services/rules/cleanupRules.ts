@@ -0,0 +1,286 @@
+import { RULE_ALARM_PREFIX, storageKeys } from '@src/pages/background/constants/app.constants';
+import type {
+  CleanupRule,
+  CleanupRuleInput,
+  CleanupRuleJob,
+  CleanupRuleRun,
+  CleanupRuleSummary,
+  CleanupRuleTrigger,
+  RuleSchedule,
+} from '@src/pages/background/types/background.types';
+import { getLocalStorageByKey } from '@src/pages/background/utils/getStorageByKey';
+import * as gmailQuery from '@src/pages/background/utils/gmailQuery';
+import { logger } from '@src/pages/background/utils/logger';
+import { setStorage } from '@src/pages/background/utils/setStorage';
+import { loadUserSession } from '../auth/session';
+import { buildSearchQuery } from '../api/gmail/handler/advance-search/advanceSearch';
+import { createTrashJournalEntry } from '../api/gmail/helper/trashJournal';
+import { getDeleteProtection, getProtectionQueryParts } from '../api/gmail/helper/deleteProtection';
+import { createJobId, startJob } from '../jobs/jobQueue';
+
+//* cleanup rules
+// saved advance searches with an action (trash, archive, mark read), stored in chrome local storage (per account).
+// scheduled rules have a periodic alarm per rule, the rule is run as a background job (cleanup rule job)
+// & the result of every run is added to the rule's run history
+
+// runs kept in the history of a rule
+const MAX_RULE_RUNS = 10;
+
+// error of the scheduled run skipped because the session couldn't be restored
+const SIGN_IN_REQUIRED_ERROR = 'Sign in required';
+
+// alarm period of the rule schedules
+const ruleScheduleMinutes: Record<RuleSchedule, number> = {
+  daily: 24 * 60,
+  weekly: 7 * 24 * 60,
+  monthly: 30 * 24 * 60,
+};
+
+const getRuleAlarmName = (accountEmail: string, ruleId: string) =>
+  `${RULE_ALARM_PREFIX}${accountEmail}:${ruleId}`;
+
+// get rules of the account
+export const getRules = async (accountEmail: string) =>
+  (await getLocalStorageByKey<CleanupRule[]>(accountEmail, storageKeys.RULES)) || [];
+
+// get run history of all the rules of the account (latest first)
+const getRuleRuns = async (accountEmail: string) =>
+  (await getLocalStorageByKey<CleanupRuleRun[]>(accountEmail, storageKeys.RULE_RUNS)) || [];
+
+// create the alarm of the scheduled rule, clear it if the rule is paused or not scheduled anymore
+const scheduleRule = async (accountEmail: string, rule: CleanupRule) => {
+  const alarmName = getRuleAlarmName(accountEmail, rule.id);
+
+  if (!rule.schedule || rule.isPaused) {
+    await chrome.alarms.clear(alarmName);
+    return;
+  }
+
+  const periodInMinutes = ruleScheduleMinutes[rule.schedule];
+
+  // first run after a period from now
+  chrome.alarms.create(alarmName, { delayInMinutes: periodInMinutes, periodInMinutes });
+};
+
+// create/update the rule of the account
+export const saveRule = async (accountEmail: string, ruleInput: CleanupRuleInput) => {
+  const rules = await getRules(accountEmail);
+
+  const savedRule = ruleInput.id ? rules.find(rule => rule.id === ruleInput.id) : null;
+
+  const now = Date.now();
+
+  const rule: CleanupRule = {
+    id: savedRule?.id || createJobId(),
+    name: ruleInput.name.trim(),
+    search: ruleInput.search,
+    action: ruleInput.action,
+    schedule: ruleInput.schedule,
+    isPaused: ruleInput.isPaused,
+    createdAt: savedRule?.createdAt || now,
+    updatedAt: now,
+  };
+
+  const updatedRules = savedRule
+    ? rules.map(otherRule => (otherRule.id === rule.id ? rule : otherRule))
+    : [...rules, rule];
+
+  await setStorage({ accountEmail, type: 'local', key: storageKeys.RULES, value: updatedRules });
+
+  // reschedule only if the schedule is changed, editing the search/action doesn't postpone the next run
+  if (!savedRule || savedRule.schedule !== rule.schedule || savedRule.isPaused !== rule.isPaused) {
+    await scheduleRule(accountEmail, rule);
+  }
+
+  return rule;
+};
+
+// delete the rule of the account with its run history & alarm
+export const deleteRule = async (accountEmail: string, ruleId: string) => {
+  const rules = await getRules(accountEmail);
+  const runs = await getRuleRuns(accountEmail);
+
+  await setStorage({
+    accountEmail,
+    type: 'local',
+    key: storageKeys.RULES,
+    value: rules.filter(rule => rule.id !== ruleId),
+  });
+  await setStorage({
+    accountEmail,
+    type: 'local',
+    key: storageKeys.RULE_RUNS,
+    value: runs.filter(run => run.ruleId !== ruleId),
+  });
+
+  await chrome.alarms.clear(getRuleAlarmName(accountEmail, ruleId));
+};
+
+// get rules of the account with their run history & next scheduled run
+export const getRuleSummaries = async (accountEmail: string): Promise<CleanupRuleSummary[]> => {
+  const rules = await getRules(accountEmail);
+  const runs = await getRuleRuns(accountEmail);
+
+  return await Promise.all(
+    rules.map(async rule => {
+      const alarm = await chrome.alarms.get(getRuleAlarmName(accountEmail, rule.id));
+
+      return {
+        ...rule,
+        runs: runs.filter(run => run.ruleId === rule.id),
+        nextRunAt: alarm?.scheduledTime || null,
+      };
+    })
+  );
+};
+
+type RunRuleParams = {
+  accountEmail: string;
+  rule: CleanupRule;
+  trigger: CleanupRuleTrigger;
+  isDryRun: boolean;
+  // job id sent by the content script (manual run)
+  jobId?: string;
+};
+
+// run the rule of the account as a background job, returns the job id
+// (delete protection is applied to the trash rules, the run fails if it matches more mails than the limit)
+export const runRule = async ({ accountEmail, rule, trigger, isDryRun, jobId }: RunRuleParams) => {
+  const isTrash = rule.action === 'trash';
+
+  const protection = isTrash ? await getDeleteProtection(accountEmail) : null;
+
+  const createdAt = Date.now();
+
+  return await startJob({
+    id: createJobId(jobId),
+    type: 'cleanupRule',
+    status: 'pending',
+    accountEmail,
+    createdAt,
+    updatedAt: createdAt,
+    processedCount: 0,
+    totalCount: null,
+    error: null,
+    ruleId: rule.id,
+    trigger,
+    action: rule.action,
+    isDryRun,
+    query: protection
+      ? gmailQuery.buildQuery(buildSearchQuery(rule.search), ...getProtectionQueryParts(protection))
+      : buildSearchQuery(rule.search),
+    phase: 'search',
+    pageToken: null,
+    messageIds: [],
+    // record the trashed mails in the trash journal (to undo the run)
+    trashJournalId: isTrash && !isDryRun ? createTrashJournalEntry('cleanupRule').id : null,
+    excludeSentThreads: !!protection?.excludeSentThreads,
+    maxCount: protection?.maxDeleteCount || null,
+  });
+};
+
+// add the run to the history of its rule (keeps the latest runs of the rule)
+const addRuleRun = async (accountEmail: string, run: CleanupRuleRun) => {
+  const runs = await getRuleRuns(accountEmail);
+
+  const ruleRuns = runs.filter(savedRun => savedRun.ruleId === run.ruleId && savedRun.id !== run.id);
+  const otherRuns = runs.filter(savedRun => savedRun.ruleId !== run.ruleId);
+
+  await setStorage({
+    accountEmail,
+    type: 'local',
+    key: storageKeys.RULE_RUNS,
+    value: [run, ...ruleRuns.slice(0, MAX_RULE_RUNS - 1), ...otherRuns],
+  });
+};
+
+// add the finished rule job to the run history of the rule
+export const recordRuleRun = async (job: CleanupRuleJob) => {
+  await addRuleRun(job.accountEmail, {
+    id: job.id,
+    ruleId: job.ruleId,
+    trigger: job.trigger,
+    isDryRun: job.isDryRun,
+    status: job.status,
+    startedAt: job.createdAt,
+    finishedAt: job.updatedAt,
+    matchedCount: job.messageIds.length,
+    affectedCount: job.phase === 'apply' ? job.processedCount : 0,
+    error: job.error,
+    trashJournalId: job.isJournalFailed ? null : job.trashJournalId,
+  });
+};
+
+// add the scheduled run that couldn't be started (user has to sign in again) to the run history of the rule
+const recordSkippedRuleRun = async (accountEmail: string, rule: CleanupRule) => {
+  const now = Date.now();
+
+  await addRuleRun(accountEmail, {
+    id: createJobId(),
+    ruleId: rule.id,
+    trigger: 'schedule',
+    isDryRun: false,
+    status: 'skipped',
+    startedAt: now,
+    finishedAt: now,
+    matchedCount: 0,
+    affectedCount: 0,
+    error: SIGN_IN_REQUIRED_ERROR,
+    trashJournalId: null,
+  });
+};
+
+// create the missing alarms of the scheduled rules of the account (alarms may be cleared on browser restart)
+export const syncRuleAlarms = async (accountEmail: string) => {
+  try {
+    for (const rule of await getRules(accountEmail)) {
+      if (!rule.schedule || rule.isPaused) continue;
+
+      const alarm = await chrome.alarms.get(getRuleAlarmName(accountEmail, rule.id));
+
+      if (!alarm) await scheduleRule(accountEmail, rule);
+    }
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error syncing cleanup rule alarms',
+      fileTrace: 'background/services/rules/cleanupRules.ts:243 ~ syncRuleAlarms() catch block',
+    });
+  }
+};
+
+// run the scheduled rule on its alarm
+export const handleRuleAlarm = async (alarm: chrome.alarms.Alarm) => {
+  if (!alarm.name.startsWith(RULE_ALARM_PREFIX)) return;
+
+  const alarmTarget = alarm.name.slice(RULE_ALARM_PREFIX.length);
+  const separatorIdx = alarmTarget.lastIndexOf(':');
+
+  const accountEmail = alarmTarget.slice(0, separatorIdx);
+  const ruleId = alarmTarget.slice(separatorIdx + 1);
+
+  try {
+    const rule = (await getRules(accountEmail)).find(savedRule => savedRule.id === ruleId);
+
+    // rule was deleted, paused or unscheduled while the alarm was pending
+    if (!rule || !rule.schedule || rule.isPaused) {
+      await chrome.alarms.clear(alarm.name);
+      return;
+    }
+
+    // token expired & the silent refresh failed (no user present to sign in), the user is not signed out,
+    // the run is skipped & the rule is run on the next alarm
+    if (!(await loadUserSession(accountEmail))) {
+      await recordSkippedRuleRun(accountEmail, rule);
+      return;
+    }
+
+    await runRule({ accountEmail, rule, trigger: 'schedule', isDryRun: false });
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error running scheduled cleanup rule',
+      fileTrace: 'background/services/rules/cleanupRules.ts:279 ~ handleRuleAlarm() catch block',
+    });
+  }
+};
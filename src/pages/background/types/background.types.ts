@@ -15,7 +15,22 @@ export enum IMessageEvent {
   CHECKS_AFTER_AUTH = 'checksAfterAuth',
   ADVANCE_SEARCH = 'advanceSearch',
   BULK_DELETE = 'bulkDelete',
+  APPLY_FILTER_ACTION = 'applyFilterAction',
+  REMOVE_FILTER_ACTION = 'removeFilterAction',
+  GET_FILTER_ACTION_EMAILS = 'getFilterActionEmails',
+  UNDO_DELETE = 'undoDelete',
+  GET_TRASH_JOURNAL = 'getTrashJournal',
+  GET_LABELS = 'getLabels',
+  GET_MESSAGE_PREVIEWS = 'getMessagePreviews',
+  GET_SENDER_BREAKDOWN = 'getSenderBreakdown',
+  CANCEL_JOB = 'cancelJob',
+  GET_RULES = 'getRules',
+  SAVE_RULE = 'saveRule',
+  DELETE_RULE = 'deleteRule',
+  RUN_RULE = 'runRule',
+  GET_DELETE_COUNT = 'getDeleteCount',
   // events to content script
+  JOB_UPDATE = 'jobUpdate',
   LOGOUT_USER = 'logoutUser',
   API_LIMIT_REACHED = 'apiLimitReached',
   BACKGROUND_ERROR = 'backgroundError',
@@ -23,20 +38,56 @@ export enum IMessageEvent {
 
 export interface ISession {
   token: string;
+  // the token is refreshed before this time (a bit before google's expiry)
   expiresAt: string;
   email: string;
+  // granted oauth scopes (space separated)
+  scope: string;
 }
 
+// oauth response (implicit flow), parsed from the redirect url fragment
+export type AuthResponse = {
+  accessToken: string;
+  // token lifetime in seconds
+  expiresIn: number;
+  // granted oauth scopes (space separated)
+  scope: string;
+  state: string | null;
+};
+
+// why the user couldn't sign in
+// access_denied: user denied the access on the consent screen, missing_scopes: user unchecked some of the permissions,
+// invalid_state: response doesn't belong to the auth request (state mismatch), failed: any other error
+export type AuthError = 'access_denied' | 'missing_scopes' | 'invalid_state' | 'failed';
+
+// result of the google auth flow, error is null if the user signed in
+export type AuthResult = {
+  authResponse: AuthResponse | null;
+  error: AuthError | null;
+  // set for the missing_scopes error
+  missingScopes?: string[];
+};
+
+// action of the app filter (each action has its own tagged filter)
 export enum FILTER_ACTION {
+  // unsubscribe: move to trash
   TRASH = 'TRASH',
+  // whitelist: never send to spam
   INBOX = 'INBOX',
+  // skip inbox (archive)
+  SKIP_INBOX = 'SKIP_INBOX',
+  // mark as read
+  MARK_READ = 'MARK_READ',
+  // skip inbox & apply the "Newsletters" label
+  MOVE_TO_LABEL = 'MOVE_TO_LABEL',
 }
 
 export type FilterType = 'whitelist' | 'unsubscribe';
 
 export type APIHandleParams = {
+  // account (email) of the session the event was sent from
+  accountEmail: string;
   emails: string[];
-  userToken: string;
 };
 
 type EmailId = {
@@ -72,10 +123,58 @@ export interface IMessageBody {
   dataOnPage?: DataOnPage;
   // for advance search event
   advanceSearch?: SearchFormData;
+  // for advance search preview events (message previews, sender breakdown)
+  messageIds?: string[];
   // for when events are sent from background to content script
   msg?: string;
+  // result of the unsubscribe event (sent back to content script)
+  unsubscribeResults?: UnsubscribeResult[];
+  // for apply/remove filter action events (skip inbox, mark read, move to label)
+  filterAction?: FILTER_ACTION;
+  // journal entry of the deleted mails (sent back to content script after delete, used to undo the delete)
+  trashJournalId?: string;
+  // id of the background job started by the event (delete all mails, advance search, bulk delete)
+  jobId?: string;
+  // job status sent to the content script (job update event)
+  job?: JobSummary;
+  // for save rule event (id is not set for a new rule)
+  rule?: CleanupRuleInput;
+  // for delete/run rule events
+  ruleId?: string;
+  // run rule without applying its action (only the matched mails are counted),
+  // for delete/unsubscribe events: only get the report of the changes (no changes are made)
+  isDryRun?: boolean;
+  // report of the dry run (sent back to content script)
+  dryRunReport?: DryRunReport;
+  // delete over the limit (delete protection) was confirmed by typing the confirmation text
+  isOverLimitConfirmed?: boolean;
+  // for get delete count event: count all the mails instead of gmail's estimate
+  isExactCount?: boolean;
+  // for delete all mails & get delete count events: mails kept from the senders
+  retention?: DeleteRetention;
+  // result of the launch auth flow event (sent back to content script), error is null if signed in
+  authError?: AuthError | null;
+  // permissions the user unchecked on the consent screen (missing_scopes auth error)
+  missingScopes?: string[];
+  // account the event is for (logout user event is sent to all the gmail tabs)
+  accountEmail?: string;
 }
 
+// how the sender was unsubscribed
+// one-click: RFC 8058 POST to the List-Unsubscribe url
+// mailto: unsubscribe email sent to the List-Unsubscribe mailto address
+// link: List-Unsubscribe url opened in a new tab
+// filter: sender added to the app's TRASH filter (no List-Unsubscribe header or above methods failed)
+export type UnsubscribeMethod = 'one-click' | 'mailto' | 'link' | 'filter';
+
+export type UnsubscribeResult = {
+  email: string;
+  method: UnsubscribeMethod;
+  isSuccess: boolean;
+  // one-click request was sent but the sender's response can't be read, the unsubscribe is not confirmed
+  isUnverified?: boolean;
+};
+
 export type GetMsgAPIResponse = {
   messages: GmailMessage[];
   nextPageToken?: string;
@@ -101,8 +200,250 @@ export type GmailFilters = {
   filter: GmailFilter[];
 };
 
+// labels added/removed by the filter
+export type GmailFilterAction = GmailFilter['action'];
+
+export type GmailLabel = {
+  id: string;
+  name: string;
+  // system: INBOX, TRASH, etc. user: labels created by the user/app
+  type?: 'system' | 'user';
+};
+
+export type GmailLabels = {
+  labels: GmailLabel[];
+};
+
+// write-ahead record of an app filter update (old shards are replaced by new shards),
+// used to finish or revert the update if it was interrupted (ex: service worker was killed)
+export type PendingFilterUpdate = {
+  filterAction: FILTER_ACTION;
+  // create: new shards are being created (revert: delete the created shards)
+  // delete: new shards are created & verified, old shards are being deleted (finish: delete the old shards)
+  phase: 'create' | 'delete';
+  // filter ids (all the shards) before the update
+  filterIds: string[];
+  // old shards replaced by the new shards
+  replacedFilterIds: string[];
+  // new shards created so far
+  createdFilterIds: string[];
+  // emails of the shard being created, recorded before the create call
+  // (the shard may be created even if the id was never recorded, revert finds & deletes it by the emails)
+  creatingShardEmails?: string[] | null;
+  // emails of all the shards after the update
+  emails: string[];
+};
+
+// delete operations recorded in the trash journal
+export type TrashJournalSource =
+  | 'deleteAllMails'
+  | 'bulkDelete'
+  | 'unsubscribeAndDeleteAllMails'
+  | 'cleanupRule';
+
+// mails moved to trash by a delete operation, used to undo the delete (restore from trash)
+export type TrashJournalEntry = {
+  id: string;
+  source: TrashJournalSource;
+  // senders of the deleted mails (empty for bulk delete)
+  emails: string[];
+  // timestamp in ms
+  trashedAt: number;
+  // mails moved to trash (mails already in trash are not recorded)
+  messageIds: string[];
+  // labels removed while moving to trash & the mails they were removed from, ex: { INBOX: ['id1', 'id2'] }
+  removedLabelIds: Record<string, string[]>;
+  // timestamp in ms, null if not restored
+  restoredAt: number | null;
+};
+
+// journal entry saved in the journal list, the message ids & removed labels of the entry are saved
+// under their own key (the list is rewritten for every recorded batch)
+export type TrashJournalRecord = Omit<TrashJournalEntry, 'messageIds' | 'removedLabelIds'> & {
+  // number of mails moved to trash
+  count: number;
+};
+
+// trash journal entry sent to the content script (history list)
+export type TrashJournalSummary = Pick<
+  TrashJournalEntry,
+  'id' | 'source' | 'emails' | 'trashedAt' | 'restoredAt'
+> & {
+  // number of mails moved to trash
+  count: number;
+  // false if already restored or the mails are no longer in trash (gmail deletes them after 30 days)
+  isUndoable: boolean;
+};
+
+//* background jobs
+// long running mailbox operations are run as jobs, the job state is saved after every page/batch
+// so the job can be resumed if the service worker is suspended or the gmail tab is closed
+
+export type JobType = 'deleteAllMails' | 'bulkDelete' | 'advanceSearch' | 'cleanupRule';
+
+// cancelled: stopped by the user between the steps, the mails processed before are not reverted
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+type JobBase = {
+  id: string;
+  status: JobStatus;
+  // account the job belongs to
+  accountEmail: string;
+  // timestamps in ms
+  createdAt: number;
+  updatedAt: number;
+  // number of mails processed so far
+  processedCount: number;
+  // total number of mails to process, estimated by gmail for the search based jobs (null till the first page)
+  totalCount: number | null;
+  error: string | null;
+  // delete jobs: the trashed mails couldn't be recorded in the trash journal, undo is not offered
+  isJournalFailed?: boolean;
+};
+
+// delete all mails from the senders (page by page)
+export type DeleteAllMailsJob = JobBase & {
+  type: 'deleteAllMails';
+  emails: string[];
+  query: string;
+  source: TrashJournalSource;
+  // next page to process, null for the first page (the search is listed from the first page again after
+  // every trashed page, only the pages with kept or protected mails are skipped with the token)
+  pageToken: string | null;
+  trashJournalId: string;
+  // delete protection: skip the mails of the threads with the user's sent mails
+  excludeSentThreads: boolean;
+  // delete protection: max mails to delete, null if there's no limit or it was confirmed
+  maxCount: number | null;
+  // delete protection: all the mails were counted & are within the limit (checked before the first delete)
+  isLimitChecked?: boolean;
+  // mails kept from the senders (older than & unread only are in the query, latest mails are skipped by the job)
+  retention: DeleteRetention | null;
+  // number of the latest mails skipped so far (since the search was listed from the first page)
+  keptCount: number;
+};
+
+// delete the mails of the advance search result (batch by batch)
+export type BulkDeleteJob = JobBase & {
+  type: 'bulkDelete';
+  // processedCount is the index of the next batch
+  ids: string[];
+  trashJournalId: string;
+};
+
+// get ids of the mails that match the advance search query (page by page)
+export type AdvanceSearchJob = JobBase & {
+  type: 'advanceSearch';
+  query: string;
+  pageToken: string | null;
+  messageIds: string[];
+  // delete protection: skip the mails of the threads with the user's sent mails
+  excludeSentThreads: boolean;
+};
+
+// run the cleanup rule: get ids of the mails that match the rule search (page by page),
+// then apply the rule action to them (batch by batch), dry run only gets the matched mails
+export type CleanupRuleJob = JobBase & {
+  type: 'cleanupRule';
+  ruleId: string;
+  trigger: CleanupRuleTrigger;
+  action: RuleAction;
+  isDryRun: boolean;
+  query: string;
+  // search: processedCount is the number of matched mails, apply: number of mails the action was applied to
+  phase: 'search' | 'apply';
+  pageToken: string | null;
+  messageIds: string[];
+  // journal entry of the trash action, null for the other actions
+  trashJournalId: string | null;
+  // delete protection (trash action only): skip the mails of the threads with the user's sent mails
+  excludeSentThreads: boolean;
+  // delete protection (trash action only): max mails to trash, null if there's no limit
+  maxCount: number | null;
+};
+
+export type Job = DeleteAllMailsJob | BulkDeleteJob | AdvanceSearchJob | CleanupRuleJob;
+
+// job status sent to the content script
+export type JobSummary = Pick<
+  Job,
+  'id' | 'type' | 'status' | 'accountEmail' | 'processedCount' | 'totalCount' | 'error'
+> & {
+  // senders of the delete all mails job
+  emails?: string[];
+  // journal entry of the delete jobs (to undo the delete)
+  trashJournalId?: string;
+  // advance search result, sent after the job is completed
+  messageIds?: string[];
+  // rule & phase of the cleanup rule job
+  ruleId?: string;
+  phase?: CleanupRuleJob['phase'];
+};
+
+//* cleanup rules
+// saved advance search with an action, run manually or on a schedule (chrome alarms)
+
+// trash: move to trash (recorded in the trash journal), archive: remove from inbox, markRead: mark as read
+export type RuleAction = 'trash' | 'archive' | 'markRead';
+
+export type RuleSchedule = 'daily' | 'weekly' | 'monthly';
+
+// manual: run from the rules tab, schedule: run by the rule alarm
+export type CleanupRuleTrigger = 'manual' | 'schedule';
+
+export type CleanupRule = {
+  id: string;
+  name: string;
+  search: SearchFormData;
+  action: RuleAction;
+  // null: run manually only
+  schedule: RuleSchedule | null;
+  // paused rules are not run on schedule
+  isPaused: boolean;
+  // timestamps in ms
+  createdAt: number;
+  updatedAt: number;
+};
+
+// rule data sent from the content script to create/update a rule
+export type CleanupRuleInput = Pick<CleanupRule, 'name' | 'search' | 'action' | 'schedule' | 'isPaused'> & {
+  id?: string;
+};
+
+// skipped: scheduled run couldn't be started, the user has to sign in again
+export type CleanupRuleRunStatus = JobStatus | 'skipped';
+
+// run history entry of a rule
+export type CleanupRuleRun = {
+  // id of the job that ran the rule
+  id: string;
+  ruleId: string;
+  trigger: CleanupRuleTrigger;
+  isDryRun: boolean;
+  status: CleanupRuleRunStatus;
+  // timestamps in ms
+  startedAt: number;
+  finishedAt: number;
+  // mails that matched the rule search
+  matchedCount: number;
+  // mails the action was applied to (0 for dry run)
+  affectedCount: number;
+  error: string | null;
+  // journal entry of the trash action (to undo the run)
+  trashJournalId: string | null;
+};
+
+// rule sent to the content script (rules tab)
+export type CleanupRuleSummary = CleanupRule & {
+  // latest run first
+  runs: CleanupRuleRun[];
+  // timestamp in ms, null if not scheduled or paused
+  nextRunAt: number | null;
+};
+
+// emails of the app filter, the filter is split into multiple filters (shards) due to gmail's criteria size limit
 export type FilterEmails = {
-  filterId?: string;
+  filterIds: string[];
   emails: string[];
 };
 
@@ -111,9 +452,145 @@ export type GmailMessage = {
   threadId: string;
 };
 
+export type GmailMessageHeader = {
+  name: string;
+  value: string;
+};
+
+// thread with format=minimal (labels of each message)
+export type GmailThread = {
+  id: string;
+  messages?: Pick<GmailMessageMetadata, 'id' | 'labelIds'>[];
+};
+
+// message with format=metadata
+export type GmailMessageMetadata = GmailMessage & {
+  labelIds?: string[];
+  snippet?: string;
+  sizeEstimate?: number;
+  internalDate?: string;
+  payload?: {
+    headers: GmailMessageHeader[];
+  };
+  error?: {
+    code: number;
+    message: string;
+  };
+};
+
+// sender statistics collected from the messages scanned in the newsletter scan
+export type SenderStats = {
+  // number of messages from the sender
+  count: number;
+  // number of unread messages
+  unreadCount: number;
+  // first & last received dates (timestamp in ms)
+  firstReceived: number;
+  lastReceived: number;
+  // total size of the messages in bytes (sum of sizeEstimate)
+  totalSize: number;
+  // stats are from the scanned newsletter messages only (scan stopped once enough senders were found),
+  // the sender may have more messages
+  isSampled?: boolean;
+};
+
+// message data stored in the newsletter sender index
+export type SenderMessage = {
+  email: string;
+  name: string;
+  isUnread: boolean;
+  // timestamp in ms
+  receivedAt: number;
+  sizeEstimate: number;
+  // message is in trash, not counted in the sender stats (kept in the index, so it's counted again if restored)
+  isTrashed?: boolean;
+};
+
+// messages scanned for the newsletter emails, used to sync the newsletter emails incrementally
+export type NewsletterSenderIndex = {
+  // gmail history id at the time of the last sync
+  historyId: string;
+  // timestamp (ms) of the last sync
+  syncedAt: number;
+  // page token to continue the newsletter search from (null if all the pages are scanned)
+  nextPageToken: string | null;
+  // scanned newsletter messages (mapped by message id), only the latest messages are kept (storage limit)
+  messages: Record<string, SenderMessage>;
+  // older messages were removed from the index (max messages), the sender stats are sampled
+  isPruned?: boolean;
+};
+
+export type GmailProfile = {
+  emailAddress: string;
+  messagesTotal: number;
+  threadsTotal: number;
+  historyId: string;
+};
+
+type GmailHistoryMessage = {
+  message: GmailMessage & { labelIds?: string[] };
+};
+
+type GmailHistoryLabel = GmailHistoryMessage & {
+  labelIds: string[];
+};
+
+// mailbox changes since a history id
+export type GmailHistoryList = {
+  history?: {
+    id: string;
+    messagesAdded?: GmailHistoryMessage[];
+    messagesDeleted?: GmailHistoryMessage[];
+    labelsAdded?: GmailHistoryLabel[];
+    labelsRemoved?: GmailHistoryLabel[];
+  }[];
+  nextPageToken?: string;
+  // current history id of the mailbox
+  historyId: string;
+};
+
 export type INewsletterEmails = {
   email: string;
   name: string;
+  // not present for the lists stored before the stats were added
+  stats?: SenderStats;
+};
+
+// gmail inbox category tabs that can be searched
+export type SearchCategory = 'promotions' | 'social' | 'updates' | 'forums';
+
+// relative age for the older_than operator, ex: 2y, 6m, 30d
+export type RelativeAge = `${number}${'d' | 'm' | 'y'}`;
+
+// advance search result preview of a message
+export type MessagePreview = {
+  id: string;
+  email: string;
+  name: string;
+  subject: string;
+  snippet: string;
+  // timestamp in ms
+  receivedAt: number;
+  sizeEstimate: number;
+};
+
+// advance search result grouped by sender
+export type SenderBreakdown = {
+  email: string;
+  name: string;
+  count: number;
+  // bytes
+  totalSize: number;
+  messageIds: string[];
+};
+
+// sender breakdown of the latest messages of the advance search result (sampled if the result is large)
+export type SenderBreakdownResult = {
+  senders: SenderBreakdown[];
+  // number of the latest messages grouped by sender
+  sampleCount: number;
+  // number of messages in the search result (more than the sample count: the breakdown is approximate)
+  totalCount: number;
 };
 
 // data for advance search event
@@ -123,4 +600,80 @@ export interface SearchFormData {
   isUnRead?: boolean;
   afterDate?: string;
   beforeDate?: string;
+  // sender/recipient addresses (comma separated), any of them can match
+  from?: string;
+  to?: string;
+  hasAttachment?: boolean;
+  // size in MB
+  largerThan?: number;
+  smallerThan?: number;
+  category?: SearchCategory;
+  // label names, all of them must match
+  labels?: string[];
+  excludeStarred?: boolean;
+  excludeImportant?: boolean;
+  olderThan?: RelativeAge;
 }
+
+//* dry run
+// destructive actions run the same queries & filter computations but make no changes
+
+export type DryRunAction = 'deleteAllMails' | 'unsubscribeAndDeleteAllMails' | 'bulkDelete';
+
+// sender affected by the dry run
+export type DryRunSender = {
+  email: string;
+  // number of the sender's mails that would be trashed
+  messageCount: number;
+  // how the sender would be unsubscribed (unsubscribe actions only)
+  unsubscribeMethod?: UnsubscribeMethod;
+};
+
+// criteria of the app filter (each shard) before & after the dry run
+export type DryRunFilterChange = {
+  filterAction: FILTER_ACTION;
+  criteriaBefore: string[];
+  criteriaAfter: string[];
+};
+
+export type DryRunReport = {
+  action: DryRunAction;
+  // number of mails that would be trashed
+  messageCount: number;
+  // previews of the latest mails that would be trashed
+  messages: MessagePreview[];
+  senders: DryRunSender[];
+  // senders are from the latest mails only (large bulk delete), the sender counts are approximate
+  sendersSampleCount?: number;
+  filterChanges: DryRunFilterChange[];
+};
+
+// delete protection preferences, applied to every delete (delete all mails, advance search & trash cleanup rules)
+export type DeleteProtection = {
+  excludeStarred: boolean;
+  excludeImportant: boolean;
+  // threads with the user's sent mails (replied to or started by the user)
+  excludeSentThreads: boolean;
+  // label names
+  protectedLabels: string[];
+  // max mails per delete, deleting more needs a typed confirmation (null: no limit)
+  maxDeleteCount: number | null;
+};
+
+// retention options of the delete all mails (the other mails from the senders are kept)
+export type DeleteRetention = {
+  // keep the latest mails (by received date), null to not keep any
+  keepLatestCount: number | null;
+  // only delete the mails older than the days, null for any age
+  olderThanDays: number | null;
+  isUnreadOnly: boolean;
+};
+
+// mails the delete all mails would move to trash (sent to the content script before the delete is confirmed)
+export type DeleteCount = {
+  count: number;
+  // total size in bytes (estimated from the latest mails if there are more mails)
+  sizeEstimate: number;
+  // false if the count is gmail's estimate (result size estimate)
+  isExact: boolean;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from '@jest/globals';
+import { errorMessage, getAPIError } from './apiErrorHandler';
+
+// google api error response with the error reasons
+const errorResponse = (code: number, reasons: string[]) => ({
+  error: { code, message: 'error', errors: reasons.map(reason => ({ reason })) },
+});
+
+describe('getAPIError', () => {
+  it('returns unauthorized for 401', () => {
+    expect(getAPIError(401, null)).toEqual({ message: errorMessage.unauthorized, isRetryable: false });
+  });
+
+  it('retries 403 rate limit errors', () => {
+    expect(getAPIError(403, errorResponse(403, ['userRateLimitExceeded']))).toEqual({
+      message: errorMessage.apiLimitExceed,
+      isRetryable: true,
+    });
+
+    expect(getAPIError(403, errorResponse(403, ['rateLimitExceeded'])).isRetryable).toBe(true);
+  });
+
+  it('reads the rate limit reason from the error details', () => {
+    const res = { error: { code: 403, message: 'error', details: [{ reason: 'RATE_LIMIT_EXCEEDED' }] } };
+
+    expect(getAPIError(403, res).isRetryable).toBe(true);
+  });
+
+  it('returns insufficient permissions for 403 with missing scopes', () => {
+    expect(getAPIError(403, errorResponse(403, ['insufficientPermissions']))).toEqual({
+      message: errorMessage.insufficientPermissions,
+      isRetryable: false,
+    });
+
+    const res = {
+      error: { code: 403, message: 'error', details: [{ reason: 'ACCESS_TOKEN_SCOPE_INSUFFICIENT' }] },
+    };
+
+    expect(getAPIError(403, res).message).toBe(errorMessage.insufficientPermissions);
+  });
+
+  it("doesn't retry other 403 errors", () => {
+    expect(getAPIError(403, errorResponse(403, ['dailyLimitExceeded']))).toEqual({
+      message: errorMessage.apiLimitExceed,
+      isRetryable: false,
+    });
+
+    expect(getAPIError(403, null).isRetryable).toBe(false);
+  });
+
+  it('returns not found for 404', () => {
+    expect(getAPIError(404, null)).toEqual({ message: errorMessage.notFound, isRetryable: false });
+  });
+
+  it('returns invalid label for 400 with the invalid label message', () => {
+    const res = { error: { code: 400, message: 'Invalid label: Label_12', status: 'INVALID_ARGUMENT' } };
+
+    expect(getAPIError(400, res)).toEqual({ message: errorMessage.invalidLabel, isRetryable: false });
+    expect(getAPIError(400, null).message).toBe(errorMessage.somethingWentWrong);
+  });
+
+  it('retries 429 & server errors', () => {
+    expect(getAPIError(429, null)).toEqual({ message: errorMessage.apiLimitExceed, isRetryable: true });
+    expect(getAPIError(500, null)).toEqual({ message: errorMessage.somethingWentWrong, isRetryable: true });
+    expect(getAPIError(503, null).isRetryable).toBe(true);
+  });
+
+  it("doesn't retry other client errors", () => {
+    expect(getAPIError(400, null)).toEqual({ message: errorMessage.somethingWentWrong, isRetryable: false });
+  });
+});
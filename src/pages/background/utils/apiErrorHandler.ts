@@ -2,22 +2,69 @@
 export const errorMessage = {
   unauthorized: 'Unauthorized',
   apiLimitExceed: 'api-limit-exceed',
+  insufficientPermissions: 'insufficient-permissions',
+  notFound: 'not-found',
+  invalidLabel: 'invalid-label',
   somethingWentWrong: 'something-went-wrong',
 };
 
-export const apiErrorHandler = (parsedRes: any) => {
-  if (!parsedRes?.error) return true;
+// error response body from google apis
+// ex: { error: { code: 403, message: '...', errors: [{ reason: 'userRateLimitExceeded' }] } }
+export type APIErrorResponse = {
+  error?: {
+    code: number;
+    message: string;
+    status?: string;
+    errors?: { reason?: string; domain?: string; message?: string }[];
+    details?: { reason?: string }[];
+  };
+};
+
+// 403 reasons for per-user/per-project rate limits (temporary, can be retried)
+const rateLimitReasons = ['userRateLimitExceeded', 'rateLimitExceeded', 'RATE_LIMIT_EXCEEDED'];
+
+// 403 reasons for missing oauth scopes (user didn't grant the required permissions)
+const insufficientPermissionsReasons = ['insufficientPermissions', 'ACCESS_TOKEN_SCOPE_INSUFFICIENT'];
+
+// get all the error reasons from the error response
+const getErrorReasons = (parsedRes: APIErrorResponse | null) => [
+  ...(parsedRes?.error?.errors?.map(error => error.reason) || []),
+  ...(parsedRes?.error?.details?.map(detail => detail.reason) || []),
+];
 
-  if (parsedRes?.error?.code === 401) {
-    throw new Error(errorMessage.unauthorized);
+// classify api error: error message to throw & if the request can be retried
+export const getAPIError = (status: number, parsedRes: APIErrorResponse | null) => {
+  const reasons = getErrorReasons(parsedRes);
+
+  if (status === 401) {
+    return { message: errorMessage.unauthorized, isRetryable: false };
   }
 
-  if (parsedRes?.error?.code === 403) {
-    throw new Error(errorMessage.apiLimitExceed);
+  if (status === 403) {
+    if (reasons.some(reason => insufficientPermissionsReasons.includes(reason))) {
+      return { message: errorMessage.insufficientPermissions, isRetryable: false };
+    }
+
+    // rate limits are retried, other 403 (ex: dailyLimitExceeded) are not
+    return {
+      message: errorMessage.apiLimitExceed,
+      isRetryable: reasons.some(reason => rateLimitReasons.includes(reason)),
+    };
   }
-  // other errors
-  if (parsedRes?.error?.code.toString()[0] === '5' || parsedRes?.error?.code.toString()[0] === '4') {
-    throw new Error(errorMessage.somethingWentWrong);
+
+  // label of the request doesn't exist (ex: label used by the filter action was deleted)
+  if (status === 400 && /invalid label/i.test(parsedRes?.error?.message || '')) {
+    return { message: errorMessage.invalidLabel, isRetryable: false };
+  }
+
+  if (status === 404) {
+    return { message: errorMessage.notFound, isRetryable: false };
   }
-  return true;
+
+  if (status === 429) {
+    return { message: errorMessage.apiLimitExceed, isRetryable: true };
+  }
+
+  // other errors
+  return { message: errorMessage.somethingWentWrong, isRetryable: status >= 500 };
 };
@@ -0,0 +1,129 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  createFilterListMatcher,
+  decodeEncodedWords,
+  getDomainRule,
+  getEmailDomain,
+  isDomainRule,
+  isSameEmail,
+  normalizeEmail,
+  parseAddressList,
+  parseFromHeader,
+} from './emailAddress';
+
+describe('decodeEncodedWords', () => {
+  it.each([
+    ['base64', '=?UTF-8?B?Sm9obg==?=', 'John'],
+    ['base64 emoji', '=?UTF-8?B?8J+Sjg==?=', '💎'],
+    ['q encoding', '=?ISO-8859-1?Q?Andr=E9?=', 'André'],
+    ['q encoding underscore', '=?UTF-8?Q?Fresh_Inbox?=', 'Fresh Inbox'],
+    ['lowercase encoding', '=?utf-8?b?Sm9obg==?=', 'John'],
+    ['adjacent words (whitespace ignored)', '=?UTF-8?Q?Fresh?= =?UTF-8?Q?_Inbox?=', 'Fresh Inbox'],
+    ['text around the word', 'Hi =?UTF-8?B?Sm9obg==?= Doe', 'Hi John Doe'],
+    ['unknown charset (utf-8 fallback)', '=?x-unknown?B?Sm9obg==?=', 'John'],
+    ['malformed word (kept as it is)', '=?UTF-8?B?bad!?=', '=?UTF-8?B?bad!?='],
+    ['plain text', 'John Doe', 'John Doe'],
+  ])('decodes %s', (_case, value, expected) => {
+    expect(decodeEncodedWords(value)).toBe(expected);
+  });
+});
+
+describe('normalizeEmail', () => {
+  it.each([
+    ['lowercase', 'News@Example.COM', 'news@example.com'],
+    ['whitespace & angle brackets', ' <news@example.com> ', 'news@example.com'],
+    ['IDN domain (punycode)', 'News@Bücher.DE', 'news@xn--bcher-kva.de'],
+    ['punycode domain', 'news@xn--bcher-kva.de', 'news@xn--bcher-kva.de'],
+    ['no domain', 'News', 'news'],
+  ])('normalizes %s', (_case, email, expected) => {
+    expect(normalizeEmail(email)).toBe(expected);
+  });
+
+  it('compares the IDN & punycode domains as the same email', () => {
+    expect(isSameEmail('news@bücher.de', 'NEWS@xn--bcher-kva.de')).toBe(true);
+    expect(isSameEmail('news@bucher.de', 'news@bücher.de')).toBe(false);
+  });
+});
+
+describe('parseAddressList', () => {
+  it.each([
+    ['addr-spec', 'news@example.com', [{ name: '', email: 'news@example.com' }]],
+    ['name-addr', 'Fresh Inbox <News@Example.com>', [{ name: 'Fresh Inbox', email: 'news@example.com' }]],
+    [
+      'quoted display name with a comma',
+      '"Doe, John" <john@example.com>, jane@example.com',
+      [
+        { name: 'Doe, John', email: 'john@example.com' },
+        { name: '', email: 'jane@example.com' },
+      ],
+    ],
+    [
+      'escaped quote in the display name',
+      '"Quote \\" Name" <q@x.com>',
+      [{ name: 'Quote " Name', email: 'q@x.com' }],
+    ],
+    ['encoded display name', '=?UTF-8?B?8J+Sjg==?= <news@x.com>', [{ name: '💎', email: 'news@x.com' }]],
+    [
+      'encoded & plain display name',
+      '=?ISO-8859-1?Q?Andr=E9?= Pirard <PIRARD@vm1.ulg.ac.be>',
+      [{ name: 'André Pirard', email: 'pirard@vm1.ulg.ac.be' }],
+    ],
+    ['comment', 'John (work) <john@x.com> (ignored)', [{ name: 'John', email: 'john@x.com' }]],
+    ['nested comment', 'john@x.com (a (nested) comment)', [{ name: '', email: 'john@x.com' }]],
+    [
+      'group',
+      'Team: a@x.com, B <b@x.com>;, c@y.com',
+      [
+        { name: '', email: 'a@x.com' },
+        { name: 'B', email: 'b@x.com' },
+        { name: '', email: 'c@y.com' },
+      ],
+    ],
+    ['empty group', 'undisclosed-recipients:;', []],
+    ['IDN domain', 'Bücher <news@bücher.de>', [{ name: 'Bücher', email: 'news@xn--bcher-kva.de' }]],
+    ['no address', 'John Doe', []],
+  ])('parses %s', (_case, value, expected) => {
+    expect(parseAddressList(value)).toEqual(expected);
+  });
+
+  it('returns the first address of the From header', () => {
+    expect(parseFromHeader('"Doe, John" <john@example.com>, jane@example.com')).toEqual({
+      name: 'Doe, John',
+      email: 'john@example.com',
+    });
+    expect(parseFromHeader('')).toBeNull();
+  });
+});
+
+describe('domain rules', () => {
+  it.each([
+    ['*@brand.com', true],
+    [' *@brand.com', true],
+    ['news@brand.com', false],
+    ['brand.com', false],
+  ])('checks if %s is a domain rule', (entry, expected) => {
+    expect(isDomainRule(entry)).toBe(expected);
+  });
+
+  it('gets the domain & the domain rule of the email', () => {
+    expect(getEmailDomain('News@Brand.com')).toBe('brand.com');
+    expect(getDomainRule('News@Bücher.de')).toBe('*@xn--bcher-kva.de');
+  });
+
+  const isFiltered = createFilterListMatcher(['*@Brand.com', 'news@other.com', '*@bücher.de']);
+
+  it.each([
+    ['email of the domain rule', 'news@brand.com', true],
+    ['email of the domain rule (case-insensitive)', 'NEWS@BRAND.COM', true],
+    ['email in the list', 'News@Other.com', true],
+    ['other email of the listed email domain', 'offers@other.com', false],
+    ['IDN email of the domain rule', 'news@xn--bcher-kva.de', true],
+    ['domain rule', '*@brand.com', true],
+    ['domain rule of the listed email domain', '*@other.com', false],
+    // domain rules match the exact domain, not the subdomains
+    ['subdomain of the domain rule', 'news@news.brand.com', false],
+    ['domain ending with the rule domain', 'news@mybrand.com', false],
+  ])('matches %s', (_case, email, expected) => {
+    expect(isFiltered(email)).toBe(expected);
+  });
+});
@@ -0,0 +1,235 @@
+// email address parsing & normalization
+// RFC 5322 address lists (display names, quoted strings, comments, groups)
+// RFC 2047 encoded-words in display names (ex: =?UTF-8?B?Sm9obg==?=)
+
+export type ParsedAddress = {
+  name: string;
+  email: string;
+};
+
+// encoded-word: =?charset?encoding?encoded-text?=
+const encodedWordRegex = /=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g;
+
+// decode bytes with the charset of the encoded-word, fallback to utf-8 for unknown charsets
+const decodeBytes = (bytes: Uint8Array, charset: string) => {
+  try {
+    // charset may have a language suffix (RFC 2231), ex: UTF-8*en
+    return new TextDecoder(charset.split('*')[0]).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+// decode a single encoded-word
+const decodeEncodedWord = (charset: string, encoding: string, text: string) => {
+  try {
+    let binary = '';
+
+    if (encoding.toUpperCase() === 'B') {
+      binary = atob(text);
+    } else {
+      // Q encoding: "_" is space, "=XX" is a hex encoded byte
+      binary = text
+        .replace(/_/g, ' ')
+        .replace(/=([0-9A-Fa-f]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+    }
+
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+
+    return decodeBytes(bytes, charset);
+  } catch {
+    // malformed encoded-word, keep it as it is
+    return `=?${charset}?${encoding}?${text}?=`;
+  }
+};
+
+// decode all the encoded-words in a header value,
+// whitespace between adjacent encoded-words is ignored (RFC 2047 section 6.2)
+export const decodeEncodedWords = (value: string) =>
+  value
+    .replace(/(=\?[^?\s]+\?[BbQq]\?[^?\s]*\?=)\s+(?==\?[^?\s]+\?[BbQq]\?[^?\s]*\?=)/g, '$1')
+    .replace(encodedWordRegex, (_match, charset: string, encoding: string, text: string) =>
+      decodeEncodedWord(charset, encoding, text)
+    );
+
+// convert IDN domain to ascii (punycode), ex: bücher.de -> xn--bcher-kva.de
+const toASCIIDomain = (domain: string) => {
+  // already ascii
+  if (/^[\x00-\x7F]*$/.test(domain)) return domain;
+
+  try {
+    return new URL(`http://${domain}`).hostname;
+  } catch {
+    return domain;
+  }
+};
+
+// normalize email address for comparison & storage: trim, lowercase, ascii domain
+// ex: News@Bücher.DE -> news@xn--bcher-kva.de
+export const normalizeEmail = (email: string) => {
+  const trimmedEmail = email.trim().replace(/^<|>$/g, '');
+
+  const atIndex = trimmedEmail.lastIndexOf('@');
+
+  if (atIndex < 1) return trimmedEmail.toLowerCase();
+
+  const localPart = trimmedEmail.slice(0, atIndex);
+  const domain = trimmedEmail.slice(atIndex + 1);
+
+  return `${localPart}@${toASCIIDomain(domain.toLowerCase())}`.toLowerCase();
+};
+
+// check if both the emails are same (case-insensitive, IDN)
+export const isSameEmail = (email1: string, email2: string) =>
+  normalizeEmail(email1) === normalizeEmail(email2);
+
+type Token = {
+  type: 'text' | 'quoted' | 'angle' | 'special';
+  value: string;
+};
+
+// tokenize address list: quoted strings, <angle-addr>, specials (, : ;), comments are dropped
+const tokenize = (value: string) => {
+  const tokens: Token[] = [];
+
+  let i = 0;
+
+  while (i < value.length) {
+    const char = value[i];
+
+    if (char === '"') {
+      // quoted string, backslash escapes the next char
+      let quoted = '';
+      i++;
+      while (i < value.length && value[i] !== '"') {
+        if (value[i] === '\\' && i + 1 < value.length) i++;
+        quoted += value[i];
+        i++;
+      }
+      tokens.push({ type: 'quoted', value: quoted });
+      i++;
+    } else if (char === '(') {
+      // comment (can be nested), ignored
+      let depth = 1;
+      i++;
+      while (i < value.length && depth > 0) {
+        if (value[i] === '\\') i++;
+        else if (value[i] === '(') depth++;
+        else if (value[i] === ')') depth--;
+        i++;
+      }
+    } else if (char === '<') {
+      const endIndex = value.indexOf('>', i);
+      const end = endIndex === -1 ? value.length : endIndex;
+      tokens.push({ type: 'angle', value: value.slice(i + 1, end).trim() });
+      i = end + 1;
+    } else if (char === ',' || char === ':' || char === ';') {
+      tokens.push({ type: 'special', value: char });
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else {
+      // atom (text till the next special char or whitespace)
+      let text = '';
+      while (i < value.length && !/[\s"(<,:;]/.test(value[i])) {
+        text += value[i];
+        i++;
+      }
+      tokens.push({ type: 'text', value: text });
+    }
+  }
+
+  return tokens;
+};
+
+// create address from the tokens of a single mailbox
+const tokensToAddress = (tokens: Token[]): ParsedAddress | null => {
+  if (tokens.length < 1) return null;
+
+  const angleToken = tokens.find(token => token.type === 'angle');
+
+  if (angleToken) {
+    // name-addr: display name <email>
+    const name = tokens
+      .filter(token => token !== angleToken && token.type !== 'special')
+      .map(token => token.value)
+      .join(' ');
+
+    return { name: decodeEncodedWords(name).trim(), email: normalizeEmail(angleToken.value) };
+  }
+
+  // addr-spec: email without display name
+  const email = tokens.map(token => token.value).join('');
+
+  if (!email.includes('@')) return null;
+
+  return { name: '', email: normalizeEmail(email) };
+};
+
+// parse RFC 5322 address list (From, To, etc. header values)
+// ex: "Doe, John" <John@Example.com>, =?UTF-8?B?8J+Sjg==?= <news@x.com>, Team: a@x.com, b@x.com;
+export const parseAddressList = (value: string): ParsedAddress[] => {
+  const addresses: ParsedAddress[] = [];
+
+  let mailboxTokens: Token[] = [];
+
+  const addMailbox = () => {
+    const address = tokensToAddress(mailboxTokens);
+    if (address) addresses.push(address);
+    mailboxTokens = [];
+  };
+
+  for (const token of tokenize(value)) {
+    if (token.type === 'special') {
+      // group syntax: "display-name:" starts a group, the group name is not an address
+      if (token.value === ':') mailboxTokens = [];
+      // "," separates addresses, ";" ends a group
+      else addMailbox();
+      continue;
+    }
+
+    mailboxTokens.push(token);
+  }
+
+  addMailbox();
+
+  return addresses;
+};
+
+// parse the From header, returns the first address (sender)
+export const parseFromHeader = (value: string): ParsedAddress | null => parseAddressList(value)[0] || null;
+
+//* domain rules
+// unsubscribe/whitelist lists can have domain rules (all the emails from a domain),
+// stored as *@domain in the app filters, ex: from:(*@brand.com)
+// a domain rule matches the exact domain only, ex: *@brand.com doesn't match news@news.brand.com
+
+// check if the filter list entry is a domain rule
+export const isDomainRule = (entry: string) => entry.trim().startsWith('*@');
+
+// get domain of the email, ex: News@Brand.com -> brand.com
+export const getEmailDomain = (email: string) => {
+  const normalizedEmail = normalizeEmail(email);
+
+  return normalizedEmail.slice(normalizedEmail.lastIndexOf('@') + 1);
+};
+
+// get domain rule for the email, ex: news@brand.com -> *@brand.com
+export const getDomainRule = (email: string) => `*@${getEmailDomain(email)}`;
+
+// create matcher for a filter list (emails & domain rules),
+// returns true if the email is in the list or its domain has a domain rule
+export const createFilterListMatcher = (entries: string[]) => {
+  const emails = new Set<string>();
+  const domains = new Set<string>();
+
+  for (const entry of entries) {
+    if (isDomainRule(entry)) domains.add(getEmailDomain(entry));
+    else emails.add(normalizeEmail(entry));
+  }
+
+  return (email: string) =>
+    isDomainRule(email)
+      ? domains.has(getEmailDomain(email))
+      : emails.has(normalizeEmail(email)) || domains.has(getEmailDomain(email));
+};
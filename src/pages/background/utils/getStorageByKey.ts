@@ -3,35 +3,60 @@ import type { ISession } from '../types/background.types';
 import { generateStorageKey } from '..';
 
 export const getSyncStorageByKey = async <T = string>(
+  accountEmail: string,
   key: Extract<
     StorageKey,
-    'DONT_SHOW_DELETE_CONFIRM_MSG' | 'WHITELIST_FILTER_ID' | 'UNSUBSCRIBE_FILTER_ID' | 'IS_APP_ENABLED'
+    | 'DONT_SHOW_DELETE_CONFIRM_MSG'
+    | 'DRY_RUN_MODE'
+    | 'DELETE_PROTECTION'
+    | 'WHITELIST_FILTER_ID'
+    | 'UNSUBSCRIBE_FILTER_ID'
+    | 'SKIP_INBOX_FILTER_ID'
+    | 'MARK_READ_FILTER_ID'
+    | 'MOVE_TO_LABEL_FILTER_ID'
+    | 'IS_APP_ENABLED'
   >
 ): Promise<T> => {
-  // storage key for current user
-  const userStorageKey = generateStorageKey(key);
+  // storage key for the account
+  const userStorageKey = generateStorageKey(accountEmail, key);
 
   // get storage from chrome
   const syncStorage = await chrome.storage.sync.get(userStorageKey);
 
-  if (syncStorage && typeof syncStorage[key] !== 'undefined') {
-    return syncStorage[key];
+  if (syncStorage && typeof syncStorage[userStorageKey] !== 'undefined') {
+    return syncStorage[userStorageKey];
   } else {
     return null;
   }
 };
 
 export const getLocalStorageByKey = async <T = string>(
-  key: Extract<StorageKey, 'NEWSLETTER_EMAILS' | 'UNSUBSCRIBED_EMAILS' | 'WHITELISTED_EMAILS'>
+  accountEmail: string,
+  key: Extract<
+    StorageKey,
+    | 'NEWSLETTER_EMAILS'
+    | 'UNSUBSCRIBED_EMAILS'
+    | 'LIST_UNSUBSCRIBED_EMAILS'
+    | 'WHITELISTED_EMAILS'
+    | 'SKIP_INBOX_EMAILS'
+    | 'MARK_READ_EMAILS'
+    | 'MOVE_TO_LABEL_EMAILS'
+    | 'NEWSLETTER_SENDER_INDEX'
+    | 'PENDING_FILTER_UPDATE'
+    | 'TRASH_JOURNAL'
+    | 'JOBS'
+    | 'RULES'
+    | 'RULE_RUNS'
+  >
 ): Promise<T> => {
-  // storage key for current user
-  const userStorageKey = generateStorageKey(key);
+  // storage key for the account
+  const userStorageKey = generateStorageKey(accountEmail, key);
 
   // get storage from chrome
   const localStorage = await chrome.storage.local.get(userStorageKey);
 
-  if (localStorage && typeof localStorage[key] !== 'undefined') {
-    return localStorage[key];
+  if (localStorage && typeof localStorage[userStorageKey] !== 'undefined') {
+    return localStorage[userStorageKey];
   } else {
     return null;
   }
@@ -0,0 +1,77 @@
+import { describe, expect, it } from '@jest/globals';
+import * as gmailQuery from './gmailQuery';
+
+describe('term', () => {
+  it.each([
+    ['plain value', 'hello', 'hello'],
+    ['whitespace', 'hello world', '"hello world"'],
+    ['special chars', '#1 & co', '"#1 & co"'],
+    ['quotes (replaced with spaces)', 'say "hi"', '"say hi"'],
+    ['braces', '{a}', '"{a}"'],
+    ['brackets', '(a)', '"(a)"'],
+    ['colon (operator)', 'from:a@x.com', '"from:a@x.com"'],
+    ['leading "-" (exclude)', '-foo', '"-foo"'],
+    ['leading "+" (exact word)', '+1', '"+1"'],
+    ['OR operator', 'OR', '"OR"'],
+    ['or in lowercase', 'or', '"or"'],
+    ['AND operator', 'and', '"and"'],
+    ['AROUND operator', 'AROUND', '"AROUND"'],
+    ['"-" inside the value', 'e-mail', 'e-mail'],
+    ['surrounding whitespace', '  hello  ', 'hello'],
+  ])('escapes %s', (_case, value, expected) => {
+    expect(gmailQuery.term(value)).toBe(expected);
+  });
+
+  it('skips the empty values', () => {
+    expect(gmailQuery.term('   ')).toBeNull();
+    expect(gmailQuery.phrase('   ')).toBeNull();
+  });
+
+  it('always quotes the phrase', () => {
+    expect(gmailQuery.phrase('unsubscribe')).toBe('"unsubscribe"');
+  });
+});
+
+describe('operators', () => {
+  it.each([
+    ['single sender', gmailQuery.from('a@x.com'), 'from:a@x.com'],
+    ['multiple senders', gmailQuery.from('a@x.com', 'b@y.com'), 'from:(a@x.com OR b@y.com)'],
+    ['domain rule', gmailQuery.from('*@brand.com'), 'from:*@brand.com'],
+    ['sender with quotes', gmailQuery.from('"a" b@x.com'), 'from:"a b@x.com"'],
+    ['empty senders', gmailQuery.from('', ' '), null],
+    ['recipient', gmailQuery.to('a@x.com'), 'to:a@x.com'],
+    ['label with whitespace', gmailQuery.label('my label'), 'label:"my label"'],
+    ['after date', gmailQuery.after('2023-1-5'), 'after:2023/1/5'],
+    ['after timestamp', gmailQuery.after(1700000000.5), 'after:1700000000'],
+    ['after timestamp 0', gmailQuery.after(0), 'after:0'],
+    ['invalid date', gmailQuery.before('yesterday'), null],
+    ['older than', gmailQuery.olderThan('2y'), 'older_than:2y'],
+    ['larger (MB)', gmailQuery.larger(10), 'larger:10M'],
+    ['larger (fractional MB in bytes)', gmailQuery.larger(1.5), 'larger:1572864'],
+    ['smaller than 0', gmailQuery.smaller(0), null],
+    ['folder', gmailQuery.inFolder('anywhere'), 'in:anywhere'],
+  ])('builds %s', (_case, query, expected) => {
+    expect(query).toBe(expected);
+  });
+});
+
+describe('combinators', () => {
+  const a = gmailQuery.term('a');
+  const b = gmailQuery.term('b');
+
+  it.each([
+    ['not', gmailQuery.not(gmailQuery.inFolder('trash')), '-in:trash'],
+    ['not with whitespace', gmailQuery.not(gmailQuery.term('a b')), '-("a b")'],
+    ['and', gmailQuery.and(a, b), '(a b)'],
+    ['and with a single part', gmailQuery.and(a, null), 'a'],
+    ['or', gmailQuery.or(a, b), '{a b}'],
+    ['or without parts', gmailQuery.or(null, false, ''), null],
+    [
+      'query without the empty parts',
+      gmailQuery.buildQuery(a, null, undefined, gmailQuery.is('unread')),
+      'a is:unread',
+    ],
+  ])('builds %s', (_case, query, expected) => {
+    expect(query).toBe(expected);
+  });
+});
@@ -0,0 +1,173 @@
+// gmail search query builder
+// search operators (same as gmail web app): https://support.google.com/mail/answer/7190?hl=en
+// values are quoted when they have whitespace or characters with a special meaning in the query,
+// the query is url encoded by the gmail client (URLSearchParams), so &, #, + etc. are safe in the values
+
+// built query (or a part of it), created only by the builder fns so the values are always escaped
+export type GmailQuery = string & { readonly __gmailQuery: unique symbol };
+
+// query parts, empty parts (false, null, undefined, '') are skipped
+type QueryPart = GmailQuery | false | null | undefined | '';
+
+export type GmailFolder = 'anywhere' | 'inbox' | 'spam' | 'trash' | 'sent' | 'drafts' | 'starred' | 'snoozed';
+
+export type GmailCategory =
+  | 'primary'
+  | 'social'
+  | 'promotions'
+  | 'updates'
+  | 'forums'
+  | 'reservations'
+  | 'purchases';
+
+export type GmailMailState = 'read' | 'unread' | 'starred' | 'important' | 'snoozed' | 'muted';
+
+export type GmailAttachmentType =
+  | 'attachment'
+  | 'drive'
+  | 'document'
+  | 'spreadsheet'
+  | 'presentation'
+  | 'youtube';
+
+// relative age, ex: 2y, 6m, 30d
+export type GmailRelativeAge = `${number}${'d' | 'm' | 'y'}`;
+
+const toQuery = (value: string) => value as GmailQuery;
+
+const isQueryPart = (part: QueryPart): part is GmailQuery => !!part;
+
+// gmail treats these words as operators when they are not quoted
+const reservedWords = ['OR', 'AND', 'AROUND'];
+
+// value can be used as it is (no whitespace, quotes, brackets, colon, and doesn't start with "-" or "+")
+const isPlainValue = (value: string) =>
+  /^[^\s"(){}:]+$/.test(value) && !/^[-+~]/.test(value) && !reservedWords.includes(value.toUpperCase());
+
+// quote the value, gmail doesn't support escaping quotes inside a quoted value so they are replaced with spaces
+const quote = (value: string) => `"${value.replace(/"/g, ' ').replace(/\s+/g, ' ').trim()}"`;
+
+// escape the value of a term/operator, returns null for empty values
+const escapeValue = (value: string) => {
+  const trimmedValue = value.trim();
+
+  if (!trimmedValue) return null;
+
+  return isPlainValue(trimmedValue) ? trimmedValue : quote(trimmedValue);
+};
+
+// wrap the query in brackets if it has more than one part, ex: -(a b)
+const wrap = (query: GmailQuery) => (/^[^\s]+$/.test(query) ? query : toQuery(`(${query})`));
+
+//* terms
+
+// search term (keyword), ex: hello -> hello, hello world -> "hello world", #1 & co -> "#1 & co"
+export const term = (value: string) => {
+  const escapedValue = escapeValue(value);
+
+  return escapedValue ? toQuery(escapedValue) : null;
+};
+
+// exact phrase, always quoted, ex: unsubscribe -> "unsubscribe"
+export const phrase = (value: string) => (value.trim() ? toQuery(quote(value)) : null);
+
+//* operators
+
+// operator with multiple values, ex: from:(a@x.com OR b@y.com)
+const multiValueOperator = (operator: string, values: string[]) => {
+  const escapedValues = values.map(escapeValue).filter(Boolean);
+
+  if (escapedValues.length < 1) return null;
+
+  if (escapedValues.length === 1) return toQuery(`${operator}:${escapedValues[0]}`);
+
+  return toQuery(`${operator}:(${escapedValues.join(' OR ')})`);
+};
+
+// sender (any of the emails), ex: from:(a@x.com OR b@y.com)
+export const from = (...emails: string[]) => multiValueOperator('from', emails);
+
+// recipient (any of the emails), ex: to:a@x.com
+export const to = (...emails: string[]) => multiValueOperator('to', emails);
+
+// label name, ex: label:"my label"
+export const label = (name: string) => multiValueOperator('label', [name]);
+
+// format date for the after/before operators, accepts yyyy-mm-dd, yyyy/mm/dd or a timestamp in seconds
+const formatQueryDate = (date: string | number) => {
+  if (typeof date === 'number') return Number.isFinite(date) ? `${Math.floor(date)}` : null;
+
+  const dateMatch = date.trim().match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+
+  return dateMatch ? `${dateMatch[1]}/${dateMatch[2]}/${dateMatch[3]}` : null;
+};
+
+// mails received after the date (yyyy-mm-dd or timestamp in seconds)
+export const after = (date: string | number) => {
+  const queryDate = date || date === 0 ? formatQueryDate(date) : null;
+
+  return queryDate ? toQuery(`after:${queryDate}`) : null;
+};
+
+// mails received before the date (yyyy-mm-dd or timestamp in seconds)
+export const before = (date: string | number) => {
+  const queryDate = date || date === 0 ? formatQueryDate(date) : null;
+
+  return queryDate ? toQuery(`before:${queryDate}`) : null;
+};
+
+// mails older/newer than the relative age, ex: older_than:2y
+export const olderThan = (age: GmailRelativeAge) =>
+  /^\d+[dmy]$/.test(age) ? toQuery(`older_than:${age}`) : null;
+
+export const newerThan = (age: GmailRelativeAge) =>
+  /^\d+[dmy]$/.test(age) ? toQuery(`newer_than:${age}`) : null;
+
+// format size for the larger/smaller operators, fractional MB sizes are sent in bytes
+const formatQuerySize = (sizeInMB: number) =>
+  Number.isInteger(sizeInMB) ? `${sizeInMB}M` : `${Math.round(sizeInMB * 1024 * 1024)}`;
+
+// mails larger/smaller than the size in MB, ex: larger:10M
+export const larger = (sizeInMB: number) =>
+  sizeInMB > 0 ? toQuery(`larger:${formatQuerySize(sizeInMB)}`) : null;
+
+export const smaller = (sizeInMB: number) =>
+  sizeInMB > 0 ? toQuery(`smaller:${formatQuerySize(sizeInMB)}`) : null;
+
+// mails with attachment (or drive/document/etc. links), ex: has:attachment
+export const has = (attachmentType: GmailAttachmentType) => toQuery(`has:${attachmentType}`);
+
+// mail state, ex: is:unread
+export const is = (state: GmailMailState) => toQuery(`is:${state}`);
+
+// folder, ex: in:anywhere (includes spam & trash)
+export const inFolder = (folder: GmailFolder) => toQuery(`in:${folder}`);
+
+// inbox category tab, ex: category:promotions
+export const category = (name: GmailCategory) => toQuery(`category:${name}`);
+
+//* combinators
+
+// exclude the mails that match the query, ex: -in:trash, -(a b)
+export const not = (part: QueryPart) => (isQueryPart(part) ? toQuery(`-${wrap(part)}`) : null);
+
+// all the parts must match (grouped), ex: (a b)
+export const and = (...parts: QueryPart[]) => {
+  const queryParts = parts.filter(isQueryPart);
+
+  if (queryParts.length < 1) return null;
+
+  return queryParts.length === 1 ? queryParts[0] : toQuery(`(${queryParts.join(' ')})`);
+};
+
+// any of the parts can match, ex: {a b}
+export const or = (...parts: QueryPart[]) => {
+  const queryParts = parts.filter(isQueryPart);
+
+  if (queryParts.length < 1) return null;
+
+  return queryParts.length === 1 ? queryParts[0] : toQuery(`{${queryParts.join(' ')}}`);
+};
+
+// build the final query (all the parts must match)
+export const buildQuery = (...parts: QueryPart[]) => toQuery(parts.filter(isQueryPart).join(' '));
@@ -1,4 +1,3 @@
-import { clearUserData } from '..';
 import { IMessageEvent } from '../types/background.types';
 import { errorMessage } from './apiErrorHandler';
 import { sendMsgToTab } from './sendMsgToTab';
@@ -35,13 +34,7 @@ export const logger = {
     );
 
     // handle global errors
-    switch (error.message) {
-      case errorMessage.unauthorized:
-        (async () => {
-          await sendMsgToTab({ event: IMessageEvent.LOGOUT_USER });
-          await clearUserData(false);
-        })();
-        break;
+    switch (error?.message) {
       case errorMessage.apiLimitExceed:
         (async () => {
           await sendMsgToTab({ event: IMessageEvent.API_LIMIT_REACHED });
@@ -1,7 +1,18 @@
 import type { INewsletterEmails } from '../types/background.types';
+import { normalizeEmail } from './emailAddress';
 
+// remove duplicate emails (case-insensitive), keeps the first occurrence
 const removeDuplicateEmails = (arr: INewsletterEmails[]) => {
-  return arr.filter((v, i, a) => a.findIndex(v2 => v2.email === v.email) === i);
+  const emails = new Set<string>();
+
+  return arr.filter(v => {
+    const email = normalizeEmail(v.email);
+
+    if (emails.has(email)) return false;
+
+    emails.add(email);
+    return true;
+  });
 };
 
 export { removeDuplicateEmails };
@@ -0,0 +1,28 @@
+import { generateStorageKey } from '..';
+import type { StorageKey } from '../constants/app.constants';
+import { logger } from './logger';
+
+type RemoveStorageParams = {
+  // account the data belongs to (storage keys are prefixed with the email)
+  accountEmail: string;
+  type: 'local' | 'sync' | 'session';
+  key: StorageKey;
+};
+
+// removes chrome storage by key
+export const removeStorage = async ({ accountEmail, key, type }: RemoveStorageParams) => {
+  try {
+    // create key
+    const dynamicKey = generateStorageKey(accountEmail, key);
+
+    await chrome.storage[type].remove(dynamicKey);
+    return true;
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error removing chrome storage',
+      fileTrace: 'background/utils/removeStorage.ts:20 ~ catch block',
+    });
+    return false;
+  }
+};
@@ -0,0 +1,21 @@
+// publish events to all the open gmail tabs (content script), ex: background job status
+
+import type { IMessageBody } from '../types/background.types';
+import { logger } from './logger';
+
+export const sendMsgToGmailTabs = async (msg: Omit<IMessageBody, 'userEmail'>) => {
+  try {
+    const tabs = await chrome.tabs.query({ url: 'https://mail.google.com/mail/*' });
+
+    await Promise.allSettled(tabs.filter(tab => tab.id).map(tab => chrome.tabs.sendMessage(tab.id, msg)));
+
+    return true;
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Error sending message to gmail tabs',
+      fileTrace: 'background/utils/sendMsgToGmailTabs.ts:15 ~ sendMsgToGmailTabs() ~ catch block',
+    });
+    return false;
+  }
+};
@@ -1,21 +1,45 @@
 import { generateStorageKey } from '..';
 import type { StorageKey } from '../constants/app.constants';
-import type { INewsletterEmails, ISession } from '../types/background.types';
+import type {
+  CleanupRule,
+  CleanupRuleRun,
+  DeleteProtection,
+  INewsletterEmails,
+  ISession,
+  Job,
+  NewsletterSenderIndex,
+  PendingFilterUpdate,
+  TrashJournalRecord,
+} from '../types/background.types';
 import { logger } from './logger';
 
-type StorageValue = string | boolean | string[] | INewsletterEmails[] | ISession;
+type StorageValue =
+  | string
+  | boolean
+  | string[]
+  | INewsletterEmails[]
+  | ISession
+  | NewsletterSenderIndex
+  | PendingFilterUpdate
+  | TrashJournalRecord[]
+  | Job[]
+  | CleanupRule[]
+  | CleanupRuleRun[]
+  | DeleteProtection;
 
 type SetStorageParams = {
+  // account the data belongs to (storage keys are prefixed with the email)
+  accountEmail: string;
   type: 'local' | 'sync' | 'session';
   key: StorageKey;
   value: StorageValue;
 };
 
 // sets chrome storage by key
-export const setStorage = async ({ key, value, type }: SetStorageParams) => {
+export const setStorage = async ({ accountEmail, key, value, type }: SetStorageParams) => {
   try {
     // create key
-    const dynamicKey = generateStorageKey(key);
+    const dynamicKey = generateStorageKey(accountEmail, key);
     // local storages
     if (type === 'local') {
       await chrome.storage.local.set({
@@ -12,6 +12,8 @@ import { storageKeys } from '../constants/app.constants';
 import { watchEmailTableContainerClick } from '../view/assistant-button/helper/watchEmailTableContainerClick';
 import { onURLChange } from '../utils/onURLChange';
 import { generateStorageKey } from '../utils/generateStorageKey';
+import { watchJobUpdates } from '../utils/backgroundJobs';
+import { handleBackgroundJobFinished } from '../utils/emailActions';
 
 // reload on update
 refreshOnUpdate('pages/content');
@@ -45,6 +47,9 @@ window.freshInboxGlobalVariables = {
 
   if (!freshInboxGlobalVariables.userEmail) return;
 
+  // listen to the background job updates (jobs keep running if the page is reloaded)
+  watchJobUpdates(handleBackgroundJobFinished);
+
   // check if app is enabled or not
   let isAppEnabled = await getSyncStorageByKey<boolean>('IS_APP_ENABLED');
 
@@ -1,12 +1,28 @@
+import type { DeleteProtection } from '../types/content.types';
+
 // query selector for all mail nodes on the page
 export const MAIL_NODES_SELECTOR = 'tr>td>div:last-child>span>span[email]';
 
 export const storageKeys = {
   IS_APP_ENABLED: 'IS_APP_ENABLED',
   DONT_SHOW_DELETE_CONFIRM_MSG: 'DONT_SHOW_DELETE_CONFIRM_MSG',
+  DRY_RUN_MODE: 'DRY_RUN_MODE',
+  DELETE_PROTECTION: 'DELETE_PROTECTION',
   NEWSLETTER_EMAILS: 'NEWSLETTER_EMAILS',
   UNSUBSCRIBED_EMAILS: 'UNSUBSCRIBED_EMAILS',
   WHITELISTED_EMAILS: 'WHITELISTED_EMAILS',
 } as const;
 
+// default delete protection preferences (same as background)
+export const DEFAULT_DELETE_PROTECTION: DeleteProtection = {
+  excludeStarred: true,
+  excludeImportant: true,
+  excludeSentThreads: true,
+  protectedLabels: [],
+  maxDeleteCount: 5000,
+};
+
+// text to type to confirm a delete over the limit
+export const DELETE_CONFIRM_TEXT = 'DELETE';
+
 export type StorageKey = keyof typeof storageKeys;
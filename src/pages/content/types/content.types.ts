@@ -15,12 +15,36 @@ export enum IMessageEvent {
   CHECKS_AFTER_AUTH = 'checksAfterAuth',
   ADVANCE_SEARCH = 'advanceSearch',
   BULK_DELETE = 'bulkDelete',
+  APPLY_FILTER_ACTION = 'applyFilterAction',
+  REMOVE_FILTER_ACTION = 'removeFilterAction',
+  GET_FILTER_ACTION_EMAILS = 'getFilterActionEmails',
+  UNDO_DELETE = 'undoDelete',
+  GET_TRASH_JOURNAL = 'getTrashJournal',
+  GET_LABELS = 'getLabels',
+  GET_MESSAGE_PREVIEWS = 'getMessagePreviews',
+  GET_SENDER_BREAKDOWN = 'getSenderBreakdown',
+  CANCEL_JOB = 'cancelJob',
+  GET_RULES = 'getRules',
+  SAVE_RULE = 'saveRule',
+  DELETE_RULE = 'deleteRule',
+  RUN_RULE = 'runRule',
+  GET_DELETE_COUNT = 'getDeleteCount',
   // events to content script
+  JOB_UPDATE = 'jobUpdate',
   LOGOUT_USER = 'logoutUser',
   API_LIMIT_REACHED = 'apiLimitReached',
   BACKGROUND_ERROR = 'backgroundError',
 }
 
+// action of the app filter (see background types)
+export enum FILTER_ACTION {
+  TRASH = 'TRASH',
+  INBOX = 'INBOX',
+  SKIP_INBOX = 'SKIP_INBOX',
+  MARK_READ = 'MARK_READ',
+  MOVE_TO_LABEL = 'MOVE_TO_LABEL',
+}
+
 export type EmailId = {
   email: string;
   id: string;
@@ -55,8 +79,200 @@ export interface IMessageBody {
   advanceSearch?: SearchFormData;
   // for when events are sent from background to content script
   msg?: string;
+  // result of the unsubscribe event (sent back to content script)
+  unsubscribeResults?: UnsubscribeResult[];
+  // for apply/remove filter action events (skip inbox, mark read, move to label)
+  filterAction?: FILTER_ACTION;
+  // journal entry of the deleted mails (sent back from background after delete, used to undo the delete)
+  trashJournalId?: string;
+  // id of the background job started by the event (delete all mails, advance search, bulk delete)
+  jobId?: string;
+  // job status sent from background (job update event)
+  job?: JobSummary;
+  // for advance search preview events (message previews, sender breakdown)
+  messageIds?: string[];
+  // for save rule event (id is not set for a new rule)
+  rule?: CleanupRuleInput;
+  // for delete/run rule events
+  ruleId?: string;
+  // run rule without applying its action (only the matched mails are counted),
+  // for delete/unsubscribe events: only get the report of the changes (no changes are made)
+  isDryRun?: boolean;
+  // report of the dry run (sent back from background)
+  dryRunReport?: DryRunReport;
+  // delete over the limit (delete protection) was confirmed by typing the confirmation text
+  isOverLimitConfirmed?: boolean;
+  // for get delete count event: count all the mails instead of gmail's estimate
+  isExactCount?: boolean;
+  // for delete all mails & get delete count events: mails kept from the senders
+  retention?: DeleteRetention;
+  // result of the launch auth flow event (sent back from background), error is null if signed in
+  authError?: AuthError | null;
+  // permissions the user unchecked on the consent screen (missing_scopes auth error)
+  missingScopes?: string[];
+  // account the event is for (logout user event is sent to all the gmail tabs)
+  accountEmail?: string;
 }
 
+// why the user couldn't sign in (see background types)
+export type AuthError = 'access_denied' | 'missing_scopes' | 'invalid_state' | 'failed';
+
+// status of a background job (see background types)
+export type JobSummary = {
+  id: string;
+  type: 'deleteAllMails' | 'bulkDelete' | 'advanceSearch' | 'cleanupRule';
+  // cancelled: stopped by the user, the mails processed before are not reverted
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  // account the job belongs to
+  accountEmail: string;
+  // number of mails processed so far
+  processedCount: number;
+  // total number of mails to process (gmail's estimate for the search based jobs), null till the first page
+  totalCount: number | null;
+  error: string | null;
+  // senders of the delete all mails job
+  emails?: string[];
+  // journal entry of the delete jobs (to undo the delete)
+  trashJournalId?: string;
+  // advance search result, sent after the job is completed
+  messageIds?: string[];
+  // rule & phase of the cleanup rule job (search: getting the matched mails, apply: applying the rule action)
+  ruleId?: string;
+  phase?: 'search' | 'apply';
+};
+
+// action of the cleanup rule (see background types)
+export type RuleAction = 'trash' | 'archive' | 'markRead';
+
+export type RuleSchedule = 'daily' | 'weekly' | 'monthly';
+
+// rule data sent to background to create/update a rule
+export type CleanupRuleInput = {
+  // not set for a new rule
+  id?: string;
+  name: string;
+  search: SearchFormData;
+  action: RuleAction;
+  // null: run manually only
+  schedule: RuleSchedule | null;
+  isPaused: boolean;
+};
+
+// run history entry of a cleanup rule (see background types)
+export type CleanupRuleRun = {
+  id: string;
+  ruleId: string;
+  trigger: 'manual' | 'schedule';
+  isDryRun: boolean;
+  // skipped: scheduled run couldn't be started, the user has to sign in again
+  status: JobSummary['status'] | 'skipped';
+  // timestamps in ms
+  startedAt: number;
+  finishedAt: number;
+  matchedCount: number;
+  affectedCount: number;
+  error: string | null;
+  trashJournalId: string | null;
+};
+
+// cleanup rule with its run history (latest first) & next scheduled run (see background types)
+export type CleanupRuleSummary = Required<CleanupRuleInput> & {
+  createdAt: number;
+  updatedAt: number;
+  runs: CleanupRuleRun[];
+  // timestamp in ms, null if not scheduled or paused
+  nextRunAt: number | null;
+};
+
+// delete history entry (see background types)
+export type TrashJournalSummary = {
+  id: string;
+  source: 'deleteAllMails' | 'bulkDelete' | 'unsubscribeAndDeleteAllMails' | 'cleanupRule';
+  // senders of the deleted mails (empty for bulk delete)
+  emails: string[];
+  // timestamps in ms
+  trashedAt: number;
+  restoredAt: number | null;
+  // number of mails moved to trash
+  count: number;
+  isUndoable: boolean;
+};
+
+// advance search result preview of a message (see background types)
+export type MessagePreview = {
+  id: string;
+  email: string;
+  name: string;
+  subject: string;
+  snippet: string;
+  // timestamp in ms
+  receivedAt: number;
+  sizeEstimate: number;
+};
+
+// advance search result grouped by sender (see background types)
+export type SenderBreakdown = {
+  email: string;
+  name: string;
+  count: number;
+  // bytes
+  totalSize: number;
+  messageIds: string[];
+};
+
+// sender breakdown of the latest messages of the advance search result (see background types)
+export type SenderBreakdownResult = {
+  senders: SenderBreakdown[];
+  sampleCount: number;
+  totalCount: number;
+};
+
+// how the sender was unsubscribed (see background types)
+export type UnsubscribeMethod = 'one-click' | 'mailto' | 'link' | 'filter';
+
+export type UnsubscribeResult = {
+  email: string;
+  method: UnsubscribeMethod;
+  isSuccess: boolean;
+  isUnverified?: boolean;
+};
+
+// report of the delete/unsubscribe dry run (see background types)
+export type DryRunReport = {
+  action: 'deleteAllMails' | 'unsubscribeAndDeleteAllMails' | 'bulkDelete';
+  // number of mails that would be trashed
+  messageCount: number;
+  // previews of the latest mails that would be trashed
+  messages: MessagePreview[];
+  // senders are from the latest mails only, the sender counts are approximate
+  sendersSampleCount?: number;
+  senders: {
+    email: string;
+    messageCount: number;
+    // unsubscribe actions only
+    unsubscribeMethod?: UnsubscribeMethod;
+  }[];
+  // criteria of the app filter (each shard) before & after
+  filterChanges: {
+    filterAction: FILTER_ACTION;
+    criteriaBefore: string[];
+    criteriaAfter: string[];
+  }[];
+};
+
+// sender statistics of the newsletter emails (see background types)
+export type SenderStats = {
+  count: number;
+  unreadCount: number;
+  // timestamp in ms
+  firstReceived: number;
+  lastReceived: number;
+  // bytes
+  totalSize: number;
+  // counted from the scanned messages only, the values are approximate
+  isSampled?: boolean;
+};
+
 // email action types
 export enum EmailAction {
   'unsubscribe' = 'unsubscribe',
@@ -64,12 +280,28 @@ export enum EmailAction {
   'unsubscribeAndDeeAllMails' = 'unsubscribeAndDeeAllMails',
   'whitelistEmail' = 'whitelistEmail',
   'resubscribe' = 'resubscribe',
+  // domain rules (all the emails from the sender's domain)
+  'unsubscribeDomain' = 'unsubscribeDomain',
+  'whitelistDomain' = 'whitelistDomain',
+  // filter actions (skip inbox, mark read, move to label)
+  'skipInbox' = 'skipInbox',
+  'markRead' = 'markRead',
+  'moveToLabel' = 'moveToLabel',
+  'removeFilterAction' = 'removeFilterAction',
 }
 
 export interface IActionInProgress {
   emails: string[];
   action: `${EmailAction}`;
+  // delete all mails with options (keep latest, older than, unread only)
+  retention?: DeleteRetention;
 }
+// gmail inbox category tabs that can be searched (see background types)
+export type SearchCategory = 'promotions' | 'social' | 'updates' | 'forums';
+
+// relative age for the older_than operator, ex: 2y, 6m, 30d
+export type RelativeAge = `${number}${'d' | 'm' | 'y'}`;
+
 // search inputs data
 export interface SearchFormData {
   keyword?: string;
@@ -77,7 +309,50 @@ export interface SearchFormData {
   isUnRead?: boolean;
   afterDate?: string;
   beforeDate?: string;
+  // sender/recipient addresses (comma separated), any of them can match
+  from?: string;
+  to?: string;
+  hasAttachment?: boolean;
+  // size in MB
+  largerThan?: number;
+  smallerThan?: number;
+  category?: SearchCategory;
+  // label names, all of them must match
+  labels?: string[];
+  excludeStarred?: boolean;
+  excludeImportant?: boolean;
+  olderThan?: RelativeAge;
 }
 
 // async callback
 export type AsyncCallback = () => Promise<void>;
+
+// delete protection preferences (see background types)
+export type DeleteProtection = {
+  excludeStarred: boolean;
+  excludeImportant: boolean;
+  // threads with the user's sent mails (replied to or started by the user)
+  excludeSentThreads: boolean;
+  // label names
+  protectedLabels: string[];
+  // max mails per delete, deleting more needs a typed confirmation (null: no limit)
+  maxDeleteCount: number | null;
+};
+
+// retention options of the delete all mails (the other mails from the senders are kept)
+export type DeleteRetention = {
+  // keep the latest mails (by received date), null to not keep any
+  keepLatestCount: number | null;
+  // only delete the mails older than the days, null for any age
+  olderThanDays: number | null;
+  isUnreadOnly: boolean;
+};
+
+// mails the delete all mails would move to trash (sent from background before the delete is confirmed)
+export type DeleteCount = {
+  count: number;
+  // total size in bytes (estimated from the latest mails if there are more mails)
+  sizeEstimate: number;
+  // false if the count is gmail's estimate (result size estimate)
+  isExact: boolean;
+};
@@ -0,0 +1,150 @@
+// background jobs: long running operations (delete all mails, advance search, bulk delete) run as jobs
+// in the background, the job status & progress is sent to all the open gmail tabs (job update event)
+
+import { IMessageEvent, type IMessageBody, type JobSummary } from '../types/content.types';
+import { publishEvent } from './publishEvent';
+import { randomId } from './randomId';
+
+// job is given up if no job update is received for a while
+// (background is not reachable, ex: extension was reloaded or the job was lost)
+const JOB_UPDATE_TIMEOUT_MS = 5 * 60 * 1000;
+
+type AwaitedJob = {
+  // resolved with null if the job update timed out
+  resolve: (job: JobSummary | null) => void;
+  onProgress?: (job: JobSummary) => void;
+  timeoutId?: ReturnType<typeof setTimeout>;
+};
+
+// latest status of the jobs by id
+const jobUpdates = new Map<string, JobSummary>();
+
+// jobs started from this tab, resolved when the job is finished
+const awaitedJobs = new Map<string, AwaitedJob>();
+
+const isJobFinished = (job: JobSummary) =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+// stop waiting for the job
+const removeAwaitedJob = (jobId: string) => {
+  const awaitedJob = awaitedJobs.get(jobId);
+
+  if (!awaitedJob) return null;
+
+  clearTimeout(awaitedJob.timeoutId);
+  awaitedJobs.delete(jobId);
+
+  return awaitedJob;
+};
+
+// (re)start the job update timeout of the awaited job
+const resetJobUpdateTimeout = (jobId: string) => {
+  const awaitedJob = awaitedJobs.get(jobId);
+
+  if (!awaitedJob) return;
+
+  clearTimeout(awaitedJob.timeoutId);
+
+  awaitedJob.timeoutId = setTimeout(() => {
+    removeAwaitedJob(jobId)?.resolve(null);
+  }, JOB_UPDATE_TIMEOUT_MS);
+};
+
+// wait for the job to finish, resolves with null if no job update is received for a while
+const waitForJob = (jobId: string, onProgress?: AwaitedJob['onProgress']) =>
+  new Promise<JobSummary | null>(resolve => {
+    const job = jobUpdates.get(jobId);
+
+    if (job && isJobFinished(job)) {
+      resolve(job);
+      return;
+    }
+
+    awaitedJobs.set(jobId, { resolve, onProgress });
+    resetJobUpdateTimeout(jobId);
+  });
+
+type RunBackgroundJobOptions = {
+  // called with the job id before the job is started (ex: to show the cancel button)
+  onStart?: (jobId: string) => void;
+  // called after every step (page/batch) of the job
+  onProgress?: (job: JobSummary) => void;
+};
+
+// start a background job & wait for it to finish,
+// returns the completed/cancelled job or null if the job failed (or no job update was received for a while)
+export const runBackgroundJob = async <T = boolean>(
+  msg: Omit<IMessageBody, 'userEmail' | 'jobId'>,
+  { onStart, onProgress }: RunBackgroundJobOptions = {}
+): Promise<{ job: JobSummary; res: T } | null> => {
+  // job id is sent with the event, so the job updates received before the response are not missed
+  const jobId = randomId();
+
+  const jobResult = waitForJob(jobId, onProgress);
+
+  onStart?.(jobId);
+
+  const res = await publishEvent<T>({ ...msg, jobId });
+
+  if (!res) {
+    removeAwaitedJob(jobId);
+    return null;
+  }
+
+  const job = await jobResult;
+
+  return job && job.status !== 'failed' ? { job, res } : null;
+};
+
+// cancel the background job, it's stopped after its current step (page/batch)
+export const cancelBackgroundJob = async (jobId: string) =>
+  await publishEvent({ event: IMessageEvent.CANCEL_JOB, jobId });
+
+// format job progress, ex: Deleted 1,500 of 12,340
+export const getJobProgressLabel = (job: JobSummary, action: string) => {
+  const processedCount = job.processedCount.toLocaleString();
+
+  // total is an estimate, it can be less than the processed mails
+  if (!job.totalCount || job.totalCount < job.processedCount) return `${action} ${processedCount} mails`;
+
+  return `${action} ${processedCount} of ${job.totalCount.toLocaleString()}`;
+};
+
+// job progress in percentage, null if the total is not known yet
+export const getJobProgressPercent = (job: JobSummary) =>
+  job.totalCount ? Math.min(100, Math.round((job.processedCount / job.totalCount) * 100)) : null;
+
+// listen to the job updates from background,
+// onJobFinished is called for the jobs not started from this tab (ex: job resumed after the page was reloaded)
+export const watchJobUpdates = (onJobFinished: (job: JobSummary) => void) => {
+  chrome.runtime.onMessage.addListener((request: IMessageBody) => {
+    const job = request.job;
+
+    // ignore other events & jobs of the other accounts
+    if (request.event !== IMessageEvent.JOB_UPDATE || !job) return;
+    if (job.accountEmail !== freshInboxGlobalVariables.userEmail) return;
+
+    // background is running the jobs of the account (awaited jobs might be waiting in the queue)
+    awaitedJobs.forEach((_, jobId) => resetJobUpdateTimeout(jobId));
+
+    const prevJob = jobUpdates.get(job.id);
+
+    // finished job was already handled
+    if (prevJob && isJobFinished(prevJob)) return;
+
+    jobUpdates.set(job.id, job);
+
+    if (!isJobFinished(job)) {
+      awaitedJobs.get(job.id)?.onProgress?.(job);
+      return;
+    }
+
+    const awaitedJob = removeAwaitedJob(job.id);
+
+    if (awaitedJob) {
+      awaitedJob.resolve(job);
+    } else {
+      onJobFinished(job);
+    }
+  });
+};
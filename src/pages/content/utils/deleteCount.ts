@@ -0,0 +1,69 @@
+import { IMessageEvent, type DeleteCount, type DeleteRetention } from '../types/content.types';
+import { getDeleteConfirmOptions } from './deleteProtection';
+import { getDeleteRetentionNote } from './deleteRetention';
+import { formatBytes } from './formatBytes';
+import { publishEvent } from './publishEvent';
+
+// get the number & size of the mails the delete all mails would move to trash
+// (counts are cached in background for a minute, hover card prefetches the count)
+export const getDeleteCount = async (emails: string[], isExactCount = false, retention?: DeleteRetention) =>
+  await publishEvent<DeleteCount>({ emails, isExactCount, retention, event: IMessageEvent.GET_DELETE_COUNT });
+
+// count & size of the mails, ex: 342 emails (48 MB), about 12,000 emails (1.2 GB)
+export const getDeleteCountLabel = ({ count, sizeEstimate, isExact }: DeleteCount) =>
+  count > 0
+    ? `${isExact ? '' : 'about '}${count.toLocaleString()} ${count === 1 ? 'email' : 'emails'} (${formatBytes(
+        sizeEstimate
+      )})`
+    : 'no emails';
+
+// confirm modal message with the count & size of the mails
+// ex: This will move 342 emails (48 MB) to trash from
+const getDeleteCountMsg = (deleteCount: DeleteCount, isUnsubscribe: boolean) =>
+  isUnsubscribe
+    ? `This will move ${getDeleteCountLabel(deleteCount)} to trash and unsubscribe from`
+    : `This will move ${getDeleteCountLabel(deleteCount)} to trash from`;
+
+// confirm modal options of the delete all mails: message with the count & size of the mails, retention options,
+// protection rules & the typed confirmation if the delete is over the limit (or the count couldn't be fetched),
+// with the option to get the exact count if it's an estimate (the typed confirmation is updated with it)
+type GetDeleteCountConfirmOptionsParams = {
+  emails: string[];
+  defaultMsg: string;
+  isUnsubscribe?: boolean;
+  // mails kept from the senders (delete all mails with options)
+  retention?: DeleteRetention;
+};
+
+export const getDeleteCountConfirmOptions = async ({
+  emails,
+  defaultMsg,
+  isUnsubscribe = false,
+  retention,
+}: GetDeleteCountConfirmOptionsParams) => {
+  const deleteCount = await getDeleteCount(emails, false, retention);
+
+  // count is null if it couldn't be fetched, the default message is shown
+  const getConfirmOptions = async (count: DeleteCount | null) => {
+    const { note, confirmText } = await getDeleteConfirmOptions(count?.count ?? null, !!count?.isExact);
+
+    return {
+      msg: count ? getDeleteCountMsg(count, isUnsubscribe) : defaultMsg,
+      // retention options before the protection rules
+      note: [getDeleteRetentionNote(retention), note].filter(Boolean).join(' '),
+      confirmText,
+    };
+  };
+
+  return {
+    ...(await getConfirmOptions(deleteCount)),
+    onExactCountClick:
+      !deleteCount || deleteCount.isExact
+        ? undefined
+        : async () => {
+            const exactCount = await getDeleteCount(emails, true, retention);
+
+            return exactCount ? await getConfirmOptions(exactCount) : null;
+          },
+  };
+};
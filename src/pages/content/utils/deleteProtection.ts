@@ -0,0 +1,55 @@
+import { DEFAULT_DELETE_PROTECTION, DELETE_CONFIRM_TEXT, storageKeys } from '../constants/app.constants';
+import type { DeleteProtection } from '../types/content.types';
+import { getSyncStorageByKey } from './getStorageByKey';
+
+// get delete protection preferences (protection rules & the max mails per delete)
+export const getDeleteProtection = async (): Promise<DeleteProtection> => ({
+  ...DEFAULT_DELETE_PROTECTION,
+  ...(await getSyncStorageByKey<Partial<DeleteProtection>>(storageKeys.DELETE_PROTECTION)),
+});
+
+// check if the delete needs a typed confirmation (more mails than the limit),
+// if the count is not known (couldn't be fetched), the confirmation is needed as well
+export const isOverDeleteLimit = (protection: DeleteProtection, count: number | null) =>
+  !!protection.maxDeleteCount && (count === null || count > protection.maxDeleteCount);
+
+// protection rules shown in the confirm modal
+// ex: Protected: starred, important, threads you replied to, labels: Receipts. Limit: 5,000 mails per delete.
+export const getDeleteProtectionNote = (protection: DeleteProtection) => {
+  const protectedMails = [
+    protection.excludeStarred && 'starred',
+    protection.excludeImportant && 'important',
+    protection.excludeSentThreads && 'threads you replied to',
+    protection.protectedLabels.length > 0 && `labels: ${protection.protectedLabels.join(', ')}`,
+  ].filter(Boolean);
+
+  return [
+    protectedMails.length > 0 ? `Protected: ${protectedMails.join(', ')}.` : 'No mails are protected.',
+    protection.maxDeleteCount
+      ? `Limit: ${protection.maxDeleteCount.toLocaleString()} mails per delete.`
+      : 'No delete limit.',
+  ].join(' ');
+};
+
+// delete protection options of the confirm modal, the delete over the limit needs a typed confirmation
+// (count is null if it couldn't be fetched, the typed confirmation is needed if there's a limit)
+export const getDeleteConfirmOptions = async (count: number | null, isExactCount = false) => {
+  const protection = await getDeleteProtection();
+
+  const isOverLimit = isOverDeleteLimit(protection, count);
+
+  const overLimitNote =
+    count === null
+      ? "Couldn't count the mails, they might be more than your limit."
+      : `${
+          isExactCount ? '' : 'About '
+        }${count.toLocaleString()} mails would be deleted, more than your limit.`;
+
+  return {
+    note: isOverLimit
+      ? `${overLimitNote} ${getDeleteProtectionNote(protection)}`
+      : getDeleteProtectionNote(protection),
+    confirmText: isOverLimit ? DELETE_CONFIRM_TEXT : undefined,
+    isOverLimit,
+  };
+};
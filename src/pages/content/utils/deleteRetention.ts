@@ -0,0 +1,45 @@
+import type { DeleteRetention } from '../types/content.types';
+
+// parse the delete options inputs, empty or invalid numbers are not set
+// (returns undefined if no option is set, all the mails are deleted)
+export const parseDeleteRetention = ({
+  keepLatestInput,
+  olderThanDaysInput,
+  isUnreadOnly,
+}: {
+  keepLatestInput: string;
+  olderThanDaysInput: string;
+  isUnreadOnly: boolean;
+}): DeleteRetention | undefined => {
+  const keepLatestCount = Math.floor(Number(keepLatestInput));
+  const olderThanDays = Math.floor(Number(olderThanDaysInput));
+
+  const retention: DeleteRetention = {
+    keepLatestCount: keepLatestCount > 0 ? keepLatestCount : null,
+    olderThanDays: olderThanDays > 0 ? olderThanDays : null,
+    isUnreadOnly,
+  };
+
+  if (!retention.keepLatestCount && !retention.olderThanDays && !retention.isUnreadOnly) return undefined;
+
+  return retention;
+};
+
+// retention options shown in the confirm modal
+// ex: Keeping the latest 5 mails. Only unread mails older than 30 days are deleted.
+export const getDeleteRetentionNote = (retention?: DeleteRetention) => {
+  if (!retention) return '';
+
+  return [
+    retention.keepLatestCount &&
+      `Keeping the latest ${retention.keepLatestCount.toLocaleString()} ${
+        retention.keepLatestCount === 1 ? 'mail' : 'mails'
+      }.`,
+    (retention.olderThanDays || retention.isUnreadOnly) &&
+      `Only ${retention.isUnreadOnly ? 'unread ' : ''}mails${
+        retention.olderThanDays ? ` older than ${retention.olderThanDays} days` : ''
+      } are deleted.`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+};
@@ -0,0 +1,16 @@
+// domain rules: all the emails from a domain, stored as *@domain in the unsubscribe/whitelist lists
+
+// check if the list entry is a domain rule
+const isDomainRule = (entry: string) => entry.startsWith('*@');
+
+// get domain rule for the email, ex: news@brand.com -> *@brand.com
+const getDomainRule = (email: string) => `*@${email.slice(email.lastIndexOf('@') + 1).toLowerCase()}`;
+
+// check if the email is in the list (exact email or domain rule)
+const isEmailInList = (email: string, list: string[]) =>
+  list.some(entry => entry.toLowerCase() === email.toLowerCase() || entry === getDomainRule(email));
+
+// display text for the list entry, ex: *@brand.com -> @brand.com
+const getEntryLabel = (entry: string) => (isDomainRule(entry) ? entry.slice(1) : entry);
+
+export { isDomainRule, getDomainRule, isEmailInList, getEntryLabel };
@@ -0,0 +1,49 @@
+import { storageKeys } from '../constants/app.constants';
+import { IMessageEvent, type IMessageBody } from '../types/content.types';
+import { showDryRunReportModal } from '../view/elements/dryRunReportModal';
+import { hideLoadingSnackbar, showLoadingSnackbar, showSnackbar } from '../view/elements/snackbar';
+import { getEntryLabel } from './domainRule';
+import { logger } from './logger';
+import { publishEvent } from './publishEvent';
+import { getSyncStorageByKey } from './getStorageByKey';
+
+// check user preference, delete/unsubscribe actions only report the changes in dry run mode
+export const isDryRunModeEnabled = async () =>
+  (await getSyncStorageByKey<boolean>(storageKeys.DRY_RUN_MODE)) === true;
+
+// run the delete/unsubscribe action as dry run & show the report of the changes it would make
+export const runDryRun = async (msg: Omit<IMessageBody, 'userEmail' | 'isDryRun'>): Promise<boolean> => {
+  try {
+    // bulk delete emails are the message ids
+    const isBulkDelete = msg.event === IMessageEvent.BULK_DELETE;
+
+    // show loading snackbar
+    showLoadingSnackbar({
+      emails: isBulkDelete ? [] : msg.emails.map(getEntryLabel),
+      title: isBulkDelete ? 'Preparing dry run report' : 'Preparing dry run report for',
+    });
+
+    // publish event to background script, no changes are made
+    const res = await publishEvent<Pick<IMessageBody, 'dryRunReport'>>({ ...msg, isDryRun: true });
+
+    if (!res?.dryRunReport) {
+      throw new Error('Failed to get dry run report');
+    }
+
+    hideLoadingSnackbar();
+
+    showDryRunReportModal(res.dryRunReport);
+
+    return true;
+  } catch (error) {
+    hideLoadingSnackbar();
+    // show error snackbar
+    showSnackbar<true>({ title: 'Failed to get the dry run report', isError: true });
+    logger.error({
+      error,
+      msg: 'Failed to run dry run',
+      fileTrace: 'content/utils/dryRun.ts:36 ~ runDryRun()',
+    });
+    return false;
+  }
+};
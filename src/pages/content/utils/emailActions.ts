@@ -1,32 +1,100 @@
-import { IMessageBody, IMessageEvent } from '../types/content.types';
+import {
+  IMessageBody,
+  IMessageEvent,
+  type DeleteRetention,
+  UnsubscribeMethod,
+  UnsubscribeResult,
+  type JobSummary,
+} from '../types/content.types';
 import { showConfirmModal } from '../view/elements/confirmModal';
-import { hideLoadingSnackbar, showLoadingSnackbar, showSnackbar } from '../view/elements/snackbar';
+import {
+  hideLoadingSnackbar,
+  showLoadingSnackbar,
+  showSnackbar,
+  updateLoadingSnackbarProgress,
+} from '../view/elements/snackbar';
+import {
+  cancelBackgroundJob,
+  getJobProgressLabel,
+  getJobProgressPercent,
+  runBackgroundJob,
+} from './backgroundJobs';
+import { getEntryLabel } from './domainRule';
+import { isDryRunModeEnabled, runDryRun } from './dryRun';
+import { getDeleteCountConfirmOptions } from './deleteCount';
+import { refreshEmailsTable } from './dispatchClickEvents';
+import { filterActionInfo, type SenderFilterAction } from './filterActions';
 import { logger } from './logger';
 import { publishEvent } from './publishEvent';
 
+// success snackbar message based on how the email was unsubscribed
+const unsubscribeMethodMessage: Record<UnsubscribeMethod, string> = {
+  'one-click': 'Successfully unsubscribed from',
+  mailto: 'Sent unsubscribe request email to',
+  link: 'Opened unsubscribe page (confirm it in the new tab) for',
+  filter: 'No working unsubscribe link found, future mails will be moved to trash from',
+};
+
+// get success snackbar message from the unsubscribe results
+const getUnsubscribeMessage = (unsubscribeResults: UnsubscribeResult[]) => {
+  // one-click requests were sent, the sender's response can't be read
+  if (unsubscribeResults.every(result => result.isUnverified)) {
+    return 'Sent unsubscribe request (not confirmed by the sender) to';
+  }
+
+  const methods = new Set(unsubscribeResults.map(result => result.method));
+
+  // all the emails were unsubscribed with the same method
+  if (methods.size === 1) return unsubscribeMethodMessage[unsubscribeResults[0].method];
+
+  return 'Successfully unsubscribed from';
+};
+
 // handle unsubscribe
 const handleUnsubscribeEmail = async (emails: string[], isWhitelisted = false): Promise<boolean> => {
   try {
     // show loading snackbar
     showLoadingSnackbar({
-      emails,
+      emails: emails.map(getEntryLabel),
       title: `Unsubscribing from`,
     });
     // publish event to background script
-    const res = await publishEvent({ emails, isWhitelisted, event: IMessageEvent.UNSUBSCRIBE });
+    const res = await publishEvent<Pick<IMessageBody, 'unsubscribeResults'>>({
+      emails,
+      isWhitelisted,
+      event: IMessageEvent.UNSUBSCRIBE,
+    });
 
     if (!res) {
       throw new Error('Failed to unsubscribe.');
     }
+
+    const failedEmails = res.unsubscribeResults?.filter(result => !result.isSuccess) || [];
+
+    if (failedEmails.length > 0) {
+      hideLoadingSnackbar();
+      // the other senders may be unsubscribed, only the failed ones are shown
+      showSnackbar<true>({
+        title: `Failed to unsubscribe from ${failedEmails
+          .map(result => getEntryLabel(result.email))
+          .join(', ')}`,
+        isError: true,
+      });
+      return false;
+    }
+
     // hide snackbar
     hideLoadingSnackbar();
     // show success snackbar
     showSnackbar({
-      emails,
-      title: 'Successfully unsubscribed from.',
+      emails: emails.map(getEntryLabel),
+      title:
+        res.unsubscribeResults?.length > 0
+          ? getUnsubscribeMessage(res.unsubscribeResults)
+          : 'Successfully unsubscribed from',
     });
 
-    return res;
+    return true;
   } catch (error) {
     hideLoadingSnackbar();
     // show error snackbar
@@ -40,26 +108,145 @@ const handleUnsubscribeEmail = async (emails: string[], isWhitelisted = false):
   }
 };
 
-// handle delete all mails
-const handleDeleteAllMails = async (emails: string[]): Promise<boolean> => {
+// handle undo delete (restore the deleted mails from trash)
+export const handleUndoDelete = async (trashJournalId: string): Promise<boolean> => {
   try {
     // show loading snackbar
     showLoadingSnackbar({
-      emails,
-      title: `Deleting all mails from`,
+      emails: [],
+      title: `Restoring deleted mails`,
     });
+
     // publish event to background script
-    const res = await publishEvent({ emails, event: IMessageEvent.DELETE_ALL_MAILS });
+    const res = await publishEvent({ trashJournalId, event: IMessageEvent.UNDO_DELETE });
 
     if (!res) {
-      throw new Error('Failed to delete mails');
+      throw new Error('Failed to restore deleted mails');
     }
+
     // hide snackbar
     hideLoadingSnackbar();
     // show success snackbar
-    showSnackbar({ title: 'Successfully deleted all mails from', emails });
+    showSnackbar({ title: 'Successfully restored the deleted mails', emails: [] });
 
-    return res;
+    // refresh the table to show the restored mails
+    await refreshEmailsTable();
+
+    return true;
+  } catch (error) {
+    hideLoadingSnackbar();
+    // show error snackbar
+    showSnackbar<true>({ title: 'Failed to restore the deleted mails', isError: true });
+    logger.error({
+      error,
+      msg: 'Failed to undo delete',
+      fileTrace: 'content/utils/emailActions.ts:103 ~ handleUndoDelete()',
+    });
+    return false;
+  }
+};
+
+// undo button for the delete success snackbar
+export const getUndoDeleteAction = (trashJournalId?: string) => {
+  if (!trashJournalId) return undefined;
+
+  return {
+    label: 'Undo',
+    onClick: async () => {
+      await handleUndoDelete(trashJournalId);
+    },
+  };
+};
+
+// success/error snackbar for the background jobs not started from this tab
+// (ex: delete was started before the page was reloaded and finished after)
+export const handleBackgroundJobFinished = (job: JobSummary) => {
+  const isSearch = job.type === 'advanceSearch';
+  const isRule = job.type === 'cleanupRule';
+
+  if (job.status === 'failed') {
+    showSnackbar<true>({
+      title: isSearch ? 'Advance search failed' : isRule ? 'Cleanup rule failed' : 'Failed to delete mails',
+      isError: true,
+    });
+    return;
+  }
+
+  // search result is shown only in the tab it was started from, rule results are shown in the rule's run history
+  if (isSearch || isRule) return;
+
+  showSnackbar({
+    title: getDeleteJobTitle(
+      job,
+      job.emails?.length > 0
+        ? 'Successfully deleted all mails from'
+        : `Successfully deleted ${job.processedCount} emails.`
+    ),
+    emails: job.emails || [],
+    action: getUndoDeleteAction(job.trashJournalId),
+  });
+};
+
+// success snackbar title of the delete job, the job might have been cancelled before all the mails were deleted
+export const getDeleteJobTitle = (job: JobSummary, successTitle: string) =>
+  job.status === 'cancelled'
+    ? `Delete cancelled, ${job.processedCount.toLocaleString()} mails were deleted`
+    : successTitle;
+
+// loading snackbar with the delete job progress & cancel button
+const getDeleteJobOptions = (loadingSnackbarParams: { title: string; emails: string[] }) => ({
+  onStart: (jobId: string) =>
+    showLoadingSnackbar({
+      ...loadingSnackbarParams,
+      onCancel: async () => {
+        await cancelBackgroundJob(jobId);
+      },
+    }),
+  onProgress: (job: JobSummary) =>
+    updateLoadingSnackbarProgress({
+      label: getJobProgressLabel(job, 'Deleted'),
+      percent: getJobProgressPercent(job),
+    }),
+});
+
+// handle delete all mails
+const handleDeleteAllMails = async (
+  emails: string[],
+  isDryRun = false,
+  isOverLimitConfirmed = false,
+  retention?: DeleteRetention
+): Promise<boolean> => {
+  // report the mails that would be deleted
+  if (isDryRun || (await isDryRunModeEnabled())) {
+    return await runDryRun({ emails, retention, event: IMessageEvent.DELETE_ALL_MAILS });
+  }
+
+  try {
+    // publish event to background script & wait for the delete job to finish
+    // show loading snackbar with the delete progress
+    const res = await runBackgroundJob(
+      {
+        emails,
+        isOverLimitConfirmed,
+        retention,
+        event: IMessageEvent.DELETE_ALL_MAILS,
+      },
+      getDeleteJobOptions({ emails, title: `Deleting all mails from` })
+    );
+
+    if (!res) {
+      throw new Error('Failed to delete mails');
+    }
+    // hide snackbar
+    hideLoadingSnackbar();
+    // show success snackbar (with undo button)
+    showSnackbar({
+      title: getDeleteJobTitle(res.job, 'Successfully deleted all mails from'),
+      emails,
+      action: getUndoDeleteAction(res.job.trashJournalId),
+    });
+
+    return true;
   } catch (error) {
     hideLoadingSnackbar();
     // show error snackbar
@@ -76,26 +263,34 @@ const handleDeleteAllMails = async (emails: string[]): Promise<boolean> => {
 type HandleUnSubscribeAndDeleteAllMailsParams = {
   emails: string[];
   isWhitelisted?: boolean;
+  isDryRun?: boolean;
+  isOverLimitConfirmed?: boolean;
 };
 
 // handle unsubscribe and delete all mails
 const handleUnsubscribeAndDeleteAllMails = async ({
   emails,
   isWhitelisted,
+  isDryRun = false,
+  isOverLimitConfirmed = false,
 }: HandleUnSubscribeAndDeleteAllMailsParams): Promise<boolean> => {
-  try {
-    // show loading snackbar
-    showLoadingSnackbar({
-      emails,
-      title: `Unsubscribing and deleting all mails from`,
-    });
+  // report the unsubscribe methods, filter changes & the mails that would be deleted
+  if (isDryRun || (await isDryRunModeEnabled())) {
+    return await runDryRun({ emails, isWhitelisted, event: IMessageEvent.UNSUBSCRIBE_AND_DELETE_MAILS });
+  }
 
-    // publish event to background script
-    const res = await publishEvent({
-      emails,
-      isWhitelisted,
-      event: IMessageEvent.UNSUBSCRIBE_AND_DELETE_MAILS,
-    });
+  try {
+    // publish event to background script & wait for the delete job to finish
+    // show loading snackbar with the delete progress (cancel stops only the delete)
+    const res = await runBackgroundJob(
+      {
+        emails,
+        isWhitelisted,
+        isOverLimitConfirmed,
+        event: IMessageEvent.UNSUBSCRIBE_AND_DELETE_MAILS,
+      },
+      getDeleteJobOptions({ emails, title: `Unsubscribing and deleting all mails from` })
+    );
 
     if (!res) {
       throw new Error('Failed to unsubscribe & delete mails');
@@ -103,9 +298,13 @@ const handleUnsubscribeAndDeleteAllMails = async ({
 
     // hide snackbar
     hideLoadingSnackbar();
-    // show success snackbar
-    showSnackbar({ title: 'Successfully unsubscribed & deleted all mails from', emails });
-    return res;
+    // show success snackbar (with undo button, undo only restores the mails)
+    showSnackbar({
+      title: getDeleteJobTitle(res.job, 'Successfully unsubscribed & deleted all mails from'),
+      emails,
+      action: getUndoDeleteAction(res.job.trashJournalId),
+    });
+    return true;
   } catch (error) {
     hideLoadingSnackbar();
     // show error snackbar
@@ -159,7 +358,7 @@ const handleWhitelistEmail = async (emails: string[]): Promise<boolean> => {
   try {
     // show loading snackbar
     showLoadingSnackbar({
-      emails,
+      emails: emails.map(getEntryLabel),
       title: `Whitelisting `,
     });
 
@@ -172,7 +371,7 @@ const handleWhitelistEmail = async (emails: string[]): Promise<boolean> => {
     // hide snackbar
     hideLoadingSnackbar();
     // show success snackbar
-    showSnackbar({ title: 'Successfully whitelisted', emails });
+    showSnackbar({ title: 'Successfully whitelisted', emails: emails.map(getEntryLabel) });
     return res;
   } catch (error) {
     hideLoadingSnackbar();
@@ -187,12 +386,86 @@ const handleWhitelistEmail = async (emails: string[]): Promise<boolean> => {
   }
 };
 
+// handle filter action (skip inbox, mark read, move to label)
+const handleFilterActionEmails = async (
+  emails: string[],
+  filterAction: SenderFilterAction
+): Promise<boolean> => {
+  try {
+    // show loading snackbar
+    showLoadingSnackbar({
+      emails,
+      title: `Updating filter for`,
+    });
+
+    // publish event to background script
+    const res = await publishEvent({ emails, filterAction, event: IMessageEvent.APPLY_FILTER_ACTION });
+
+    if (!res) {
+      throw new Error(`Failed to apply ${filterAction} filter action`);
+    }
+    // hide snackbar
+    hideLoadingSnackbar();
+    // show success snackbar
+    showSnackbar({ title: filterActionInfo[filterAction].successMsg, emails });
+    return res;
+  } catch (error) {
+    hideLoadingSnackbar();
+    // show error snackbar
+    showSnackbar<true>({ title: 'Failed to update filter for', isError: true });
+    logger.error({
+      error,
+      msg: 'Failed to apply filter action',
+      fileTrace: 'content/utils/emailActions.ts:219 ~ handleFilterActionEmails()',
+    });
+    return false;
+  }
+};
+
+// handle remove filter action
+const handleRemoveFilterActionEmails = async (
+  emails: string[],
+  filterAction: SenderFilterAction
+): Promise<boolean> => {
+  try {
+    // show loading snackbar
+    showLoadingSnackbar({
+      emails,
+      title: `Updating filter for`,
+    });
+
+    // publish event to background script
+    const res = await publishEvent({ emails, filterAction, event: IMessageEvent.REMOVE_FILTER_ACTION });
+
+    if (!res) {
+      throw new Error(`Failed to remove ${filterAction} filter action`);
+    }
+    // hide snackbar
+    hideLoadingSnackbar();
+    // show success snackbar
+    showSnackbar({ title: filterActionInfo[filterAction].removedMsg, emails });
+    return res;
+  } catch (error) {
+    hideLoadingSnackbar();
+    // show error snackbar
+    showSnackbar<true>({ title: 'Failed to update filter for', isError: true });
+    logger.error({
+      error,
+      msg: 'Failed to remove filter action',
+      fileTrace: 'content/utils/emailActions.ts:254 ~ handleRemoveFilterActionEmails()',
+    });
+    return false;
+  }
+};
+
 //*** export email actions handler
 interface IEmailActionParams {
   emails: string[];
   name?: string;
   onSuccess?: () => Promise<void>;
   isWhitelisted?: boolean;
+  // delete all mails: mails kept from the senders (keep latest, older than, unread only)
+  retention?: DeleteRetention;
 }
 
 // export handle whitelist action handler
@@ -215,16 +488,39 @@ export const handleUnsubscribeAction = async ({
 };
 
 // export delete-all-mails-action handler
-export const handleDeleteAllMailsAction = async ({ emails, onSuccess }: IEmailActionParams) => {
+export const handleDeleteAllMailsAction = async ({ emails, onSuccess, retention }: IEmailActionParams) => {
+  const handleAction = async (isDryRun = false, isOverLimitConfirmed = false) => {
+    const isSuccess = await handleDeleteAllMails(emails, isDryRun, isOverLimitConfirmed, retention);
+    // call onSuccess callback fn (nothing was deleted in the dry run)
+    if (isSuccess && !isDryRun) {
+      await onSuccess();
+    }
+  };
+
+  // nothing is deleted in dry run mode, no need to confirm
+  if (await isDryRunModeEnabled()) {
+    await handleAction(true);
+    return;
+  }
+
+  // number & size of the mails that would be moved to trash, protection rules
+  // & typed confirmation if the delete is over the limit
+  const deleteConfirmOptions = await getDeleteCountConfirmOptions({
+    emails,
+    defaultMsg: retention
+      ? 'Are you sure you want to delete the mails from'
+      : 'Are you sure you want to delete all mails from',
+    retention,
+  });
+
   await showConfirmModal({
     email: emails.length > 1 ? `${emails.length} emails` : emails[0],
-    msg: 'Are you sure you want to delete all mails from',
-    onConfirmClick: async () => {
-      const isSuccess = await handleDeleteAllMails(emails);
-      // call onSuccess callback fn
-      if (isSuccess) {
-        await onSuccess();
-      }
+    ...deleteConfirmOptions,
+    onConfirmClick: async isOverLimitConfirmed => {
+      await handleAction(false, isOverLimitConfirmed);
+    },
+    onDryRunClick: async () => {
+      await handleAction(true);
     },
   });
 };
@@ -235,17 +531,41 @@ export const handleUnsubscribeAndDeleteAction = async ({
   onSuccess,
   isWhitelisted,
 }: IEmailActionParams) => {
+  const handleAction = async (isDryRun = false, isOverLimitConfirmed = false) => {
+    const isSuccess = await handleUnsubscribeAndDeleteAllMails({
+      emails,
+      isWhitelisted,
+      isDryRun,
+      isOverLimitConfirmed,
+    });
+    // call onSuccess callback fn (nothing was changed in the dry run)
+    if (isSuccess && !isDryRun) {
+      await onSuccess();
+    }
+  };
+
+  // nothing is changed in dry run mode, no need to confirm
+  if (await isDryRunModeEnabled()) {
+    await handleAction(true);
+    return;
+  }
+
+  // number & size of the mails that would be moved to trash, protection rules
+  // & typed confirmation if the delete is over the limit
+  const deleteConfirmOptions = await getDeleteCountConfirmOptions({
+    emails,
+    defaultMsg: 'Are you sure you want to delete all mails and unsubscribe from',
+    isUnsubscribe: true,
+  });
+
   await showConfirmModal({
     email: emails.length > 1 ? `${emails.length} emails` : emails[0],
-    msg: 'Are you sure you want to delete all mails and unsubscribe from',
-    onConfirmClick: async () => {
-      const isSuccess = await handleUnsubscribeAndDeleteAllMails({
-        emails,
-
-        isWhitelisted,
-      });
-      // call onSuccess callback fn
-      await onSuccess();
+    ...deleteConfirmOptions,
+    onConfirmClick: async isOverLimitConfirmed => {
+      await handleAction(false, isOverLimitConfirmed);
+    },
+    onDryRunClick: async () => {
+      await handleAction(true);
     },
   });
 };
@@ -255,3 +575,21 @@ export const handleReSubscribeAction = async ({ emails }: IEmailActionParams): P
   const isSuccess = await handleReSubscribeEmail(emails);
   return isSuccess;
 };
+
+// export filter action (skip inbox, mark read, move to label) handler
+export const handleFilterAction = async ({
+  emails,
+  filterAction,
+}: IEmailActionParams & { filterAction: SenderFilterAction }): Promise<boolean> => {
+  const isSuccess = await handleFilterActionEmails(emails, filterAction);
+  return isSuccess;
+};
+
+// export remove filter action handler
+export const handleRemoveFilterAction = async ({
+  emails,
+  filterAction,
+}: IEmailActionParams & { filterAction: SenderFilterAction }): Promise<boolean> => {
+  const isSuccess = await handleRemoveFilterActionEmails(emails, filterAction);
+  return isSuccess;
+};
@@ -0,0 +1,50 @@
+import { EmailAction, FILTER_ACTION } from '../types/content.types';
+
+// filter actions for the senders we want to keep but not see in the inbox
+export type SenderFilterAction =
+  | FILTER_ACTION.SKIP_INBOX
+  | FILTER_ACTION.MARK_READ
+  | FILTER_ACTION.MOVE_TO_LABEL;
+
+type FilterActionInfo = {
+  // button/tab label
+  label: string;
+  // tooltip, description
+  description: string;
+  // action button icon
+  emailAction: EmailAction;
+  // snackbar titles
+  successMsg: string;
+  removedMsg: string;
+};
+
+export const filterActionInfo: Record<SenderFilterAction, FilterActionInfo> = {
+  [FILTER_ACTION.SKIP_INBOX]: {
+    label: 'Skip Inbox',
+    description: 'Skip inbox (archive) future mails from this sender',
+    emailAction: EmailAction.skipInbox,
+    successMsg: 'Future mails will skip the inbox from',
+    removedMsg: 'Future mails will come to the inbox from',
+  },
+  [FILTER_ACTION.MARK_READ]: {
+    label: 'Mark Read',
+    description: 'Mark future mails from this sender as read',
+    emailAction: EmailAction.markRead,
+    successMsg: 'Future mails will be marked as read from',
+    removedMsg: 'Future mails will not be marked as read from',
+  },
+  [FILTER_ACTION.MOVE_TO_LABEL]: {
+    label: 'Newsletters Label',
+    description: 'Move future mails from this sender to the "Newsletters" label',
+    emailAction: EmailAction.moveToLabel,
+    successMsg: 'Future mails will be moved to the "Newsletters" label from',
+    removedMsg: 'Future mails will not be moved to the "Newsletters" label from',
+  },
+};
+
+export const senderFilterActions = Object.keys(filterActionInfo) as SenderFilterAction[];
+
+// get filter action of the email action (action buttons)
+export const getFilterActionByEmailAction = (emailAction: `${EmailAction}`) =>
+  senderFilterActions.find(filterAction => filterActionInfo[filterAction].emailAction === emailAction) ||
+  null;
@@ -0,0 +1,16 @@
+// format bytes to human readable size, ex: 1536 -> 1.5 KB
+const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+
+  let size = bytes;
+  let unitIdx = 0;
+
+  while (size >= 1024 && unitIdx < units.length - 1) {
+    size /= 1024;
+    unitIdx++;
+  }
+
+  return `${unitIdx === 0 ? size : size.toFixed(1)} ${units[unitIdx]}`;
+};
+
+export { formatBytes };
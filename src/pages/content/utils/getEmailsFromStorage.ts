@@ -1,5 +1,5 @@
 import { storageKeys } from '../constants/app.constants';
-import { IMessageEvent } from '../types/content.types';
+import { IMessageEvent, type FILTER_ACTION } from '../types/content.types';
 import { getLocalStorageByKey } from './getStorageByKey';
 import { logger } from './logger';
 import { publishEvent } from './publishEvent';
@@ -63,3 +63,27 @@ export const getWhitelistedEmails = async (): Promise<string[]> => {
     return null;
   }
 };
+
+// get list of senders of the filter action (skip inbox, mark read, move to label)
+export const getFilterActionEmails = async (filterAction: FILTER_ACTION): Promise<string[]> => {
+  try {
+    // publish event to background script to get emails (cached in the background local storage)
+    const emails = await publishEvent<string[]>({
+      filterAction,
+      event: IMessageEvent.GET_FILTER_ACTION_EMAILS,
+    });
+
+    if (emails) {
+      return emails;
+    } else {
+      throw new Error(`❌ Failed to get ${filterAction} filter emails.`);
+    }
+  } catch (error) {
+    logger.error({
+      error,
+      msg: 'Failed to get filter action emails',
+      fileTrace: 'content/utils/getEmailsFromStorage.ts:66 ~ getFilterActionEmails()',
+    });
+    return null;
+  }
+};
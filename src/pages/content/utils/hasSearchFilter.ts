@@ -0,0 +1,21 @@
+import type { SearchFormData } from '../types/content.types';
+
+// checks if at least one search filter is set (excluding starred/important alone is not a search)
+const hasSearchFilter = (formData: SearchFormData) =>
+  !!(
+    formData.keyword ||
+    formData.isRead ||
+    formData.isUnRead ||
+    formData.afterDate ||
+    formData.beforeDate ||
+    formData.from ||
+    formData.to ||
+    formData.hasAttachment ||
+    formData.largerThan ||
+    formData.smallerThan ||
+    formData.category ||
+    formData.labels?.length ||
+    formData.olderThan
+  );
+
+export { hasSearchFilter };
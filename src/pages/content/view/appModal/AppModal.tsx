@@ -5,7 +5,10 @@ import { Newsletter } from './tabs/Newsletter';
 import AuthCard from './AuthCard';
 import Unsubscribed from './tabs/Unsubscribed';
 import Whitelisted from './tabs/Whitelisted';
+import SenderActions from './tabs/SenderActions';
+import DeleteHistory from './tabs/DeleteHistory';
 import AdvanceSearch from './tabs/advance-search';
+import Rules from './tabs/rules';
 
 import FreshInboxIcon from './../../assets/app-icon-128.png';
 import Tooltip from '../elements/TooltipReact';
@@ -18,7 +21,7 @@ import { watchEmailTableContainerClick } from '../assistant-button/helper/watchE
 import { embedAssistantBtn } from '../assistant-button';
 import { onURLChange } from '../../utils/onURLChange';
 
-const tabs = ['About', 'Newsletter', 'Unsubscribed', 'Whitelisted', 'Advance Search'] as const;
+const tabs = ['About', 'Newsletter', 'Unsubscribed', 'Whitelisted', 'Sender Actions', 'Advance Search', 'Rules', 'Delete History'] as const;
 
 export type Tabs = (typeof tabs)[number];
 
@@ -41,6 +44,9 @@ const AppModal = ({ appStatus, isTokenValid }: Props) => {
       switch (request.event) {
         // userToken missing or invalid, logout user from fresh-inbox
         case IMessageEvent.LOGOUT_USER: {
+          // session of the other account (gmail tab) has ended
+          if (request.accountEmail !== freshInboxGlobalVariables.userEmail) return true;
+
           showSnackbar<true>({
             isError: true,
             title: 'Sign in required.',
@@ -143,8 +149,14 @@ const AppModal = ({ appStatus, isTokenValid }: Props) => {
         return <Unsubscribed />;
       case 'Whitelisted':
         return <Whitelisted />;
+      case 'Sender Actions':
+        return <SenderActions />;
       case 'Advance Search':
         return <AdvanceSearch />;
+      case 'Rules':
+        return <Rules />;
+      case 'Delete History':
+        return <DeleteHistory />;
       default:
         return <About onAppDisable={onDisableApp} />;
     }
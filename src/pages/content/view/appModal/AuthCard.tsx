@@ -4,6 +4,29 @@ import { embedAssistantBtn } from '../assistant-button';
 import { disableApp } from '../../utils/disableApp';
 import { publishEvent } from '../../utils/publishEvent';
 
+// permissions as shown on the google consent screen
+const scopeLabels: Record<string, string> = {
+  'https://www.googleapis.com/auth/gmail.modify': 'Read, compose, and send emails from your Gmail account',
+  'https://www.googleapis.com/auth/gmail.settings.basic':
+    'See, edit, create or change your email settings and filters in Gmail',
+};
+
+// error message for the failed auth
+const getAuthErrorMsg = (res: Partial<IMessageBody> | null) => {
+  switch (res?.authError) {
+    case 'access_denied':
+      return '❌ Access to your Gmail was denied, Fresh Inbox needs the access to clean your inbox. Please try again.';
+    case 'missing_scopes': {
+      const permissions = (res.missingScopes || [])
+        .map(scope => `"${scopeLabels[scope] || scope}"`)
+        .join(' and ');
+      return `❌ Some permissions were not granted. Please connect again and check ${permissions} on the Google consent screen.`;
+    }
+    default:
+      return '❌ Failed to connect Fresh Inbox to your Gmail, Please try again.';
+  }
+};
+
 type Props = {
   isAppEnabled: boolean;
   onClose: (isSuccess?: boolean) => void;
@@ -14,9 +37,9 @@ const AuthCard = ({ isAppEnabled, onClose }: Props) => {
 
   // handle connect button click
   const handleConnectBtnClick = async () => {
-    const res = await publishEvent({ event: IMessageEvent.LAUNCH_AUTH_FLOW });
+    const res = await publishEvent<Partial<IMessageBody>>({ event: IMessageEvent.LAUNCH_AUTH_FLOW });
 
-    if (res) {
+    if (res && !res.authError) {
       // auth success
 
       // close the modal
@@ -30,7 +53,7 @@ const AuthCard = ({ isAppEnabled, onClose }: Props) => {
     } else {
       // failed auth
       // show error message
-      setErrorMsg('❌ Failed to connect Fresh Inbox to your Gmail, Please try again.');
+      setErrorMsg(getAuthErrorMsg(res));
     }
   };
 
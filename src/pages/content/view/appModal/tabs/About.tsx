@@ -8,6 +8,7 @@ import { asyncHandler } from '@src/pages/content/utils/asyncHandler';
 import { storageKeys } from '@src/pages/content/constants/app.constants';
 import { showSnackbar } from '../../elements/snackbar';
 import { generateStorageKey } from '@src/pages/content/utils/generateStorageKey';
+import { DeleteProtectionPrefs } from './DeleteProtectionPrefs';
 
 type Props = {
   onAppDisable: () => void;
@@ -16,6 +17,7 @@ type Props = {
 export const About = ({ onAppDisable }: Props) => {
   // local state
   const [isCheckedAlertMsg, setIsCheckedAlertMsg] = useState(false);
+  const [isDryRunMode, setIsDryRunMode] = useState(false);
 
   useEffect(
     asyncHandler(async () => {
@@ -25,6 +27,9 @@ export const About = ({ onAppDisable }: Props) => {
       if (typeof shouldShowDeleteConfirmMsg === 'boolean') {
         setIsCheckedAlertMsg(shouldShowDeleteConfirmMsg);
       }
+
+      // dry run mode: delete/unsubscribe actions only show the report of the changes
+      setIsDryRunMode((await getSyncStorageByKey<boolean>(storageKeys.DRY_RUN_MODE)) === true);
     }),
     []
   );
@@ -42,6 +47,19 @@ export const About = ({ onAppDisable }: Props) => {
     showSnackbar({ title: 'Updated preferences', emails: [] });
   };
 
+  // on update dry run mode preference (checkbox)
+  const handleDryRunModeUpdate = async (value: boolean) => {
+    const storageKey = generateStorageKey(storageKeys.DRY_RUN_MODE);
+
+    await chrome.storage.sync.set({ [storageKey]: value });
+    setIsDryRunMode(value);
+
+    showSnackbar({
+      title: value ? 'Dry run mode is on, nothing will be deleted' : 'Dry run mode is off',
+      emails: [],
+    });
+  };
+
   /// action icons
   const UnsubscribeIcon = ActionIcons[EmailAction.unsubscribe];
   const DeleteAllMailsIcon = ActionIcons[EmailAction.deleteAllMails];
@@ -56,7 +74,7 @@ export const About = ({ onAppDisable }: Props) => {
   };
 
   return (
-    <div className='flex flex-col  py-8 px-6 relative h-full'>
+    <div className='flex flex-col  py-8 px-6 relative h-full overflow-y-auto'>
       <div className='text-lg font-medium m-0 mb-1.5 text-slate-600'>
         Fresh Inbox is
         <span
@@ -87,6 +105,17 @@ export const About = ({ onAppDisable }: Props) => {
           Don't show alert message for delete actions.
         </label>
       </div>
+      <div className='w-full flex items-center py-1.5 px-2'>
+        <Checkbox isChecked={isDryRunMode} onChange={handleDryRunModeUpdate} id='about-dryRunModeCheckbox' />
+        <label
+          className='text-sm font-light text-slate-700 ml-1.5 cursor-pointer'
+          htmlFor='about-dryRunModeCheckbox'
+        >
+          Dry run mode: only show a report of what delete & unsubscribe actions would do.
+        </label>
+      </div>
+      {/* delete protection */}
+      <DeleteProtectionPrefs />
 
       {/*****  divider ****** */}
       <hr className='h-[.5px] w-full bg-slate-100  opacity-25 rounded-sm my-1' />
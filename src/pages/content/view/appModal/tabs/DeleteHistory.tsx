@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { asyncHandler } from '@src/pages/content/utils/asyncHandler';
+import { publishEvent } from '@src/pages/content/utils/publishEvent';
+import { handleUndoDelete } from '@src/pages/content/utils/emailActions';
+import { limitCharLength } from '@src/pages/content/utils/limitCharLength';
+import { IMessageEvent, type TrashJournalSummary } from '@src/pages/content/types/content.types';
+import { Spinner } from '../../elements/Spinner';
+
+// delete operation labels
+const sourceLabels: Record<TrashJournalSummary['source'], string> = {
+  deleteAllMails: 'Delete all mails',
+  unsubscribeAndDeleteAllMails: 'Unsubscribe & Delete',
+  bulkDelete: 'Advance Search',
+  cleanupRule: 'Cleanup Rule',
+};
+
+// format timestamp, ex: 12 Oct, 10:45 AM
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+// delete history (trash journal), deleted mails can be restored within gmail's 30-day trash window
+const DeleteHistory = () => {
+  const [history, setHistory] = useState<TrashJournalSummary[]>([]);
+  const [errorMsg, setErrorMsg] = useState('');
+  // loading state
+  const [isFetchingHistory, setIsFetchingHistory] = useState(false);
+  // entry being restored
+  const [undoInProgressFor, setUndoInProgressFor] = useState<string | null>(null);
+
+  // get delete history from background
+  const getHistory = async () => {
+    const res = await publishEvent<TrashJournalSummary[]>({ event: IMessageEvent.GET_TRASH_JOURNAL });
+
+    if (res) {
+      setHistory(res);
+      setErrorMsg('');
+    } else {
+      setErrorMsg('❌ Failed to get delete history');
+    }
+  };
+
+  useEffect(
+    asyncHandler(async () => {
+      setIsFetchingHistory(true);
+      await getHistory();
+      setIsFetchingHistory(false);
+    }),
+    []
+  );
+
+  // handle undo click
+  const handleUndoClick = async (trashJournalId: string) => {
+    setUndoInProgressFor(trashJournalId);
+
+    const isSuccess = await handleUndoDelete(trashJournalId);
+
+    if (isSuccess) await getHistory();
+
+    setUndoInProgressFor(null);
+  };
+
+  // render undo button, restored/expired status
+  const renderAction = (entry: TrashJournalSummary) => {
+    if (undoInProgressFor === entry.id) return <Spinner size='sm' />;
+
+    if (entry.restoredAt) {
+      return <span className='text-xs text-emerald-600'>Restored {formatDateTime(entry.restoredAt)}</span>;
+    }
+
+    if (!entry.isUndoable) return <span className='text-xs text-slate-400'>Expired</span>;
+
+    return (
+      <button
+        className='text-xs px-3 py-1 rounded-md border-none bg-slate-200 text-slate-700 cursor-pointer transition-all duration-150 hover:bg-slate-300 disabled:cursor-default disabled:opacity-50'
+        onClick={asyncHandler(async () => await handleUndoClick(entry.id))}
+        disabled={!!undoInProgressFor}
+      >
+        Undo
+      </button>
+    );
+  };
+
+  const renderTable = () =>
+    history.length > 0 ? (
+      <div className='w-full h-full overflow-x-hidden overflow-y-auto z-20'>
+        {/* table container */}
+        <table className='w-full bg-slate-50 relative  z-30'>
+          {/* table header */}
+          <tr className='w-full sticky top-0 left-0 text-sm font-medium text-slate-600 bg-slate-200 flex items-center justify-between px-4 py-1.5 z-20'>
+            <td className='w-[5%]'>#</td>
+            <td className='w-[18%]'>Deleted on</td>
+            <td className='w-[20%]'>Action</td>
+            <td className='w-[30%]'>From</td>
+            <td className='w-[10%]'>Mails</td>
+            <td className='w-[17%] text-center'>Undo</td>
+          </tr>
+
+          {/* table rows */}
+          {history.map((entry, idx) => (
+            <tr
+              key={entry.id}
+              className='w-full flex items-center  justify-between px-4 odd:bg-slate-100 py-1.5 hover:bg-slate-200/60 transition-all duration-150 z-20'
+            >
+              <td className='text-sm w-[5%]'>{idx + 1}.</td>
+              <td className='text-sm w-[18%]'>{formatDateTime(entry.trashedAt)}</td>
+              <td className='text-sm w-[20%]'>{sourceLabels[entry.source]}</td>
+              <td className='text-sm w-[30%]' title={entry.emails.join(', ')}>
+                {entry.emails.length > 1
+                  ? `${entry.emails.length} emails`
+                  : limitCharLength(entry.emails[0] || 'Search results', 26)}
+              </td>
+              <td className='text-sm w-[10%]'>{entry.count}</td>
+              <td className='text-sm w-[17%] flex items-center justify-center'>{renderAction(entry)}</td>
+            </tr>
+          ))}
+        </table>
+      </div>
+    ) : (
+      <div className='text-slate-800 w-full text-center font-light'>
+        🗑️ No deleted mails in the last 30 days, mails you delete with Fresh Inbox can be restored from here.
+      </div>
+    );
+
+  return (
+    <div className='w-full h-full max-h-full'>
+      <p className='h-[5%] m-0 text-slate-700 mb-[.4rem] font-light text-sm flex items-center justify-center'>
+        Deleted mails stay in Gmail&apos;s trash for 30 days, undo a delete to move them back.
+      </p>
+
+      <div className='h-px w-full bg-slate-300' />
+
+      {/* bottom container */}
+      <div className='w-full h-[95%] flex flex-col justify-center items-start'>
+        {/* render table after loading or show error msg if failed */}
+        {isFetchingHistory ? (
+          <Spinner size='lg' />
+        ) : !errorMsg ? (
+          renderTable()
+        ) : (
+          <p className='text-red-400 bg-red-100/75 px-8  py-2 text font-light '>{errorMsg}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeleteHistory;
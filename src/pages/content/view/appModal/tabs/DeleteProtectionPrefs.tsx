@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { Checkbox } from '../../elements/Checkbox';
+import { showSnackbar } from '../../elements/snackbar';
+import { storageKeys } from '@src/pages/content/constants/app.constants';
+import type { DeleteProtection } from '@src/pages/content/types/content.types';
+import { asyncHandler } from '@src/pages/content/utils/asyncHandler';
+import { generateStorageKey } from '@src/pages/content/utils/generateStorageKey';
+import { getDeleteProtection } from '@src/pages/content/utils/deleteProtection';
+
+const inputClassName =
+  'appearance-none px-2 py-0.5 text-sm font-light text-slate-700 border border-slate-400 rounded bg-white';
+
+const labelClassName = 'text-sm font-light text-slate-700 ml-1.5 cursor-pointer';
+
+// protection rules (checkboxes)
+const protectionRules: {
+  key: 'excludeStarred' | 'excludeImportant' | 'excludeSentThreads';
+  label: string;
+}[] = [
+  { key: 'excludeStarred', label: 'Starred' },
+  { key: 'excludeImportant', label: 'Important' },
+  { key: 'excludeSentThreads', label: 'Threads you replied to' },
+];
+
+// delete protection preferences: mails that are never deleted & the max mails per delete
+// (deleting more needs a typed confirmation)
+export const DeleteProtectionPrefs = () => {
+  const [protection, setProtection] = useState<DeleteProtection | null>(null);
+
+  // text inputs are saved on blur
+  const [labelsInput, setLabelsInput] = useState('');
+  const [limitInput, setLimitInput] = useState('');
+
+  useEffect(
+    asyncHandler(async () => {
+      const savedProtection = await getDeleteProtection();
+
+      setProtection(savedProtection);
+      setLabelsInput(savedProtection.protectedLabels.join(', '));
+      setLimitInput(savedProtection.maxDeleteCount ? `${savedProtection.maxDeleteCount}` : '');
+    }),
+    []
+  );
+
+  // save the updated preferences to sync storage
+  const saveProtection = async (update: Partial<DeleteProtection>) => {
+    const updatedProtection = { ...protection, ...update };
+
+    await chrome.storage.sync.set({ [generateStorageKey(storageKeys.DELETE_PROTECTION)]: updatedProtection });
+    setProtection(updatedProtection);
+
+    showSnackbar({ title: 'Updated preferences', emails: [] });
+  };
+
+  // protected label names (comma separated)
+  const handleLabelsBlur = async () => {
+    const protectedLabels = labelsInput
+      .split(',')
+      .map(label => label.trim())
+      .filter(Boolean);
+
+    setLabelsInput(protectedLabels.join(', '));
+
+    if (protectedLabels.join() === protection.protectedLabels.join()) return;
+
+    await saveProtection({ protectedLabels });
+  };
+
+  // max mails per delete, empty for no limit
+  const handleLimitBlur = async () => {
+    const limit = Math.floor(Number(limitInput));
+    const maxDeleteCount = limit > 0 ? limit : null;
+
+    setLimitInput(maxDeleteCount ? `${maxDeleteCount}` : '');
+
+    if (maxDeleteCount === protection.maxDeleteCount) return;
+
+    await saveProtection({ maxDeleteCount });
+  };
+
+  if (!protection) return null;
+
+  return (
+    <div className='w-full flex flex-col py-1.5 px-2'>
+      <span className='text-sm font-light text-slate-700'>Never delete these emails:</span>
+
+      {/* protection rules */}
+      <div className='flex items-center flex-wrap mt-1.5'>
+        {protectionRules.map(({ key, label }) => (
+          <div key={key} className='flex items-center mr-4'>
+            <Checkbox
+              isChecked={protection[key]}
+              onChange={asyncHandler(async () => await saveProtection({ [key]: !protection[key] }))}
+              id={`about-protection-${key}`}
+            />
+            <label className={labelClassName} htmlFor={`about-protection-${key}`}>
+              {label}
+            </label>
+          </div>
+        ))}
+      </div>
+
+      {/* protected labels */}
+      <div className='flex items-center mt-2'>
+        <label className='text-sm font-light text-slate-700 w-48' htmlFor='about-protection-labels'>
+          With labels (comma separated)
+        </label>
+        <input
+          type='text'
+          id='about-protection-labels'
+          placeholder='Receipts, Work'
+          value={labelsInput}
+          onChange={ev => setLabelsInput(ev.target.value)}
+          onBlur={asyncHandler(handleLabelsBlur)}
+          className={`${inputClassName} w-60`}
+        />
+      </div>
+
+      {/* delete limit */}
+      <div className='flex items-center mt-2'>
+        <label className='text-sm font-light text-slate-700 w-48' htmlFor='about-protection-limit'>
+          Max emails per delete
+        </label>
+        <input
+          type='number'
+          min={1}
+          id='about-protection-limit'
+          placeholder='No limit'
+          value={limitInput}
+          onChange={ev => setLimitInput(ev.target.value)}
+          onBlur={asyncHandler(handleLimitBlur)}
+          className={`${inputClassName} w-28`}
+        />
+        <span className='text-xs font-light text-slate-500 ml-2'>
+          More than this needs a typed confirmation.
+        </span>
+      </div>
+    </div>
+  );
+};
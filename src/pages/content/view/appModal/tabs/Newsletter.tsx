@@ -1,28 +1,97 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Spinner } from '../../elements/Spinner';
 import { Checkbox } from '../../elements/Checkbox';
-import { IMessageEvent, IMessageBody, IActionInProgress, EmailAction } from '../../../types/content.types';
+import {
+  IMessageEvent,
+  IMessageBody,
+  IActionInProgress,
+  EmailAction,
+  SenderStats,
+} from '../../../types/content.types';
 import { storageKeys } from '../../../constants/app.constants';
 import { asyncHandler } from '@src/pages/content/utils/asyncHandler';
 import {
   handleDeleteAllMailsAction,
+  handleFilterAction,
   handleUnsubscribeAction,
   handleUnsubscribeAndDeleteAction,
   handleWhitelistAction,
 } from '@src/pages/content/utils/emailActions';
 import { showConfirmModal } from '../../elements/confirmModal';
+import { showDeleteOptionsPopover } from '../../elements/deleteOptionsPopover';
+import Tooltip from '../../elements/TooltipReact';
 import { getLocalStorageByKey } from '@src/pages/content/utils/getStorageByKey';
 import { limitCharLength } from '@src/pages/content/utils/limitCharLength';
 import ActionButton from '../../elements/action-button';
 import { logger } from '@src/pages/content/utils/logger';
 import InfoIcon from '../../elements/InfoIcon';
 import { publishEvent } from '@src/pages/content/utils/publishEvent';
+import { formatBytes } from '@src/pages/content/utils/formatBytes';
+import { getDomainRule, getEntryLabel } from '@src/pages/content/utils/domainRule';
+import {
+  filterActionInfo,
+  getFilterActionByEmailAction,
+  senderFilterActions,
+} from '@src/pages/content/utils/filterActions';
 
 type NewsletterData = {
   email: string;
   name: string;
+  // not present for the data stored before the stats were added
+  stats?: SenderStats;
+};
+
+// tooltip of the sampled sender stats
+const sampledStatsTitle =
+  'Approximate: counted from the scanned newsletter mails only, the sender may have more mails';
+
+// table columns that can be sorted
+type SortColumn = 'name' | 'email' | 'count' | 'unread' | 'lastReceived' | 'size';
+
+type SortBy = {
+  column: SortColumn;
+  order: 'asc' | 'desc';
+};
+
+// get the value of the column to sort by
+const getSortValue = ({ name, email, stats }: NewsletterData, column: SortColumn): string | number => {
+  switch (column) {
+    case 'name':
+      return name.toLowerCase();
+    case 'email':
+      return email.toLowerCase();
+    case 'count':
+      return stats?.count || 0;
+    case 'unread':
+      // unread ratio
+      return stats?.count ? stats.unreadCount / stats.count : 0;
+    case 'lastReceived':
+      return stats?.lastReceived || 0;
+    case 'size':
+      return stats?.totalSize || 0;
+  }
+};
+
+// sort newsletter emails by column
+const sortNewsletterEmails = (newsletterEmails: NewsletterData[], sortBy: SortBy | null) => {
+  if (!sortBy) return newsletterEmails;
+
+  return [...newsletterEmails].sort((a, b) => {
+    const valueA = getSortValue(a, sortBy.column);
+    const valueB = getSortValue(b, sortBy.column);
+
+    const result = valueA > valueB ? 1 : valueA < valueB ? -1 : 0;
+
+    return sortBy.order === 'asc' ? result : -result;
+  });
 };
 
+// ex: 12 Mar 2023
+const formatDate = (timestamp?: number) =>
+  timestamp
+    ? new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })
+    : '-';
+
 const getNewsletterEmailsData = async (shouldRefreshData = false) => {
   try {
     let newsletterEmails: NewsletterData[] = [];
@@ -75,6 +144,14 @@ export const Newsletter = () => {
   const [isFetchingNewsletterEmails, setIsFetchingNewsletterEmails] = useState(false);
   // error state for data fetching
   const [errorMsg, setErrorMsg] = useState('');
+  // table sort column & order (null: order in which the emails were found)
+  const [sortBy, setSortBy] = useState<SortBy | null>(null);
+
+  // sorted newsletter emails for the table
+  const sortedNewsletterEmails = useMemo(
+    () => sortNewsletterEmails(newsletterEmails || [], sortBy),
+    [newsletterEmails, sortBy]
+  );
 
   // email actions states
   // current email/emails that are being unsubscribed, deleted, whitelisted, etc.
@@ -133,6 +210,7 @@ export const Newsletter = () => {
       if (emailActionsInProgressFor.action === 'deleteAllMails') {
         await handleDeleteAllMailsAction({
           emails: emailActionsInProgressFor.emails,
+          retention: emailActionsInProgressFor.retention,
           onSuccess: async () => {
             await refreshTable();
           },
@@ -152,6 +230,29 @@ export const Newsletter = () => {
       if (emailActionsInProgressFor.action === 'whitelistEmail') {
         await handleWhitelistAction({ emails: emailActionsInProgressFor.emails });
         await refreshTable();
+        return;
+      }
+
+      // filter actions (skip inbox, mark read, move to label)
+      const filterAction = getFilterActionByEmailAction(emailActionsInProgressFor.action);
+
+      if (filterAction) {
+        await handleFilterAction({ emails: emailActionsInProgressFor.emails, filterAction });
+        await refreshTable();
+        return;
+      }
+
+      // domain rules (all the emails from the sender's domain)
+      const domainRules = [...new Set(emailActionsInProgressFor.emails.map(getDomainRule))];
+
+      if (emailActionsInProgressFor.action === 'unsubscribeDomain') {
+        await handleUnsubscribeAction({ emails: domainRules, isWhitelisted: false });
+        await refreshTable();
+        return;
+      }
+      if (emailActionsInProgressFor.action === 'whitelistDomain') {
+        await handleWhitelistAction({ emails: domainRules });
+        await refreshTable();
       }
     }),
     [emailActionsInProgressFor]
@@ -174,29 +275,70 @@ export const Newsletter = () => {
         isDisabled={selectedEmails.length > 0 || emailActionsInProgressFor?.emails.length > 1}
       />
 
+      <div className='flex items-center'>
+        <ActionButton
+          action={EmailAction.deleteAllMails}
+          tooltipLabel='Delete all mails'
+          onClick={async () =>
+            await showConfirmModal({
+              email,
+              msg: 'Are you sure you want to delete all mails from',
+              onConfirmClick: async () => {
+                setEmailActionsInProgressFor({ emails: [email], action: 'deleteAllMails' });
+              },
+            })
+          }
+          isDisabled={selectedEmails.length > 0 || emailActionsInProgressFor?.emails.length > 1}
+        />
+        {/* delete options: keep latest, older than, unread only (confirmed with the mails count) */}
+        <Tooltip label={selectedEmails.length > 0 ? '' : 'Delete options'}>
+          <button
+            className='ml-0.5 text-sm text-slate-600 border-none bg-transparent rounded-md cursor-pointer px-0.5 disabled:opacity-20 disabled:cursor-default'
+            onClick={ev =>
+              showDeleteOptionsPopover({
+                anchorEl: ev.currentTarget,
+                onDeleteClick: async retention => {
+                  setEmailActionsInProgressFor({ emails: [email], action: 'deleteAllMails', retention });
+                },
+              })
+            }
+            disabled={selectedEmails.length > 0 || emailActionsInProgressFor?.emails.length > 1}
+          >
+            &#8943;
+          </button>
+        </Tooltip>
+      </div>
       <ActionButton
-        action={EmailAction.deleteAllMails}
-        tooltipLabel='Delete all mails'
+        action={EmailAction.unsubscribeAndDeeAllMails}
+        tooltipLabel='Unsubscribe & Delete all'
         onClick={async () =>
           await showConfirmModal({
             email,
-            msg: 'Are you sure you want to delete all mails from',
+            msg: 'Are you sure you want to delete all mails and unsubscribe from',
             onConfirmClick: async () => {
-              setEmailActionsInProgressFor({ emails: [email], action: 'deleteAllMails' });
+              setEmailActionsInProgressFor({ emails: [email], action: 'unsubscribeAndDeeAllMails' });
             },
           })
         }
         isDisabled={selectedEmails.length > 0 || emailActionsInProgressFor?.emails.length > 1}
       />
+
       <ActionButton
-        action={EmailAction.unsubscribeAndDeeAllMails}
-        tooltipLabel='Unsubscribe & Delete all'
+        action={EmailAction.whitelistDomain}
+        tooltipLabel='Always keep this domain'
+        onClick={() => setEmailActionsInProgressFor({ emails: [email], action: 'whitelistDomain' })}
+        isDisabled={selectedEmails.length > 0 || emailActionsInProgressFor?.emails.length > 1}
+      />
+
+      <ActionButton
+        action={EmailAction.unsubscribeDomain}
+        tooltipLabel='Unsubscribe from entire domain'
         onClick={async () =>
           await showConfirmModal({
-            email,
-            msg: 'Are you sure you want to delete all mails and unsubscribe from',
+            email: getEntryLabel(getDomainRule(email)),
+            msg: 'Are you sure you want to unsubscribe from all the emails of',
             onConfirmClick: async () => {
-              setEmailActionsInProgressFor({ emails: [email], action: 'unsubscribeAndDeeAllMails' });
+              setEmailActionsInProgressFor({ emails: [email], action: 'unsubscribeDomain' });
             },
           })
         }
@@ -219,6 +361,32 @@ export const Newsletter = () => {
     return actionButtons(email);
   };
 
+  // handle sort column click: sort desc first (noisiest/least-read senders on top), then toggle order
+  const handleSortClick = (column: SortColumn) => {
+    setSortBy(prevSortBy => {
+      if (prevSortBy?.column !== column) {
+        return { column, order: column === 'name' || column === 'email' ? 'asc' : 'desc' };
+      }
+
+      return { column, order: prevSortBy.order === 'asc' ? 'desc' : 'asc' };
+    });
+  };
+
+  // render sortable table header cell
+  const renderSortableHeader = (column: SortColumn, label: string, className: string) => (
+    <td className={className}>
+      <button
+        className='flex items-center gap-x-0.5 hover:text-slate-800 transition-colors duration-150'
+        onClick={() => handleSortClick(column)}
+      >
+        {label}
+        <span className='text-[.6rem] w-2'>
+          {sortBy?.column === column ? (sortBy.order === 'asc' ? '▲' : '▼') : ''}
+        </span>
+      </button>
+    </td>
+  );
+
   // render newsletter table
   const renderTable = () => {
     return newsletterEmails.length > 0 ? (
@@ -244,10 +412,14 @@ export const Newsletter = () => {
                   }}
                 />{' '}
               </td>
-              <td className='w-[5%]'>#</td>
-              <td className='w-[30%] ml-1'>Name</td>
-              <td className='w-[30%] ml-1'>Email</td>
-              <td className='w-[30%] text-center pr-4'>Action </td>
+              <td className='w-[4%]'>#</td>
+              {renderSortableHeader('name', 'Name', 'w-[14%] ml-1')}
+              {renderSortableHeader('email', 'Email', 'w-[18%] ml-1')}
+              {renderSortableHeader('count', 'Emails', 'w-[7%]')}
+              {renderSortableHeader('unread', 'Unread', 'w-[7%]')}
+              {renderSortableHeader('lastReceived', 'Last received', 'w-[10%]')}
+              {renderSortableHeader('size', 'Size', 'w-[7%]')}
+              <td className='w-[29%] text-center pr-4'>Action </td>
             </tr>
             {/* if only 1 data row then add extra margin on top before the fist row for the tooltip to be readable */}
             {newsletterEmails.length === 1 ? (
@@ -255,7 +427,7 @@ export const Newsletter = () => {
             ) : null}
 
             {/* table rows */}
-            {newsletterEmails.map(({ email, name }, idx) => (
+            {sortedNewsletterEmails.map(({ email, name, stats }, idx) => (
               <tr
                 key={email + name}
                 className='w-full flex items-center  justify-between px-4 odd:bg-slate-100 py-1.5 hover:bg-slate-200/60 transition-all duration-150 z-20'
@@ -275,12 +447,33 @@ export const Newsletter = () => {
                     }}
                   />
                 </td>
-                <td className='text-sm w-[5%]'>{idx + 1}.</td>
-                <td className='text-sm ml-1 w-[30%]'>
-                  {limitCharLength(name.replaceAll(`\\`, '').trim(), 22)}
+                <td className='text-sm w-[4%]'>{idx + 1}.</td>
+                <td className='text-sm ml-1 w-[14%]'>
+                  {limitCharLength(name.replaceAll(`\\`, '').trim(), 14)}
+                </td>
+                <td className='text-sm w-[18%]'>{limitCharLength(email, 20)}</td>
+                <td className='text-sm w-[7%]' title={stats?.isSampled ? sampledStatsTitle : undefined}>
+                  {stats ? `${stats.isSampled ? '~' : ''}${stats.count.toLocaleString()}` : '-'}
+                </td>
+                <td className='text-sm w-[7%]' title={stats?.isSampled ? sampledStatsTitle : undefined}>
+                  {stats?.count
+                    ? `${stats.isSampled ? '~' : ''}${Math.round((stats.unreadCount / stats.count) * 100)}%`
+                    : '-'}
+                </td>
+                <td
+                  className='text-sm w-[10%]'
+                  title={
+                    stats
+                      ? `First received: ${stats.isSampled ? '~' : ''}${formatDate(stats.firstReceived)}`
+                      : undefined
+                  }
+                >
+                  {formatDate(stats?.lastReceived)}
+                </td>
+                <td className='text-sm w-[7%]' title={stats?.isSampled ? sampledStatsTitle : undefined}>
+                  {stats ? `${stats.isSampled ? '~' : ''}${formatBytes(stats.totalSize)}` : '-'}
                 </td>
-                <td className='text-sm w-[30%]'>{limitCharLength(email, 32)}</td>
-                <td className='text-sm w-[30%] flex items-center justify-evenly  pr-4'>
+                <td className='text-sm w-[29%] flex items-center justify-evenly  pr-4'>
                   {/* render action button or loading spinner (if action in progress) */}
                   {renderActionButtons(email)}
                 </td>
@@ -288,7 +481,7 @@ export const Newsletter = () => {
             ))}
             {/* refresh table button */}
             <tr>
-              <td colSpan={5} className='w-full flex justify-center items-start '>
+              <td colSpan={9} className='w-full flex justify-center items-start '>
                 <InfoIcon />
 
                 <span className='text-xs text-slate-500 font-thin text-center ml-px'>
@@ -312,12 +505,12 @@ export const Newsletter = () => {
             ) : (
               <>
                 {/* email selected  */}
-                <span className='text-sm text-slate-600 font-extralight w-[75%]'>
+                <span className='text-sm text-slate-600 font-extralight w-[60%]'>
                   {selectedEmails.length}{' '}
                   {selectedEmails.length > 1 ? 'Emails' : `Email (${selectedEmails[0]})`} selected
                 </span>
                 {/*  email action  */}
-                <div className='mr-10 w-[25%]  '>
+                <div className='mr-10 w-[40%]  '>
                   {emailActionsInProgressFor?.emails.length > 0 ? (
                     // show loading spinner if action in progress
                     <Spinner size='sm' />
@@ -365,6 +558,20 @@ export const Newsletter = () => {
                           })
                         }
                       />
+                      {/* filter actions: skip inbox, mark read, move to label */}
+                      {senderFilterActions.map(filterAction => (
+                        <ActionButton
+                          key={filterAction}
+                          action={filterActionInfo[filterAction].emailAction}
+                          tooltipLabel={filterActionInfo[filterAction].label}
+                          onClick={() =>
+                            setEmailActionsInProgressFor({
+                              emails: [...selectedEmails],
+                              action: filterActionInfo[filterAction].emailAction,
+                            })
+                          }
+                        />
+                      ))}
                     </div>
                   )}
                 </div>
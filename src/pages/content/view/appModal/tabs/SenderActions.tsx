@@ -0,0 +1,258 @@
+import { asyncHandler } from '@src/pages/content/utils/asyncHandler';
+import { getFilterActionEmails } from '@src/pages/content/utils/getEmailsFromStorage';
+import { useEffect, useState } from 'react';
+import ActionButton from '../../elements/action-button';
+import { Checkbox } from '../../elements/Checkbox';
+import { Spinner } from '../../elements/Spinner';
+import { EmailAction, FILTER_ACTION, type IActionInProgress } from '@src/pages/content/types/content.types';
+import { handleRemoveFilterAction } from '@src/pages/content/utils/emailActions';
+import { limitCharLength } from '@src/pages/content/utils/limitCharLength';
+import {
+  filterActionInfo,
+  senderFilterActions,
+  type SenderFilterAction,
+} from '@src/pages/content/utils/filterActions';
+
+// senders with the filter actions: skip inbox, mark read & move to label
+const SenderActions = () => {
+  // selected filter action
+  const [filterAction, setFilterAction] = useState<SenderFilterAction>(FILTER_ACTION.SKIP_INBOX);
+  // senders of the selected filter action
+  const [senderEmails, setSenderEmails] = useState<string[]>([]);
+  const [errorMsg, setErrorMsg] = useState('');
+  // loading state
+  const [isFetchingSenderEmails, setIsFetchingSenderEmails] = useState(false);
+  // selected emails
+  const [selectedEmails, setSelectedEmails] = useState<string[]>([]);
+
+  // email actions states
+  // current email/emails that are being removed from the filter action
+  const [actionInProgressFor, setEmailActionsInProgressFor] = useState<IActionInProgress | null>(null);
+
+  // get senders of the selected filter action
+  const refreshSenderEmails = async () => {
+    const emails = await getFilterActionEmails(filterAction);
+
+    if (emails) {
+      setSenderEmails(emails);
+      setErrorMsg('');
+    } else {
+      setErrorMsg('❌ Failed to get senders list');
+    }
+  };
+
+  // get senders on filter action change
+  useEffect(
+    asyncHandler(async () => {
+      // set loading state
+      setIsFetchingSenderEmails(true);
+      setSelectedEmails([]);
+
+      await refreshSenderEmails();
+
+      // reset loading state
+      setIsFetchingSenderEmails(false);
+    }),
+    [filterAction]
+  );
+
+  // handle email action (remove from filter action)
+  useEffect(
+    asyncHandler(async () => {
+      // do nothing if no email action in progress
+      if (!actionInProgressFor || actionInProgressFor.emails.length < 1) return;
+
+      if (actionInProgressFor.action === 'removeFilterAction') {
+        const isSuccess = await handleRemoveFilterAction({
+          emails: actionInProgressFor.emails,
+          filterAction,
+        });
+
+        if (isSuccess) {
+          // reset state
+          await refreshSenderEmails();
+          setSelectedEmails([]);
+        }
+        setEmailActionsInProgressFor(null);
+      }
+    }),
+    [actionInProgressFor]
+  );
+
+  const renderTable = () => {
+    // action button for each email
+    const actionButton = (email: string) => (
+      <ActionButton
+        action={EmailAction.removeFilterAction}
+        tooltipLabel={`Remove from ${filterActionInfo[filterAction].label}`}
+        onClick={() => setEmailActionsInProgressFor({ emails: [email], action: 'removeFilterAction' })}
+        isDisabled={selectedEmails.length > 0 || actionInProgressFor?.emails.length > 1}
+      />
+    );
+
+    // render action buttons or spinner based on loading state
+    const renderActionButtons = (email: string) => {
+      if (
+        selectedEmails.length < 1 &&
+        actionInProgressFor?.emails.length === 1 &&
+        actionInProgressFor?.emails.includes(email)
+      ) {
+        // render loading spinner if a action is in progress for this email
+        return <Spinner size='sm' />;
+      }
+
+      return actionButton(email);
+    };
+
+    return senderEmails.length > 0 ? (
+      <>
+        {/* emails table */}
+        <div className='w-full  h-[90%] overflow-x-hidden overflow-y-auto z-20'>
+          {/* table container */}
+          <table className='w-full h-full bg-slate-50 relative  z-30'>
+            {/* table header */}
+            <tr className='w-full sticky top-0 left-0 text-sm font-medium text-slate-600 bg-slate-200 flex items-center justify-between px-4 py-1.5 z-20'>
+              <td className='w-[5%]'>
+                <Checkbox
+                  isChecked={selectedEmails.length === senderEmails.length}
+                  onChange={isChecked => {
+                    if (!isChecked) {
+                      // handle deselect all
+                      setSelectedEmails([]);
+                      return;
+                    }
+
+                    // handle select all
+                    setSelectedEmails([...senderEmails]);
+                  }}
+                />{' '}
+              </td>
+              <td className='w-[5%]'>#</td>
+              <td className='w-[60%] ml-1'>Email</td>
+              <td className='w-[30%] text-center'>Action </td>
+            </tr>
+
+            {/* if only 1 data row then add extra margin on top before the fist row for the tooltip to be readable */}
+            {senderEmails.length === 1 ? (
+              <tr className='w-full text-sm text-slate-600  flex items-center bg-slate-100 justify-center px-4 py-1 mt-3.5'></tr>
+            ) : null}
+            {/* table rows */}
+            {senderEmails.map((email, idx) => (
+              <tr
+                key={email}
+                className='w-full flex items-center  justify-between px-4 odd:bg-slate-100 py-1.5 hover:bg-slate-200/60 transition-all duration-150 z-20'
+              >
+                <td className='w-[5%]'>
+                  <Checkbox
+                    isChecked={selectedEmails.includes(email)}
+                    onChange={isChecked => {
+                      if (!isChecked) {
+                        // unchecked, remove the email from the list
+                        setSelectedEmails(prevEmails => prevEmails.filter(e => e !== email));
+                        return;
+                      }
+
+                      // checked, add the email to the list
+                      setSelectedEmails(prevEmails => [...prevEmails, email]);
+                    }}
+                  />
+                </td>
+                <td className='text-sm w-[5%]'>{idx + 1}.</td>
+                <td className='text-sm w-[60%]'>{limitCharLength(email, 32)}</td>
+                <td className='text-sm w-[30%] flex items-center justify-center'>
+                  {/* render action button or loading spinner (if action in progress) */}
+                  {renderActionButtons(email)}
+                </td>
+              </tr>
+            ))}
+            {/* refresh table button */}
+            <tr>
+              <td colSpan={4} className='w-full flex justify-center items-center'></td>
+            </tr>
+          </table>
+        </div>
+
+        {/* selected emails */}
+        <div className='h-[10%] max-w-full overflow-hidden z-50 w-full bg-slate-200 flex justify-between items-center border-t border-slate-500/50'>
+          <div className='px-4 w-full h-full flex justify-between items-center'>
+            {selectedEmails.length < 1 ? (
+              // no email selected
+              <span className='text-xs text-slate-600 font-extralight'>
+                Select one or more emails to remove them from {filterActionInfo[filterAction].label}
+              </span>
+            ) : (
+              <>
+                {/* email selected  */}
+                <span className='text-sm text-slate-600 font-extralight w-[75%]'>
+                  {selectedEmails.length}{' '}
+                  {selectedEmails.length > 1 ? 'Emails' : `Email (${selectedEmails[0]})`} selected
+                </span>
+                <div className='mr-10 w-[25%]  '>
+                  {actionInProgressFor?.emails.length > 0 ? (
+                    // show loading spinner if action in progress
+                    <Spinner size='sm' />
+                  ) : (
+                    // show possible actions for selected emails
+                    <div className='flex items-centers justify-center min-w-fit z-50'>
+                      <ActionButton
+                        action={EmailAction.removeFilterAction}
+                        tooltipLabel={`Remove from ${filterActionInfo[filterAction].label}`}
+                        onClick={() =>
+                          setEmailActionsInProgressFor({
+                            emails: [...selectedEmails],
+                            action: 'removeFilterAction',
+                          })
+                        }
+                      />
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </>
+    ) : (
+      <div className='text-slate-800 w-full text-center font-light'>
+        📭 No senders found, use the {filterActionInfo[filterAction].label} action on newsletters to see them
+        here.
+      </div>
+    );
+  };
+
+  return (
+    <div className='w-full h-full max-h-full'>
+      {/* filter actions */}
+      <div className='h-[5%] m-0 mb-[.4rem] flex items-center justify-center gap-x-2'>
+        {senderFilterActions.map(action => (
+          <button
+            key={action}
+            className={`text-xs px-2.5 py-1 rounded-md border-none cursor-pointer transition-all duration-150 ${
+              action === filterAction ? 'bg-emerald-500 text-white' : 'bg-slate-200 text-slate-700'
+            }`}
+            onClick={() => setFilterAction(action)}
+            disabled={isFetchingSenderEmails || actionInProgressFor?.emails.length > 0}
+          >
+            {filterActionInfo[action].label} {action === filterAction ? `(${senderEmails.length})` : ''}
+          </button>
+        ))}
+      </div>
+
+      <div className='h-px w-full bg-slate-300' />
+
+      {/* bottom container */}
+      <div className='w-full h-[95%] flex flex-col justify-center items-start'>
+        {/* render table after loading or show error msg if failed */}
+        {isFetchingSenderEmails ? (
+          <Spinner size='lg' />
+        ) : !errorMsg ? (
+          renderTable()
+        ) : (
+          <p className='text-red-400 bg-red-100/75 px-8  py-2 text font-light '>{errorMsg}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SenderActions;
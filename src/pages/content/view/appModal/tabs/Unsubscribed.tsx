@@ -7,6 +7,8 @@ import { Spinner } from '../../elements/Spinner';
 import { EmailAction, type IActionInProgress } from '@src/pages/content/types/content.types';
 import { handleReSubscribeAction } from '@src/pages/content/utils/emailActions';
 import { limitCharLength } from '@src/pages/content/utils/limitCharLength';
+import { getEntryLabel, isDomainRule } from '@src/pages/content/utils/domainRule';
+import { EntryTypeBadge } from '../../elements/EntryTypeBadge';
 
 const Unsubscribed = () => {
   // unsubscribed emails
@@ -123,7 +125,8 @@ const Unsubscribed = () => {
               </td>
               <td className='w-[5%]'>#</td>
               <td className='w-[50%] ml-1'>Email</td>
-              <td className='w-[40%] text-center'>Action </td>
+              <td className='w-[15%]'>Type</td>
+              <td className='w-[25%] text-center'>Action </td>
             </tr>
 
             {/* if only 1 data row then add extra margin on top before the fist row for the tooltip to be readable */}
@@ -152,8 +155,11 @@ const Unsubscribed = () => {
                   />
                 </td>
                 <td className='text-sm w-[5%]'>{idx + 1}.</td>
-                <td className='text-sm w-[50%]'>{limitCharLength(email, 32)}</td>
-                <td className='text-sm w-[40%] flex items-center justify-center'>
+                <td className='text-sm w-[50%]'>{limitCharLength(getEntryLabel(email), 32)}</td>
+                <td className='text-sm w-[15%]'>
+                  <EntryTypeBadge entry={email} />
+                </td>
+                <td className='text-sm w-[25%] flex items-center justify-center'>
                   {/* render action button or loading spinner (if action in progress) */}
                   {renderActionButtons(email)}
                 </td>
@@ -179,7 +185,8 @@ const Unsubscribed = () => {
                 {/* email selected  */}
                 <span className='text-sm text-slate-600 font-extralight w-[75%]'>
                   {selectedEmails.length}{' '}
-                  {selectedEmails.length > 1 ? 'Emails' : `Email (${selectedEmails[0]})`} selected
+                  {selectedEmails.length > 1 ? 'Emails' : `Email (${getEntryLabel(selectedEmails[0])})`}{' '}
+                  selected
                 </span>
                 <div className='mr-10 w-[25%]  '>
                   {actionInProgressFor?.emails.length > 0 ? (
@@ -216,8 +223,10 @@ const Unsubscribed = () => {
   return (
     <div className='w-full h-full max-h-full'>
       <p className='h-[5%] m-0 text-slate-700 mb-[.4rem] font-light text-sm flex items-center justify-center'>
-        Fresh Inbox has unsubscribed <u className='mx-1'>{unsubscribedEmails.length}</u> emails to keep your
-        📨 inbox clean
+        Fresh Inbox has unsubscribed{' '}
+        <u className='mx-1'>{unsubscribedEmails.filter(email => !isDomainRule(email)).length}</u> emails &
+        <u className='mx-1'>{unsubscribedEmails.filter(isDomainRule).length}</u> domains to keep your 📨 inbox
+        clean
       </p>
 
       <div className='h-px w-full bg-slate-300' />
@@ -7,6 +7,8 @@ import { Spinner } from '../../elements/Spinner';
 import { EmailAction, type IActionInProgress } from '@src/pages/content/types/content.types';
 import { handleReSubscribeAction } from '@src/pages/content/utils/emailActions';
 import { limitCharLength } from '@src/pages/content/utils/limitCharLength';
+import { getEntryLabel, isDomainRule } from '@src/pages/content/utils/domainRule';
+import { EntryTypeBadge } from '../../elements/EntryTypeBadge';
 import { showConfirmModal } from '../../elements/confirmModal';
 
 const Whitelisted = () => {
@@ -90,7 +92,10 @@ const Whitelisted = () => {
               },
             })
           }
-          isDisabled={selectedEmails.length > 0 || actionInProgressFor?.emails.length > 1}
+          // mails can't be searched with domain rules (*@domain), delete is only for emails
+          isDisabled={
+            selectedEmails.length > 0 || actionInProgressFor?.emails.length > 1 || isDomainRule(email)
+          }
         />
         <ActionButton
           action={EmailAction.unsubscribeAndDeeAllMails}
@@ -104,7 +109,9 @@ const Whitelisted = () => {
               },
             })
           }
-          isDisabled={selectedEmails.length > 0 || actionInProgressFor?.emails.length > 1}
+          isDisabled={
+            selectedEmails.length > 0 || actionInProgressFor?.emails.length > 1 || isDomainRule(email)
+          }
         />
       </>
     );
@@ -147,7 +154,8 @@ const Whitelisted = () => {
                 />{' '}
               </td>
               <td className='w-[5%]'>#</td>
-              <td className='w-[60%] ml-1'>Email</td>
+              <td className='w-[45%] ml-1'>Email</td>
+              <td className='w-[15%]'>Type</td>
               <td className='w-[30%] text-center'>Action </td>
             </tr>
 
@@ -177,7 +185,10 @@ const Whitelisted = () => {
                   />
                 </td>
                 <td className='text-sm w-[5%]'>{idx + 1}.</td>
-                <td className='text-sm w-[60%]'>{limitCharLength(email, 32)}</td>
+                <td className='text-sm w-[45%]'>{limitCharLength(getEntryLabel(email), 32)}</td>
+                <td className='text-sm w-[15%]'>
+                  <EntryTypeBadge entry={email} />
+                </td>
                 <td className='text-sm w-[30%] flex items-center justify-evenly '>
                   {/* render action button or loading spinner (if action in progress) */}
                   {renderActionButtons(email)}
@@ -205,7 +216,8 @@ const Whitelisted = () => {
                 {/* email selected  */}
                 <span className='text-sm text-slate-600 font-extralight w-[75%]'>
                   {selectedEmails.length}{' '}
-                  {selectedEmails.length > 1 ? 'Emails' : `Email (${selectedEmails[0]})`} selected
+                  {selectedEmails.length > 1 ? 'Emails' : `Email (${getEntryLabel(selectedEmails[0])})`}{' '}
+                  selected
                 </span>
                 <div className='mr-10 w-[25%]  '>
                   {actionInProgressFor?.emails.length > 0 ? (
@@ -263,7 +275,9 @@ const Whitelisted = () => {
   return (
     <div className='w-full h-full max-h-full'>
       <p className='h-[5%] m-0 text-slate-700 mb-[.4rem] font-light text-sm flex items-center justify-center'>
-        You have whitelisted <u className='mx-1'>{whitelistedEmails.length}</u> emails to keep them coming to
+        You have whitelisted{' '}
+        <u className='mx-1'>{whitelistedEmails.filter(email => !isDomainRule(email)).length}</u> emails &{' '}
+        <u className='mx-1'>{whitelistedEmails.filter(isDomainRule).length}</u> domains to keep them coming to
         your inbox.
       </p>
 
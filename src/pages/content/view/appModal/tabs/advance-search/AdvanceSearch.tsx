@@ -1,50 +1,101 @@
 import { useState } from 'react';
 import { Spinner } from '../../../elements/Spinner';
 import SearchForm from './SearchForm';
-import {
-  IMessageEvent,
-  type IMessageBody,
-  type SearchFormData,
-} from '@src/pages/content/types/content.types';
+import SearchPreview from './SearchPreview';
+import { IMessageEvent, type JobSummary, type SearchFormData } from '@src/pages/content/types/content.types';
 import { logger } from '@src/pages/content/utils/logger';
 import InfoIcon from '../../../elements/InfoIcon';
 import { showConfirmModal } from '../../../elements/confirmModal';
 import { showSnackbar } from '../../../elements/snackbar';
-import { publishEvent } from '@src/pages/content/utils/publishEvent';
+import {
+  cancelBackgroundJob,
+  getJobProgressLabel,
+  getJobProgressPercent,
+  runBackgroundJob,
+} from '@src/pages/content/utils/backgroundJobs';
+import { getDeleteJobTitle, getUndoDeleteAction } from '@src/pages/content/utils/emailActions';
+import { asyncHandler } from '@src/pages/content/utils/asyncHandler';
+import { hasSearchFilter } from '@src/pages/content/utils/hasSearchFilter';
+import { isDryRunModeEnabled, runDryRun } from '@src/pages/content/utils/dryRun';
+import { getDeleteConfirmOptions } from '@src/pages/content/utils/deleteProtection';
+import { ProgressBar } from '../../../elements/ProgressBar';
+
+// search/bulk delete job in progress
+type ActiveJob = {
+  id: string;
+  // latest job progress, null till the first step is finished
+  job: JobSummary | null;
+  isCancelling: boolean;
+};
 
 const AdvanceSearch = () => {
   const [searchResEmailIds, setSearchResEmailIds] = useState<string[] | null>(null);
   const [isLoadingSearchRes, setIsLoadingSearchRes] = useState(false);
 
+  // search result messages unchecked in the preview (not deleted)
+  const [excludedIds, setExcludedIds] = useState<string[]>([]);
+
   // bulk delete state
   const [isDeleting, setIsDeleting] = useState(false);
 
+  // progress of the search/bulk delete job
+  const [activeJob, setActiveJob] = useState<ActiveJob | null>(null);
+
+  // job options to show the progress & cancel button
+  const activeJobOptions = {
+    onStart: (id: string) => setActiveJob({ id, job: null, isCancelling: false }),
+    onProgress: (job: JobSummary) => setActiveJob(prevJob => prevJob && { ...prevJob, job }),
+  };
+
+  // cancel the job, it's stopped after the current page/batch
+  const handleCancelJob = async () => {
+    if (!activeJob) return;
+
+    setActiveJob({ ...activeJob, isCancelling: true });
+
+    await cancelBackgroundJob(activeJob.id);
+  };
+
+  // render the job progress
+  const renderJobProgress = (action: string) =>
+    activeJob ? (
+      <div className='w-full mt-4'>
+        <ProgressBar
+          percent={activeJob.job ? getJobProgressPercent(activeJob.job) : null}
+          label={activeJob.job ? getJobProgressLabel(activeJob.job, action) : 'Starting...'}
+          onCancel={asyncHandler(handleCancelJob)}
+          isCancelling={activeJob.isCancelling}
+        />
+      </div>
+    ) : null;
+
   // handle search click
   const handleSearch = async (formData: SearchFormData) => {
-    if (
-      !formData.keyword &&
-      !formData.isRead &&
-      !formData.isUnRead &&
-      !formData.afterDate &&
-      !formData.beforeDate
-    )
-      return;
+    // search only if at least one filter is set
+    if (!hasSearchFilter(formData)) return;
     // reset the previous res state if any
     if (searchResEmailIds) setSearchResEmailIds(null);
+    setExcludedIds([]);
 
     setIsLoadingSearchRes(true);
 
     // send search event to background script
 
-    const res = await publishEvent<string[]>({
-      event: IMessageEvent.ADVANCE_SEARCH,
-      advanceSearch: formData,
-    });
+    // search runs as a background job, the matched message ids are sent after the job is finished
+    const res = await runBackgroundJob(
+      {
+        event: IMessageEvent.ADVANCE_SEARCH,
+        advanceSearch: formData,
+      },
+      activeJobOptions
+    );
 
     setIsLoadingSearchRes(false);
+    setActiveJob(null);
 
     if (res) {
-      setSearchResEmailIds(res);
+      // no result if the search was cancelled
+      if (res.job.status === 'completed') setSearchResEmailIds(res.job.messageIds || []);
     } else {
       logger.error({
         msg: 'Failed to get result for advance search',
@@ -54,34 +105,69 @@ const AdvanceSearch = () => {
     }
   };
 
-  // handle bulk delete all matched emails
+  // handle bulk delete the checked emails of the search result
   const handleBulkDelete = async () => {
+    const excludedIdsSet = new Set(excludedIds);
+    const selectedIds = searchResEmailIds.filter(id => !excludedIdsSet.has(id));
+
+    if (selectedIds.length < 1) return;
+
+    // report the mails that would be deleted
+    const handleDryRun = async () => {
+      setIsDeleting(true);
+      await runDryRun({ event: IMessageEvent.BULK_DELETE, emails: selectedIds });
+      setIsDeleting(false);
+    };
+
+    // nothing is deleted in dry run mode, no need to confirm
+    if (await isDryRunModeEnabled()) {
+      await handleDryRun();
+      return;
+    }
+
+    // protection rules & typed confirmation if the delete is over the limit
+    const { isOverLimit, ...deleteConfirmOptions } = await getDeleteConfirmOptions(selectedIds.length, true);
+
     showConfirmModal({
-      msg: `Are you sure you want to delete ${searchResEmailIds.length} emails? <br /> This action will move them to the trash.`,
+      msg: `Are you sure you want to delete ${selectedIds.length} emails? <br /> This action will move them to the trash.`,
       email: '',
       isBulkDelete: true,
+      ...deleteConfirmOptions,
       onConfirmClick: async () => {
         setIsDeleting(true);
         // send bulk delete event to background script
 
-        const res = await publishEvent<string[]>({
-          event: IMessageEvent.BULK_DELETE,
-          emails: searchResEmailIds,
-        });
+        const res = await runBackgroundJob(
+          {
+            event: IMessageEvent.BULK_DELETE,
+            emails: selectedIds,
+            isOverLimitConfirmed: isOverLimit,
+          },
+          activeJobOptions
+        );
+
+        setActiveJob(null);
 
         if (res) {
-          showSnackbar({ title: `Successfully deleted ${searchResEmailIds.length} emails.`, emails: [] });
+          // success snackbar with undo button
+          showSnackbar({
+            title: getDeleteJobTitle(res.job, `Successfully deleted ${selectedIds.length} emails.`),
+            emails: [],
+            action: getUndoDeleteAction(res.job.trashJournalId),
+          });
           setSearchResEmailIds(null);
+          setExcludedIds([]);
         } else {
           showSnackbar<true>({ title: `Failed to delete emails.`, isError: true });
         }
         setIsDeleting(false);
       },
+      onDryRunClick: handleDryRun,
     });
   };
 
   return (
-    <div className='w-full h-full max-h-full'>
+    <div className='w-full h-full max-h-full overflow-y-auto'>
       <p className='h-[5%] m-0 text-slate-700 mb[2px] font-light text-sm flex items-center justify-center'>
         Use Advance Search to filter out for emails you want to delete in bulk.
       </p>
@@ -94,8 +180,10 @@ const AdvanceSearch = () => {
         <SearchForm onSubmit={handleSearch} isSubmitting={isLoadingSearchRes} />
 
         {/* search result container */}
-        <div className='w-full mt-10 flex flex-col justify-center items-start '>
-          {/*  */}
+        <div className='w-full mt-6 flex flex-col justify-center items-start '>
+          {/* search progress */}
+          {isLoadingSearchRes ? renderJobProgress('Found') : null}
+
           {searchResEmailIds ? (
             // search result count
             <div className='w-full flex flex-col items-center justify-center'>
@@ -104,18 +192,40 @@ const AdvanceSearch = () => {
                 Emails match your search filter
               </span>
 
+              {/* preview of the matched emails, unchecked emails are not deleted */}
+              {searchResEmailIds.length > 0 && !isDeleting ? (
+                <SearchPreview
+                  messageIds={searchResEmailIds}
+                  excludedIds={excludedIds}
+                  setExcludedIds={setExcludedIds}
+                />
+              ) : null}
+
               <button
-                className={`bg-rose-500 ml-1 mt-4 w-36 px-6 py-2
-        font-medium rounded-md border-none text-slate-50 text-sm cursor-pointer  transition-all duration-200 hover:bg-opacity-90`}
+                className={`bg-rose-500 ml-1 mt-4 min-w-[9rem] px-6 py-2
+        font-medium rounded-md border-none text-slate-50 text-sm cursor-pointer  transition-all duration-200 hover:bg-opacity-90 disabled:cursor-default disabled:opacity-50`}
                 onClick={handleBulkDelete}
+                disabled={searchResEmailIds.length - excludedIds.length < 1}
               >
-                {!isDeleting ? 'Delete All' : <Spinner size='sm' color='#f43f5e' />}
+                {!isDeleting ? (
+                  excludedIds.length > 0 ? (
+                    `Delete Selected (${(searchResEmailIds.length - excludedIds.length).toLocaleString()})`
+                  ) : (
+                    'Delete All'
+                  )
+                ) : (
+                  <Spinner size='sm' color='#f43f5e' />
+                )}
               </button>
 
+              {/* bulk delete progress */}
+              {isDeleting ? renderJobProgress('Deleted') : null}
+
               {/* show alert info bulk delete is in process */}
               {isDeleting ? (
                 <span className='text-xs text-slate-500 font-extralight text-center mt-1.5 flex items-center'>
-                  <InfoIcon /> This may take a few seconds, do not close or refresh the page.
+                  <InfoIcon /> This may take a few seconds, the delete continues in the background if you
+                  leave the page.
                 </span>
               ) : null}
             </div>
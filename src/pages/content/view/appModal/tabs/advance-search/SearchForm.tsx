@@ -1,33 +1,137 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import InfoIcon from '../../../elements/InfoIcon';
 import Switch from '../../../elements/Switch';
 import Tooltip from '../../../elements/TooltipReact';
 import { Checkbox } from '../../../elements/Checkbox';
 import DatePicker from '../../../elements/DatePicker';
 import { Spinner } from '../../../elements/Spinner';
-import type { SearchFormData } from '@src/pages/content/types/content.types';
+import {
+  IMessageEvent,
+  type RelativeAge,
+  type SearchCategory,
+  type SearchFormData,
+} from '@src/pages/content/types/content.types';
+import { publishEvent } from '@src/pages/content/utils/publishEvent';
+import { asyncHandler } from '@src/pages/content/utils/asyncHandler';
+
+const categories: SearchCategory[] = ['promotions', 'social', 'updates', 'forums'];
+
+// units of the older than input
+const ageUnits: { value: 'd' | 'm' | 'y'; label: string }[] = [
+  { value: 'd', label: 'Days' },
+  { value: 'm', label: 'Months' },
+  { value: 'y', label: 'Years' },
+];
+
+const inputClassName =
+  'appearance-none px-2 py-1 text-sm font-light text-slate-700 border  border-slate-400 rounded bg-white';
+
+const labelClassName = 'font-light text-sm mb-1 text-slate-700 flex items-center justify-start';
+
+// parse size input (MB), empty or invalid input is ignored
+const parseSize = (value: string) => {
+  const size = parseFloat(value);
+  return size > 0 ? size : undefined;
+};
 
 type Props = {
   onSubmit: (formData: SearchFormData) => void;
   isSubmitting: boolean;
+  // form values to start with (ex: editing a saved rule)
+  initialData?: SearchFormData;
+  submitLabel?: string;
+  // info shown while submitting, empty to hide it
+  submittingInfo?: string;
 };
 
-const SearchForm = ({ onSubmit, isSubmitting }: Props) => {
+const SearchForm = ({
+  onSubmit,
+  isSubmitting,
+  initialData = {},
+  submitLabel = 'Search',
+  submittingInfo = 'This may take a few seconds, the search continues in the background if you leave the page.',
+}: Props) => {
   // form state
-  const [keyword, setKeyword] = useState('');
-  const [isRead, setIsRead] = useState(false);
-  const [isUnRead, setIsUnRead] = useState(false);
-  const [afterDate, setAfterDate] = useState<string | null>(null);
-  const [beforeDate, setBeforeDate] = useState<string | null>(null);
+  const [keyword, setKeyword] = useState(initialData.keyword || '');
+  const [isRead, setIsRead] = useState(!!initialData.isRead);
+  const [isUnRead, setIsUnRead] = useState(!!initialData.isUnRead);
+  const [afterDate, setAfterDate] = useState<string | null>(initialData.afterDate || null);
+  const [beforeDate, setBeforeDate] = useState<string | null>(initialData.beforeDate || null);
+
+  const [from, setFrom] = useState(initialData.from || '');
+  const [to, setTo] = useState(initialData.to || '');
+  const [category, setCategory] = useState<SearchCategory | ''>(initialData.category || '');
+  const [olderThanValue, setOlderThanValue] = useState(initialData.olderThan?.slice(0, -1) || '');
+  const [olderThanUnit, setOlderThanUnit] = useState<'d' | 'm' | 'y'>(
+    (initialData.olderThan?.slice(-1) as 'd' | 'm' | 'y') || 'y'
+  );
+  const [largerThan, setLargerThan] = useState(initialData.largerThan ? `${initialData.largerThan}` : '');
+  const [smallerThan, setSmallerThan] = useState(initialData.smallerThan ? `${initialData.smallerThan}` : '');
+  const [selectedLabels, setSelectedLabels] = useState<string[]>(initialData.labels || []);
+  const [hasAttachment, setHasAttachment] = useState(!!initialData.hasAttachment);
+  const [excludeStarred, setExcludeStarred] = useState(!!initialData.excludeStarred);
+  const [excludeImportant, setExcludeImportant] = useState(!!initialData.excludeImportant);
+
+  // labels of the user's account
+  const [labels, setLabels] = useState<string[]>([]);
 
   // toggle states
-  const [isFromDateActive, setIsFromDateActive] = useState(false);
-  const [isBeforeDateActive, setIsBeforeDateActive] = useState(false);
+  const [isFromDateActive, setIsFromDateActive] = useState(!!initialData.afterDate);
+  const [isBeforeDateActive, setIsBeforeDateActive] = useState(!!initialData.beforeDate);
+
+  // get user labels for the label filter
+  useEffect(
+    asyncHandler(async () => {
+      const res = await publishEvent<string[]>({ event: IMessageEvent.GET_LABELS });
+      if (res) setLabels(res);
+    }),
+    []
+  );
 
   // handle search
   const handleSearch = () => {
-    onSubmit({ keyword, isUnRead, isRead, afterDate, beforeDate });
+    const olderThanAge = parseInt(olderThanValue);
+
+    onSubmit({
+      keyword,
+      isUnRead,
+      isRead,
+      afterDate,
+      beforeDate,
+      from,
+      to,
+      hasAttachment,
+      largerThan: parseSize(largerThan),
+      smallerThan: parseSize(smallerThan),
+      category: category || undefined,
+      labels: selectedLabels,
+      excludeStarred,
+      excludeImportant,
+      olderThan: olderThanAge > 0 ? (`${olderThanAge}${olderThanUnit}` as RelativeAge) : undefined,
+    });
   };
+
+  // render checkbox with label & tooltip
+  const renderCheckbox = (
+    id: string,
+    label: string,
+    tooltip: string,
+    isChecked: boolean,
+    onChange: (value: boolean) => void
+  ) => (
+    <div className='flex items-center mr-6'>
+      <Checkbox id={id} isChecked={isChecked} onChange={onChange} />
+      <label
+        htmlFor={id}
+        className='font-light text-sm ml-1.5 text-slate-700 flex items-center justify-start'
+      >
+        {label}
+        <Tooltip label={tooltip}>
+          <InfoIcon />
+        </Tooltip>
+      </label>
+    </div>
+  );
   return (
     <div className='w-full flex flex-col items-center justify-center'>
       {/* top line inputs */}
@@ -139,17 +243,226 @@ const SearchForm = ({ onSubmit, isSubmitting }: Props) => {
           </div>
         </div>
       </div>
+
+      {/* sender, recipient, category & age inputs */}
+      <div className='flex px-8 py-2 mt-8 items-end w-full justify-center'>
+        {/* from */}
+        <div className='flex items-start flex-col justify-center'>
+          <label htmlFor='search-from' className={labelClassName}>
+            From
+            <Tooltip
+              label={`Search emails from these senders, \n multiple emails must be separated by commas.`}
+            >
+              <InfoIcon />
+            </Tooltip>
+          </label>
+          <input
+            type='text'
+            id='search-from'
+            placeholder='news@example.com'
+            value={from}
+            onChange={ev => setFrom(ev.target.value)}
+            className={`${inputClassName} w-48`}
+          />
+        </div>
+        {/* to */}
+        <div className='flex items-start flex-col justify-center ml-6'>
+          <label htmlFor='search-to' className={labelClassName}>
+            To
+            <Tooltip
+              label={`Search emails sent to these emails, \n multiple emails must be separated by commas.`}
+            >
+              <InfoIcon />
+            </Tooltip>
+          </label>
+          <input
+            type='text'
+            id='search-to'
+            placeholder='me@example.com'
+            value={to}
+            onChange={ev => setTo(ev.target.value)}
+            className={`${inputClassName} w-48`}
+          />
+        </div>
+        {/* category */}
+        <div className='flex items-start flex-col justify-center ml-6'>
+          <label htmlFor='search-category' className={labelClassName}>
+            Category
+            <Tooltip label={`Search emails in this inbox category.`}>
+              <InfoIcon />
+            </Tooltip>
+          </label>
+          <select
+            id='search-category'
+            value={category}
+            onChange={ev => setCategory(ev.target.value as SearchCategory | '')}
+            className={`${inputClassName} w-32 capitalize`}
+          >
+            <option value=''>Any</option>
+            {categories.map(categoryName => (
+              <option key={categoryName} value={categoryName} className='capitalize'>
+                {categoryName}
+              </option>
+            ))}
+          </select>
+        </div>
+        {/* older than */}
+        <div className='flex items-start flex-col justify-center ml-6'>
+          <label htmlFor='search-older-than' className={labelClassName}>
+            Older Than
+            <Tooltip label={`Search emails older than this age, ex: 1 year.`}>
+              <InfoIcon />
+            </Tooltip>
+          </label>
+          <div className='flex items-center'>
+            <input
+              type='number'
+              min={1}
+              id='search-older-than'
+              placeholder='1'
+              value={olderThanValue}
+              onChange={ev => setOlderThanValue(ev.target.value)}
+              className={`${inputClassName} w-14`}
+            />
+            <select
+              value={olderThanUnit}
+              onChange={ev => setOlderThanUnit(ev.target.value as 'd' | 'm' | 'y')}
+              className={`${inputClassName} ml-1 w-24`}
+            >
+              {ageUnits.map(unit => (
+                <option key={unit.value} value={unit.value}>
+                  {unit.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* labels & size inputs */}
+      <div className='flex px-8 py-2 items-end w-full justify-center'>
+        {/* labels */}
+        <div className='flex items-start flex-col justify-center'>
+          <label htmlFor='search-labels' className={labelClassName}>
+            Labels
+            <Tooltip label={`Search emails that have all the selected labels.`}>
+              <InfoIcon />
+            </Tooltip>
+          </label>
+          <select
+            id='search-labels'
+            value=''
+            onChange={ev => {
+              const label = ev.target.value;
+              if (label && !selectedLabels.includes(label)) setSelectedLabels([...selectedLabels, label]);
+            }}
+            className={`${inputClassName} w-48`}
+            disabled={labels.length < 1}
+          >
+            <option value=''>{labels.length > 0 ? 'Add label' : 'No labels found'}</option>
+            {labels
+              .filter(label => !selectedLabels.includes(label))
+              .map(label => (
+                <option key={label} value={label}>
+                  {label}
+                </option>
+              ))}
+          </select>
+        </div>
+        {/* size */}
+        <div className='flex items-start flex-col justify-center ml-6'>
+          <label htmlFor='search-larger-than' className={labelClassName}>
+            Larger Than (MB)
+            <Tooltip label={`Search emails larger than this size.`}>
+              <InfoIcon />
+            </Tooltip>
+          </label>
+          <input
+            type='number'
+            min={0}
+            id='search-larger-than'
+            placeholder='5'
+            value={largerThan}
+            onChange={ev => setLargerThan(ev.target.value)}
+            className={`${inputClassName} w-28`}
+          />
+        </div>
+        <div className='flex items-start flex-col justify-center ml-6'>
+          <label htmlFor='search-smaller-than' className={labelClassName}>
+            Smaller Than (MB)
+            <Tooltip label={`Search emails smaller than this size.`}>
+              <InfoIcon />
+            </Tooltip>
+          </label>
+          <input
+            type='number'
+            min={0}
+            id='search-smaller-than'
+            placeholder='1'
+            value={smallerThan}
+            onChange={ev => setSmallerThan(ev.target.value)}
+            className={`${inputClassName} w-28`}
+          />
+        </div>
+        {/* attachment & exclude checkboxes */}
+        <div className='flex items-center justify-start mb-1.5 ml-6'>
+          {renderCheckbox(
+            'hasAttachmentCheckbox',
+            'Has Attachment',
+            'Search emails with attachments.',
+            hasAttachment,
+            setHasAttachment
+          )}
+          {renderCheckbox(
+            'excludeStarredCheckbox',
+            'Skip Starred',
+            'Exclude starred emails from the search result.',
+            excludeStarred,
+            setExcludeStarred
+          )}
+          {renderCheckbox(
+            'excludeImportantCheckbox',
+            'Skip Important',
+            'Exclude emails marked as important from the search result.',
+            excludeImportant,
+            setExcludeImportant
+          )}
+        </div>
+      </div>
+
+      {/* selected labels */}
+      {selectedLabels.length > 0 ? (
+        <div className='flex flex-wrap items-center justify-center gap-1.5 px-8 w-full'>
+          {selectedLabels.map(label => (
+            <span
+              key={label}
+              className='flex items-center px-2 py-0.5 rounded text-xs bg-slate-200 text-slate-700'
+            >
+              {label}
+              <button
+                className='ml-1 border-none bg-transparent text-slate-500 cursor-pointer hover:text-slate-800'
+                onClick={() =>
+                  setSelectedLabels(selectedLabels.filter(selectedLabel => selectedLabel !== label))
+                }
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : null}
+
       <button
-        className={`bg-brand-primary mx-auto mt-12 w-32 px-6 py-2
+        className={`bg-brand-primary mx-auto mt-6 w-32 px-6 py-2
         font-medium rounded-md border-none text-slate-50 text-sm cursor-pointer  transition-all duration-200 hover:bg-opacity-90`}
         onClick={handleSearch}
       >
-        {!isSubmitting ? 'Search' : <Spinner size='sm' />}
+        {!isSubmitting ? submitLabel : <Spinner size='sm' />}
       </button>
       {/* show alert info searching is in process, as it takes time */}
-      {isSubmitting ? (
+      {isSubmitting && submittingInfo ? (
         <span className='text-xs text-slate-500 font-extralight text-center mt-1.5 flex items-center'>
-          <InfoIcon /> This may take a few seconds, do not close or refresh the page.
+          <InfoIcon /> {submittingInfo}
         </span>
       ) : null}
     </div>
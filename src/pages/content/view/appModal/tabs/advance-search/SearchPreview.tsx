@@ -0,0 +1,297 @@
+import { useEffect, useMemo, useState, type Dispatch, type SetStateAction } from 'react';
+import { Checkbox } from '../../../elements/Checkbox';
+import { Spinner } from '../../../elements/Spinner';
+import {
+  IMessageEvent,
+  type MessagePreview,
+  type SenderBreakdownResult,
+} from '@src/pages/content/types/content.types';
+import { publishEvent } from '@src/pages/content/utils/publishEvent';
+import { asyncHandler } from '@src/pages/content/utils/asyncHandler';
+import { formatBytes } from '@src/pages/content/utils/formatBytes';
+import { limitCharLength } from '@src/pages/content/utils/limitCharLength';
+
+// messages per page of the preview table
+const PAGE_SIZE = 25;
+
+type PreviewView = 'messages' | 'senders';
+
+type Props = {
+  // advance search result
+  messageIds: string[];
+  // messages unchecked by the user (not deleted)
+  excludedIds: string[];
+  setExcludedIds: Dispatch<SetStateAction<string[]>>;
+};
+
+// ex: 12 Mar 2023
+const formatDate = (timestamp: number) =>
+  timestamp
+    ? new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })
+    : '-';
+
+// preview of the advance search result (messages & senders), unchecked messages are excluded from the bulk delete
+const SearchPreview = ({ messageIds, excludedIds, setExcludedIds }: Props) => {
+  const [view, setView] = useState<PreviewView>('messages');
+
+  // current page of the messages table (0 based)
+  const [page, setPage] = useState(0);
+
+  // message previews by id (fetched lazily for the current page)
+  const [previews, setPreviews] = useState<Record<string, MessagePreview>>({});
+  const [isLoadingPreviews, setIsLoadingPreviews] = useState(false);
+
+  // result grouped by sender (fetched when the senders view is opened), large results are sampled
+  const [senderBreakdown, setSenderBreakdown] = useState<SenderBreakdownResult | null>(null);
+  const [isLoadingSenders, setIsLoadingSenders] = useState(false);
+
+  const excludedIdsSet = useMemo(() => new Set(excludedIds), [excludedIds]);
+
+  const pageCount = Math.max(1, Math.ceil(messageIds.length / PAGE_SIZE));
+  const pageIds = messageIds.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  // get previews of the current page messages (not fetched before)
+  useEffect(
+    asyncHandler(async () => {
+      const missingIds = pageIds.filter(id => !previews[id]);
+
+      if (view !== 'messages' || missingIds.length < 1) return;
+
+      setIsLoadingPreviews(true);
+
+      const res = await publishEvent<MessagePreview[]>({
+        event: IMessageEvent.GET_MESSAGE_PREVIEWS,
+        messageIds: missingIds,
+      });
+
+      if (res) {
+        setPreviews(prevPreviews => {
+          const newPreviews = { ...prevPreviews };
+          for (const preview of res) newPreviews[preview.id] = preview;
+          return newPreviews;
+        });
+      }
+
+      setIsLoadingPreviews(false);
+    }),
+    [page, view]
+  );
+
+  // get sender breakdown on first open of the senders view
+  useEffect(
+    asyncHandler(async () => {
+      if (view !== 'senders' || senderBreakdown || isLoadingSenders) return;
+
+      setIsLoadingSenders(true);
+
+      const res = await publishEvent<SenderBreakdownResult>({
+        event: IMessageEvent.GET_SENDER_BREAKDOWN,
+        messageIds,
+      });
+
+      if (res) setSenderBreakdown(res);
+
+      setIsLoadingSenders(false);
+    }),
+    [view]
+  );
+
+  // check/uncheck messages (checked messages are deleted)
+  const toggleMessages = (ids: string[], isChecked: boolean) => {
+    setExcludedIds(prevIds => {
+      const idsSet = new Set(ids);
+      const otherIds = prevIds.filter(id => !idsSet.has(id));
+
+      return isChecked ? otherIds : [...otherIds, ...ids];
+    });
+  };
+
+  const isEveryChecked = (ids: string[]) => ids.every(id => !excludedIdsSet.has(id));
+
+  // view switch button
+  const renderViewButton = (viewName: PreviewView, label: string) => (
+    <button
+      className={`px-3 py-1 text-xs rounded-md border-none cursor-pointer transition-all duration-150 ${
+        view === viewName ? 'bg-slate-700 text-slate-50' : 'bg-transparent text-slate-600 hover:bg-slate-200'
+      }`}
+      onClick={() => setView(viewName)}
+    >
+      {label}
+    </button>
+  );
+
+  // table of the current page messages
+  const renderMessages = () => (
+    <>
+      <table className='w-full text-left border-collapse'>
+        {/* table header */}
+        <tr className='w-full text-xs text-slate-500 flex items-center px-2 py-1.5'>
+          <td className='w-[5%]'>
+            <Checkbox
+              id='advance-search-preview-page'
+              isChecked={isEveryChecked(pageIds)}
+              onChange={isChecked => toggleMessages(pageIds, isChecked)}
+            />
+          </td>
+          <td className='w-[22%]'>Sender</td>
+          <td className='w-[45%]'>Subject</td>
+          <td className='w-[16%]'>Date</td>
+          <td className='w-[12%] text-right'>Size</td>
+        </tr>
+
+        {/* table rows */}
+        {pageIds.map(id => {
+          const preview = previews[id];
+
+          return (
+            <tr
+              key={id}
+              className={`w-full flex items-center px-2 py-1.5 odd:bg-slate-100 hover:bg-slate-200/60 transition-all duration-150 ${
+                excludedIdsSet.has(id) ? 'opacity-50' : ''
+              }`}
+            >
+              <td className='w-[5%]'>
+                <Checkbox
+                  id={`advance-search-preview-${id}`}
+                  isChecked={!excludedIdsSet.has(id)}
+                  onChange={isChecked => toggleMessages([id], isChecked)}
+                />
+              </td>
+              {preview ? (
+                <>
+                  <td className='text-xs w-[22%]' title={preview.email}>
+                    {limitCharLength(preview.name || preview.email, 22)}
+                  </td>
+                  <td className='text-xs w-[45%] flex flex-col' title={preview.snippet}>
+                    <span className='text-slate-700'>
+                      {limitCharLength(preview.subject || '(no subject)', 50)}
+                    </span>
+                    <span className='text-slate-400 font-extralight'>
+                      {limitCharLength(preview.snippet, 60)}
+                    </span>
+                  </td>
+                  <td className='text-xs w-[16%]'>{formatDate(preview.receivedAt)}</td>
+                  <td className='text-xs w-[12%] text-right'>{formatBytes(preview.sizeEstimate)}</td>
+                </>
+              ) : (
+                <td className='text-xs w-[95%] text-slate-400 font-extralight'>
+                  {isLoadingPreviews ? 'Loading...' : 'Message not found'}
+                </td>
+              )}
+            </tr>
+          );
+        })}
+      </table>
+
+      {/* pagination */}
+      <div className='w-full flex items-center justify-between mt-2 px-2'>
+        <span className='text-xs text-slate-500 font-extralight'>
+          {(page * PAGE_SIZE + 1).toLocaleString()}–
+          {Math.min((page + 1) * PAGE_SIZE, messageIds.length).toLocaleString()} of{' '}
+          {messageIds.length.toLocaleString()}
+        </span>
+
+        <div className='flex items-center'>
+          <button
+            className='px-2.5 py-0.5 text-xs rounded-md border-none bg-transparent text-slate-600 cursor-pointer hover:bg-slate-200 disabled:cursor-default disabled:opacity-40'
+            disabled={page < 1}
+            onClick={() => setPage(prevPage => prevPage - 1)}
+          >
+            Prev
+          </button>
+          <button
+            className='ml-1 px-2.5 py-0.5 text-xs rounded-md border-none bg-transparent text-slate-600 cursor-pointer hover:bg-slate-200 disabled:cursor-default disabled:opacity-40'
+            disabled={page >= pageCount - 1}
+            onClick={() => setPage(prevPage => prevPage + 1)}
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </>
+  );
+
+  // messages grouped by sender, unchecking a sender excludes all its messages
+  const renderSenders = () => {
+    if (isLoadingSenders) {
+      return (
+        <div className='w-full flex justify-center py-4'>
+          <Spinner size='sm' />
+        </div>
+      );
+    }
+
+    if (!senderBreakdown) {
+      return (
+        <span className='w-full text-xs text-slate-500 font-extralight text-center py-4'>
+          Failed to get the senders.
+        </span>
+      );
+    }
+
+    const { senders, sampleCount, totalCount } = senderBreakdown;
+
+    return (
+      <>
+        {/* sampled senders (large result) */}
+        {sampleCount < totalCount ? (
+          <span className='w-full text-xs text-slate-500 font-extralight px-2 pb-1.5'>
+            Approximate: senders of the latest {sampleCount.toLocaleString()} of {totalCount.toLocaleString()}{' '}
+            messages, unchecking a sender excludes only these messages.
+          </span>
+        ) : null}
+
+        <table className='w-full text-left border-collapse'>
+          {/* table header */}
+          <tr className='w-full text-xs text-slate-500 flex items-center px-2 py-1.5'>
+            <td className='w-[5%]'></td>
+            <td className='w-[30%]'>Name</td>
+            <td className='w-[41%]'>Email</td>
+            <td className='w-[12%] text-right'>Emails</td>
+            <td className='w-[12%] text-right'>Size</td>
+          </tr>
+
+          {/* table rows */}
+          {senders.map(sender => (
+            <tr
+              key={sender.email}
+              className='w-full flex items-center px-2 py-1.5 odd:bg-slate-100 hover:bg-slate-200/60 transition-all duration-150'
+            >
+              <td className='w-[5%]'>
+                <Checkbox
+                  id={`advance-search-sender-${sender.email}`}
+                  isChecked={isEveryChecked(sender.messageIds)}
+                  onChange={isChecked => toggleMessages(sender.messageIds, isChecked)}
+                />
+              </td>
+              <td className='text-xs w-[30%]'>{limitCharLength(sender.name || '-', 28)}</td>
+              <td className='text-xs w-[41%]'>{limitCharLength(sender.email, 38)}</td>
+              <td className='text-xs w-[12%] text-right'>{sender.count.toLocaleString()}</td>
+              <td className='text-xs w-[12%] text-right'>{formatBytes(sender.totalSize)}</td>
+            </tr>
+          ))}
+        </table>
+      </>
+    );
+  };
+
+  return (
+    <div className='w-full flex flex-col mt-4'>
+      {/* view switch */}
+      <div className='w-full flex items-center justify-between mb-1.5'>
+        <div className='flex items-center'>
+          {renderViewButton('messages', 'Messages')}
+          {renderViewButton('senders', 'Senders')}
+        </div>
+
+        <span className='text-xs text-slate-500 font-extralight'>
+          {(messageIds.length - excludedIds.length).toLocaleString()} selected
+        </span>
+      </div>
+
+      {view === 'messages' ? renderMessages() : renderSenders()}
+    </div>
+  );
+};
+
+export default SearchPreview;
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import SearchForm from '../advance-search/SearchForm';
+import InfoIcon from '../../../elements/InfoIcon';
+import Tooltip from '../../../elements/TooltipReact';
+import {
+  IMessageEvent,
+  type CleanupRuleSummary,
+  type RuleAction,
+  type RuleSchedule,
+  type SearchFormData,
+} from '@src/pages/content/types/content.types';
+import { publishEvent } from '@src/pages/content/utils/publishEvent';
+import { hasSearchFilter } from '@src/pages/content/utils/hasSearchFilter';
+import { actionLabels, scheduleLabels } from './ruleOptions';
+
+const inputClassName =
+  'appearance-none px-2 py-1 text-sm font-light text-slate-700 border  border-slate-400 rounded bg-white';
+
+const labelClassName = 'font-light text-sm mb-1 text-slate-700 flex items-center justify-start';
+
+type Props = {
+  // rule being edited, not set for a new rule
+  rule?: CleanupRuleSummary;
+  onSaved: () => void;
+  onCancel: () => void;
+};
+
+// create/edit cleanup rule: name, action, schedule & the advance search filters
+const RuleForm = ({ rule, onSaved, onCancel }: Props) => {
+  const [name, setName] = useState(rule?.name || '');
+  const [action, setAction] = useState<RuleAction>(rule?.action || 'trash');
+  const [schedule, setSchedule] = useState<RuleSchedule | ''>(rule?.schedule || '');
+
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState('');
+
+  // handle save click (search form submit)
+  const handleSave = async (search: SearchFormData) => {
+    if (!name.trim()) {
+      setErrorMsg('Enter a name for the rule.');
+      return;
+    }
+
+    if (!hasSearchFilter(search)) {
+      setErrorMsg('Set at least one search filter for the rule.');
+      return;
+    }
+
+    setErrorMsg('');
+    setIsSaving(true);
+
+    const isSaved = await publishEvent<boolean>({
+      event: IMessageEvent.SAVE_RULE,
+      rule: {
+        id: rule?.id,
+        name,
+        search,
+        action,
+        schedule: schedule || null,
+        isPaused: rule?.isPaused || false,
+      },
+    });
+
+    setIsSaving(false);
+
+    if (isSaved) {
+      onSaved();
+    } else {
+      setErrorMsg('❌ Failed to save the rule, please try again.');
+    }
+  };
+
+  return (
+    <div className='w-full flex flex-col items-center'>
+      {/* rule inputs */}
+      <div className='flex px-8 py-2 items-end'>
+        {/* rule name */}
+        <div className='flex items-start flex-col justify-center'>
+          <label htmlFor='rule-name' className={labelClassName}>
+            Rule Name
+          </label>
+          <input
+            type='text'
+            id='rule-name'
+            placeholder='Old promotions'
+            value={name}
+            onChange={ev => setName(ev.target.value)}
+            className={`${inputClassName} w-60`}
+          />
+        </div>
+
+        {/* action */}
+        <div className='flex items-start flex-col justify-center ml-6'>
+          <label htmlFor='rule-action' className={labelClassName}>
+            Action
+            <Tooltip label={`Action applied to the emails that match the search filters.`}>
+              <InfoIcon />
+            </Tooltip>
+          </label>
+          <select
+            id='rule-action'
+            value={action}
+            onChange={ev => setAction(ev.target.value as RuleAction)}
+            className={`${inputClassName} w-40`}
+          >
+            {Object.entries(actionLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* schedule */}
+        <div className='flex items-start flex-col justify-center ml-6'>
+          <label htmlFor='rule-schedule' className={labelClassName}>
+            Schedule
+            <Tooltip label={`Run the rule automatically, the first run is after a day/week/month from now.`}>
+              <InfoIcon />
+            </Tooltip>
+          </label>
+          <select
+            id='rule-schedule'
+            value={schedule}
+            onChange={ev => setSchedule(ev.target.value as RuleSchedule | '')}
+            className={`${inputClassName} w-32`}
+          >
+            <option value=''>Manual</option>
+            {Object.entries(scheduleLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <button
+          className='ml-6 mb-0.5 px-3 py-1 text-sm rounded-md border-none bg-transparent text-slate-600 cursor-pointer hover:bg-slate-200'
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      </div>
+
+      {errorMsg ? <span className='text-xs text-rose-500 mt-1'>{errorMsg}</span> : null}
+
+      <hr className='w-full bg-slate-200 opacity-30 p-0 m-0 my-2' />
+
+      {/* search filters of the rule */}
+      <SearchForm
+        onSubmit={handleSave}
+        isSubmitting={isSaving}
+        initialData={rule?.search}
+        submitLabel='Save Rule'
+        submittingInfo=''
+      />
+    </div>
+  );
+};
+
+export default RuleForm;
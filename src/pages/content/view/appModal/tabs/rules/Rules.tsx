@@ -0,0 +1,381 @@
+import { Fragment, useEffect, useState } from 'react';
+import { Spinner } from '../../../elements/Spinner';
+import { ProgressBar } from '../../../elements/ProgressBar';
+import { showConfirmModal } from '../../../elements/confirmModal';
+import { showSnackbar } from '../../../elements/snackbar';
+import RuleForm from './RuleForm';
+import { actionDoneLabels, actionLabels, scheduleLabels } from './ruleOptions';
+import {
+  IMessageEvent,
+  type CleanupRuleRun,
+  type CleanupRuleSummary,
+  type JobSummary,
+} from '@src/pages/content/types/content.types';
+import { publishEvent } from '@src/pages/content/utils/publishEvent';
+import { asyncHandler } from '@src/pages/content/utils/asyncHandler';
+import { limitCharLength } from '@src/pages/content/utils/limitCharLength';
+import {
+  cancelBackgroundJob,
+  getJobProgressLabel,
+  getJobProgressPercent,
+  runBackgroundJob,
+} from '@src/pages/content/utils/backgroundJobs';
+import { getUndoDeleteAction } from '@src/pages/content/utils/emailActions';
+import { getDeleteProtection, getDeleteProtectionNote } from '@src/pages/content/utils/deleteProtection';
+
+// rule run in progress
+type ActiveRun = {
+  ruleId: string;
+  jobId: string;
+  // latest job progress, null till the first step is finished
+  job: JobSummary | null;
+  isCancelling: boolean;
+};
+
+// format timestamp, ex: 12 Oct, 10:45 AM
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+// result of the rule run, ex: 120 matched, 120 trashed
+const getRunResultLabel = (rule: CleanupRuleSummary, run: CleanupRuleRun) => {
+  if (run.status === 'failed') return 'Failed';
+
+  if (run.status === 'skipped') return `Skipped: ${run.error?.toLowerCase() || 'not run'}`;
+
+  const matchedLabel = `${run.matchedCount.toLocaleString()} matched`;
+
+  if (run.isDryRun) return matchedLabel;
+
+  return `${matchedLabel}, ${run.affectedCount.toLocaleString()} ${actionDoneLabels[
+    rule.action
+  ].toLowerCase()}${run.status === 'cancelled' ? ' (cancelled)' : ''}`;
+};
+
+const buttonClassName =
+  'text-xs px-2.5 py-1 rounded-md border-none bg-slate-200 text-slate-700 cursor-pointer transition-all duration-150 hover:bg-slate-300 disabled:cursor-default disabled:opacity-50';
+
+// saved advance searches with an action (trash, archive, mark read), run manually or on a schedule
+const Rules = () => {
+  const [rules, setRules] = useState<CleanupRuleSummary[]>([]);
+  const [errorMsg, setErrorMsg] = useState('');
+  // loading state
+  const [isFetchingRules, setIsFetchingRules] = useState(false);
+
+  // rule being created/edited, 'new' for a new rule
+  const [editingRule, setEditingRule] = useState<CleanupRuleSummary | 'new' | null>(null);
+
+  // rule whose run history is shown
+  const [historyRuleId, setHistoryRuleId] = useState<string | null>(null);
+
+  // rule being run
+  const [activeRun, setActiveRun] = useState<ActiveRun | null>(null);
+
+  // get rules from background
+  const getRules = async () => {
+    const res = await publishEvent<CleanupRuleSummary[]>({ event: IMessageEvent.GET_RULES });
+
+    if (res) {
+      setRules(res);
+      setErrorMsg('');
+    } else {
+      setErrorMsg('❌ Failed to get rules');
+    }
+  };
+
+  useEffect(
+    asyncHandler(async () => {
+      setIsFetchingRules(true);
+      await getRules();
+      setIsFetchingRules(false);
+    }),
+    []
+  );
+
+  // handle rule saved (created/edited)
+  const handleRuleSaved = async () => {
+    setEditingRule(null);
+    await getRules();
+  };
+
+  // pause/resume the scheduled runs of the rule
+  const handlePauseToggle = async (rule: CleanupRuleSummary) => {
+    const { id, name, search, action, schedule } = rule;
+
+    const isSaved = await publishEvent<boolean>({
+      event: IMessageEvent.SAVE_RULE,
+      rule: { id, name, search, action, schedule, isPaused: !rule.isPaused },
+    });
+
+    if (isSaved) {
+      await getRules();
+    } else {
+      showSnackbar<true>({
+        title: `Failed to ${rule.isPaused ? 'resume' : 'pause'} the rule.`,
+        isError: true,
+      });
+    }
+  };
+
+  // handle delete rule click
+  const handleDeleteRule = (rule: CleanupRuleSummary) => {
+    showConfirmModal({
+      msg: `Are you sure you want to delete this rule? <br /> Its run history will also be removed.`,
+      email: rule.name,
+      isBulkDelete: true,
+      onConfirmClick: async () => {
+        const isDeleted = await publishEvent<boolean>({ event: IMessageEvent.DELETE_RULE, ruleId: rule.id });
+
+        if (isDeleted) {
+          await getRules();
+        } else {
+          showSnackbar<true>({ title: 'Failed to delete the rule.', isError: true });
+        }
+      },
+    });
+  };
+
+  // run the rule now (dry run only counts the matched emails)
+  const runRule = async (rule: CleanupRuleSummary, isDryRun: boolean) => {
+    const res = await runBackgroundJob(
+      { event: IMessageEvent.RUN_RULE, ruleId: rule.id, isDryRun },
+      {
+        onStart: jobId => setActiveRun({ ruleId: rule.id, jobId, job: null, isCancelling: false }),
+        onProgress: job => setActiveRun(prevRun => prevRun && { ...prevRun, job }),
+      }
+    );
+
+    setActiveRun(null);
+
+    if (!res) {
+      showSnackbar<true>({ title: `Failed to run the rule ${rule.name}.`, isError: true });
+    } else if (isDryRun) {
+      showSnackbar({
+        title: `Dry run: ${res.job.processedCount.toLocaleString()} emails match the rule`,
+        emails: [rule.name],
+      });
+    } else {
+      // run cancelled before the action was applied (search phase)
+      const affectedCount = res.job.phase === 'apply' ? res.job.processedCount : 0;
+
+      showSnackbar({
+        title: `${actionDoneLabels[rule.action]} ${affectedCount.toLocaleString()} emails${
+          res.job.status === 'cancelled' ? ' (cancelled)' : ''
+        }`,
+        emails: [rule.name],
+        action: getUndoDeleteAction(res.job.trashJournalId),
+      });
+    }
+
+    // show the run in the history
+    setHistoryRuleId(rule.id);
+    await getRules();
+  };
+
+  // handle run click, confirm before applying the rule action
+  // (trash rules skip the protected emails & fail if more emails than the delete limit match)
+  const handleRunRule = async (rule: CleanupRuleSummary) => {
+    showConfirmModal({
+      msg: `Run this rule now? <br /> Action on the matched emails: ${actionLabels[
+        rule.action
+      ].toLowerCase()}.`,
+      email: rule.name,
+      isBulkDelete: true,
+      note: rule.action === 'trash' ? getDeleteProtectionNote(await getDeleteProtection()) : undefined,
+      onConfirmClick: async () => await runRule(rule, false),
+    });
+  };
+
+  // cancel the rule run, it's stopped after the current page/batch
+  const handleCancelRun = async () => {
+    if (!activeRun) return;
+
+    setActiveRun({ ...activeRun, isCancelling: true });
+
+    await cancelBackgroundJob(activeRun.jobId);
+  };
+
+  // render progress of the rule run
+  const renderRunProgress = (rule: CleanupRuleSummary) => {
+    const job = activeRun.job;
+
+    return (
+      <ProgressBar
+        percent={job ? getJobProgressPercent(job) : null}
+        label={
+          job
+            ? getJobProgressLabel(job, job.phase === 'apply' ? actionDoneLabels[rule.action] : 'Found')
+            : 'Starting...'
+        }
+        onCancel={asyncHandler(handleCancelRun)}
+        isCancelling={activeRun.isCancelling}
+      />
+    );
+  };
+
+  // render run, dry run, pause, edit & delete buttons
+  const renderActions = (rule: CleanupRuleSummary) => (
+    <>
+      <button
+        className={buttonClassName}
+        onClick={asyncHandler(async () => await handleRunRule(rule))}
+        disabled={!!activeRun}
+        title='Run the rule now'
+      >
+        Run
+      </button>
+      <button
+        className={buttonClassName}
+        onClick={asyncHandler(async () => await runRule(rule, true))}
+        disabled={!!activeRun}
+        title='Count the matched emails without applying the action'
+      >
+        Dry Run
+      </button>
+      {rule.schedule ? (
+        <button className={buttonClassName} onClick={asyncHandler(async () => await handlePauseToggle(rule))}>
+          {rule.isPaused ? 'Resume' : 'Pause'}
+        </button>
+      ) : null}
+      <button className={buttonClassName} onClick={() => setEditingRule(rule)} disabled={!!activeRun}>
+        Edit
+      </button>
+      <button
+        className={`${buttonClassName} text-rose-500`}
+        onClick={() => handleDeleteRule(rule)}
+        disabled={!!activeRun}
+      >
+        Delete
+      </button>
+    </>
+  );
+
+  // render run history of the rule
+  const renderHistory = (rule: CleanupRuleSummary) => (
+    <tr className='w-full flex flex-col px-12 py-1.5 bg-slate-50'>
+      {rule.runs.length > 0 ? (
+        rule.runs.map(run => (
+          <td key={run.id} className='w-full flex items-center text-xs text-slate-600 py-0.5'>
+            <span className='w-[22%]'>{formatDateTime(run.startedAt)}</span>
+            <span className='w-[18%]'>
+              {run.trigger === 'schedule' ? 'Scheduled' : 'Manual'}
+              {run.isDryRun ? ' (dry run)' : ''}
+            </span>
+            <span
+              className={`w-[60%] ${
+                run.status === 'failed' ? 'text-rose-500' : run.status === 'skipped' ? 'text-amber-600' : ''
+              }`}
+              title={run.error || ''}
+            >
+              {getRunResultLabel(rule, run)}
+            </span>
+          </td>
+        ))
+      ) : (
+        <td className='text-xs text-slate-400 font-extralight'>The rule has not been run yet.</td>
+      )}
+    </tr>
+  );
+
+  const renderTable = () =>
+    rules.length > 0 ? (
+      <div className='w-full h-full overflow-x-hidden overflow-y-auto z-20'>
+        {/* table container */}
+        <table className='w-full bg-slate-50 relative  z-30'>
+          {/* table header */}
+          <tr className='w-full sticky top-0 left-0 text-sm font-medium text-slate-600 bg-slate-200 flex items-center justify-between px-4 py-1.5 z-20'>
+            <td className='w-[20%]'>Rule</td>
+            <td className='w-[13%]'>Action</td>
+            <td className='w-[12%]'>Schedule</td>
+            <td className='w-[17%]'>Last run</td>
+            <td className='w-[38%] text-center'>Actions</td>
+          </tr>
+
+          {/* table rows */}
+          {rules.map(rule => (
+            <Fragment key={rule.id}>
+              <tr className='w-full flex items-center  justify-between px-4 odd:bg-slate-100 py-1.5 hover:bg-slate-200/60 transition-all duration-150 z-20'>
+                <td className='text-sm w-[20%]'>
+                  <button
+                    className='p-0 border-none bg-transparent text-sm text-slate-700 cursor-pointer hover:underline'
+                    onClick={() => setHistoryRuleId(historyRuleId === rule.id ? null : rule.id)}
+                    title='Show run history'
+                  >
+                    {limitCharLength(rule.name, 22)}
+                  </button>
+                </td>
+                <td className='text-sm w-[13%]'>{actionLabels[rule.action]}</td>
+                <td
+                  className='text-sm w-[12%]'
+                  title={rule.nextRunAt ? `Next run: ${formatDateTime(rule.nextRunAt)}` : undefined}
+                >
+                  {rule.schedule ? scheduleLabels[rule.schedule] : 'Manual'}
+                  {rule.schedule && rule.isPaused ? ' (paused)' : ''}
+                </td>
+                <td className='text-sm w-[17%]'>
+                  {rule.runs[0] ? formatDateTime(rule.runs[0].startedAt) : '-'}
+                </td>
+                <td className='text-sm w-[38%] flex items-center justify-evenly'>
+                  {activeRun?.ruleId === rule.id ? renderRunProgress(rule) : renderActions(rule)}
+                </td>
+              </tr>
+
+              {/* run history */}
+              {historyRuleId === rule.id ? renderHistory(rule) : null}
+            </Fragment>
+          ))}
+        </table>
+      </div>
+    ) : (
+      <p className='text-sm text-slate-500 font-light text-center mt-10'>
+        No rules yet, create a rule to run an advance search & clean up the matched emails on a schedule.
+      </p>
+    );
+
+  // create/edit rule form
+  if (editingRule) {
+    return (
+      <div className='w-full h-full max-h-full overflow-y-auto py-2'>
+        <RuleForm
+          rule={editingRule === 'new' ? undefined : editingRule}
+          onSaved={asyncHandler(handleRuleSaved)}
+          onCancel={() => setEditingRule(null)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className='w-full h-full max-h-full flex flex-col'>
+      <div className='w-full flex items-center justify-between px-4 mb-2'>
+        <p className='m-0 text-slate-700 font-light text-sm'>
+          Save an advance search as a rule & run it on a schedule, dry run shows the matched emails count
+          only.
+        </p>
+
+        <button
+          className='bg-brand-primary px-4 py-1.5 font-medium rounded-md border-none text-slate-50 text-sm cursor-pointer transition-all duration-200 hover:bg-opacity-90'
+          onClick={() => setEditingRule('new')}
+        >
+          New Rule
+        </button>
+      </div>
+
+      {isFetchingRules ? (
+        <div className='w-full flex justify-center mt-10'>
+          <Spinner size='lg' />
+        </div>
+      ) : errorMsg ? (
+        <p className='text-sm text-rose-500 text-center mt-10'>{errorMsg}</p>
+      ) : (
+        renderTable()
+      )}
+    </div>
+  );
+};
+
+export default Rules;
@@ -0,0 +1,3 @@
+import Rules from './Rules';
+
+export default Rules;
@@ -0,0 +1,21 @@
+import type { RuleAction, RuleSchedule } from '@src/pages/content/types/content.types';
+
+// rule action labels, ex: Move to trash
+export const actionLabels: Record<RuleAction, string> = {
+  trash: 'Move to trash',
+  archive: 'Archive',
+  markRead: 'Mark as read',
+};
+
+// progress/result labels of the rule action, ex: Trashed 1,500 of 12,340
+export const actionDoneLabels: Record<RuleAction, string> = {
+  trash: 'Trashed',
+  archive: 'Archived',
+  markRead: 'Marked read',
+};
+
+export const scheduleLabels: Record<RuleSchedule, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
@@ -10,6 +10,11 @@ import { addTooltip } from '../../elements/tooltip';
 import { limitCharLength } from '@src/pages/content/utils/limitCharLength';
 import { asyncHandler } from '@src/pages/content/utils/asyncHandler';
 import wait from '@src/pages/content/utils/wait';
+import { getDomainRule, getEntryLabel, isEmailInList } from '@src/pages/content/utils/domainRule';
+import { showConfirmModal } from '../../elements/confirmModal';
+import { showDeleteOptionsPopover } from '../../elements/deleteOptionsPopover';
+import { getDeleteCount, getDeleteCountLabel } from '@src/pages/content/utils/deleteCount';
+import type { DeleteRetention } from '@src/pages/content/types/content.types';
 
 export interface IHoverCardElements {
   hoverCard: HTMLDivElement;
@@ -17,11 +22,17 @@ export interface IHoverCardElements {
   whiteListEmailBtn: HTMLButtonElement;
   unsubscribeBtn: HTMLButtonElement;
   deleteAllMailsBtn: HTMLButtonElement;
+  deleteOptionsBtn: HTMLButtonElement;
   unsubscribeAndDeleteAllMailsBtn: HTMLButtonElement;
+  whitelistDomainBtn: HTMLButtonElement;
+  unsubscribeDomainBtn: HTMLButtonElement;
 }
 
 const HOVER_CARD_ID = 'freshInbox-hoverCard';
 
+// delete count is fetched only if the card stays open (not while moving the mouse across the rows)
+const DELETE_COUNT_PREFETCH_DELAY_MS = 500;
+
 // hide buttons
 const hideButtons = (buttons: HTMLButtonElement[]) => {
   for (const btn of buttons) {
@@ -74,7 +85,7 @@ const handleMouseOut = () => {
 };
 
 // create hover card elements
-const createHoverCardElements = (): IHoverCardElements => {
+const createHoverCardElements = (email: string): IHoverCardElements => {
   // main container
   const hoverCard = document.createElement('div');
   const label = document.createElement('div');
@@ -83,28 +94,50 @@ const createHoverCardElements = (): IHoverCardElements => {
   const whiteListEmailBtn = document.createElement('button');
   const unsubscribeBtn = document.createElement('button');
   const deleteAllMailsBtn = document.createElement('button');
+  // delete options (keep latest, older than, unread only) next to the delete all mails button
+  const deleteAction = document.createElement('div');
+  const deleteOptionsBtn = document.createElement('button');
   const unsubscribeAndDeleteAllMailsBtn = document.createElement('button');
+  const whitelistDomainBtn = document.createElement('button');
+  const unsubscribeDomainBtn = document.createElement('button');
 
   /// add classnames
   hoverCard.id = HOVER_CARD_ID;
   label.classList.add('hoverCard-label');
   btnContainer.id = 'hoverCard-btnContainer';
+  deleteAction.classList.add('hoverCard-deleteAction');
+  deleteOptionsBtn.classList.add('hoverCard-deleteOptionsBtn');
 
   // add text to buttons
   whiteListEmailBtn.innerHTML = 'Keep';
   unsubscribeBtn.innerHTML = 'Unsubscribe';
   deleteAllMailsBtn.innerHTML = 'Delete All Mails';
+  deleteOptionsBtn.innerHTML = '&#8943;';
   unsubscribeAndDeleteAllMailsBtn.innerHTML = 'Unsubscribe + Delete';
+  whitelistDomainBtn.innerHTML = 'Keep Domain';
+  unsubscribeDomainBtn.innerHTML = 'Unsubscribe Domain';
+
+  deleteAction.append(deleteAllMailsBtn, deleteOptionsBtn);
 
   // append buttons to the btnContainer
-  btnContainer.append(whiteListEmailBtn, unsubscribeBtn, deleteAllMailsBtn, unsubscribeAndDeleteAllMailsBtn);
+  btnContainer.append(
+    whiteListEmailBtn,
+    unsubscribeBtn,
+    deleteAction,
+    unsubscribeAndDeleteAllMailsBtn,
+    whitelistDomainBtn,
+    unsubscribeDomainBtn
+  );
 
   // append  elements to parent el (Card)
   hoverCard.append(label, btnContainer);
 
   // add tooltip to the buttons
   addTooltip(whiteListEmailBtn, 'Keep this email in your inbox');
+  addTooltip(deleteOptionsBtn, 'Delete options');
   addTooltip(unsubscribeAndDeleteAllMailsBtn, 'Unsubscribe and delete emails from this sender');
+  addTooltip(whitelistDomainBtn, `Always keep this domain (${getEntryLabel(getDomainRule(email))})`);
+  addTooltip(unsubscribeDomainBtn, `Unsubscribe from entire domain (${getEntryLabel(getDomainRule(email))})`);
 
   return {
     hoverCard,
@@ -112,7 +145,10 @@ const createHoverCardElements = (): IHoverCardElements => {
     whiteListEmailBtn,
     unsubscribeBtn,
     deleteAllMailsBtn,
+    deleteOptionsBtn,
     unsubscribeAndDeleteAllMailsBtn,
+    whitelistDomainBtn,
+    unsubscribeDomainBtn,
   };
 };
 
@@ -131,8 +167,11 @@ export const showHoverCard = async ({ parentElId, email, name, isSingleEmail }:
     whiteListEmailBtn,
     unsubscribeBtn,
     deleteAllMailsBtn,
+    deleteOptionsBtn,
     unsubscribeAndDeleteAllMailsBtn,
-  } = createHoverCardElements();
+    whitelistDomainBtn,
+    unsubscribeDomainBtn,
+  } = createHoverCardElements(email);
 
   // check if the any other hover card is already shown
   const prevHoverCard = document.getElementById(HOVER_CARD_ID);
@@ -174,19 +213,32 @@ export const showHoverCard = async ({ parentElId, email, name, isSingleEmail }:
 
   // check if the email (currently hovered over) is already unsubscribed or not
   const unsubscribedEmailsList = await getUnsubscribedEmails();
-  const isUnsubscribed = unsubscribedEmailsList?.includes(email);
+  // (unsubscribed directly or with the domain rule)
+  const isUnsubscribed = isEmailInList(email, unsubscribedEmailsList || []);
 
   if (isUnsubscribed) {
     // if already unsubscribed, show only deleteAllMails button
     // hide other buttons
-    hideButtons([whiteListEmailBtn, unsubscribeBtn, unsubscribeAndDeleteAllMailsBtn]);
+    hideButtons([
+      whiteListEmailBtn,
+      unsubscribeBtn,
+      unsubscribeAndDeleteAllMailsBtn,
+      whitelistDomainBtn,
+      unsubscribeDomainBtn,
+    ]);
     // show info message
     actionInfoMsg(label, true);
   } else {
     // if not, show all three buttons
     // remove action info if present
     actionInfoMsg(label, false);
-    showButtons([whiteListEmailBtn, unsubscribeBtn, unsubscribeAndDeleteAllMailsBtn]);
+    showButtons([
+      whiteListEmailBtn,
+      unsubscribeBtn,
+      unsubscribeAndDeleteAllMailsBtn,
+      whitelistDomainBtn,
+      unsubscribeDomainBtn,
+    ]);
 
     // onClick listener to unsubscribe button
     unsubscribeBtn.addEventListener(
@@ -221,12 +273,26 @@ export const showHoverCard = async ({ parentElId, email, name, isSingleEmail }:
       })
     );
 
-    // onClick listener to white list email button
-    whiteListEmailBtn.addEventListener(
+    // onClick listener to unsubscribe domain button
+    unsubscribeDomainBtn.addEventListener(
       'click',
       asyncHandler(async () => {
         hideHoverCard({ parentElId, forceClose: true });
-        const isSuccess = await handleWhitelistAction({ emails: [email] });
+        await showConfirmModal({
+          email: getEntryLabel(getDomainRule(email)),
+          msg: 'Are you sure you want to unsubscribe from all the emails of',
+          onConfirmClick: async () => {
+            await handleUnsubscribeAction({ emails: [getDomainRule(email)] });
+          },
+        });
+      })
+    );
+
+    // onClick listener to white list email & white list domain buttons
+    const handleWhitelistClick = (whitelistEntry: string) =>
+      asyncHandler(async () => {
+        hideHoverCard({ parentElId, forceClose: true });
+        const isSuccess = await handleWhitelistAction({ emails: [whitelistEntry] });
         if (isSuccess) {
           // if success, remove assistant btn from for this email
           const assistantBtnContainerId = freshInboxGlobalVariables.assistantBtnContainerId;
@@ -239,34 +305,63 @@ export const showHoverCard = async ({ parentElId, email, name, isSingleEmail }:
             assistantBtn[0].remove();
           }
         }
-      })
-    );
+      });
+
+    whiteListEmailBtn.addEventListener('click', handleWhitelistClick(email));
+    whitelistDomainBtn.addEventListener('click', handleWhitelistClick(getDomainRule(email)));
   }
 
+  // delete all mails (or the mails allowed by the retention options)
+  const handleDeleteAllMailsClick = async (retention?: DeleteRetention) => {
+    await handleDeleteAllMailsAction({
+      emails: [email],
+      retention,
+      onSuccess: async () => {
+        // if action dispatched from single email view
+        if (isSingleEmail) {
+          // go back to inbox table and then refresh the table
+          await goBackToInbox();
+
+          // wait for 750ms for table to load
+          await wait(750);
+        }
+
+        // refresh the the table
+        await refreshEmailsTable();
+      },
+    });
+  };
+
   // onClick listener to delete all mails button
   deleteAllMailsBtn.addEventListener(
     'click',
     asyncHandler(async () => {
       hideHoverCard({ parentElId, forceClose: true });
-      await handleDeleteAllMailsAction({
-        emails: [email],
-        onSuccess: async () => {
-          // if action dispatched from single email view
-          if (isSingleEmail) {
-            // go back to inbox table and then refresh the table
-            await goBackToInbox();
-
-            // wait for 750ms for table to load
-            await wait(750);
-          }
-
-          // refresh the the table
-          await refreshEmailsTable();
-        },
-      });
+      await handleDeleteAllMailsClick();
     })
   );
 
+  // onClick listener to delete options button, popover is shown below the button before the card is closed
+  deleteOptionsBtn.addEventListener('click', () => {
+    showDeleteOptionsPopover({ anchorEl: deleteOptionsBtn, onDeleteClick: handleDeleteAllMailsClick });
+    hideHoverCard({ parentElId, forceClose: true });
+  });
+
+  // prefetch the delete count (cached in background, used by the delete confirm modal)
+  // & show it in the delete all mails button tooltip
+  setTimeout(
+    asyncHandler(async () => {
+      if (!hoverCard.isConnected) return;
+
+      const deleteCount = await getDeleteCount([email]);
+
+      if (!deleteCount || !hoverCard.isConnected) return;
+
+      addTooltip(deleteAllMailsBtn, `Move ${getDeleteCountLabel(deleteCount)} to trash`);
+    }),
+    DELETE_COUNT_PREFETCH_DELAY_MS
+  );
+
   // show card
   hoverCard.style.display = 'flex';
   hoverCard.style.visibility = 'visible';
@@ -0,0 +1,14 @@
+import { isDomainRule } from '@src/pages/content/utils/domainRule';
+
+type Props = {
+  // unsubscribe/whitelist list entry (email or domain rule)
+  entry: string;
+};
+
+// badge to show if the list entry is a single email or a domain rule
+export const EntryTypeBadge = ({ entry }: Props) =>
+  isDomainRule(entry) ? (
+    <span className='px-1.5 py-px rounded text-[10px] font-medium bg-amber-100 text-amber-700'>Domain</span>
+  ) : (
+    <span className='px-1.5 py-px rounded text-[10px] font-medium bg-slate-200 text-slate-600'>Email</span>
+  );
@@ -0,0 +1,36 @@
+type Props = {
+  // null if the total is not known yet
+  percent: number | null;
+  // ex: Deleted 1,500 of 12,340
+  label: string;
+  onCancel?: () => void;
+  isCancelling?: boolean;
+};
+
+// progress bar with a cancel button (background jobs)
+export const ProgressBar = ({ percent, label, onCancel, isCancelling = false }: Props) => (
+  <div className='w-full flex flex-col items-center justify-center'>
+    <div className='w-64 h-1.5 rounded-full bg-slate-200 overflow-hidden'>
+      <div
+        className={`h-full rounded-full bg-emerald-500 transition-all duration-300 ${
+          percent === null ? 'opacity-40 animate-pulse' : ''
+        }`}
+        style={{ width: `${percent ?? 100}%` }}
+      />
+    </div>
+
+    <div className='flex items-center mt-1.5'>
+      <span className='text-xs text-slate-500 font-extralight'>{label}</span>
+
+      {onCancel ? (
+        <button
+          className='ml-3 text-xs px-2.5 py-0.5 rounded-md border-none bg-transparent text-rose-500 cursor-pointer transition-all duration-150 hover:bg-rose-100 disabled:cursor-default disabled:opacity-50'
+          onClick={onCancel}
+          disabled={isCancelling}
+        >
+          {isCancelling ? 'Cancelling...' : 'Cancel'}
+        </button>
+      ) : null}
+    </div>
+  </div>
+);
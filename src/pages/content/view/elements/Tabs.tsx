@@ -31,8 +31,11 @@ export const Tabs = ({ tabs, activeTab, setActiveTab, children }: Props) => {
         ))}
         {/* active tab indicator */}
         <div
-          className='w-1/5 h-[10%] bg-brand-primary  absolute bottom-0 z-[100] transition-transform duration-200'
-          style={{ transform: `translateX(${tabs.indexOf(activeTab) * 100}%)` }}
+          className='h-[10%] bg-brand-primary  absolute bottom-0 left-0 z-[100] transition-transform duration-200'
+          style={{
+            width: `${100 / tabs.length}%`,
+            transform: `translateX(${tabs.indexOf(activeTab) * 100}%)`,
+          }}
         ></div>
       </div>
 
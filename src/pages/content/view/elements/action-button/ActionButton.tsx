@@ -31,7 +31,11 @@ const ActionButton = ({ action, tooltipLabel, onClick, isDisabled }: Props) => {
         >
           <div
             className={`${
-              action !== EmailAction.unsubscribeAndDeeAllMails ? 'w-5' : 'w-12'
+              action === EmailAction.unsubscribeAndDeeAllMails
+                ? 'w-12'
+                : action === EmailAction.unsubscribeDomain || action === EmailAction.whitelistDomain
+                ? 'w-8'
+                : 'w-5'
             } h-5 py-px flex items-center justify-center z-60 transition-all  duration-200
             ${isDisabled && 'opacity-20 '}
             `}
@@ -72,6 +72,33 @@ const reSubscribeIconSvg = (
   </svg>
 );
 
+const archiveIconSvg = (
+  <svg viewBox='0 0 24 24' fill='none' xmlns='http://www.w3.org/2000/svg' className='w-full h-full'>
+    <path
+      d='M3 5.5C3 4.67 3.67 4 4.5 4H19.5C20.33 4 21 4.67 21 5.5V7.5C21 8.05 20.55 8.5 20 8.5H4C3.45 8.5 3 8.05 3 7.5V5.5ZM4 10H20V18C20 19.1 19.1 20 18 20H6C4.9 20 4 19.1 4 18V10ZM9.25 12.5C8.84 12.5 8.5 12.84 8.5 13.25C8.5 13.66 8.84 14 9.25 14H14.75C15.16 14 15.5 13.66 15.5 13.25C15.5 12.84 15.16 12.5 14.75 12.5H9.25Z'
+      fill='#64748b'
+    ></path>
+  </svg>
+);
+
+const markReadIconSvg = (
+  <svg viewBox='0 0 24 24' fill='none' xmlns='http://www.w3.org/2000/svg' className='w-full h-full'>
+    <path
+      d='M12.53 2.15C12.2 1.95 11.8 1.95 11.47 2.15L3 7.25V18C3 19.66 4.34 21 6 21H18C19.66 21 21 19.66 21 18V7.25L12.53 2.15ZM12 13.35L5.06 8.5L12 4.33L18.94 8.5L12 13.35Z'
+      fill='#0ea5e9'
+    ></path>
+  </svg>
+);
+
+const labelIconSvg = (
+  <svg viewBox='0 0 24 24' fill='none' xmlns='http://www.w3.org/2000/svg' className='w-full h-full'>
+    <path
+      d='M3 4.5C3 3.67 3.67 3 4.5 3H11.38C11.78 3 12.16 3.16 12.44 3.44L20.56 11.56C21.15 12.15 21.15 13.1 20.56 13.68L13.68 20.56C13.1 21.15 12.15 21.15 11.56 20.56L3.44 12.44C3.16 12.16 3 11.78 3 11.38V4.5ZM7.5 9C8.33 9 9 8.33 9 7.5C9 6.67 8.33 6 7.5 6C6.67 6 6 6.67 6 7.5C6 8.33 6.67 9 7.5 9Z'
+      fill='#f59e0b'
+    ></path>
+  </svg>
+);
+
 /*
 <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><g id="SVGRepo_bgCarrier" stroke-width="0"></g><g id="SVGRepo_tracerCarrier" stroke-linecap="round" stroke-linejoin="round"></g><g id="SVGRepo_iconCarrier"> <path d="M16.19 2H7.81C4.17 2 2 4.17 2 7.81V16.18C2 19.83 4.17 22 7.81 22H16.18C19.82 22 21.99 19.83 21.99 16.19V7.81C22 4.17 19.83 2 16.19 2ZM16.78 9.7L11.11 15.37C10.97 15.51 10.78 15.59 10.58 15.59C10.38 15.59 10.19 15.51 10.05 15.37L7.22 12.54C6.93 12.25 6.93 11.77 7.22 11.48C7.51 11.19 7.99 11.19 8.28 11.48L10.58 13.78L15.72 8.64C16.01 8.35 16.49 8.35 16.78 8.64C17.07 8.93 17.07 9.4 16.78 9.7Z" fill="#292D32"></path> </g></svg>
 */
@@ -86,4 +113,10 @@ export const ActionIcons: Record<EmailAction, JSX.Element[]> = {
   ],
   whitelistEmail: [whitelistIconSvg],
   resubscribe: [reSubscribeIconSvg],
+  unsubscribeDomain: [blockIconSvg, <span className='font-medium text-slate-600 ml-[2px]'>@</span>],
+  whitelistDomain: [whitelistIconSvg, <span className='font-medium text-slate-600 ml-[2px]'>@</span>],
+  skipInbox: [archiveIconSvg],
+  markRead: [markReadIconSvg],
+  moveToLabel: [labelIconSvg],
+  removeFilterAction: [<span className='font-medium text-red-500 text-base leading-none'>✕</span>],
 };
@@ -30,16 +30,41 @@ const handleCheckboxUpdate = async (ev: Event) => {
   await chrome.storage.sync.set({ [storageKey]: isChecked });
 };
 
+// confirm modal content updated after the exact count (typed confirmation is removed if it's not needed anymore)
+type ConfirmModalUpdate = {
+  msg: string;
+  note?: string;
+  confirmText?: string;
+};
+
 type ShowConfirmModalParams = {
   msg: string;
   email: string;
-  onConfirmClick: () => Promise<void>;
+  // called with true if the confirmation text was typed (ex: delete over the limit)
+  onConfirmClick: (isConfirmTextTyped?: boolean) => Promise<void>;
   isBulkDelete?: boolean;
+  // shows the dry run button (report the changes without making them)
+  onDryRunClick?: () => Promise<void>;
+  // extra info shown below the message (ex: delete protection rules)
+  note?: string;
+  // text the user has to type to enable the confirm button (ex: delete over the limit)
+  confirmText?: string;
+  // shows the get exact count button (msg has an estimated count), returns the modal content with the exact count
+  onExactCountClick?: () => Promise<ConfirmModalUpdate | null>;
 };
 
-const showConfirmModal = async ({ msg, email, onConfirmClick, isBulkDelete }: ShowConfirmModalParams) => {
-  // action modal is shown for all bulk delete action
-  if (!isBulkDelete) {
+const showConfirmModal = async ({
+  msg,
+  email,
+  onConfirmClick,
+  isBulkDelete,
+  onDryRunClick,
+  note,
+  confirmText,
+  onExactCountClick,
+}: ShowConfirmModalParams) => {
+  // action modal is shown for all bulk delete action & the actions that need a typed confirmation
+  if (!isBulkDelete && !confirmText) {
     // check user preference , if the user want's to see the delete confirmation message or not
     const dontShowDeleteConfirmMsg = await getSyncStorageByKey<boolean>('DONT_SHOW_DELETE_CONFIRM_MSG');
 
@@ -58,6 +83,11 @@ const showConfirmModal = async ({ msg, email, onConfirmClick, isBulkDelete }: Sh
   const modalCard = document.createElement('div');
   const modalTitle = document.createElement('p');
   const modalMessage = document.createElement('p');
+  const modalNote = document.createElement('p');
+  const exactCountBtn = document.createElement('button');
+  // typed confirmation
+  const confirmTextLabel = document.createElement('label');
+  const confirmTextInput = document.createElement('input');
   // checkbox
   const checkboxWrapper = document.createElement('div');
   const checkboxLabel = document.createElement('label');
@@ -66,29 +96,48 @@ const showConfirmModal = async ({ msg, email, onConfirmClick, isBulkDelete }: Sh
   //  buttons
   const confirmAction = document.createElement('button');
   const cancelAction = document.createElement('button');
+  const dryRunAction = document.createElement('button');
 
   // set inner content
   modalTitle.innerText = 'Confirm Action';
   modalMessage.innerHTML = `${msg} <br /> <strong>${email}</strong>`;
+  // note may have user input (ex: label names), not set as html
+  modalNote.innerText = note || '';
+  exactCountBtn.innerText = 'Get exact count';
   confirmAction.innerText = 'Confirm';
   cancelAction.innerText = 'Cancel';
+  dryRunAction.innerText = 'Dry Run';
 
   // set checkbox type & label
   checkbox.type = 'checkbox';
   checkboxLabel.innerText = "Don't show this message again";
   checkboxLabel.setAttribute('for', 'confirmModal-checkbox');
 
+  // set typed confirmation input & label
+  confirmTextInput.type = 'text';
+  confirmTextInput.autocomplete = 'off';
+  confirmTextLabel.innerText = `Type ${confirmText} to confirm`;
+  confirmTextLabel.setAttribute('for', 'confirmModal-confirmTextInput');
+
+  // confirmation text required currently (updated after the exact count)
+  let activeConfirmText = confirmText;
+
   // add class to elements
   modalContainer.id = 'freshInbox-confirmModal';
   backdrop.id = 'confirmModal-backdrop';
   modalCard.id = 'confirmModal-card';
   modalTitle.id = 'confirmModal-modalTitle';
   modalMessage.id = 'confirmModal-modalMessage';
+  modalNote.id = 'confirmModal-note';
+  exactCountBtn.id = 'confirmModal-exactCountBtn';
+  confirmTextLabel.id = 'confirmModal-confirmTextLabel';
+  confirmTextInput.id = 'confirmModal-confirmTextInput';
   checkboxWrapper.id = 'confirmModal-checkboxWrapper';
   checkbox.id = 'confirmModal-checkbox';
   buttonContainer.id = 'confirmModal-btnContainer';
   confirmAction.id = 'confirmModal-confirmActionBtn';
   cancelAction.id = 'confirmModal-cancelActionBtn';
+  dryRunAction.id = 'confirmModal-dryRunActionBtn';
 
   // add on click lister
   // backdrop click listener
@@ -99,20 +148,79 @@ const showConfirmModal = async ({ msg, email, onConfirmClick, isBulkDelete }: Sh
     await handleCheckboxUpdate(ev);
   });
 
+  // confirm button is enabled only after the confirmation text is typed
+  confirmAction.disabled = !!confirmText;
+
+  confirmTextInput.addEventListener('input', () => {
+    confirmAction.disabled = !!activeConfirmText && confirmTextInput.value.trim() !== activeConfirmText;
+  });
+
   confirmAction.addEventListener('click', async (ev: MouseEvent) => {
-    await handleConfirmActionBtnClick(ev, onConfirmClick);
+    await handleConfirmActionBtnClick(ev, async () => await onConfirmClick(!!activeConfirmText));
   });
 
   // disable btn
   cancelAction.addEventListener('click', handleCancelActionBtnClick);
 
+  if (onDryRunClick) {
+    dryRunAction.addEventListener('click', async (ev: MouseEvent) => {
+      await handleConfirmActionBtnClick(ev, onDryRunClick);
+    });
+  }
+
+  if (onExactCountClick) {
+    exactCountBtn.addEventListener('click', async (ev: MouseEvent) => {
+      ev.stopPropagation();
+
+      exactCountBtn.disabled = true;
+      exactCountBtn.innerText = 'Counting...';
+
+      const exactCountUpdate = await onExactCountClick();
+
+      if (exactCountUpdate) {
+        // update message, note & typed confirmation with the exact count
+        modalMessage.innerHTML = `${exactCountUpdate.msg} <br /> <strong>${email}</strong>`;
+        modalNote.innerText = exactCountUpdate.note || '';
+        exactCountBtn.replaceWith(...(exactCountUpdate.note && !modalNote.isConnected ? [modalNote] : []));
+
+        activeConfirmText = exactCountUpdate.confirmText;
+        confirmTextLabel.innerText = `Type ${activeConfirmText} to confirm`;
+        confirmTextInput.value = '';
+        confirmAction.disabled = !!activeConfirmText;
+
+        if (!activeConfirmText) {
+          confirmTextLabel.remove();
+          confirmTextInput.remove();
+        } else if (!confirmTextInput.isConnected) {
+          // shown above the checkbox & buttons
+          (checkboxWrapper.isConnected ? checkboxWrapper : buttonContainer).before(
+            confirmTextLabel,
+            confirmTextInput
+          );
+        }
+      } else {
+        // failed to count, let the user try again
+        exactCountBtn.disabled = false;
+        exactCountBtn.innerText = 'Get exact count';
+      }
+    });
+  }
+
   checkboxWrapper.append(checkbox, checkboxLabel);
 
-  buttonContainer.append(cancelAction, confirmAction);
+  buttonContainer.append(cancelAction, ...(onDryRunClick ? [dryRunAction] : []), confirmAction);
 
-  modalCard.append(modalTitle, modalMessage, checkboxWrapper, buttonContainer);
+  modalCard.append(
+    modalTitle,
+    modalMessage,
+    ...(onExactCountClick ? [exactCountBtn] : []),
+    ...(note ? [modalNote] : []),
+    ...(confirmText ? [confirmTextLabel, confirmTextInput] : []),
+    checkboxWrapper,
+    buttonContainer
+  );
 
-  if (isBulkDelete) {
+  if (isBulkDelete || confirmText) {
     // if bulk delete action, then no checkbox option to update user preference for showing the modal
     modalCard.removeChild(checkboxWrapper);
   }
@@ -0,0 +1,127 @@
+import type { DeleteRetention } from '../../types/content.types';
+import { parseDeleteRetention } from '../../utils/deleteRetention';
+
+const DeleteOptionsPopoverId = 'freshInbox-deleteOptionsPopover';
+
+// popover size (px), used to keep the popover inside the window
+const POPOVER_WIDTH = 260;
+const POPOVER_HEIGHT = 190;
+
+// number input row, ex: Keep latest [5] mails
+const createNumberInputRow = (id: string, label: string, unit: string, placeholder: string) => {
+  const row = document.createElement('div');
+  const inputLabel = document.createElement('label');
+  const input = document.createElement('input');
+  const unitLabel = document.createElement('span');
+
+  row.className = 'deleteOptions-row';
+  inputLabel.className = 'deleteOptions-inputLabel';
+  inputLabel.innerText = label;
+  inputLabel.setAttribute('for', id);
+  input.id = id;
+  input.type = 'number';
+  input.min = '1';
+  input.placeholder = placeholder;
+  unitLabel.innerText = unit;
+
+  row.append(inputLabel, input, unitLabel);
+
+  return { row, input };
+};
+
+export const hideDeleteOptionsPopover = () => {
+  document.getElementById(DeleteOptionsPopoverId)?.remove();
+};
+
+type ShowDeleteOptionsPopoverParams = {
+  // element the popover is shown below (delete action button)
+  anchorEl: HTMLElement;
+  // retention is undefined if no option is set (all the mails are deleted)
+  onDeleteClick: (retention?: DeleteRetention) => Promise<void>;
+};
+
+// show the delete all mails options: keep the latest mails, only delete the mails older than the days or unread
+// (shown on top of the app modal, so it can be used from the newsletter tab as well)
+export const showDeleteOptionsPopover = ({ anchorEl, onDeleteClick }: ShowDeleteOptionsPopoverParams) => {
+  // remove the previous popover if any
+  hideDeleteOptionsPopover();
+
+  // position of the anchor (anchor might be removed after the popover is shown, ex: hover card)
+  const anchorRect = anchorEl.getBoundingClientRect();
+
+  const popoverContainer = document.createElement('div');
+  const backdrop = document.createElement('div');
+  const popoverCard = document.createElement('div');
+  const title = document.createElement('p');
+  const keepLatest = createNumberInputRow('deleteOptions-keepLatestInput', 'Keep latest', 'mails', '0');
+  const olderThan = createNumberInputRow('deleteOptions-olderThanInput', 'Only older than', 'days', 'Any');
+  const unreadOnlyRow = document.createElement('div');
+  const unreadOnlyCheckbox = document.createElement('input');
+  const unreadOnlyLabel = document.createElement('label');
+  const buttonContainer = document.createElement('div');
+  const cancelBtn = document.createElement('button');
+  const deleteBtn = document.createElement('button');
+
+  popoverContainer.id = DeleteOptionsPopoverId;
+  backdrop.id = 'deleteOptions-backdrop';
+  popoverCard.id = 'deleteOptions-card';
+  title.id = 'deleteOptions-title';
+  unreadOnlyRow.className = 'deleteOptions-row';
+  unreadOnlyCheckbox.id = 'deleteOptions-unreadOnlyCheckbox';
+  buttonContainer.id = 'deleteOptions-btnContainer';
+  cancelBtn.id = 'deleteOptions-cancelBtn';
+  deleteBtn.id = 'deleteOptions-deleteBtn';
+
+  title.innerText = 'Delete options';
+  unreadOnlyCheckbox.type = 'checkbox';
+  unreadOnlyLabel.innerText = 'Only unread mails';
+  unreadOnlyLabel.setAttribute('for', unreadOnlyCheckbox.id);
+  cancelBtn.innerText = 'Cancel';
+  deleteBtn.innerText = 'Delete';
+
+  // shown above the anchor if there's no space below
+  popoverCard.style.top = `${
+    anchorRect.bottom + 6 + POPOVER_HEIGHT > window.innerHeight
+      ? Math.max(8, anchorRect.top - 6 - POPOVER_HEIGHT)
+      : anchorRect.bottom + 6
+  }px`;
+  popoverCard.style.left = `${Math.max(
+    8,
+    Math.min(anchorRect.left, window.innerWidth - POPOVER_WIDTH - 8)
+  )}px`;
+  popoverCard.style.width = `${POPOVER_WIDTH}px`;
+  popoverCard.style.height = `${POPOVER_HEIGHT}px`;
+
+  // clicks inside the popover are not sent to the gmail page
+  popoverCard.addEventListener('click', ev => {
+    ev.stopPropagation();
+  });
+
+  backdrop.addEventListener('click', (ev: MouseEvent) => {
+    ev.stopPropagation();
+    hideDeleteOptionsPopover();
+  });
+
+  cancelBtn.addEventListener('click', hideDeleteOptionsPopover);
+
+  deleteBtn.addEventListener('click', async () => {
+    const retention = parseDeleteRetention({
+      keepLatestInput: keepLatest.input.value,
+      olderThanDaysInput: olderThan.input.value,
+      isUnreadOnly: unreadOnlyCheckbox.checked,
+    });
+
+    hideDeleteOptionsPopover();
+
+    await onDeleteClick(retention);
+  });
+
+  unreadOnlyRow.append(unreadOnlyCheckbox, unreadOnlyLabel);
+  buttonContainer.append(cancelBtn, deleteBtn);
+  popoverCard.append(title, keepLatest.row, olderThan.row, unreadOnlyRow, buttonContainer);
+  popoverContainer.append(backdrop, popoverCard);
+
+  document.body.appendChild(popoverContainer);
+
+  keepLatest.input.focus();
+};
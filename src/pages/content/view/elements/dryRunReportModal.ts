@@ -0,0 +1,176 @@
+import { FILTER_ACTION, type DryRunReport, type UnsubscribeMethod } from '../../types/content.types';
+
+const DryRunReportModalId = 'freshInbox-dryRunReportModal';
+
+const actionLabels: Record<DryRunReport['action'], string> = {
+  deleteAllMails: 'Delete all mails',
+  unsubscribeAndDeleteAllMails: 'Unsubscribe & delete all mails',
+  bulkDelete: 'Bulk delete',
+};
+
+const unsubscribeMethodLabels: Record<UnsubscribeMethod, string> = {
+  'one-click': 'one-click unsubscribe',
+  mailto: 'unsubscribe email',
+  link: 'unsubscribe page (opened in a new tab)',
+  filter: 'added to the unsubscribe filter',
+};
+
+const filterLabels: Record<FILTER_ACTION, string> = {
+  [FILTER_ACTION.TRASH]: 'Unsubscribe filter',
+  [FILTER_ACTION.INBOX]: 'Whitelist filter',
+  [FILTER_ACTION.SKIP_INBOX]: 'Skip inbox filter',
+  [FILTER_ACTION.MARK_READ]: 'Mark read filter',
+  [FILTER_ACTION.MOVE_TO_LABEL]: 'Newsletters label filter',
+};
+
+// create element with text content (report data is from the mails, never set as html)
+const createTextElement = <K extends keyof HTMLElementTagNameMap>(
+  tagName: K,
+  text: string,
+  className = ''
+) => {
+  const element = document.createElement(tagName);
+  element.textContent = text;
+  if (className) element.className = className;
+  return element;
+};
+
+// report section with a title & list items
+const createSection = (title: string, items: HTMLElement[]) => {
+  const section = document.createElement('div');
+  const list = document.createElement('ul');
+
+  section.className = 'dryRunReport-section';
+  list.append(...items);
+  section.append(createTextElement('p', title, 'dryRunReport-sectionTitle'), list);
+
+  return section;
+};
+
+// criteria of the filter shards, each shard in a new line
+const createCriteriaElement = (label: string, criteria: string[]) => {
+  const wrapper = document.createElement('div');
+
+  wrapper.append(
+    createTextElement('span', label, 'dryRunReport-criteriaLabel'),
+    createTextElement('pre', criteria.length > 0 ? criteria.join('\n') : 'No filter', 'dryRunReport-criteria')
+  );
+
+  return wrapper;
+};
+
+const hideDryRunReportModal = () => {
+  document.getElementById(DryRunReportModalId)?.remove();
+};
+
+// show the dry run report (no changes were made)
+// mails, senders & filter changes the action would make
+export const showDryRunReportModal = (report: DryRunReport) => {
+  // remove the previous report if any
+  hideDryRunReportModal();
+
+  const modalContainer = document.createElement('div');
+  const backdrop = document.createElement('div');
+  const modalCard = document.createElement('div');
+  const content = document.createElement('div');
+  const closeBtn = createTextElement('button', 'Close');
+
+  modalContainer.id = DryRunReportModalId;
+  backdrop.id = 'dryRunReport-backdrop';
+  modalCard.id = 'dryRunReport-card';
+  content.id = 'dryRunReport-content';
+  closeBtn.id = 'dryRunReport-closeBtn';
+
+  // summary
+  content.append(
+    createTextElement('p', 'Dry Run Report', 'dryRunReport-title'),
+    createTextElement(
+      'p',
+      `No changes were made. ${
+        actionLabels[report.action]
+      } would move ${report.messageCount.toLocaleString()} ${
+        report.messageCount === 1 ? 'mail' : 'mails'
+      } to the trash.`,
+      'dryRunReport-summary'
+    )
+  );
+
+  // affected senders
+  if (report.senders.length > 0) {
+    content.append(
+      createSection(
+        report.sendersSampleCount
+          ? `Senders affected (approximate, from the latest ${report.sendersSampleCount.toLocaleString()} mails)`
+          : `Senders affected (${report.senders.length})`,
+        report.senders.map(sender =>
+          createTextElement(
+            'li',
+            `${sender.email} — ${sender.messageCount.toLocaleString()} mails${
+              sender.unsubscribeMethod ? `, ${unsubscribeMethodLabels[sender.unsubscribeMethod]}` : ''
+            }`
+          )
+        )
+      )
+    );
+  }
+
+  // filter criteria before & after
+  if (report.filterChanges.length > 0) {
+    content.append(
+      createSection(
+        'Filter changes',
+        report.filterChanges.map(filterChange => {
+          const item = document.createElement('li');
+          const isChanged = filterChange.criteriaBefore.join() !== filterChange.criteriaAfter.join();
+
+          item.append(
+            createTextElement(
+              'span',
+              `${filterLabels[filterChange.filterAction]}${isChanged ? '' : ' (no change)'}`,
+              'dryRunReport-filterLabel'
+            )
+          );
+
+          if (isChanged) {
+            item.append(
+              createCriteriaElement('Before', filterChange.criteriaBefore),
+              createCriteriaElement('After', filterChange.criteriaAfter)
+            );
+          }
+
+          return item;
+        })
+      )
+    );
+  }
+
+  // latest mails that would be trashed
+  if (report.messages.length > 0) {
+    content.append(
+      createSection(
+        report.messages.length < report.messageCount
+          ? `Mails that would be trashed (latest ${report.messages.length})`
+          : 'Mails that would be trashed',
+        report.messages.map(message =>
+          createTextElement(
+            'li',
+            `${new Date(message.receivedAt).toLocaleDateString()} · ${message.name || message.email} · ${
+              message.subject || '(no subject)'
+            }`
+          )
+        )
+      )
+    );
+  }
+
+  backdrop.addEventListener('click', hideDryRunReportModal);
+  closeBtn.addEventListener('click', (ev: MouseEvent) => {
+    ev.stopPropagation();
+    hideDryRunReportModal();
+  });
+
+  modalCard.append(content, closeBtn);
+  modalContainer.append(backdrop, modalCard);
+
+  document.body.appendChild(modalContainer);
+};
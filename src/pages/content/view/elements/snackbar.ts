@@ -6,6 +6,8 @@ import { getLoadingSpinner } from './loadingSpinner';
 type ShowLoadingSnackbarParams = {
   title: string;
   emails: string[];
+  // shows a progress bar & cancel button (background jobs)
+  onCancel?: () => Promise<void>;
 };
 
 const successIconSvg =
@@ -18,7 +20,7 @@ const LoadingSnackbarId = 'freshInbox-loadingSnackbar';
 
 // loading snackbar
 // show
-const showLoadingSnackbar = ({ title, emails }: ShowLoadingSnackbarParams) => {
+const showLoadingSnackbar = ({ title, emails, onCancel }: ShowLoadingSnackbarParams) => {
   // remove previous loading snackbar if any
   const previousSnackbar = document.getElementById(LoadingSnackbarId);
 
@@ -45,9 +47,58 @@ const showLoadingSnackbar = ({ title, emails }: ShowLoadingSnackbarParams) => {
   // append elements
   container.append(label, spinner);
 
+  if (onCancel) {
+    container.classList.add('with-progress');
+
+    // progress bar & progress text (updated with the job progress)
+    const progress = document.createElement('div');
+    progress.classList.add('snackbar-progress');
+    progress.innerHTML = `<div class='snackbar-progress-track'><div class='snackbar-progress-bar'></div></div><p class='snackbar-progress-label'>Starting...</p>`;
+
+    label.appendChild(progress);
+
+    // cancel button
+    const cancelBtn = document.createElement('button');
+
+    cancelBtn.classList.add('snackbar-cancel');
+    cancelBtn.innerText = 'Cancel';
+
+    cancelBtn.addEventListener(
+      'click',
+      asyncHandler(async () => {
+        // cancel can be clicked only once, the job is stopped after its current step
+        cancelBtn.disabled = true;
+        cancelBtn.innerText = 'Cancelling...';
+        await onCancel();
+      })
+    );
+
+    container.appendChild(cancelBtn);
+  }
+
   document.body.appendChild(container);
 };
 
+type UpdateLoadingSnackbarProgressParams = {
+  // ex: Deleted 1,500 of 12,340
+  label: string;
+  // null if the total is not known (indeterminate progress)
+  percent: number | null;
+};
+
+// update progress of the loading snackbar (shown with the cancel button)
+const updateLoadingSnackbarProgress = ({ label, percent }: UpdateLoadingSnackbarProgressParams) => {
+  const container = document.getElementById(LoadingSnackbarId);
+  if (!container) return;
+
+  const progressBar = container.querySelector<HTMLElement>('.snackbar-progress-bar');
+  const progressLabel = container.querySelector<HTMLElement>('.snackbar-progress-label');
+
+  if (progressBar) progressBar.style.width = `${percent ?? 100}%`;
+  if (progressBar) progressBar.classList.toggle('indeterminate', percent === null);
+  if (progressLabel) progressLabel.innerText = label;
+};
+
 // hide
 const hideLoadingSnackbar = () => {
   // find container element
@@ -64,6 +115,11 @@ const hideLoadingSnackbar = () => {
 type SuccessSnackbarParams = {
   title: string;
   emails: string[];
+  // action button (ex: Undo), snackbar is shown for longer if present
+  action?: {
+    label: string;
+    onClick: () => Promise<void>;
+  };
 };
 
 type ErrorSnackbarParams = {
@@ -122,17 +178,37 @@ const showSnackbar = <IsError>(params: SnackbarParams<IsError>) => {
   // append elements
   container.appendChild(label);
 
+  // add action button
+  if ('action' in params && params.action) {
+    const { action } = params;
+    const actionBtn = document.createElement('button');
+
+    actionBtn.classList.add('snackbar-action');
+    actionBtn.innerText = action.label;
+
+    actionBtn.addEventListener(
+      'click',
+      asyncHandler(async () => {
+        // action can be clicked only once
+        container.remove();
+        await action.onClick();
+      })
+    );
+
+    container.appendChild(actionBtn);
+  }
+
   document.body.appendChild(container);
 
-  // remove snackbar after 3.5s
+  // remove snackbar after 3.5s (8s if it has an action button, to give time to click it)
   setTimeout(
     asyncHandler(async () => {
       container.classList.remove('show');
       await wait(500);
       container.remove();
     }),
-    3500
+    'action' in params && params.action ? 8000 : 3500
   );
 };
 
-export { showLoadingSnackbar, hideLoadingSnackbar, showSnackbar };
+export { showLoadingSnackbar, updateLoadingSnackbarProgress, hideLoadingSnackbar, showSnackbar };